@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "categorization_rules" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "merchantContains" TEXT,
+    "merchantRegex" TEXT,
+    "minAmount" DECIMAL(12,2),
+    "maxAmount" DECIMAL(12,2),
+    "daysOfWeek" INTEGER[],
+    "accountIds" TEXT[],
+    "zone" "TrafficLightZone" NOT NULL,
+    "category" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "categorization_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "categorization_rules_userId_priority_idx" ON "categorization_rules"("userId", "priority");
+
+-- AddForeignKey
+ALTER TABLE "categorization_rules" ADD CONSTRAINT "categorization_rules_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
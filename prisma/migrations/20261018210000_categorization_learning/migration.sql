@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "user_categorizations" ADD COLUMN     "aiSource" TEXT;
+
+-- CreateTable
+CREATE TABLE "learned_merchant_zones" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "merchantKey" TEXT NOT NULL,
+    "zone" "TrafficLightZone" NOT NULL,
+    "timesConfirmed" INTEGER NOT NULL DEFAULT 1,
+    "totalChoices" INTEGER NOT NULL DEFAULT 1,
+    "lastChosenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "learned_merchant_zones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "learned_merchant_zones_userId_merchantKey_key" ON "learned_merchant_zones"("userId", "merchantKey");
+
+-- AddForeignKey
+ALTER TABLE "learned_merchant_zones" ADD CONSTRAINT "learned_merchant_zones_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "user_preferences" ADD COLUMN     "autoFileThreshold" DOUBLE PRECISION NOT NULL DEFAULT 0.9;
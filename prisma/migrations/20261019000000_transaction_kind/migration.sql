@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "TransactionKind" AS ENUM ('DEBIT', 'CREDIT', 'REFUND', 'TRANSFER');
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "kind" "TransactionKind" NOT NULL DEFAULT 'DEBIT';
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "TransferPairStatus" AS ENUM ('SUGGESTED', 'CONFIRMED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "inflow" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "plaidAccountId" TEXT;
+
+-- CreateTable
+CREATE TABLE "transfer_pairs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "outflowId" TEXT NOT NULL,
+    "inflowId" TEXT NOT NULL,
+    "status" "TransferPairStatus" NOT NULL DEFAULT 'SUGGESTED',
+    "matchedBy" TEXT NOT NULL,
+    "outflowKind" "TransactionKind" NOT NULL,
+    "inflowKind" "TransactionKind" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "transfer_pairs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transfer_pairs_outflowId_key" ON "transfer_pairs"("outflowId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transfer_pairs_inflowId_key" ON "transfer_pairs"("inflowId");
+
+-- CreateIndex
+CREATE INDEX "transfer_pairs_userId_status_idx" ON "transfer_pairs"("userId", "status");
+
+-- AddForeignKey
+ALTER TABLE "transfer_pairs" ADD CONSTRAINT "transfer_pairs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transfer_pairs" ADD CONSTRAINT "transfer_pairs_outflowId_fkey" FOREIGN KEY ("outflowId") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transfer_pairs" ADD CONSTRAINT "transfer_pairs_inflowId_fkey" FOREIGN KEY ("inflowId") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "pendingExternalId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "transactions_userId_pendingExternalId_idx" ON "transactions"("userId", "pendingExternalId");
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN     "accountId" TEXT;
+
+-- CreateTable
+CREATE TABLE "financial_accounts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "plaidConnectionId" TEXT NOT NULL,
+    "plaidAccountId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "officialName" TEXT,
+    "mask" TEXT,
+    "type" TEXT NOT NULL,
+    "subtype" TEXT,
+    "currentBalance" DECIMAL(12,2),
+    "availableBalance" DECIMAL(12,2),
+    "creditLimit" DECIMAL(12,2),
+    "isoCurrencyCode" TEXT,
+    "balanceUpdatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "financial_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "financial_accounts_plaidAccountId_key" ON "financial_accounts"("plaidAccountId");
+
+-- CreateIndex
+CREATE INDEX "financial_accounts_userId_idx" ON "financial_accounts"("userId");
+
+-- CreateIndex
+CREATE INDEX "financial_accounts_plaidConnectionId_idx" ON "financial_accounts"("plaidConnectionId");
+
+-- CreateIndex
+CREATE INDEX "transactions_accountId_idx" ON "transactions"("accountId");
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "financial_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "financial_accounts" ADD CONSTRAINT "financial_accounts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "financial_accounts" ADD CONSTRAINT "financial_accounts_plaidConnectionId_fkey" FOREIGN KEY ("plaidConnectionId") REFERENCES "plaid_connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "AssetType" AS ENUM ('CASH', 'PROPERTY', 'VEHICLE', 'INVESTMENT', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "manual_assets" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "AssetType" NOT NULL DEFAULT 'OTHER',
+    "value" DECIMAL(12,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "manual_assets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "net_worth_snapshots" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "totalAssets" DECIMAL(12,2) NOT NULL,
+    "totalLiabilities" DECIMAL(12,2) NOT NULL,
+    "netWorth" DECIMAL(12,2) NOT NULL,
+    "breakdown" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "net_worth_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "manual_assets_userId_idx" ON "manual_assets"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "net_worth_snapshots_userId_date_key" ON "net_worth_snapshots"("userId", "date");
+
+-- AddForeignKey
+ALTER TABLE "manual_assets" ADD CONSTRAINT "manual_assets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "net_worth_snapshots" ADD CONSTRAINT "net_worth_snapshots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "debts" ADD COLUMN     "accountId" TEXT,
+ADD COLUMN     "liabilityType" TEXT,
+ADD COLUMN     "syncedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "financial_accounts" ADD COLUMN     "trackAsDebt" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "debts_accountId_key" ON "debts"("accountId");
+
+-- AddForeignKey
+ALTER TABLE "debts" ADD CONSTRAINT "debts_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "financial_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "DebtPaymentSource" AS ENUM ('MANUAL', 'TRANSACTION');
+
+-- CreateTable
+CREATE TABLE "debt_payments" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "debtId" TEXT NOT NULL,
+    "transactionId" TEXT,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "principal" DECIMAL(12,2) NOT NULL,
+    "interest" DECIMAL(12,2) NOT NULL,
+    "balanceAfter" DECIMAL(12,2) NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "source" "DebtPaymentSource" NOT NULL DEFAULT 'MANUAL',
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "debt_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "debt_payments_transactionId_key" ON "debt_payments"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "debt_payments_debtId_date_idx" ON "debt_payments"("debtId", "date");
+
+-- CreateIndex
+CREATE INDEX "debt_payments_userId_date_idx" ON "debt_payments"("userId", "date");
+
+-- AddForeignKey
+ALTER TABLE "debt_payments" ADD CONSTRAINT "debt_payments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "debt_payments" ADD CONSTRAINT "debt_payments_debtId_fkey" FOREIGN KEY ("debtId") REFERENCES "debts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "debt_payments" ADD CONSTRAINT "debt_payments_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
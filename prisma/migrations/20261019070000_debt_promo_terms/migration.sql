@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "debts" ADD COLUMN     "minimumPaymentPercent" DECIMAL(5,4),
+ADD COLUMN     "promoEndDate" TIMESTAMP(3),
+ADD COLUMN     "promoRate" DECIMAL(5,4),
+ADD COLUMN     "transferFee" DECIMAL(12,2);
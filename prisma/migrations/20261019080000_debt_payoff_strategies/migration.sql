@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "DebtPayoffStrategy" ADD VALUE 'CASH_FLOW_INDEX';
+ALTER TYPE "DebtPayoffStrategy" ADD VALUE 'HYBRID';
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "SavingsContributionSource" AS ENUM ('MANUAL', 'TRANSACTION');
+
+-- CreateEnum
+CREATE TYPE "SavingsMatchStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DISMISSED');
+
+-- AlterTable
+ALTER TABLE "savings_goals" ADD COLUMN     "accountId" TEXT,
+ADD COLUMN     "linkedAt" TIMESTAMP(3),
+ADD COLUMN     "transferPattern" TEXT;
+
+-- AlterTable
+ALTER TABLE "savings_contributions" ADD COLUMN     "source" "SavingsContributionSource" NOT NULL DEFAULT 'MANUAL',
+ADD COLUMN     "transactionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "savings_matches" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "goalIds" TEXT[],
+    "amount" DECIMAL(12,2) NOT NULL,
+    "status" "SavingsMatchStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "savings_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "savings_goals_accountId_idx" ON "savings_goals"("accountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "savings_contributions_transactionId_key" ON "savings_contributions"("transactionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "savings_matches_transactionId_key" ON "savings_matches"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "savings_matches_userId_status_idx" ON "savings_matches"("userId", "status");
+
+-- AddForeignKey
+ALTER TABLE "savings_goals" ADD CONSTRAINT "savings_goals_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "financial_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "savings_contributions" ADD CONSTRAINT "savings_contributions_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "savings_matches" ADD CONSTRAINT "savings_matches_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "savings_matches" ADD CONSTRAINT "savings_matches_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "CompoundingFrequency" AS ENUM ('DAILY', 'MONTHLY', 'QUARTERLY', 'ANNUALLY');
+
+-- AlterTable
+ALTER TABLE "savings_goals" ADD COLUMN     "compounding" "CompoundingFrequency" NOT NULL DEFAULT 'MONTHLY',
+ADD COLUMN     "expectedReturn" DECIMAL(6,4),
+ADD COLUMN     "inflationRate" DECIMAL(6,4);
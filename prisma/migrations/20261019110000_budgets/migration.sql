@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "budgets" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "zone" "TrafficLightZone",
+    "category" TEXT,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "rollover" BOOLEAN NOT NULL DEFAULT true,
+    "carryover" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "startMonth" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "budgets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "budgets_userId_idx" ON "budgets"("userId");
+
+-- AddForeignKey
+ALTER TABLE "budgets" ADD CONSTRAINT "budgets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
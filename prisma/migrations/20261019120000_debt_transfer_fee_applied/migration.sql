@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "debts" ADD COLUMN     "transferFeeAppliedAt" TIMESTAMP(3);
+
+-- Fold existing transfer fees into their balances once
+UPDATE "debts"
+SET "balance" = "balance" + "transferFee", "transferFeeAppliedAt" = CURRENT_TIMESTAMP
+WHERE "transferFee" > 0 AND "isPaidOff" = false;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "plaid_connections" ADD COLUMN     "webhookUrl" TEXT;
@@ -0,0 +1,20 @@
+// SpendSignal push service worker
+// Shows alert notifications sent through the Web Push channel
+
+self.addEventListener('push', (event) => {
+  const payload = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'SpendSignal', {
+      body: payload.body || '',
+      icon: '/favicon.ico',
+      tag: payload.notificationId,
+      data: { url: payload.url || '/dashboard/alerts' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(self.clients.openWindow(event.notification.data.url));
+});
@@ -0,0 +1,36 @@
+// Rotate Plaid access token encryption
+// Re-wraps every stored token under PLAID_TOKEN_KEY_VERSION and encrypts any legacy plaintext ones.
+// Add the new key to PLAID_TOKEN_KEYS (keeping the old one), bump PLAID_TOKEN_KEY_VERSION, then run:
+//   npm run plaid:rotate-tokens
+// The old key can be removed once this reports nothing left to rotate.
+
+import { prisma } from '@/lib/db/prisma';
+import { rotateAccessToken } from '@/lib/plaid/token-crypto';
+
+async function main() {
+  const connections = await prisma.plaidConnection.findMany({
+    select: { id: true, accessToken: true },
+  });
+
+  let rotated = 0;
+  for (const connection of connections) {
+    const accessToken = rotateAccessToken(connection.accessToken);
+    if (!accessToken) continue;
+
+    // Skip rows whose token changed mid-run (e.g. the user reconnected the bank)
+    const result = await prisma.plaidConnection.updateMany({
+      where: { id: connection.id, accessToken: connection.accessToken },
+      data: { accessToken },
+    });
+    rotated += result.count;
+  }
+
+  console.log(`Rotated ${rotated} of ${connections.length} Plaid access tokens`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Plaid token rotation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,42 @@
+// Account Balance Refresh API
+// Pulls live balances from Plaid's balance endpoint for every active connection
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { getPlaidErrorCode } from '@/lib/plaid/client';
+import { listAccounts, refreshAccounts } from '@/lib/plaid/accounts';
+
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const connections = await prisma.plaidConnection.findMany({
+      where: { userId: session.user.id, isActive: true },
+    });
+
+    // One failing institution shouldn't hide the others' balances
+    const failed: Array<{ connectionId: string; error: string }> = [];
+    for (const connection of connections) {
+      try {
+        await refreshAccounts(connection, { realtime: true });
+      } catch (error) {
+        console.error(`Balance refresh failed for connection ${connection.id}:`, error);
+        failed.push({ connectionId: connection.id, error: getPlaidErrorCode(error) ?? 'REFRESH_FAILED' });
+      }
+    }
+
+    const accounts = await listAccounts(session.user.id);
+
+    return NextResponse.json({ accounts, failed });
+  } catch (error) {
+    console.error('Refresh accounts error:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh balances' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+// Accounts API
+// Lists the user's linked accounts with their latest balances
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { listAccounts } from '@/lib/plaid/accounts';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const accounts = await listAccounts(session.user.id);
+
+    return NextResponse.json({ accounts });
+  } catch (error) {
+    console.error('Get accounts error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch accounts' },
+      { status: 500 }
+    );
+  }
+}
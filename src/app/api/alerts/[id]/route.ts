@@ -0,0 +1,91 @@
+// Single Alert API
+// Updates (including enabling and disabling) and deletes an alert owned by the authenticated user
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { UpdateAlertSchema, serializeAlert } from '@/lib/alerts/schemas';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const updates = UpdateAlertSchema.parse(body);
+
+    // Verify alert belongs to user
+    const existing = await prisma.alert.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+    }
+
+    if (updates.config?.budgetId) {
+      const budget = await prisma.budget.findFirst({
+        where: { id: updates.config.budgetId, userId: session.user.id },
+        select: { id: true },
+      });
+      if (!budget) {
+        return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+      }
+    }
+
+    const alert = await prisma.alert.update({
+      where: { id },
+      data: updates,
+    });
+
+    return NextResponse.json({ alert: serializeAlert(alert) });
+  } catch (error) {
+    console.error('Update alert error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid alert data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update alert' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await prisma.alert.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete alert error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete alert' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+// Alert Notifications API
+// The in-app inbox: notifications the evaluator recorded, marking them read, and clearing them
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { MarkNotificationsReadSchema, serializeAlertNotification } from '@/lib/alerts/schemas';
+
+// Matches what the inbox keeps in demo mode
+const MAX_NOTIFICATIONS = 50;
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const notifications = await prisma.alertNotification.findMany({
+      where: { alert: { userId: session.user.id } },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_NOTIFICATIONS,
+    });
+
+    return NextResponse.json({ notifications: notifications.map(serializeAlertNotification) });
+  } catch (error) {
+    console.error('Fetch notifications error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { ids } = MarkNotificationsReadSchema.parse(body);
+
+    const result = await prisma.alertNotification.updateMany({
+      where: {
+        alert: { userId: session.user.id },
+        isRead: false,
+        ...(ids ? { id: { in: ids } } : {}),
+      },
+      data: { isRead: true, readAt: new Date() },
+    });
+
+    return NextResponse.json({ updated: result.count });
+  } catch (error) {
+    console.error('Mark notifications read error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid notification data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update notifications' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await prisma.alertNotification.deleteMany({
+      where: { alert: { userId: session.user.id } },
+    });
+
+    return NextResponse.json({ deleted: result.count });
+  } catch (error) {
+    console.error('Clear notifications error:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear notifications' },
+      { status: 500 }
+    );
+  }
+}
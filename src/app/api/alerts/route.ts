@@ -0,0 +1,79 @@
+// Alerts API
+// Lists and creates the alert rules the server evaluates after each sync and import
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { CreateAlertSchema, serializeAlert } from '@/lib/alerts/schemas';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const alerts = await prisma.alert.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ alerts: alerts.map(serializeAlert) });
+  } catch (error) {
+    console.error('Fetch alerts error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch alerts' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const data = CreateAlertSchema.parse(body);
+
+    // A budget alert has to watch one of the user's own budgets
+    if (data.config.budgetId) {
+      const budget = await prisma.budget.findFirst({
+        where: { id: data.config.budgetId, userId: session.user.id },
+        select: { id: true },
+      });
+      if (!budget) {
+        return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+      }
+    }
+
+    const alert = await prisma.alert.create({
+      data: {
+        userId: session.user.id,
+        type: data.type,
+        name: data.name,
+        config: data.config,
+        channels: data.channels ?? ['IN_APP'],
+      },
+    });
+
+    return NextResponse.json({ alert: serializeAlert(alert) }, { status: 201 });
+  } catch (error) {
+    console.error('Create alert error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid alert data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create alert' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+// Single Budget API
+// Updates and deletes a budget owned by the authenticated user
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { UpdateBudgetSchema } from '@/lib/budgets/schemas';
+import { getBudgetStatus, rebaseBudget } from '@/lib/budgets/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const updates = UpdateBudgetSchema.parse(body);
+
+    const existing = await prisma.budget.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+    }
+
+    // Lock in what rolled over under the old settings before they change
+    const changed =
+      (updates.amount !== undefined && updates.amount !== existing.amount.toNumber()) ||
+      (updates.rollover !== undefined && updates.rollover !== existing.rollover);
+    const rebase = changed ? await rebaseBudget(session.user.id, existing) : {};
+
+    const budget = await prisma.budget.update({
+      where: { id },
+      data: { ...updates, ...rebase },
+    });
+
+    return NextResponse.json({ budget: await getBudgetStatus(session.user.id, budget) });
+  } catch (error) {
+    console.error('Update budget error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid budget data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update budget' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await prisma.budget.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete budget error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete budget' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+// Budgets API
+// Lists budgets with this month's remaining-to-spend and creates new ones
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { CreateBudgetSchema } from '@/lib/budgets/schemas';
+import { getBudgetStatus, getBudgetStatuses } from '@/lib/budgets/server';
+import { getBudgetLabel, getMonthStart } from '@/lib/services/budget-calculator';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const budgets = await getBudgetStatuses(session.user.id);
+
+    return NextResponse.json({ budgets });
+  } catch (error) {
+    console.error('Fetch budgets error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch budgets' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const data = CreateBudgetSchema.parse(body);
+    const target = { zone: data.zone ?? null, category: data.category ?? null };
+
+    const existing = await prisma.budget.findFirst({
+      where: { userId: session.user.id, ...target },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: `You already have a ${getBudgetLabel(target)} budget` },
+        { status: 409 }
+      );
+    }
+
+    // Rollover starts from the month the budget is created
+    const budget = await prisma.budget.create({
+      data: {
+        userId: session.user.id,
+        ...target,
+        amount: data.amount,
+        rollover: data.rollover ?? true,
+        startMonth: getMonthStart(),
+      },
+    });
+
+    return NextResponse.json(
+      { budget: await getBudgetStatus(session.user.id, budget) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create budget error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid budget data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create budget' },
+      { status: 500 }
+    );
+  }
+}
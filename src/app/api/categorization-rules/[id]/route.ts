@@ -0,0 +1,94 @@
+// Single Categorization Rule API
+// Updates and deletes a rule owned by the authenticated user
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import {
+  UpdateCategorizationRuleSchema,
+  serializeCategorizationRule,
+} from '@/lib/categorization-rules/schemas';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const updates = UpdateCategorizationRuleSchema.parse(body);
+
+    // Verify rule belongs to user
+    const existing = await prisma.categorizationRule.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    // Re-check the amount range against the stored values
+    const minAmount = updates.minAmount !== undefined ? updates.minAmount : existing.minAmount?.toNumber();
+    const maxAmount = updates.maxAmount !== undefined ? updates.maxAmount : existing.maxAmount?.toNumber();
+    if (minAmount != null && maxAmount != null && minAmount > maxAmount) {
+      return NextResponse.json(
+        { error: 'minAmount must not exceed maxAmount' },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.categorizationRule.update({
+      where: { id },
+      data: updates,
+    });
+
+    return NextResponse.json({ rule: serializeCategorizationRule(rule) });
+  } catch (error) {
+    console.error('Update categorization rule error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid rule data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update categorization rule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await prisma.categorizationRule.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete categorization rule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete categorization rule' },
+      { status: 500 }
+    );
+  }
+}
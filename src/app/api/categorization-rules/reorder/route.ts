@@ -0,0 +1,61 @@
+// Categorization Rule Reorder API
+// Rewrites rule priorities to match the order given by the client
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import {
+  ReorderCategorizationRulesSchema,
+  serializeCategorizationRule,
+} from '@/lib/categorization-rules/schemas';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { ruleIds } = ReorderCategorizationRulesSchema.parse(body);
+
+    const owned = await prisma.categorizationRule.count({
+      where: { id: { in: ruleIds }, userId: session.user.id },
+    });
+
+    if (owned !== new Set(ruleIds).size) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    await prisma.$transaction(
+      ruleIds.map((id, index) =>
+        prisma.categorizationRule.update({
+          where: { id },
+          data: { priority: index },
+        })
+      )
+    );
+
+    const rules = await prisma.categorizationRule.findMany({
+      where: { userId: session.user.id },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json({ rules: rules.map(serializeCategorizationRule) });
+  } catch (error) {
+    console.error('Reorder categorization rules error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid rule order', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to reorder categorization rules' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+// Categorization Rules API
+// Lists and creates user-defined categorization rules
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import {
+  CreateCategorizationRuleSchema,
+  serializeCategorizationRule,
+} from '@/lib/categorization-rules/schemas';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rules = await prisma.categorizationRule.findMany({
+      where: { userId: session.user.id },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json({ rules: rules.map(serializeCategorizationRule) });
+  } catch (error) {
+    console.error('Fetch categorization rules error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch categorization rules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const data = CreateCategorizationRuleSchema.parse(body);
+
+    // New rules go to the end of the list unless a priority is given
+    let priority = data.priority;
+    if (priority === undefined) {
+      const last = await prisma.categorizationRule.findFirst({
+        where: { userId: session.user.id },
+        orderBy: { priority: 'desc' },
+        select: { priority: true },
+      });
+      priority = last ? last.priority + 1 : 0;
+    }
+
+    const rule = await prisma.categorizationRule.create({
+      data: {
+        userId: session.user.id,
+        name: data.name,
+        priority,
+        isEnabled: data.isEnabled ?? true,
+        merchantContains: data.merchantContains ?? null,
+        merchantRegex: data.merchantRegex ?? null,
+        minAmount: data.minAmount ?? null,
+        maxAmount: data.maxAmount ?? null,
+        daysOfWeek: data.daysOfWeek ?? [],
+        accountIds: data.accountIds ?? [],
+        zone: data.zone,
+        category: data.category ?? null,
+      },
+    });
+
+    return NextResponse.json({ rule: serializeCategorizationRule(rule) }, { status: 201 });
+  } catch (error) {
+    console.error('Create categorization rule error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid rule data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create categorization rule' },
+      { status: 500 }
+    );
+  }
+}
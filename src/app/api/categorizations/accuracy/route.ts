@@ -0,0 +1,25 @@
+// Categorization Accuracy API
+// Reports how often suggestions were overridden, per zone and per source
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { getCategorizationAccuracy } from '@/lib/categorization-learning/server';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const accuracy = await getCategorizationAccuracy(session.user.id);
+
+    return NextResponse.json({ accuracy });
+  } catch (error) {
+    console.error('Fetch categorization accuracy error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch categorization accuracy' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+// Learned Merchants API
+// Lists and forgets the zones learned from the user's own categorizations
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { forgetLearnedMerchant, listLearnedMerchants } from '@/lib/categorization-learning/server';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const merchants = await listLearnedMerchants(session.user.id);
+
+    return NextResponse.json({ merchants });
+  } catch (error) {
+    console.error('Fetch learned merchants error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch learned merchants' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const merchantKey = request.nextUrl.searchParams.get('merchantKey');
+    if (!merchantKey) {
+      return NextResponse.json(
+        { error: 'merchantKey is required' },
+        { status: 400 }
+      );
+    }
+
+    const removed = await forgetLearnedMerchant(session.user.id, merchantKey);
+    if (!removed) {
+      return NextResponse.json({ error: 'Merchant not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Forget learned merchant error:', error);
+    return NextResponse.json(
+      { error: 'Failed to forget merchant' },
+      { status: 500 }
+    );
+  }
+}
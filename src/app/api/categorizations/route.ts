@@ -4,6 +4,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth/auth';
 import { prisma } from '@/lib/db/prisma';
+import { autoCategorize } from '@/lib/services/auto-categorize';
+import { loadUserCategorizationRules } from '@/lib/categorization-rules/server';
+import { loadLearnedMerchants, recordMerchantChoice } from '@/lib/categorization-learning/server';
+import type { TrafficLightZone } from '@/constants/traffic-light';
 
 export async function GET() {
   try {
@@ -23,10 +27,23 @@ export async function GET() {
         note: true,
         createdAt: true,
         updatedAt: true,
+        transaction: {
+          select: {
+            splits: {
+              select: { amount: true, zone: true, category: true, note: true },
+              orderBy: { sortOrder: 'asc' },
+            },
+          },
+        },
       },
     });
 
-    return NextResponse.json({ categorizations });
+    return NextResponse.json({
+      categorizations: categorizations.map(({ transaction, ...c }) => ({
+        ...c,
+        splits: transaction.splits.map((s) => ({ ...s, amount: s.amount.toNumber() })),
+      })),
+    });
   } catch (error) {
     console.error('Fetch categorizations error:', error);
     return NextResponse.json(
@@ -75,6 +92,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const existing = await prisma.userCategorization.findUnique({
+      where: { transactionId },
+    });
+
+    // Keep the suggestion that was on screen; if none was stored, reconstruct it
+    // from what the user had taught us before this choice
+    let suggestion: {
+      aiSuggestedZone: TrafficLightZone;
+      aiConfidence: number;
+      aiReasoning: string;
+      aiSource: string;
+    } | null = null;
+    if (!existing?.aiSuggestedZone && zone !== 'UNCATEGORIZED') {
+      const [rules, learned] = await Promise.all([
+        loadUserCategorizationRules(session.user.id),
+        loadLearnedMerchants(session.user.id),
+      ]);
+      const result = autoCategorize(
+        transaction.merchantName || '',
+        transaction.description,
+        transaction.amount.toNumber(),
+        { rules, learned, date: transaction.date }
+      );
+      suggestion = {
+        aiSuggestedZone: result.zone,
+        aiConfidence: result.confidence,
+        aiReasoning: result.reasoning,
+        aiSource: result.source,
+      };
+    }
+
+    const suggestedZone = existing?.aiSuggestedZone ?? suggestion?.aiSuggestedZone ?? null;
+    const userOverrodeAI = zone !== 'UNCATEGORIZED' && suggestedZone !== null && suggestedZone !== zone;
+
+    // Filing the whole transaction into one zone replaces any earlier split
+    await prisma.transactionSplit.deleteMany({ where: { transactionId } });
+
     // Upsert categorization
     const categorization = await prisma.userCategorization.upsert({
       where: {
@@ -83,6 +137,8 @@ export async function POST(request: NextRequest) {
       update: {
         zone,
         note: note || null,
+        userOverrodeAI,
+        ...suggestion,
         updatedAt: new Date(),
       },
       create: {
@@ -90,9 +146,20 @@ export async function POST(request: NextRequest) {
         transactionId,
         zone,
         note: note || null,
+        userOverrodeAI,
+        ...suggestion,
       },
     });
 
+    // Learn from deliberate moves only - re-dropping into the same zone teaches nothing new
+    if (existing?.zone !== zone) {
+      await recordMerchantChoice(
+        session.user.id,
+        transaction.merchantName || transaction.description,
+        zone
+      ).catch((e) => console.error('Failed to record merchant choice:', e));
+    }
+
     return NextResponse.json({ categorization });
   } catch (error) {
     console.error('Create categorization error:', error);
@@ -0,0 +1,31 @@
+// Notification Retry Cron
+// Re-attempts failed alert deliveries on the schedule in vercel.json
+
+import { NextRequest, NextResponse } from 'next/server';
+import { retryFailedDeliveries } from '@/lib/notifications/dispatcher';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('CRON_SECRET not set');
+    return NextResponse.json({ error: 'Cron not configured' }, { status: 500 });
+  }
+
+  // Vercel Cron sends the secret as a bearer token
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const retried = await retryFailedDeliveries();
+    return NextResponse.json({ retried });
+  } catch (error) {
+    console.error('Retry notifications error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry notifications' },
+      { status: 500 }
+    );
+  }
+}
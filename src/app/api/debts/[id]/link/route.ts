@@ -0,0 +1,85 @@
+// Debt Account Link API
+// Links a debt to the credit card or loan account it syncs from, or unlinks it (Advisor tier)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { LinkDebtSchema } from '@/lib/debts/schemas';
+import { linkDebtToAccount, unlinkDebt } from '@/lib/debts/server';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+import { hasFeatureAccess } from '@/lib/subscriptions/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasDebtPlanner'))) {
+      return NextResponse.json({ error: 'The debt planner is part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { accountId } = LinkDebtSchema.parse(body);
+
+    const debt = await linkDebtToAccount(session.user.id, id, accountId);
+
+    if (!debt) {
+      return NextResponse.json({ error: 'Debt or credit account not found' }, { status: 404 });
+    }
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json({ debt });
+  } catch (error) {
+    console.error('Link debt error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid link data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to link debt' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasDebtPlanner'))) {
+      return NextResponse.json({ error: 'The debt planner is part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const debt = await unlinkDebt(session.user.id, id);
+
+    if (!debt) {
+      return NextResponse.json({ error: 'Debt not found' }, { status: 404 });
+    }
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json({ debt });
+  } catch (error) {
+    console.error('Unlink debt error:', error);
+    return NextResponse.json(
+      { error: 'Failed to unlink debt' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+// Debt Payments API
+// Lists a debt's recorded payments and records a new one, by hand or from a transaction (Advisor tier)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { CreateDebtPaymentSchema } from '@/lib/debts/schemas';
+import { listDebtPayments, recordDebtPayment } from '@/lib/debts/payments';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+import { hasFeatureAccess } from '@/lib/subscriptions/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasDebtPlanner'))) {
+      return NextResponse.json({ error: 'The debt planner is part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const payments = await listDebtPayments(session.user.id, id);
+
+    return NextResponse.json({ payments });
+  } catch (error) {
+    console.error('Fetch debt payments error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payments' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasDebtPlanner'))) {
+      return NextResponse.json({ error: 'The debt planner is part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = CreateDebtPaymentSchema.parse(body);
+
+    let input;
+    if (data.transactionId) {
+      const transaction = await prisma.transaction.findFirst({
+        where: { id: data.transactionId, userId: session.user.id },
+        include: { debtPayment: { select: { id: true } } },
+      });
+
+      if (!transaction) {
+        return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
+      }
+      if (transaction.debtPayment) {
+        return NextResponse.json(
+          { error: 'This transaction is already recorded as a debt payment' },
+          { status: 409 }
+        );
+      }
+
+      input = {
+        amount: data.amount ?? transaction.amount.toNumber(),
+        date: data.date ?? transaction.date,
+        note: data.note ?? transaction.description,
+        transactionId: transaction.id,
+        source: 'TRANSACTION' as const,
+      };
+    } else {
+      input = {
+        amount: data.amount as number,
+        date: data.date ?? new Date(),
+        note: data.note,
+        source: 'MANUAL' as const,
+      };
+    }
+
+    const result = await recordDebtPayment(session.user.id, id, input);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Debt not found' }, { status: 404 });
+    }
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Record debt payment error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid payment data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to record payment' },
+      { status: 500 }
+    );
+  }
+}
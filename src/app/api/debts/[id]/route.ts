@@ -0,0 +1,113 @@
+// Single Debt API
+// Updates and deletes a debt owned by the authenticated user (Advisor tier)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { UpdateDebtSchema, serializeDebt } from '@/lib/debts/schemas';
+import { deleteDebt } from '@/lib/debts/server';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+import { foldTransferFee } from '@/lib/services/debt-calculator';
+import { hasFeatureAccess } from '@/lib/subscriptions/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasDebtPlanner'))) {
+      return NextResponse.json({ error: 'The debt planner is part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { isPaidOff, ...updates } = UpdateDebtSchema.parse(body);
+
+    const existing = await prisma.debt.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Debt not found' }, { status: 404 });
+    }
+
+    // A new or changed transfer fee is folded into the balance once
+    const fee = foldTransferFee(
+      {
+        balance: existing.balance.toNumber(),
+        transferFee: existing.transferFee?.toNumber() ?? null,
+        transferFeeAppliedAt: existing.transferFeeAppliedAt,
+      },
+      updates
+    );
+
+    // Paying a debt off zeroes it, and a balance brought to zero pays it off;
+    // reopening one clears the payoff date
+    const paidOff = isPaidOff ?? (updates.balance === 0 ? true : undefined);
+    const payoff = paidOff === undefined || paidOff === existing.isPaidOff
+      ? {}
+      : paidOff
+        ? { isPaidOff: true, paidOffDate: new Date(), balance: 0 }
+        : { isPaidOff: false, paidOffDate: null };
+
+    const debt = await prisma.debt.update({
+      where: { id },
+      data: { ...updates, ...fee, ...payoff },
+    });
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json({ debt: serializeDebt(debt) });
+  } catch (error) {
+    console.error('Update debt error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid debt data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update debt' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasDebtPlanner'))) {
+      return NextResponse.json({ error: 'The debt planner is part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const deleted = await deleteDebt(session.user.id, id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Debt not found' }, { status: 404 });
+    }
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete debt error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete debt' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+// Debt Import API
+// Pulls credit card and student loan terms from Plaid for every active connection (Advisor tier)
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { getPlaidErrorCode } from '@/lib/plaid/client';
+import { refreshAccounts } from '@/lib/plaid/accounts';
+import { importLiabilities } from '@/lib/plaid/liabilities';
+import { listDebts } from '@/lib/debts/server';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+import { hasFeatureAccess } from '@/lib/subscriptions/server';
+
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasDebtPlanner'))) {
+      return NextResponse.json({ error: 'The debt planner is part of the Advisor plan' }, { status: 403 });
+    }
+
+    const connections = await prisma.plaidConnection.findMany({
+      where: { userId: session.user.id, isActive: true },
+    });
+
+    // One failing institution shouldn't block the others' debts
+    let imported = 0;
+    const failed: Array<{ connectionId: string; error: string }> = [];
+    for (const connection of connections) {
+      try {
+        // Liabilities attach to stored accounts, so make sure they exist first
+        await refreshAccounts(connection);
+        imported += await importLiabilities(connection);
+      } catch (error) {
+        console.error(`Liabilities import failed for connection ${connection.id}:`, error);
+        failed.push({ connectionId: connection.id, error: getPlaidErrorCode(error) ?? 'IMPORT_FAILED' });
+      }
+    }
+
+    await recordNetWorthSnapshot(session.user.id);
+    const debts = await listDebts(session.user.id);
+
+    return NextResponse.json({ debts, imported, failed });
+  } catch (error) {
+    console.error('Import debts error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import debts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+// Single Debt Payment API
+// Deletes a recorded payment and puts its principal back on the debt (Advisor tier)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { deleteDebtPayment } from '@/lib/debts/payments';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+import { hasFeatureAccess } from '@/lib/subscriptions/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasDebtPlanner'))) {
+      return NextResponse.json({ error: 'The debt planner is part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const debt = await deleteDebtPayment(session.user.id, id);
+
+    if (!debt) {
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 });
+    }
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json({ debt });
+  } catch (error) {
+    console.error('Delete debt payment error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete payment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+// All Debt Payments API
+// Every recorded payment across the user's debts, for the plan-vs-actual view (Advisor tier)
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { listDebtPayments } from '@/lib/debts/payments';
+import { hasFeatureAccess } from '@/lib/subscriptions/server';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasDebtPlanner'))) {
+      return NextResponse.json({ error: 'The debt planner is part of the Advisor plan' }, { status: 403 });
+    }
+
+    const payments = await listDebtPayments(session.user.id);
+
+    return NextResponse.json({ payments });
+  } catch (error) {
+    console.error('Fetch debt payments error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payments' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+// Debts API
+// Lists and creates debts in the payoff planner for the authenticated user (Advisor tier)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { CreateDebtSchema, serializeDebt } from '@/lib/debts/schemas';
+import { listDebts } from '@/lib/debts/server';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+import { foldTransferFee } from '@/lib/services/debt-calculator';
+import { hasFeatureAccess } from '@/lib/subscriptions/server';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasDebtPlanner'))) {
+      return NextResponse.json({ error: 'The debt planner is part of the Advisor plan' }, { status: 403 });
+    }
+
+    const debts = await listDebts(session.user.id);
+
+    return NextResponse.json({ debts });
+  } catch (error) {
+    console.error('Fetch debts error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch debts' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasDebtPlanner'))) {
+      return NextResponse.json({ error: 'The debt planner is part of the Advisor plan' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const data = CreateDebtSchema.parse(body);
+
+    // Without an explicit priority, new debts go to the end of the payoff order
+    const priority = data.priority ?? await prisma.debt.count({
+      where: { userId: session.user.id, isPaidOff: false },
+    });
+
+    // A transfer fee goes onto the balance now, so payoff schedules never add it again
+    const fee = foldTransferFee({ balance: data.balance }, { transferFee: data.transferFee });
+    const balance = fee.balance ?? data.balance;
+
+    const debt = await prisma.debt.create({
+      data: {
+        userId: session.user.id,
+        name: data.name,
+        balance,
+        interestRate: data.interestRate,
+        minimumPayment: data.minimumPayment,
+        dueDate: data.dueDate ?? null,
+        priority,
+        originalBalance: data.originalBalance ?? balance,
+        promoRate: data.promoRate ?? null,
+        promoEndDate: data.promoEndDate ?? null,
+        transferFee: data.transferFee ?? null,
+        transferFeeAppliedAt: fee.transferFeeAppliedAt ?? null,
+        minimumPaymentPercent: data.minimumPaymentPercent ?? null,
+      },
+    });
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json({ debt: serializeDebt(debt) }, { status: 201 });
+  } catch (error) {
+    console.error('Create debt error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid debt data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create debt' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+// Goal Pause API
+// Pauses an active goal (POST) or resumes a paused one (DELETE)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { serializeGoal } from '@/lib/goals/schemas';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function setPaused(id: string, paused: boolean) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const existing = await prisma.goal.findFirst({
+    where: { id, userId: session.user.id },
+  });
+
+  if (!existing) {
+    return NextResponse.json({ error: 'Goal not found' }, { status: 404 });
+  }
+
+  const expectedStatus = paused ? 'ACTIVE' : 'PAUSED';
+  if (existing.status !== expectedStatus) {
+    return NextResponse.json(
+      { error: `Only ${expectedStatus.toLowerCase()} goals can be ${paused ? 'paused' : 'resumed'}` },
+      { status: 409 }
+    );
+  }
+
+  const goal = await prisma.goal.update({
+    where: { id },
+    data: { status: paused ? 'PAUSED' : 'ACTIVE' },
+  });
+
+  return NextResponse.json({ goal: serializeGoal(goal) });
+}
+
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return await setPaused(id, true);
+  } catch (error) {
+    console.error('Pause goal error:', error);
+    return NextResponse.json(
+      { error: 'Failed to pause goal' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return await setPaused(id, false);
+  } catch (error) {
+    console.error('Resume goal error:', error);
+    return NextResponse.json(
+      { error: 'Failed to resume goal' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+// Goals API
+// Lists and creates spending goals for the authenticated user
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { CreateGoalSchema, GoalStatusSchema, serializeGoal } from '@/lib/goals/schemas';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = request.nextUrl.searchParams.get('status');
+    const parsedStatus = status ? GoalStatusSchema.safeParse(status) : null;
+
+    const goals = await prisma.goal.findMany({
+      where: {
+        userId: session.user.id,
+        ...(parsedStatus?.success ? { status: parsedStatus.data } : {}),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ goals: goals.map(serializeGoal) });
+  } catch (error) {
+    console.error('Fetch goals error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch goals' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const data = CreateGoalSchema.parse(body);
+
+    const goal = await prisma.goal.create({
+      data: {
+        userId: session.user.id,
+        type: data.type,
+        name: data.name,
+        description: data.description ?? null,
+        targetConfig: data.targetConfig,
+        targetValue: data.targetValue,
+        endDate: data.endDate ?? null,
+      },
+    });
+
+    return NextResponse.json({ goal: serializeGoal(goal) }, { status: 201 });
+  } catch (error) {
+    console.error('Create goal error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid goal data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create goal' },
+      { status: 500 }
+    );
+  }
+}
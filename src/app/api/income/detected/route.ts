@@ -0,0 +1,46 @@
+// Detected Income API
+// Lists recurring payroll deposits found in the last 90 days of transactions
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { detectPayrollSources } from '@/lib/services/income-detection';
+
+// Long enough to see a few monthly paychecks
+const LOOKBACK_DAYS = 90;
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const since = new Date();
+    since.setDate(since.getDate() - LOOKBACK_DAYS);
+
+    const deposits = await prisma.transaction.findMany({
+      where: { userId: session.user.id, kind: 'CREDIT', pending: false, date: { gte: since } },
+      select: {
+        amount: true,
+        description: true,
+        merchantName: true,
+        defaultCategory: true,
+        date: true,
+        kind: true,
+      },
+    });
+
+    const sources = detectPayrollSources(
+      deposits.map((d) => ({ ...d, amount: d.amount.toNumber() }))
+    );
+
+    return NextResponse.json({ sources });
+  } catch (error) {
+    console.error('Detect income error:', error);
+    return NextResponse.json(
+      { error: 'Failed to detect income' },
+      { status: 500 }
+    );
+  }
+}
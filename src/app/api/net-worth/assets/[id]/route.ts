@@ -0,0 +1,85 @@
+// Single Manual Asset API
+// Updates and deletes an asset owned by the authenticated user
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { UpdateManualAssetSchema, serializeManualAsset } from '@/lib/net-worth/schemas';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const updates = UpdateManualAssetSchema.parse(body);
+
+    const existing = await prisma.manualAsset.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+    }
+
+    const asset = await prisma.manualAsset.update({
+      where: { id },
+      data: updates,
+    });
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json({ asset: serializeManualAsset(asset) });
+  } catch (error) {
+    console.error('Update manual asset error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid asset data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update asset' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const result = await prisma.manualAsset.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+    }
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete manual asset error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete asset' },
+      { status: 500 }
+    );
+  }
+}
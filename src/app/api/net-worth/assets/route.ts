@@ -0,0 +1,65 @@
+// Manual Assets API
+// Lists and creates assets that aren't in a linked account (a home, a car)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { CreateManualAssetSchema, serializeManualAsset } from '@/lib/net-worth/schemas';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const assets = await prisma.manualAsset.findMany({
+      where: { userId: session.user.id },
+      orderBy: { value: 'desc' },
+    });
+
+    return NextResponse.json({ assets: assets.map(serializeManualAsset) });
+  } catch (error) {
+    console.error('Fetch manual assets error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch assets' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const data = CreateManualAssetSchema.parse(body);
+
+    const asset = await prisma.manualAsset.create({
+      data: { userId: session.user.id, ...data },
+    });
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json({ asset: serializeManualAsset(asset) }, { status: 201 });
+  } catch (error) {
+    console.error('Create manual asset error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid asset data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create asset' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+// Net Worth API
+// Returns today's net worth, its daily history and the month-over-month change
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { getNetWorthSummary } from '@/lib/net-worth/server';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summary = await getNetWorthSummary(session.user.id);
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Get net worth error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch net worth' },
+      { status: 500 }
+    );
+  }
+}
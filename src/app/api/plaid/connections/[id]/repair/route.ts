@@ -0,0 +1,77 @@
+// Plaid Connection Repair API
+// Called after Link update mode succeeds: clears the connection's error and syncs it.
+// The item, access token and cursor are unchanged, so history picks up where it left off.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { syncConnections } from '@/lib/plaid/sync-service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const RepairConnectionSchema = z.object({
+  // Link metadata; present when the user changed which accounts are shared
+  accounts: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        mask: z.string().nullable(),
+        type: z.string(),
+        subtype: z.string().nullable(),
+      })
+    )
+    .optional(),
+});
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { accounts } = RepairConnectionSchema.parse(await request.json().catch(() => ({})));
+
+    const existing = await prisma.plaidConnection.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+    }
+
+    // Re-consenting also restores a connection whose access was revoked
+    await prisma.plaidConnection.update({
+      where: { id },
+      data: {
+        isActive: true,
+        syncStatus: 'pending',
+        errorCode: null,
+        ...(accounts && accounts.length > 0 ? { accounts } : {}),
+      },
+    });
+
+    const result = await syncConnections(session.user.id, { connectionId: id });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Repair connection error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid repair data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to repair connection' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,26 @@
 // Plaid Link Token API
-// Creates a link token to initialize Plaid Link
+// Creates a link token to initialize Plaid Link, either to add a bank or - given a
+// connectionId - in update mode to repair an existing connection in place
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { auth } from '@/lib/auth/auth';
-import { plaidClient, PLAID_PRODUCTS, PLAID_COUNTRY_CODES, isPlaidConfigured } from '@/lib/plaid/client';
+import { prisma } from '@/lib/db/prisma';
+import {
+  plaidClient,
+  PLAID_PRODUCTS,
+  PLAID_IF_SUPPORTED_PRODUCTS,
+  PLAID_COUNTRY_CODES,
+  PLAID_WEBHOOK_URL,
+  isPlaidConfigured,
+  withAccessToken,
+} from '@/lib/plaid/client';
 
-export async function POST() {
+const CreateLinkTokenSchema = z.object({
+  connectionId: z.string().min(1).optional(),
+});
+
+export async function POST(request: NextRequest) {
   try {
     // Check if Plaid is configured
     if (!isPlaidConfigured()) {
@@ -24,23 +39,60 @@ export async function POST() {
       );
     }
 
-    // Create link token
-    // Note: redirect_uri only needed for OAuth flows and must be registered in Plaid Dashboard
-    const response = await plaidClient.linkTokenCreate({
+    // The body is optional - the add-bank button posts without one
+    const { connectionId } = CreateLinkTokenSchema.parse(await request.json().catch(() => ({})));
+
+    const baseRequest = {
       user: {
         client_user_id: session.user.id,
       },
       client_name: 'SpendSignal',
-      products: PLAID_PRODUCTS,
       country_codes: PLAID_COUNTRY_CODES,
       language: 'en',
+      // Plaid calls this when new transactions are ready or the item needs attention
+      ...(PLAID_WEBHOOK_URL ? { webhook: PLAID_WEBHOOK_URL } : {}),
+    };
+
+    if (connectionId) {
+      const connection = await prisma.plaidConnection.findFirst({
+        where: { id: connectionId, userId: session.user.id },
+      });
+
+      if (!connection) {
+        return NextResponse.json({ error: 'Connection not found' }, { status: 404 });
+      }
+
+      // Update mode: Link re-authenticates the existing item instead of creating a new one
+      const response = await plaidClient.linkTokenCreate(withAccessToken(connection, baseRequest));
+
+      return NextResponse.json({
+        linkToken: response.data.link_token,
+        expiration: response.data.expiration,
+        mode: 'update',
+      });
+    }
+
+    // Create link token
+    // Note: redirect_uri only needed for OAuth flows and must be registered in Plaid Dashboard
+    const response = await plaidClient.linkTokenCreate({
+      ...baseRequest,
+      products: PLAID_PRODUCTS,
+      required_if_supported_products: PLAID_IF_SUPPORTED_PRODUCTS,
     });
 
     return NextResponse.json({
       linkToken: response.data.link_token,
       expiration: response.data.expiration,
+      mode: 'create',
     });
   } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid link token request', details: error.issues },
+        { status: 400 }
+      );
+    }
+
     // Log detailed Plaid error
     const plaidError = error as { response?: { data?: unknown } };
     console.error('Create link token error:', JSON.stringify(plaidError.response?.data, null, 2));
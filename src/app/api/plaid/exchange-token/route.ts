@@ -4,7 +4,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth/auth';
 import { prisma } from '@/lib/db/prisma';
-import { plaidClient, isPlaidConfigured } from '@/lib/plaid/client';
+import { plaidClient, isPlaidConfigured, PLAID_WEBHOOK_URL } from '@/lib/plaid/client';
+import { encryptAccessToken } from '@/lib/plaid/token-crypto';
 
 export async function POST(request: NextRequest) {
   try {
@@ -51,7 +52,8 @@ export async function POST(request: NextRequest) {
       public_token: publicToken,
     });
 
-    const accessToken = exchangeResponse.data.access_token;
+    // Encrypted before it's stored; only the Plaid client wrapper decrypts it
+    const accessToken = encryptAccessToken(exchangeResponse.data.access_token);
     const itemId = exchangeResponse.data.item_id;
 
     // Check if this item already exists for this user
@@ -91,6 +93,8 @@ export async function POST(request: NextRequest) {
         institutionName,
         accounts: accounts ? JSON.parse(JSON.stringify(accounts)) : null,
         syncStatus: 'pending',
+        // The link token registered the webhook on the new item
+        webhookUrl: PLAID_WEBHOOK_URL ?? null,
       },
     });
 
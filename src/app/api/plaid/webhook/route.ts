@@ -0,0 +1,107 @@
+// Plaid Webhook Handler
+// Receives item and transaction events from Plaid and queues incremental syncs
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { isPlaidConfigured } from '@/lib/plaid/client';
+import { queueConnectionSync } from '@/lib/plaid/sync-service';
+import { verifyPlaidWebhook } from '@/lib/plaid/webhook-verification';
+
+// Verification needs the raw body and Node's crypto
+export const runtime = 'nodejs';
+
+interface PlaidWebhookBody {
+  webhook_type: string;
+  webhook_code: string;
+  item_id?: string;
+  error?: { error_code?: string } | null;
+}
+
+export async function POST(request: NextRequest) {
+  if (!isPlaidConfigured()) {
+    return NextResponse.json({ error: 'Plaid is not configured' }, { status: 503 });
+  }
+
+  const body = await request.text();
+
+  try {
+    const verified = await verifyPlaidWebhook(body, request.headers.get('plaid-verification'));
+    if (!verified) {
+      console.error('Plaid webhook verification failed');
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+  } catch (error) {
+    console.error('Plaid webhook verification error:', error);
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  try {
+    const event = JSON.parse(body) as PlaidWebhookBody;
+    if (!event.item_id) {
+      return NextResponse.json({ received: true });
+    }
+
+    const connection = await prisma.plaidConnection.findUnique({
+      where: { itemId: event.item_id },
+      select: { id: true },
+    });
+    if (!connection) {
+      // Not ours (or already removed) - acknowledge so Plaid stops retrying
+      return NextResponse.json({ received: true });
+    }
+
+    switch (`${event.webhook_type}.${event.webhook_code}`) {
+      case 'TRANSACTIONS.SYNC_UPDATES_AVAILABLE': {
+        // Respond right away; the sync runs after the response is sent
+        after(() => queueConnectionSync(connection.id));
+        break;
+      }
+
+      case 'ITEM.ERROR': {
+        const errorCode = event.error?.error_code ?? 'ITEM_ERROR';
+        await prisma.plaidConnection.update({
+          where: { id: connection.id },
+          data: {
+            syncStatus: errorCode === 'ITEM_LOGIN_REQUIRED' ? 'login_required' : 'error',
+            errorCode,
+          },
+        });
+        break;
+      }
+
+      case 'ITEM.PENDING_EXPIRATION': {
+        // Still syncing for now, but the user has to re-consent before access expires
+        await prisma.plaidConnection.update({
+          where: { id: connection.id },
+          data: { syncStatus: 'pending_expiration', errorCode: 'PENDING_EXPIRATION' },
+        });
+        break;
+      }
+
+      case 'ITEM.USER_PERMISSION_REVOKED': {
+        await prisma.plaidConnection.update({
+          where: { id: connection.id },
+          data: { isActive: false, syncStatus: 'revoked', errorCode: 'USER_PERMISSION_REVOKED' },
+        });
+        break;
+      }
+
+      case 'ITEM.LOGIN_REPAIRED': {
+        await prisma.plaidConnection.update({
+          where: { id: connection.id },
+          data: { syncStatus: 'pending', errorCode: null },
+        });
+        after(() => queueConnectionSync(connection.id));
+        break;
+      }
+
+      default:
+        console.log(`Unhandled Plaid webhook: ${event.webhook_type}.${event.webhook_code}`);
+    }
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error('Plaid webhook handler error:', error);
+    return NextResponse.json({ error: 'Webhook handler failed' }, { status: 500 });
+  }
+}
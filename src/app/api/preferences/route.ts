@@ -0,0 +1,83 @@
+// User Preferences API
+// Reads and updates server-side preferences that affect transaction ingest
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { DEFAULT_AUTO_FILE_THRESHOLD } from '@/lib/transactions/ingest';
+
+const UpdatePreferencesSchema = z.object({
+  autoFileThreshold: z.number().min(0.5).max(1).optional(),
+  aiSuggestionsEnabled: z.boolean().optional(),
+  emailNotifications: z.boolean().optional(),
+});
+
+const PREFERENCE_FIELDS = {
+  autoFileThreshold: true,
+  aiSuggestionsEnabled: true,
+  emailNotifications: true,
+} as const;
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const preferences = await prisma.userPreferences.findUnique({
+      where: { userId: session.user.id },
+      select: PREFERENCE_FIELDS,
+    });
+
+    return NextResponse.json({
+      preferences: preferences ?? {
+        autoFileThreshold: DEFAULT_AUTO_FILE_THRESHOLD,
+        aiSuggestionsEnabled: true,
+        emailNotifications: true,
+      },
+    });
+  } catch (error) {
+    console.error('Fetch preferences error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const updates = UpdatePreferencesSchema.parse(body);
+
+    const preferences = await prisma.userPreferences.upsert({
+      where: { userId: session.user.id },
+      update: updates,
+      create: { userId: session.user.id, ...updates },
+      select: PREFERENCE_FIELDS,
+    });
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error('Update preferences error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid preferences', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update preferences' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+// Recurring Charges API
+// Lists subscriptions and other repeating bills detected in the user's transactions
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { listRecurringCharges } from '@/lib/recurring/server';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const charges = await listRecurringCharges(session.user.id);
+
+    return NextResponse.json({ charges });
+  } catch (error) {
+    console.error('Detect recurring charges error:', error);
+    return NextResponse.json(
+      { error: 'Failed to detect recurring charges' },
+      { status: 500 }
+    );
+  }
+}
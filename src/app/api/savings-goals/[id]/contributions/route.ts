@@ -0,0 +1,88 @@
+// Savings Contributions API
+// Lists a goal's contribution history and records a new contribution
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { CreateSavingsContributionSchema } from '@/lib/savings-goals/schemas';
+import { listSavingsContributions, recordSavingsContribution } from '@/lib/savings-goals/contributions';
+import { hasFeatureAccess } from '@/lib/subscriptions/server';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasSavingsGoals'))) {
+      return NextResponse.json({ error: 'Savings goals are part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const contributions = await listSavingsContributions(session.user.id, id);
+
+    if (!contributions) {
+      return NextResponse.json({ error: 'Savings goal not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ contributions });
+  } catch (error) {
+    console.error('Fetch savings contributions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch contributions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasSavingsGoals'))) {
+      return NextResponse.json({ error: 'Savings goals are part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const data = CreateSavingsContributionSchema.parse(body);
+
+    const result = await recordSavingsContribution(session.user.id, id, {
+      amount: data.amount,
+      date: data.date ?? new Date(),
+      note: data.note,
+      source: 'MANUAL',
+    });
+
+    if (!result) {
+      return NextResponse.json({ error: 'Savings goal not found' }, { status: 404 });
+    }
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Record savings contribution error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid contribution data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to record contribution' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+// Single Savings Goal API
+// Updates and deletes a savings goal owned by the authenticated user
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { UpdateSavingsGoalSchema, serializeSavingsGoal } from '@/lib/savings-goals/schemas';
+import { resolveGoalLink } from '@/lib/savings-goals/server';
+import { hasFeatureAccess } from '@/lib/subscriptions/server';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasSavingsGoals'))) {
+      return NextResponse.json({ error: 'Savings goals are part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { isCompleted, accountId, transferPattern, ...updates } = UpdateSavingsGoalSchema.parse(body);
+
+    const existing = await prisma.savingsGoal.findFirst({
+      where: { id, userId: session.user.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Savings goal not found' }, { status: 404 });
+    }
+
+    const link = await resolveGoalLink(session.user.id, existing, { accountId, transferPattern });
+
+    if (!link) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    // Completing a goal stamps the date, and reaching the target completes it;
+    // reopening one clears the date
+    const currentAmount = updates.currentAmount ?? existing.currentAmount.toNumber();
+    const targetAmount = updates.targetAmount ?? existing.targetAmount.toNumber();
+    const completed = isCompleted ?? (currentAmount >= targetAmount ? true : undefined);
+    const completion = completed === undefined || completed === existing.isCompleted
+      ? {}
+      : completed
+        ? { isCompleted: true, completedDate: new Date() }
+        : { isCompleted: false, completedDate: null };
+
+    const goal = await prisma.savingsGoal.update({
+      where: { id },
+      data: { ...updates, ...completion, ...link },
+      include: { contributions: { orderBy: { date: 'asc' } } },
+    });
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json({ goal: serializeSavingsGoal(goal) });
+  } catch (error) {
+    console.error('Update savings goal error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid savings goal data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update savings goal' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasSavingsGoals'))) {
+      return NextResponse.json({ error: 'Savings goals are part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const result = await prisma.savingsGoal.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+
+    if (result.count === 0) {
+      return NextResponse.json({ error: 'Savings goal not found' }, { status: 404 });
+    }
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete savings goal error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete savings goal' },
+      { status: 500 }
+    );
+  }
+}
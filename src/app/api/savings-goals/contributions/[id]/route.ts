@@ -0,0 +1,42 @@
+// Single Savings Contribution API
+// Deletes a contribution and takes it back off its goal
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { deleteSavingsContribution } from '@/lib/savings-goals/contributions';
+import { hasFeatureAccess } from '@/lib/subscriptions/server';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasSavingsGoals'))) {
+      return NextResponse.json({ error: 'Savings goals are part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const goal = await deleteSavingsContribution(session.user.id, id);
+
+    if (!goal) {
+      return NextResponse.json({ error: 'Contribution not found' }, { status: 404 });
+    }
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json({ goal });
+  } catch (error) {
+    console.error('Delete savings contribution error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete contribution' },
+      { status: 500 }
+    );
+  }
+}
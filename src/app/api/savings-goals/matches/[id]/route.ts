@@ -0,0 +1,83 @@
+// Single Savings Match API
+// Records a queued transfer against the goal the user picks, or dismisses it
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { AcceptSavingsMatchSchema } from '@/lib/savings-goals/schemas';
+import { acceptSavingsMatch, dismissSavingsMatch } from '@/lib/savings-goals/contributions';
+import { hasFeatureAccess } from '@/lib/subscriptions/server';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasSavingsGoals'))) {
+      return NextResponse.json({ error: 'Savings goals are part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { goalId } = AcceptSavingsMatchSchema.parse(body);
+
+    const result = await acceptSavingsMatch(session.user.id, id, goalId);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Savings match not found' }, { status: 404 });
+    }
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Accept savings match error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid savings match data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to accept savings match' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasSavingsGoals'))) {
+      return NextResponse.json({ error: 'Savings goals are part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const match = await dismissSavingsMatch(session.user.id, id);
+
+    if (!match) {
+      return NextResponse.json({ error: 'Savings match not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ match });
+  } catch (error) {
+    console.error('Dismiss savings match error:', error);
+    return NextResponse.json(
+      { error: 'Failed to dismiss savings match' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+// Savings Matches API
+// Lists transfers waiting for review and re-runs contribution matching on demand
+
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { listSavingsMatches, matchSavingsContributions } from '@/lib/savings-goals/contributions';
+import { listSavingsGoals } from '@/lib/savings-goals/server';
+import { hasFeatureAccess } from '@/lib/subscriptions/server';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasSavingsGoals'))) {
+      return NextResponse.json({ error: 'Savings goals are part of the Advisor plan' }, { status: 403 });
+    }
+
+    const matches = await listSavingsMatches(session.user.id);
+
+    return NextResponse.json({ matches });
+  } catch (error) {
+    console.error('Fetch savings matches error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch savings matches' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasSavingsGoals'))) {
+      return NextResponse.json({ error: 'Savings goals are part of the Advisor plan' }, { status: 403 });
+    }
+
+    const { recorded, queued } = await matchSavingsContributions(session.user.id);
+    if (recorded > 0) {
+      await recordNetWorthSnapshot(session.user.id);
+    }
+
+    const [goals, matches] = await Promise.all([
+      listSavingsGoals(session.user.id),
+      listSavingsMatches(session.user.id),
+    ]);
+
+    return NextResponse.json({ recorded, queued, goals, matches });
+  } catch (error) {
+    console.error('Match savings contributions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to match savings contributions' },
+      { status: 500 }
+    );
+  }
+}
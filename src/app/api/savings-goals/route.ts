@@ -0,0 +1,99 @@
+// Savings Goals API
+// Lists and creates savings goals for the authenticated user (Advisor tier)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { CreateSavingsGoalSchema, serializeSavingsGoal } from '@/lib/savings-goals/schemas';
+import { listSavingsGoals, resolveGoalLink } from '@/lib/savings-goals/server';
+import { hasFeatureAccess } from '@/lib/subscriptions/server';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasSavingsGoals'))) {
+      return NextResponse.json({ error: 'Savings goals are part of the Advisor plan' }, { status: 403 });
+    }
+
+    const goals = await listSavingsGoals(session.user.id);
+
+    return NextResponse.json({ goals });
+  } catch (error) {
+    console.error('Fetch savings goals error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch savings goals' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await hasFeatureAccess(session.user.id, 'hasSavingsGoals'))) {
+      return NextResponse.json({ error: 'Savings goals are part of the Advisor plan' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const data = CreateSavingsGoalSchema.parse(body);
+
+    const link = await resolveGoalLink(session.user.id, null, {
+      accountId: data.accountId,
+      transferPattern: data.transferPattern,
+    });
+
+    if (!link) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    const currentAmount = data.currentAmount ?? 0;
+    const completed = currentAmount >= data.targetAmount;
+
+    const goal = await prisma.savingsGoal.create({
+      data: {
+        userId: session.user.id,
+        name: data.name,
+        type: data.type,
+        icon: data.icon ?? null,
+        targetAmount: data.targetAmount,
+        currentAmount,
+        monthlyContribution: data.monthlyContribution ?? null,
+        targetDate: data.targetDate ?? null,
+        expectedReturn: data.expectedReturn ?? null,
+        compounding: data.compounding,
+        inflationRate: data.inflationRate ?? null,
+        isCompleted: completed,
+        completedDate: completed ? new Date() : null,
+        ...link,
+      },
+    });
+
+    await recordNetWorthSnapshot(session.user.id);
+
+    return NextResponse.json({ goal: serializeSavingsGoal(goal) }, { status: 201 });
+  } catch (error) {
+    console.error('Create savings goal error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid savings goal data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create savings goal' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+// Transaction Splits API
+// Divides one transaction into parts across zones, or removes the split
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/lib/auth/auth';
+import { prisma } from '@/lib/db/prisma';
+import { validateSplitParts, dominantZone } from '@/lib/services/zone-allocation';
+import type { TransactionSplit as PrismaTransactionSplit } from '@prisma/client';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const SplitPartSchema = z.object({
+  amount: z.number().positive(),
+  zone: z.enum(['GREEN', 'YELLOW', 'RED']),
+  category: z.string().max(50).nullable().optional(),
+  note: z.string().max(200).nullable().optional(),
+});
+
+const SplitTransactionSchema = z.object({
+  parts: z.array(SplitPartSchema).min(2).max(10),
+});
+
+function serializeSplit(split: PrismaTransactionSplit) {
+  return {
+    amount: split.amount.toNumber(),
+    zone: split.zone,
+    category: split.category,
+    note: split.note,
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const splits = await prisma.transactionSplit.findMany({
+      where: { transactionId: id, userId: session.user.id },
+      orderBy: { sortOrder: 'asc' },
+    });
+
+    return NextResponse.json({ splits: splits.map(serializeSplit) });
+  } catch (error) {
+    console.error('Fetch transaction splits error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch splits' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const { id } = await params;
+    const body = await request.json();
+    const { parts } = SplitTransactionSchema.parse(body);
+
+    // Verify transaction belongs to user
+    const transaction = await prisma.transaction.findFirst({
+      where: { id, userId },
+    });
+
+    if (!transaction) {
+      return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
+    }
+
+    const invalid = validateSplitParts(transaction.amount.toNumber(), parts);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    // The categorization keeps the headline zone; the parts carry the amounts
+    const zone = dominantZone(parts);
+
+    const [, , categorization, splits] = await prisma.$transaction([
+      prisma.transactionSplit.deleteMany({ where: { transactionId: id } }),
+      prisma.transactionSplit.createMany({
+        data: parts.map((part, index) => ({
+          transactionId: id,
+          userId,
+          amount: part.amount,
+          zone: part.zone,
+          category: part.category ?? null,
+          note: part.note ?? null,
+          sortOrder: index,
+        })),
+      }),
+      prisma.userCategorization.upsert({
+        where: { transactionId: id },
+        update: { zone },
+        create: { userId, transactionId: id, zone },
+      }),
+      prisma.transactionSplit.findMany({
+        where: { transactionId: id },
+        orderBy: { sortOrder: 'asc' },
+      }),
+    ]);
+
+    return NextResponse.json({
+      categorization: {
+        id: categorization.id,
+        transactionId: categorization.transactionId,
+        zone: categorization.zone,
+        note: categorization.note,
+        splits: splits.map(serializeSplit),
+      },
+    });
+  } catch (error) {
+    console.error('Split transaction error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid split data', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to split transaction' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // The transaction stays filed under the split's headline zone
+    await prisma.transactionSplit.deleteMany({
+      where: { transactionId: id, userId: session.user.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove transaction splits error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove split' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,13 @@
 // Transaction Import API
 // Imports transactions from CSV data into the database with auto-categorization
 
+import { createHash } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth/auth';
-import { prisma } from '@/lib/db/prisma';
 import { z } from 'zod';
-import { autoCategorize } from '@/lib/services/auto-categorize';
+import { evaluateAlertsForUser } from '@/lib/alerts/evaluator';
+import { ingestTransactions, type IngestTransactionInput } from '@/lib/transactions/ingest';
+import { classifyCsvTransaction, isCsvInflow } from '@/lib/transactions/direction';
 
 // Schema for imported transaction
 const TransactionSchema = z.object({
@@ -18,8 +20,21 @@ const TransactionSchema = z.object({
 
 const ImportSchema = z.object({
   transactions: z.array(TransactionSchema),
+  // Most bank exports show spending as negative; many card exports show it as positive
+  signConvention: z.enum(['negative-is-debit', 'negative-is-credit']).default('negative-is-debit'),
 });
 
+type ImportedTransaction = z.infer<typeof TransactionSchema>;
+
+/**
+ * Build a stable id for a CSV row so re-importing the same file doesn't duplicate it.
+ * Identical rows within one file (two coffees on the same day) are kept apart by occurrence.
+ */
+function csvExternalId(txn: ImportedTransaction, occurrence: number): string {
+  const key = [txn.date, Math.abs(txn.amount).toFixed(2), txn.description.trim().toLowerCase(), occurrence].join('|');
+  return `csv_${createHash('sha256').update(key).digest('hex').slice(0, 32)}`;
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Get authenticated user
@@ -32,7 +47,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { transactions } = ImportSchema.parse(body);
+    const { transactions, signConvention } = ImportSchema.parse(body);
 
     if (transactions.length === 0) {
       return NextResponse.json(
@@ -41,95 +56,49 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Prepare transaction data with auto-categorization info
-    const txnData = transactions.map((txn) => {
-      const merchantName = txn.merchantName || txn.description;
-      const autoResult = autoCategorize(merchantName, txn.description, Math.abs(txn.amount));
+    const occurrences = new Map<string, number>();
+    const inputs: IngestTransactionInput[] = transactions.map((txn) => {
+      const baseId = csvExternalId(txn, 0);
+      const occurrence = occurrences.get(baseId) ?? 0;
+      occurrences.set(baseId, occurrence + 1);
 
       return {
-        userId: session.user.id,
+        externalId: occurrence === 0 ? baseId : csvExternalId(txn, occurrence),
         amount: Math.abs(txn.amount),
+        kind: classifyCsvTransaction(txn.amount, txn.description, signConvention),
+        inflow: isCsvInflow(txn.amount, signConvention),
         description: txn.description,
-        merchantName: merchantName,
+        merchantName: txn.merchantName || txn.description,
         date: new Date(txn.date),
-        source: 'MANUAL' as const,
-        defaultCategory: autoResult?.category || txn.category || null,
+        source: 'MANUAL',
+        defaultCategory: txn.category || null,
         pending: false,
         isRecurring: false,
-        // Store auto-categorization result for later
-        _autoZone: autoResult?.zone || null,
-        _autoConfidence: autoResult?.confidence || null,
       };
     });
 
-    // Import transactions to database
-    const imported = await prisma.transaction.createMany({
-      data: txnData.map(({ _autoZone, _autoConfidence, ...txn }) => txn),
-      skipDuplicates: true,
-    });
-
-    // Now fetch the created transactions and auto-categorize them
-    const recentTransactions = await prisma.transaction.findMany({
-      where: {
-        userId: session.user.id,
-        source: 'MANUAL',
-        createdAt: { gte: new Date(Date.now() - 60000) }, // Last minute
-      },
-      orderBy: { createdAt: 'desc' },
-      take: transactions.length,
-    });
-
-    // Create categorizations for all imported transactions
-    let categorized = 0;
-    for (const txn of recentTransactions) {
-      const autoResult = autoCategorize(
-        txn.merchantName || '',
-        txn.description,
-        txn.amount.toNumber()
-      );
+    const result = await ingestTransactions(session.user.id, inputs);
 
-      // autoCategorize always returns a suggestion now
-      try {
-        await prisma.userCategorization.upsert({
-          where: {
-            userId_transactionId: {
-              userId: session.user.id,
-              transactionId: txn.id,
-            },
-          },
-          update: {
-            zone: autoResult.zone,
-            aiSuggestedZone: autoResult.zone,
-            aiConfidence: autoResult.confidence,
-            aiReasoning: autoResult.reasoning,
-          },
-          create: {
-            userId: session.user.id,
-            transactionId: txn.id,
-            zone: autoResult.zone,
-            aiSuggestedZone: autoResult.zone,
-            aiConfidence: autoResult.confidence,
-            aiReasoning: autoResult.reasoning,
-          },
-        });
-        categorized++;
-      } catch (e) {
-        console.error('Failed to auto-categorize transaction:', txn.id, e);
-      }
-    }
+    // Fire any alerts affected by the new transactions
+    await evaluateAlertsForUser(session.user.id).catch((e) =>
+      console.error('Alert evaluation failed after import:', e)
+    );
 
     return NextResponse.json({
       success: true,
-      imported: imported.count,
-      categorized,
-      message: `Imported ${imported.count} transactions, auto-categorized ${categorized}`,
+      imported: result.created,
+      skipped: result.updated,
+      categorized: result.autoFiled,
+      inbox: result.inboxed,
+      notSpending: result.notSpending,
+      message: `Imported ${result.created} transactions, auto-filed ${result.autoFiled}, ${result.inboxed} waiting in your inbox`,
     });
   } catch (error) {
     console.error('Import transactions error:', error);
 
     if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { error: 'Invalid transaction data', details: error.errors },
+        { error: 'Invalid transaction data', details: error.issues },
         { status: 400 }
       );
     }
@@ -63,6 +63,8 @@ export async function GET(request: NextRequest) {
       merchantName: t.merchantName,
       date: t.date.toISOString(),
       source: t.source,
+      kind: t.kind,
+      accountId: t.accountId,
       defaultCategory: t.defaultCategory,
       pending: t.pending,
       isRecurring: t.isRecurring,
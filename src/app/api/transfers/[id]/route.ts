@@ -0,0 +1,58 @@
+// Single Transfer Pair API
+// Confirms a detected transfer or unlinks it so both transactions count again
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { confirmTransferPair, unlinkTransferPair } from '@/lib/transactions/transfers';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const pair = await confirmTransferPair(session.user.id, id);
+
+    if (!pair) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ pair });
+  } catch (error) {
+    console.error('Confirm transfer error:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm transfer' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const pair = await unlinkTransferPair(session.user.id, id);
+
+    if (!pair) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ pair });
+  } catch (error) {
+    console.error('Unlink transfer error:', error);
+    return NextResponse.json(
+      { error: 'Failed to unlink transfer' },
+      { status: 500 }
+    );
+  }
+}
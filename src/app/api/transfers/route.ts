@@ -0,0 +1,51 @@
+// Transfers API
+// Lists detected internal transfer pairs and re-runs detection on demand
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/auth';
+import { listTransferPairs, matchTransfersForUser } from '@/lib/transactions/transfers';
+import type { TransferPairStatus } from '@/types';
+
+const STATUSES: TransferPairStatus[] = ['SUGGESTED', 'CONFIRMED', 'REJECTED'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const statusParam = request.nextUrl.searchParams.get('status');
+    const status = STATUSES.find((s) => s === statusParam);
+
+    const pairs = await listTransferPairs(session.user.id, status);
+
+    return NextResponse.json({ pairs });
+  } catch (error) {
+    console.error('Get transfers error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch transfers' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const matched = await matchTransfersForUser(session.user.id);
+    const pairs = await listTransferPairs(session.user.id);
+
+    return NextResponse.json({ matched, pairs });
+  } catch (error) {
+    console.error('Detect transfers error:', error);
+    return NextResponse.json(
+      { error: 'Failed to detect transfers' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,8 +3,11 @@
 import { useState, useMemo } from 'react';
 import Link from 'next/link';
 import { useAlerts } from '@/hooks/use-alerts';
+import { useBudgets } from '@/hooks/use-budgets';
+import { useDataMode } from '@/hooks/use-data-mode';
 import { formatCurrency } from '@/lib/utils';
-import type { Alert, AlertType, AlertChannel, AlertConfig } from '@/types';
+import { getBudgetLabel } from '@/lib/services/budget-calculator';
+import type { Alert, AlertType, AlertChannel, AlertConfig, BudgetStatus } from '@/types';
 import type { TrafficLightZone } from '@/constants/traffic-light';
 
 const ALERT_TYPE_CONFIG: Record<AlertType, {
@@ -45,7 +48,7 @@ const ALERT_TYPE_CONFIG: Record<AlertType, {
   },
   RECURRING_CHARGE: {
     label: 'Recurring Charge',
-    description: 'Notifications for subscription payments',
+    description: 'Subscription charges, price increases and missed payments',
     icon: (
       <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
@@ -77,6 +80,7 @@ export default function AlertsPage() {
     alerts,
     notifications,
     isLoading,
+    error,
     unreadCount,
     createAlert,
     updateAlert,
@@ -86,6 +90,11 @@ export default function AlertsPage() {
     markAllAsRead,
     clearNotifications,
   } = useAlerts('demo-user');
+  const { budgets } = useBudgets();
+  const { mode } = useDataMode();
+
+  // Budgets are evaluated on the server, so only alerts saved there (real mode) can watch one
+  const alertBudgets = mode === 'real' ? budgets : [];
 
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingAlert, setEditingAlert] = useState<Alert | null>(null);
@@ -142,6 +151,12 @@ export default function AlertsPage() {
         </button>
       </div>
 
+      {error && (
+        <div className="p-3 rounded text-sm border bg-[#EF4444]/10 border-[#EF4444]/30 text-[#EF4444]">
+          {error}
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex items-center gap-1 p-1 bg-[#0D1117]  border border-[#424242] w-fit">
         <button
@@ -201,6 +216,7 @@ export default function AlertsPage() {
                 <AlertCard
                   key={alert.id}
                   alert={alert}
+                  budget={budgets.find((b) => b.id === alert.config.budgetId)}
                   onToggle={() => toggleAlert(alert.id)}
                   onEdit={() => setEditingAlert(alert)}
                   onDelete={() => deleteAlert(alert.id)}
@@ -234,6 +250,16 @@ export default function AlertsPage() {
                     });
                   }}
                 />
+                <QuickAlertButton
+                  label="Subscription price hikes & missed charges"
+                  onClick={() => {
+                    createAlert({
+                      type: 'RECURRING_CHARGE',
+                      name: 'Subscription changes',
+                      config: {},
+                    });
+                  }}
+                />
                 <QuickAlertButton
                   label="Weekly spending digest"
                   onClick={() => {
@@ -309,15 +335,16 @@ export default function AlertsPage() {
       {(showCreateModal || editingAlert) && (
         <AlertModal
           alert={editingAlert}
+          budgets={alertBudgets}
           onClose={() => {
             setShowCreateModal(false);
             setEditingAlert(null);
           }}
-          onSave={(data) => {
+          onSave={async (data) => {
             if (editingAlert) {
-              updateAlert(editingAlert.id, data);
+              await updateAlert(editingAlert.id, { name: data.name, config: data.config, channels: data.channels });
             } else {
-              createAlert(data);
+              await createAlert(data);
             }
             setShowCreateModal(false);
             setEditingAlert(null);
@@ -339,11 +366,14 @@ export default function AlertsPage() {
 // Alert Card Component
 function AlertCard({
   alert,
+  budget,
   onToggle,
   onEdit,
   onDelete,
 }: {
   alert: Alert;
+  // The budget a SPENDING_THRESHOLD alert watches, if any
+  budget?: BudgetStatus;
   onToggle: () => void;
   onEdit: () => void;
   onDelete: () => void;
@@ -352,6 +382,9 @@ function AlertCard({
 
   const getConfigDescription = () => {
     const parts: string[] = [];
+    if (budget) {
+      parts.push(`${getBudgetLabel(budget)} budget (${formatCurrency(budget.available)})`);
+    }
     if (alert.config.zone) {
       parts.push(`${alert.config.zone} zone`);
     }
@@ -510,10 +543,12 @@ function QuickAlertButton({ label, onClick }: { label: string; onClick: () => vo
 // Alert Modal
 function AlertModal({
   alert,
+  budgets,
   onClose,
   onSave,
 }: {
   alert: Alert | null;
+  budgets: BudgetStatus[];
   onClose: () => void;
   onSave: (data: {
     type: AlertType;
@@ -529,13 +564,19 @@ function AlertModal({
   const [threshold, setThreshold] = useState(alert?.config.threshold?.toString() || '80');
   const [period, setPeriod] = useState<'daily' | 'weekly' | 'monthly'>(alert?.config.period || 'monthly');
   const [channels, setChannels] = useState<AlertChannel[]>(alert?.channels || ['IN_APP']);
+  const [budgetId, setBudgetId] = useState(alert?.config.budgetId || '');
+
+  // A spending threshold can watch a budget instead of a zone and amount
+  const watchesBudget = type === 'SPENDING_THRESHOLD' && budgetId !== '';
 
   const handleSave = () => {
     if (!name.trim()) return;
 
-    const config: AlertConfig = { period };
+    const config: AlertConfig = { period: watchesBudget ? 'monthly' : period };
 
-    if (type === 'SPENDING_THRESHOLD') {
+    if (watchesBudget) {
+      config.budgetId = budgetId;
+    } else if (type === 'SPENDING_THRESHOLD') {
       config.zone = zone;
       if (amount) config.amount = parseFloat(amount);
     }
@@ -625,8 +666,41 @@ function AlertModal({
             />
           </div>
 
+          {/* Budget for threshold type */}
+          {type === 'SPENDING_THRESHOLD' && budgets.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Watch a Budget</label>
+              <select
+                value={budgetId}
+                onChange={(e) => setBudgetId(e.target.value)}
+                className="w-full px-4 py-2.5  bg-[#111820] border border-[#424242] text-[white] focus:border-[#3B82F6] focus:outline-none transition-colors"
+              >
+                <option value="">None - use a zone and amount</option>
+                {budgets.map((b) => (
+                  <option key={b.id} value={b.id}>{getBudgetLabel(b)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Share of the budget for threshold type */}
+          {watchesBudget && (
+            <div>
+              <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Alert When Spent (% of budget)</label>
+              <input
+                type="number"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                placeholder="80"
+                min="1"
+                step="1"
+                className="w-full px-4 py-2.5  bg-[#111820] border border-[#424242] text-[white] placeholder:text-[#6B7280] focus:border-[#3B82F6] focus:outline-none transition-colors"
+              />
+            </div>
+          )}
+
           {/* Zone selector for threshold type */}
-          {type === 'SPENDING_THRESHOLD' && (
+          {type === 'SPENDING_THRESHOLD' && !watchesBudget && (
             <div>
               <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Zone</label>
               <div className="flex gap-2">
@@ -649,7 +723,7 @@ function AlertModal({
           )}
 
           {/* Amount for threshold */}
-          {type === 'SPENDING_THRESHOLD' && (
+          {type === 'SPENDING_THRESHOLD' && !watchesBudget && (
             <div>
               <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Amount Threshold ($)</label>
               <input
@@ -664,25 +738,27 @@ function AlertModal({
             </div>
           )}
 
-          {/* Period */}
-          <div>
-            <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Check Period</label>
-            <div className="flex gap-2">
-              {(['daily', 'weekly', 'monthly'] as const).map((p) => (
-                <button
-                  key={p}
-                  onClick={() => setPeriod(p)}
-                  className={`flex-1 px-4 py-2.5  border text-sm font-medium transition-all ${
-                    period === p
-                      ? 'border-[#3B82F6] bg-[#FFC700]/10 text-[white]'
-                      : 'border-[#424242] text-[#6B7280] hover:text-[white]'
-                  }`}
-                >
-                  {p.charAt(0).toUpperCase() + p.slice(1)}
-                </button>
-              ))}
+          {/* Period - budgets are always monthly */}
+          {!watchesBudget && (
+            <div>
+              <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Check Period</label>
+              <div className="flex gap-2">
+                {(['daily', 'weekly', 'monthly'] as const).map((p) => (
+                  <button
+                    key={p}
+                    onClick={() => setPeriod(p)}
+                    className={`flex-1 px-4 py-2.5  border text-sm font-medium transition-all ${
+                      period === p
+                        ? 'border-[#3B82F6] bg-[#FFC700]/10 text-[white]'
+                        : 'border-[#424242] text-[#6B7280] hover:text-[white]'
+                    }`}
+                  >
+                    {p.charAt(0).toUpperCase() + p.slice(1)}
+                  </button>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Channels */}
           <div>
@@ -0,0 +1,498 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import Link from 'next/link';
+import { useTransactions, useCategorizations } from '@/hooks/use-transactions';
+import { useBudgets } from '@/hooks/use-budgets';
+import { formatCurrency } from '@/lib/utils';
+import {
+  addMonths,
+  formatCategory,
+  getBudgetLabel,
+  getDailyAllowance,
+  getMonthStart,
+  sumBudgetSpending,
+} from '@/lib/services/budget-calculator';
+import { ZONE_CONFIG, type TrafficLightZone } from '@/constants/traffic-light';
+import type { Budget, BudgetStatus } from '@/types';
+
+type BudgetZone = Exclude<TrafficLightZone, 'UNCATEGORIZED'>;
+
+const BUDGET_ZONES: BudgetZone[] = ['GREEN', 'YELLOW', 'RED'];
+
+export default function BudgetsPage() {
+  // Enough history to cover the whole month, from the same data the dashboard uses
+  const { transactions: rawTransactions, isLoading: txLoading } = useTransactions(31);
+  const { categorizations: rawCategorizations } = useCategorizations();
+
+  const transactions = useMemo(() =>
+    rawTransactions.map(t => ({
+      id: t.id,
+      amount: Number(t.amount),
+      date: new Date(t.date),
+      kind: t.kind,
+      defaultCategory: t.defaultCategory,
+    })), [rawTransactions]);
+
+  const categorizations = useMemo(() =>
+    rawCategorizations.map(c => ({
+      transactionId: c.transactionId,
+      zone: c.zone,
+      splits: c.splits,
+    })), [rawCategorizations]);
+
+  const {
+    budgets,
+    isLoading: budgetsLoading,
+    error,
+    totals,
+    addBudget,
+    updateBudget,
+    removeBudget,
+  } = useBudgets({ transactions, categorizations });
+
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [prefillCategory, setPrefillCategory] = useState<string | null>(null);
+
+  const zoneBudgets = budgets.filter(b => b.zone);
+  const categoryBudgets = budgets.filter(b => b.category);
+
+  // Categories with spending this month, biggest first - candidates for a budget
+  const categorySpending = useMemo(() => {
+    const categorizationMap = new Map(categorizations.map(c => [c.transactionId, c]));
+    const monthStart = getMonthStart();
+    const names = new Set(transactions.flatMap(t => (t.defaultCategory ? [t.defaultCategory] : [])));
+
+    return Array.from(names)
+      .map(category => ({
+        category,
+        spent: sumBudgetSpending({ zone: null, category }, transactions, categorizationMap, monthStart, addMonths(monthStart, 1)),
+      }))
+      .filter(c => c.spent > 0)
+      .sort((a, b) => b.spent - a.spent);
+  }, [transactions, categorizations]);
+
+  const unbudgeted = categorySpending.filter(c => !categoryBudgets.some(b => b.category === c.category));
+  const dailyAllowance = getDailyAllowance(totals);
+  const monthName = new Date().toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+  if (txLoading || budgetsLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <div className="w-12 h-12 mx-auto mb-4 rounded-full border-2 border-[#22C55E] border-t-transparent animate-spin" />
+          <p className="text-[#9BA4B0]">Loading budgets...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Link
+            href="/dashboard"
+            className="p-2 -ml-2  text-[#9BA4B0] hover:text-[white] hover:bg-[white/5] transition-colors lg:hidden"
+            aria-label="Back to Dashboard"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-[white]">Budgets</h1>
+            <p className="text-sm text-[#9BA4B0] mt-1">
+              {monthName} - give every dollar a job before you spend it.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => {
+            setPrefillCategory(null);
+            setShowAddModal(true);
+          }}
+          className="inline-flex items-center gap-2 px-5 py-2.5 text-sm font-semibold text-white bg-gradient-to-r from-[#16A34A] to-[#22C55E]  hover:shadow-[0_0_24px_rgba(34,197,94,0.4)] transition-all"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+          </svg>
+          New Budget
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded text-sm border bg-[#EF4444]/10 border-[#EF4444]/30 text-[#EF4444]">
+          {error}
+        </div>
+      )}
+
+      {/* Quick Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="p-4  bg-[#111820] border border-[#424242]">
+          <p className="text-sm text-[#6B7280]">Budgeted</p>
+          <p className="text-2xl font-bold text-[white] mt-1">{formatCurrency(totals.available)}</p>
+        </div>
+        <div className="p-4  bg-[#111820] border border-[#424242]">
+          <p className="text-sm text-[#6B7280]">Spent</p>
+          <p className="text-2xl font-bold text-[white] mt-1">{formatCurrency(totals.spent)}</p>
+        </div>
+        <div className="p-4  bg-[#111820] border border-[#424242]">
+          <p className="text-sm text-[#6B7280]">Left to Spend</p>
+          <p className={`text-2xl font-bold mt-1 ${totals.remaining < 0 ? 'text-[#EF4444]' : 'text-[#22C55E]'}`}>
+            {formatCurrency(totals.remaining)}
+          </p>
+        </div>
+        <div className="p-4  bg-[#111820] border border-[#424242]">
+          <p className="text-sm text-[#6B7280]">Per Day</p>
+          <p className="text-2xl font-bold text-[white] mt-1">{formatCurrency(dailyAllowance)}</p>
+        </div>
+      </div>
+
+      {budgets.length === 0 ? (
+        <div className="p-8 text-center bg-[#111820] border border-[#424242]">
+          <p className="text-[white] font-medium">No budgets yet</p>
+          <p className="text-sm text-[#9BA4B0] mt-1">
+            Start with a monthly amount for each zone, then add categories you want to watch closely.
+          </p>
+        </div>
+      ) : (
+        <>
+          {zoneBudgets.length > 0 && (
+            <BudgetSection title="By Zone" budgets={zoneBudgets} onUpdate={updateBudget} onRemove={removeBudget} />
+          )}
+          {categoryBudgets.length > 0 && (
+            <BudgetSection title="By Category" budgets={categoryBudgets} onUpdate={updateBudget} onRemove={removeBudget} />
+          )}
+        </>
+      )}
+
+      {/* Unbudgeted spending */}
+      {unbudgeted.length > 0 && (
+        <div>
+          <h2 className="text-sm font-semibold text-[#9BA4B0] uppercase tracking-wider mb-3">Spending Without a Budget</h2>
+          <div className="bg-[#111820] border border-[#424242] divide-y divide-[#424242]">
+            {unbudgeted.slice(0, 8).map(c => (
+              <div key={c.category} className="flex items-center justify-between gap-4 px-4 py-3">
+                <span className="text-sm text-[white]">{formatCategory(c.category)}</span>
+                <div className="flex items-center gap-4">
+                  <span className="text-sm text-[#9BA4B0]">{formatCurrency(c.spent)} this month</span>
+                  <button
+                    onClick={() => {
+                      setPrefillCategory(c.category);
+                      setShowAddModal(true);
+                    }}
+                    className="text-xs font-medium text-[#22C55E] hover:underline"
+                  >
+                    Budget it
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showAddModal && (
+        <AddBudgetModal
+          existing={budgets}
+          categories={categorySpending.map(c => c.category)}
+          initialCategory={prefillCategory}
+          onClose={() => setShowAddModal(false)}
+          onAdd={async (budget) => {
+            if (await addBudget(budget)) setShowAddModal(false);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function BudgetSection({
+  title,
+  budgets,
+  onUpdate,
+  onRemove,
+}: {
+  title: string;
+  budgets: BudgetStatus[];
+  onUpdate: (id: string, updates: Partial<Pick<Budget, 'amount' | 'rollover'>>) => void;
+  onRemove: (id: string) => void;
+}) {
+  return (
+    <div>
+      <h2 className="text-sm font-semibold text-[#9BA4B0] uppercase tracking-wider mb-3">{title}</h2>
+      <div className="grid gap-4 md:grid-cols-2">
+        {budgets.map(budget => (
+          <BudgetCard
+            key={budget.id}
+            budget={budget}
+            onUpdate={(updates) => onUpdate(budget.id, updates)}
+            onRemove={() => onRemove(budget.id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function BudgetCard({
+  budget,
+  onUpdate,
+  onRemove,
+}: {
+  budget: BudgetStatus;
+  onUpdate: (updates: Partial<Pick<Budget, 'amount' | 'rollover'>>) => void;
+  onRemove: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [amount, setAmount] = useState(budget.amount.toString());
+
+  const color = budget.zone ? ZONE_CONFIG[budget.zone].color : '#3B82F6';
+  const overspent = budget.remaining < 0;
+  const barColor = overspent ? '#EF4444' : budget.percentUsed >= 80 ? '#EAB308' : '#22C55E';
+  const dailyAllowance = getDailyAllowance(budget);
+
+  const handleSave = () => {
+    const value = parseFloat(amount);
+    if (!isNaN(value) && value >= 0) onUpdate({ amount: value });
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="p-5 bg-[#111820] border border-[#424242]">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div className="flex items-center gap-2">
+          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+          <h3 className="font-semibold text-[white]">{getBudgetLabel(budget)}</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className="p-1.5 text-[#6B7280] hover:text-[white] transition-colors"
+            aria-label="Edit budget"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+            </svg>
+          </button>
+          <button
+            onClick={onRemove}
+            className="p-1.5 text-[#6B7280] hover:text-[#EF4444] transition-colors"
+            aria-label="Delete budget"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-baseline justify-between mb-2">
+        <span className={`text-2xl font-bold ${overspent ? 'text-[#EF4444]' : 'text-[white]'}`}>
+          {overspent ? `-${formatCurrency(-budget.remaining)}` : formatCurrency(budget.remaining)}
+        </span>
+        <span className="text-sm text-[#6B7280]">
+          {overspent ? 'over' : 'left'} of {formatCurrency(budget.available)}
+        </span>
+      </div>
+
+      <div className="h-2 bg-[#000000] overflow-hidden mb-3">
+        <div
+          className="h-full transition-all duration-500"
+          style={{ width: `${Math.min(100, budget.percentUsed)}%`, backgroundColor: barColor }}
+        />
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-[#6B7280]">
+        <span>
+          {formatCurrency(budget.spent)} spent
+          {budget.carriedIn > 0 && ` · ${formatCurrency(budget.carriedIn)} rolled over`}
+        </span>
+        {!overspent && <span>{formatCurrency(dailyAllowance)}/day</span>}
+      </div>
+
+      {isEditing && (
+        <div className="mt-4 pt-4 border-t border-[#424242] space-y-3">
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-[#9BA4B0] shrink-0">Monthly amount ($)</label>
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              min="0"
+              step="0.01"
+              className="flex-1 px-3 py-1.5 bg-[#000000] border border-[#424242] text-sm text-[white] focus:border-[#22C55E] focus:outline-none"
+            />
+            <button
+              onClick={handleSave}
+              className="px-3 py-1.5 text-xs font-medium text-white bg-[#22C55E] hover:bg-[#16A34A] transition-colors"
+            >
+              Save
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-[#9BA4B0]">
+            <input
+              type="checkbox"
+              checked={budget.rollover}
+              onChange={(e) => onUpdate({ rollover: e.target.checked })}
+            />
+            Roll unspent money into next month
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AddBudgetModal({
+  existing,
+  categories,
+  initialCategory,
+  onClose,
+  onAdd,
+}: {
+  existing: BudgetStatus[];
+  categories: string[];
+  initialCategory: string | null;
+  onClose: () => void;
+  onAdd: (budget: Pick<Budget, 'zone' | 'category' | 'amount' | 'rollover'>) => void;
+}) {
+  const availableZones = BUDGET_ZONES.filter(z => !existing.some(b => b.zone === z));
+  const [kind, setKind] = useState<'zone' | 'category'>(
+    initialCategory || availableZones.length === 0 ? 'category' : 'zone'
+  );
+  const [zone, setZone] = useState<BudgetZone>(availableZones[0] ?? 'GREEN');
+  const [category, setCategory] = useState(initialCategory ?? '');
+  const [amount, setAmount] = useState('');
+  const [rollover, setRollover] = useState(true);
+
+  const canSave = amount !== '' && (kind === 'zone' ? availableZones.includes(zone) : category.trim() !== '');
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onAdd({
+      zone: kind === 'zone' ? zone : null,
+      category: kind === 'category' ? category.trim() : null,
+      amount: parseFloat(amount),
+      rollover,
+    });
+  };
+
+  const inputClass = "w-full px-4 py-2.5  bg-[#111820] border border-[#424242] text-[white] placeholder:text-[#6B7280] focus:border-[#22C55E] focus:outline-none transition-colors";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative w-full max-w-lg mx-4 bg-[#000000] border border-[#424242]  shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-[#424242] flex items-center justify-between">
+          <h2 className="text-xl font-bold text-[white]">New Budget</h2>
+          <button
+            onClick={onClose}
+            className="p-2  text-[#6B7280] hover:text-[white] transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {/* Zone or category */}
+          <div className="flex gap-2">
+            {(['zone', 'category'] as const).map(k => (
+              <button
+                key={k}
+                onClick={() => setKind(k)}
+                className={`flex-1 px-4 py-2.5  border text-sm font-medium transition-all ${
+                  kind === k
+                    ? 'border-[#22C55E] bg-[#22C55E]/10 text-[white]'
+                    : 'border-[#424242] text-[#6B7280] hover:text-[white]'
+                }`}
+              >
+                {k === 'zone' ? 'Zone' : 'Category'}
+              </button>
+            ))}
+          </div>
+
+          {kind === 'zone' ? (
+            <div>
+              <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Zone</label>
+              {availableZones.length > 0 ? (
+                <div className="flex gap-2">
+                  {availableZones.map(z => (
+                    <button
+                      key={z}
+                      onClick={() => setZone(z)}
+                      className={`flex-1 px-4 py-2.5  border text-sm font-medium transition-all ${
+                        zone === z ? 'border-current' : 'border-[#424242] hover:border-current'
+                      }`}
+                      style={{ color: ZONE_CONFIG[z].color, borderColor: zone === z ? ZONE_CONFIG[z].color : undefined }}
+                    >
+                      {z}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-[#6B7280]">Every zone already has a budget.</p>
+              )}
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Category</label>
+              <input
+                type="text"
+                list="budget-categories"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                placeholder="e.g., FOOD_AND_DRINK"
+                className={inputClass}
+              />
+              <datalist id="budget-categories">
+                {categories
+                  .filter(c => !existing.some(b => b.category === c))
+                  .map(c => <option key={c} value={c}>{formatCategory(c)}</option>)}
+              </datalist>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Monthly Amount ($)</label>
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="400"
+              min="0"
+              step="0.01"
+              className={inputClass}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-[#9BA4B0]">
+            <input type="checkbox" checked={rollover} onChange={(e) => setRollover(e.target.checked)} />
+            Roll unspent money into next month
+          </label>
+        </div>
+
+        <div className="p-6 border-t border-[#424242] flex items-center justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5  text-sm font-medium text-[#9BA4B0] hover:text-[white] transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="px-5 py-2.5  text-sm font-medium text-white bg-[#22C55E] hover:bg-[#16A34A] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Create Budget
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,19 +4,28 @@ import { useState, useMemo, useCallback } from 'react';
 import { TransactionBoard } from '@/components/transactions/transaction-board';
 import { SpendingAnalysis } from '@/components/transactions/spending-analysis';
 import { useTransactions, useCategorizations } from '@/hooks/use-transactions';
+import { useCategorizationRules } from '@/hooks/use-categorization-rules';
+import { useLearnedMerchants } from '@/hooks/use-categorization-learning';
+import { useAccounts } from '@/hooks/use-accounts';
+import { AccountFilter } from '@/components/transactions/account-filter';
+import { isSpendingKind } from '@/lib/transactions/direction';
 import type { TrafficLightZone } from '@/constants/traffic-light';
 
 const BATCH_SIZE = 15;
 
 export default function CanvasPage() {
   const { transactions: rawTransactions, isLoading, refetch } = useTransactions(90);
-  const { categorizations: rawCategorizations, categorize } = useCategorizations();
+  const { categorizations: rawCategorizations, categorize, splitTransaction, unsplitTransaction } = useCategorizations();
+  const { rules } = useCategorizationRules();
+  const { learned, refetch: refetchLearned } = useLearnedMerchants();
   const [showAnalysis, setShowAnalysis] = useState(false);
   const [currentBatch, setCurrentBatch] = useState(0);
+  const { accounts } = useAccounts();
+  const [accountFilter, setAccountFilter] = useState<string | null>(null);
 
-  // Transform transactions to expected format
+  // Transform transactions to expected format - only spending belongs on the canvas
   const transactions = useMemo(() =>
-    rawTransactions.map(t => ({
+    rawTransactions.filter(t => isSpendingKind(t.kind) && (!accountFilter || t.accountId === accountFilter)).map(t => ({
       id: t.id,
       amount: t.amount,
       description: t.description,
@@ -26,26 +35,35 @@ export default function CanvasPage() {
       isRecurring: t.isRecurring,
       userId: t.userId,
       source: t.source,
+      kind: t.kind,
       pending: t.pending,
       createdAt: new Date(t.createdAt),
       updatedAt: new Date(t.updatedAt),
-    })), [rawTransactions]);
+    })), [rawTransactions, accountFilter]);
 
   // Transform categorizations
   const categorizations = useMemo(() =>
     rawCategorizations.map(c => ({
       transactionId: c.transactionId,
       zone: c.zone,
+      splits: c.splits,
     })), [rawCategorizations]);
 
+  // Refresh learned merchants so the next card from the same merchant reflects this choice
   const handleCategorize = useCallback((transactionId: string, zone: TrafficLightZone) => {
-    categorize(transactionId, zone);
-  }, [categorize]);
+    categorize(transactionId, zone).then(refetchLearned);
+  }, [categorize, refetchLearned]);
+
+  // Transactions already filed into a zone (inbox entries from ingest carry zone UNCATEGORIZED)
+  const filedIds = useMemo(() =>
+    new Set(categorizations.filter(c => c.zone !== 'UNCATEGORIZED').map(c => c.transactionId)),
+    [categorizations]
+  );
 
   // Get uncategorized transactions
   const uncategorizedTransactions = useMemo(() =>
-    transactions.filter(t => !categorizations.find(c => c.transactionId === t.id)),
-    [transactions, categorizations]
+    transactions.filter(t => !filedIds.has(t.id)),
+    [transactions, filedIds]
   );
 
   // Split into batches
@@ -57,8 +75,8 @@ export default function CanvasPage() {
 
   // Get already categorized transactions (always show these)
   const categorizedTransactions = useMemo(() =>
-    transactions.filter(t => categorizations.find(c => c.transactionId === t.id)),
-    [transactions, categorizations]
+    transactions.filter(t => filedIds.has(t.id)),
+    [transactions, filedIds]
   );
 
   // Combine: current batch of uncategorized + all categorized
@@ -93,8 +111,16 @@ export default function CanvasPage() {
           </p>
         </div>
 
-        {/* Refresh button */}
+        {/* Account filter & refresh button */}
         <div className="flex items-center gap-2">
+          <AccountFilter
+            accounts={accounts}
+            value={accountFilter}
+            onChange={(accountId) => {
+              setAccountFilter(accountId);
+              setCurrentBatch(0);
+            }}
+          />
           <button
             onClick={() => refetch()}
             className="p-2 text-[#9BA4B0] hover:text-white hover:bg-white/5 transition-colors"
@@ -149,6 +175,10 @@ export default function CanvasPage() {
         transactions={visibleTransactions}
         categorizations={categorizations}
         onCategorize={handleCategorize}
+        rules={rules}
+        learned={learned}
+        onSplit={splitTransaction}
+        onUnsplit={unsplitTransaction}
       />
 
       {/* Show analysis toggle - only appears after some categorization */}
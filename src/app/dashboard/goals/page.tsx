@@ -3,10 +3,14 @@
 import { useState, useMemo } from 'react';
 import Link from 'next/link';
 import { useGoals, type GoalWithProgress } from '@/hooks/use-goals';
+import { useBudgets } from '@/hooks/use-budgets';
 import { useDemoTransactions } from '@/hooks/use-demo-transactions';
 import { useDemoCategorization } from '@/hooks/use-categorization';
+import { useTransactions, useCategorizations } from '@/hooks/use-transactions';
+import { useDataMode } from '@/hooks/use-data-mode';
 import { formatCurrency } from '@/lib/utils';
-import type { GoalType, GoalStatus, GoalTargetConfig } from '@/types';
+import { getBudgetLabel } from '@/lib/services/budget-calculator';
+import type { BudgetStatus, GoalType, GoalStatus, GoalTargetConfig } from '@/types';
 import type { TrafficLightZone } from '@/constants/traffic-light';
 
 const GOAL_TYPE_CONFIG: Record<GoalType, {
@@ -74,8 +78,18 @@ const ZONE_COLORS: Record<TrafficLightZone, string> = {
 };
 
 export default function GoalsPage() {
-  const { transactions, isLoading: txLoading } = useDemoTransactions('demo-user', 30);
-  const { categorizations } = useDemoCategorization('demo-user');
+  const { mode } = useDataMode();
+  const isRealMode = mode === 'real';
+
+  // Demo goals track the demo transactions; real goals track the user's synced ones
+  const demoTransactions = useDemoTransactions('demo-user', 30);
+  const { categorizations: demoCategorizations } = useDemoCategorization('demo-user');
+  const realTransactions = useTransactions(30);
+  const { categorizations: realCategorizations } = useCategorizations();
+
+  const { transactions, isLoading: txLoading } = isRealMode ? realTransactions : demoTransactions;
+  const categorizations = isRealMode ? realCategorizations : demoCategorizations;
+  const { budgets } = useBudgets();
   const {
     goals,
     activeGoals,
@@ -87,8 +101,9 @@ export default function GoalsPage() {
     updateStatus,
     zoneTotals,
   } = useGoals('demo-user', {
-    transactions: transactions.map((t) => ({ id: t.id, amount: Number(t.amount), date: new Date(t.date) })),
-    categorizations: categorizations.map((c) => ({ transactionId: c.transactionId, zone: c.zone })),
+    transactions: transactions.map((t) => ({ id: t.id, amount: Number(t.amount), date: new Date(t.date), kind: t.kind })),
+    categorizations: categorizations.map((c) => ({ transactionId: c.transactionId, zone: c.zone, splits: c.splits })),
+    budgets,
   });
 
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -289,6 +304,7 @@ export default function GoalsPage() {
       {(showCreateModal || editingGoal) && (
         <GoalModal
           goal={editingGoal}
+          budgets={budgets}
           onClose={() => {
             setShowCreateModal(false);
             setEditingGoal(null);
@@ -497,10 +513,12 @@ function SuggestedGoalCard({
 // Goal Modal Component
 function GoalModal({
   goal,
+  budgets,
   onClose,
   onSave,
 }: {
   goal: GoalWithProgress | null;
+  budgets: BudgetStatus[];
   onClose: () => void;
   onSave: (data: {
     type: GoalType;
@@ -517,9 +535,24 @@ function GoalModal({
   const [zone, setZone] = useState<TrafficLightZone>(goal?.targetConfig.zone || 'RED');
   const [targetValue, setTargetValue] = useState(goal?.targetValue?.toString() || '');
   const [period, setPeriod] = useState<'daily' | 'weekly' | 'monthly'>(goal?.targetConfig.period || 'monthly');
+  const [budgetId, setBudgetId] = useState(goal?.targetConfig.budgetId || '');
+
+  // A spending limit can follow a budget instead of its own zone and amount
+  const budget = type === 'SPENDING_LIMIT' ? budgets.find((b) => b.id === budgetId) : undefined;
 
   const handleSave = () => {
-    if (!name.trim() || !targetValue) return;
+    if (!name.trim() || (!targetValue && !budget)) return;
+
+    if (budget) {
+      onSave({
+        type,
+        name: name.trim(),
+        description: description.trim() || undefined,
+        targetConfig: { period: 'monthly', budgetId: budget.id },
+        targetValue: budget.available,
+      });
+      return;
+    }
 
     const config: GoalTargetConfig = { period };
 
@@ -621,8 +654,32 @@ function GoalModal({
             />
           </div>
 
+          {/* Budget (for SPENDING_LIMIT) */}
+          {type === 'SPENDING_LIMIT' && budgets.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Follow a Budget</label>
+              <select
+                value={budgetId}
+                onChange={(e) => setBudgetId(e.target.value)}
+                className="w-full px-4 py-2.5  bg-[#111820] border border-[#424242] text-[white] focus:border-[#FFC700] focus:outline-none transition-colors"
+              >
+                <option value="">None - set my own limit</option>
+                {budgets.map((b) => (
+                  <option key={b.id} value={b.id}>
+                    {getBudgetLabel(b)} ({formatCurrency(b.available)} this month)
+                  </option>
+                ))}
+              </select>
+              {budget && (
+                <p className="text-xs text-[#6B7280] mt-1">
+                  The limit follows the budget each month, including anything rolled over.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Zone Selector (for SPENDING_LIMIT and ZONE_RATIO) */}
-          {(type === 'SPENDING_LIMIT' || type === 'ZONE_RATIO') && (
+          {((type === 'SPENDING_LIMIT' && !budget) || type === 'ZONE_RATIO') && (
             <div>
               <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Target Zone</label>
               <div className="flex gap-2">
@@ -645,26 +702,28 @@ function GoalModal({
           )}
 
           {/* Target Value */}
-          <div>
-            <label className="block text-sm font-medium text-[#9BA4B0] mb-2">
-              {type === 'SPENDING_LIMIT' && 'Maximum Amount ($)'}
-              {type === 'ZONE_RATIO' && (zone === 'GREEN' ? 'Minimum Percentage (%)' : 'Maximum Percentage (%)')}
-              {type === 'STREAK' && 'Target Days'}
-              {type === 'SAVINGS_TARGET' && 'Savings Goal ($)'}
-            </label>
-            <input
-              type="number"
-              value={targetValue}
-              onChange={(e) => setTargetValue(e.target.value)}
-              placeholder={type === 'SPENDING_LIMIT' ? '200' : type === 'ZONE_RATIO' ? '15' : type === 'STREAK' ? '7' : '500'}
-              min="0"
-              step={type === 'ZONE_RATIO' ? '1' : '0.01'}
-              className="w-full px-4 py-2.5  bg-[#111820] border border-[#424242] text-[white] placeholder:text-[#6B7280] focus:border-[#FFC700] focus:outline-none transition-colors"
-            />
-          </div>
+          {!budget && (
+            <div>
+              <label className="block text-sm font-medium text-[#9BA4B0] mb-2">
+                {type === 'SPENDING_LIMIT' && 'Maximum Amount ($)'}
+                {type === 'ZONE_RATIO' && (zone === 'GREEN' ? 'Minimum Percentage (%)' : 'Maximum Percentage (%)')}
+                {type === 'STREAK' && 'Target Days'}
+                {type === 'SAVINGS_TARGET' && 'Savings Goal ($)'}
+              </label>
+              <input
+                type="number"
+                value={targetValue}
+                onChange={(e) => setTargetValue(e.target.value)}
+                placeholder={type === 'SPENDING_LIMIT' ? '200' : type === 'ZONE_RATIO' ? '15' : type === 'STREAK' ? '7' : '500'}
+                min="0"
+                step={type === 'ZONE_RATIO' ? '1' : '0.01'}
+                className="w-full px-4 py-2.5  bg-[#111820] border border-[#424242] text-[white] placeholder:text-[#6B7280] focus:border-[#FFC700] focus:outline-none transition-colors"
+              />
+            </div>
+          )}
 
           {/* Period (for SPENDING_LIMIT) */}
-          {type === 'SPENDING_LIMIT' && (
+          {type === 'SPENDING_LIMIT' && !budget && (
             <div>
               <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Time Period</label>
               <div className="flex gap-2">
@@ -710,7 +769,7 @@ function GoalModal({
           </button>
           <button
             onClick={handleSave}
-            disabled={!name.trim() || !targetValue}
+            disabled={!name.trim() || (!targetValue && !budget)}
             className="px-5 py-2.5  text-sm font-medium text-white bg-[#22C55E] hover:bg-[#16A34A] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
             {goal ? 'Save Changes' : 'Create Goal'}
@@ -9,6 +9,9 @@ import { ZONE_CONFIG } from '@/constants/traffic-light';
 import { IncomeSettingsModal } from '@/components/income/income-settings-modal';
 import { useSession } from 'next-auth/react';
 import { generateInsights } from '@/lib/services/spending-insights';
+import { getZoneSlices, isCategorized, sumZoneTotals, type ZoneCategorization } from '@/lib/services/zone-allocation';
+import { isSpendingKind } from '@/lib/transactions/direction';
+import type { TransactionKind } from '@/types';
 
 export default function DashboardPage() {
   const { data: session } = useSession();
@@ -30,6 +33,7 @@ export default function DashboardPage() {
     rawCategorizations.map(c => ({
       transactionId: c.transactionId,
       zone: c.zone,
+      splits: c.splits,
     })), [rawCategorizations]);
 
   // Generate spending insights
@@ -60,36 +64,27 @@ export default function DashboardPage() {
       };
     }
 
-    const categorizationMap = new Map(categorizations.map((c) => [c.transactionId, c.zone]));
-
-    let greenAmount = 0;
-    let yellowAmount = 0;
-    let redAmount = 0;
-    let categorizedCount = 0;
-
-    transactions.forEach((t) => {
-      const zone = categorizationMap.get(t.id);
-      const amount = Number(t.amount);
-
-      if (zone === 'GREEN') {
-        greenAmount += amount;
-        categorizedCount++;
-      } else if (zone === 'YELLOW') {
-        yellowAmount += amount;
-        categorizedCount++;
-      } else if (zone === 'RED') {
-        redAmount += amount;
-        categorizedCount++;
-      }
-    });
+    const categorizationMap = new Map(categorizations.map((c) => [c.transactionId, c]));
+
+    // Split transactions contribute each part to its own zone; refunds net out
+    const totals = sumZoneTotals(
+      transactions.map((t) => ({ id: t.id, amount: Number(t.amount), kind: t.kind })),
+      categorizationMap
+    );
+    const greenAmount = totals.GREEN;
+    const yellowAmount = totals.YELLOW;
+    const redAmount = totals.RED;
+    // Income and transfers never need categorizing
+    const spending = transactions.filter((t) => isSpendingKind(t.kind));
+    const categorizedCount = spending.filter((t) => isCategorized(categorizationMap.get(t.id))).length;
 
     const totalAmount = greenAmount + yellowAmount + redAmount;
     const healthScore = calculateHealthScore(greenAmount, yellowAmount, redAmount);
 
     return {
-      totalTransactions: transactions.length,
+      totalTransactions: spending.length,
       categorized: categorizedCount,
-      uncategorized: transactions.length - categorizedCount,
+      uncategorized: spending.length - categorizedCount,
       greenAmount,
       yellowAmount,
       redAmount,
@@ -457,8 +452,8 @@ function WeeklyProgress({
   transactions,
   categorizations,
 }: {
-  transactions: Array<{ id: string; date: Date; amount: number }>;
-  categorizations: Array<{ transactionId: string; zone: string }>;
+  transactions: Array<{ id: string; date: Date; amount: number; kind?: TransactionKind }>;
+  categorizations: ZoneCategorization[];
 }) {
   // Get last 7 days of data
   const now = new Date();
@@ -485,10 +480,11 @@ function WeeklyProgress({
     let green = 0, yellow = 0, red = 0;
     dayTransactions.forEach((t) => {
       const cat = categorizations.find((c) => c.transactionId === t.id);
-      const amount = Number(t.amount);
-      if (cat?.zone === 'GREEN') green += amount;
-      else if (cat?.zone === 'YELLOW') yellow += amount;
-      else if (cat?.zone === 'RED') red += amount;
+      getZoneSlices(Number(t.amount), cat, t.kind).forEach((slice) => {
+        if (slice.zone === 'GREEN') green += slice.amount;
+        else if (slice.zone === 'YELLOW') yellow += slice.amount;
+        else if (slice.zone === 'RED') red += slice.amount;
+      });
     });
 
     return { date: day, green, yellow, red, total: green + yellow + red };
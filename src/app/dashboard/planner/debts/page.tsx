@@ -6,12 +6,15 @@
 import { useState } from 'react';
 import Link from 'next/link';
 import { useDebts } from '@/hooks/use-debts';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useDataMode } from '@/hooks/use-data-mode';
 import { DebtCard } from '@/components/planner/debt-card';
-import { StrategySelector } from '@/components/planner/strategy-selector';
+import { StrategySelector, STRATEGY_INFO } from '@/components/planner/strategy-selector';
 import { ExtraPaymentSlider } from '@/components/planner/extra-payment-slider';
+import { PlanVsActual } from '@/components/planner/plan-vs-actual';
 import { AIAdvisorChat, AIAdvisorButton } from '@/components/planner/ai-advisor-chat';
 import { formatCurrency, formatPayoffDate } from '@/lib/services/debt-calculator';
-import type { Debt } from '@/types';
+import type { Debt, FinancialAccount } from '@/types';
 
 export default function DebtsPage() {
   const {
@@ -22,6 +25,8 @@ export default function DebtsPage() {
     setExtraPayment,
     payoffPlan,
     comparison,
+    consolidationOffer,
+    setConsolidationOffer,
     totalDebt,
     totalMinimumPayment,
     debtFreeDate,
@@ -30,12 +35,38 @@ export default function DebtsPage() {
     removeDebt,
     markPaidOff,
     reorderDebts,
+    linkDebt,
+    importDebts,
+    payments,
+    planVsActual,
+    recordPayment,
+    removePayment,
+    error,
     calculateWhatIf,
   } = useDebts();
+  const { mode } = useDataMode();
+  const { accounts } = useAccounts();
+
+  // Credit cards and loans a debt can sync from
+  const liabilityAccounts = accounts.filter(a => a.type === 'credit' || a.type === 'loan');
 
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingDebt, setEditingDebt] = useState<Debt | null>(null);
   const [showAdvisor, setShowAdvisor] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setImportMessage(null);
+    const imported = await importDebts();
+    setImportMessage(
+      imported > 0
+        ? `Updated ${imported} ${imported === 1 ? 'debt' : 'debts'} from your bank`
+        : 'No credit cards or student loans found on your linked accounts'
+    );
+    setIsImporting(false);
+  };
 
   // Get active debts sorted by strategy
   const activeDebts = debts.filter(d => !d.isPaidOff);
@@ -66,14 +97,35 @@ export default function DebtsPage() {
             Add your debts, pick a strategy, and get a clear path to $0.
           </p>
         </div>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className="px-4 py-2 rounded text-sm font-medium text-white bg-gradient-to-r from-[#EF4444] to-[#F97316] hover:opacity-90 transition-opacity"
-        >
-          + Add Debt
-        </button>
+        <div className="flex items-center gap-2">
+          {mode === 'real' && (
+            <button
+              onClick={handleImport}
+              disabled={isImporting}
+              className="px-4 py-2 rounded text-sm font-medium text-[#9BA4B0] border border-[#424242] hover:text-[white] hover:bg-[#000000] transition-colors disabled:opacity-50"
+            >
+              {isImporting ? 'Importing...' : 'Import from bank'}
+            </button>
+          )}
+          <button
+            onClick={() => setShowAddModal(true)}
+            className="px-4 py-2 rounded text-sm font-medium text-white bg-gradient-to-r from-[#EF4444] to-[#F97316] hover:opacity-90 transition-opacity"
+          >
+            + Add Debt
+          </button>
+        </div>
       </div>
 
+      {(error || importMessage) && (
+        <div className={`p-3 rounded text-sm border ${
+          error
+            ? 'bg-[#EF4444]/10 border-[#EF4444]/30 text-[#EF4444]'
+            : 'bg-[#22C55E]/10 border-[#22C55E]/30 text-[#22C55E]'
+        }`}>
+          {error ?? importMessage}
+        </div>
+      )}
+
       {/* How It Works - Educational Section */}
       <div className="p-5 rounded bg-gradient-to-br from-[#111820] to-[#000000] border border-[#424242]">
         <h3 className="font-semibold text-[white] mb-3">How This Works</h3>
@@ -144,8 +196,18 @@ export default function DebtsPage() {
               currentStrategy={strategy}
               onStrategyChange={setStrategy}
               comparison={comparison}
+              consolidationOffer={consolidationOffer}
+              onConsolidationChange={setConsolidationOffer}
             />
           </div>
+
+          {/* Plan vs Actual */}
+          <PlanVsActual
+            debts={debts}
+            planVsActual={planVsActual}
+            payments={payments}
+            onRemovePayment={removePayment}
+          />
         </div>
 
         {/* Right Column - Debt List */}
@@ -157,7 +219,7 @@ export default function DebtsPage() {
                 Active Debts ({activeDebts.length})
               </h3>
               <span className="text-sm text-[#9BA4B0]">
-                {strategy === 'CUSTOM' ? 'Your custom order' : `Sorted by ${strategy.toLowerCase()}`}
+                {strategy === 'CUSTOM' ? 'Your custom order' : `Sorted by ${STRATEGY_INFO[strategy].name.toLowerCase()}`}
               </span>
             </div>
 
@@ -241,6 +303,8 @@ export default function DebtsPage() {
                         onEdit={(d) => setEditingDebt(d)}
                         onDelete={removeDebt}
                         onMarkPaidOff={markPaidOff}
+                        onRecordPayment={recordPayment}
+                        progress={planVsActual.get(debt.id)}
                         isFirst={index === 0}
                       />
                     </div>
@@ -359,9 +423,14 @@ export default function DebtsPage() {
       {editingDebt && (
         <EditDebtModal
           debt={editingDebt}
+          accounts={mode === 'real' ? liabilityAccounts : []}
+          debts={debts}
           onClose={() => setEditingDebt(null)}
-          onSave={(updates) => {
-            updateDebt(editingDebt.id, updates);
+          onSave={async (updates, accountId) => {
+            await updateDebt(editingDebt.id, updates);
+            if (accountId !== (editingDebt.accountId ?? null)) {
+              await linkDebt(editingDebt.id, accountId);
+            }
             setEditingDebt(null);
           }}
         />
@@ -399,6 +468,7 @@ function AddDebtModal({
   const [balance, setBalance] = useState('');
   const [rate, setRate] = useState('');
   const [minPayment, setMinPayment] = useState('');
+  const [terms, setTerms] = useState<PromoTermsValues>(EMPTY_PROMO_TERMS);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -411,7 +481,9 @@ function AddDebtModal({
       priority: 0,
       isPaidOff: false,
       paidOffDate: null,
-      originalBalance: Number(balance),
+      // Filled in from the balance once any transfer fee is on it
+      originalBalance: null,
+      ...promoTermsToDebt(terms),
     });
   };
 
@@ -491,6 +563,8 @@ function AddDebtModal({
             </div>
           </div>
 
+          <PromoTermsFields values={terms} onChange={setTerms} />
+
           <div className="flex gap-3 pt-4">
             <button
               type="button"
@@ -515,17 +589,32 @@ function AddDebtModal({
 // Edit Debt Modal
 function EditDebtModal({
   debt,
+  accounts,
+  debts,
   onClose,
   onSave,
 }: {
   debt: Debt;
+  accounts: FinancialAccount[];
+  debts: Debt[];
   onClose: () => void;
-  onSave: (updates: Partial<Debt>) => void;
+  onSave: (updates: Partial<Debt>, accountId: string | null) => void;
 }) {
   const [name, setName] = useState(debt.name);
   const [balance, setBalance] = useState(debt.balance.toString());
   const [rate, setRate] = useState((debt.interestRate * 100).toString());
   const [minPayment, setMinPayment] = useState(debt.minimumPayment.toString());
+  const [accountId, setAccountId] = useState(debt.accountId ?? '');
+  const [terms, setTerms] = useState<PromoTermsValues>(() => debtToPromoTerms(debt));
+
+  // Linking to an account that already has a debt merges the two
+  const debtOnAccount = (id: string) => debts.find(d => d.accountId === id && d.id !== debt.id);
+
+  const accountOption = (account: FinancialAccount) => {
+    const label = account.mask ? `${account.name} ••${account.mask}` : account.name;
+    const existing = debtOnAccount(account.id);
+    return existing ? `${label} (replaces ${existing.name})` : label;
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -534,7 +623,8 @@ function EditDebtModal({
       balance: Number(balance),
       interestRate: Number(rate) / 100,
       minimumPayment: Number(minPayment),
-    });
+      ...promoTermsToDebt(terms),
+    }, accountId || null);
   };
 
   return (
@@ -613,6 +703,29 @@ function EditDebtModal({
             </div>
           </div>
 
+          <PromoTermsFields values={terms} onChange={setTerms} />
+
+          {accounts.length > 0 && (
+            <div>
+              <label className="block text-sm text-[#9BA4B0] mb-1">Linked Account</label>
+              <select
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className="w-full px-4 py-2 rounded bg-[#000000] border border-[#424242] text-[white] focus:outline-none focus:ring-2 focus:ring-[#EF4444]/50"
+              >
+                <option value="">Not linked (enter manually)</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{accountOption(account)}</option>
+                ))}
+              </select>
+              {accountId && (
+                <p className="text-xs text-[#6B7280] mt-1">
+                  Balance, APR, minimum payment and due date sync from this account and replace what you enter here.
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="flex gap-3 pt-4">
             <button
               type="button"
@@ -633,3 +746,78 @@ function EditDebtModal({
     </div>
   );
 }
+
+// Promo rate, transfer fee and percent-based minimum, as entered in the debt forms
+interface PromoTermsValues {
+  promoRate: string;
+  promoEndDate: string;
+  transferFee: string;
+  minimumPaymentPercent: string;
+}
+
+const EMPTY_PROMO_TERMS: PromoTermsValues = {
+  promoRate: '',
+  promoEndDate: '',
+  transferFee: '',
+  minimumPaymentPercent: '',
+};
+
+function debtToPromoTerms(debt: Debt): PromoTermsValues {
+  return {
+    promoRate: debt.promoRate != null ? (debt.promoRate * 100).toString() : '',
+    promoEndDate: debt.promoEndDate ? debt.promoEndDate.toISOString().slice(0, 10) : '',
+    transferFee: debt.transferFee != null ? debt.transferFee.toString() : '',
+    minimumPaymentPercent: debt.minimumPaymentPercent != null ? (debt.minimumPaymentPercent * 100).toString() : '',
+  };
+}
+
+// A promo needs both a rate and an end date; blank fields clear the term
+function promoTermsToDebt(terms: PromoTermsValues): Pick<Debt, 'promoRate' | 'promoEndDate' | 'transferFee' | 'minimumPaymentPercent'> {
+  const hasPromo = terms.promoRate !== '' && terms.promoEndDate !== '';
+  return {
+    promoRate: hasPromo ? Number(terms.promoRate) / 100 : null,
+    promoEndDate: hasPromo ? new Date(`${terms.promoEndDate}T12:00:00`) : null,
+    transferFee: terms.transferFee !== '' ? Number(terms.transferFee) : null,
+    minimumPaymentPercent: terms.minimumPaymentPercent !== '' ? Number(terms.minimumPaymentPercent) / 100 : null,
+  };
+}
+
+function PromoTermsFields({
+  values,
+  onChange,
+}: {
+  values: PromoTermsValues;
+  onChange: (values: PromoTermsValues) => void;
+}) {
+  const set = (field: keyof PromoTermsValues) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    onChange({ ...values, [field]: e.target.value });
+  const inputClass = "w-full px-4 py-2 rounded bg-[#000000] border border-[#424242] text-[white] focus:outline-none focus:ring-2 focus:ring-[#EF4444]/50";
+
+  return (
+    <details className="rounded border border-[#424242] p-3" open={Object.values(values).some(v => v !== '')}>
+      <summary className="text-sm text-[#9BA4B0] cursor-pointer">Promo rate, transfer fee &amp; minimum %</summary>
+      <div className="grid grid-cols-2 gap-4 mt-3">
+        <div>
+          <label className="block text-xs text-[#9BA4B0] mb-1">Promo APR (%)</label>
+          <input type="number" step="0.01" min="0" value={values.promoRate} onChange={set('promoRate')} placeholder="0" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs text-[#9BA4B0] mb-1">Promo Ends</label>
+          <input type="date" value={values.promoEndDate} onChange={set('promoEndDate')} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs text-[#9BA4B0] mb-1">Transfer Fee ($)</label>
+          <input type="number" step="0.01" min="0" value={values.transferFee} onChange={set('transferFee')} placeholder="0" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs text-[#9BA4B0] mb-1">Minimum (% of balance)</label>
+          <input type="number" step="0.1" min="0" value={values.minimumPaymentPercent} onChange={set('minimumPaymentPercent')} placeholder="e.g. 2" className={inputClass} />
+        </div>
+      </div>
+      <p className="text-xs text-[#6B7280] mt-2">
+        After the promo ends, the APR above applies. A transfer fee is added to the balance once.
+        With a minimum %, the minimum payment above becomes the floor.
+      </p>
+    </details>
+  );
+}
@@ -6,6 +6,8 @@
 import Link from 'next/link';
 import { useDebts } from '@/hooks/use-debts';
 import { useSavingsGoals } from '@/hooks/use-savings-goals';
+import { useNetWorth } from '@/hooks/use-net-worth';
+import { NetWorthCard } from '@/components/planner/net-worth-card';
 import { SmartRecommendationList } from '@/components/planner/smart-recommendation';
 import { generateRecommendations } from '@/lib/services/recommendation-engine';
 import { formatCurrency } from '@/lib/services/debt-calculator';
@@ -29,6 +31,8 @@ export default function PlannerPage() {
     projections,
   } = useSavingsGoals();
 
+  const netWorth = useNetWorth();
+
   // Generate recommendations
   const recommendations = useMemo(() => {
     return generateRecommendations({
@@ -45,8 +49,8 @@ export default function PlannerPage() {
     });
   }, [debts, goals, payoffPlan, projections]);
 
-  // Calculate net worth trend (demo)
-  const netWorthTrend = totalSavings - totalDebt;
+  // Savings minus debt, shown until there's a recorded net worth
+  const netPosition = totalSavings - totalDebt;
 
   return (
     <div className="space-y-8 max-w-7xl mx-auto">
@@ -281,34 +285,45 @@ export default function PlannerPage() {
         <SmartRecommendationList recommendations={recommendations} maxDisplay={4} />
       </div>
 
-      {/* Net Worth Summary */}
-      <div className="p-6 rounded bg-[#111820] border border-[#424242]">
-        <h2 className="text-lg font-semibold text-[white] mb-4">Net Position</h2>
-        <div className="flex items-center justify-between">
-          <div>
-            <p className="text-sm text-[#9BA4B0] mb-1">Assets - Liabilities</p>
-            <p className={`text-3xl font-bold ${netWorthTrend >= 0 ? 'text-[#22C55E]' : 'text-[#EF4444]'}`}>
-              {formatCurrency(Math.abs(netWorthTrend))}
-              {netWorthTrend < 0 && ' (in debt)'}
-            </p>
-          </div>
-          <div className="text-right">
-            <p className="text-xs text-[#9BA4B0]">Total Savings</p>
-            <p className="text-lg font-semibold text-[#22C55E]">{formatCurrency(totalSavings)}</p>
-            <p className="text-xs text-[#9BA4B0] mt-2">Total Debt</p>
-            <p className="text-lg font-semibold text-[#EF4444]">{formatCurrency(totalDebt)}</p>
+      {/* Net Worth - from daily snapshots once there's real data, otherwise the planner's own figures */}
+      {netWorth.current ? (
+        <NetWorthCard
+          current={netWorth.current}
+          history={netWorth.history}
+          monthOverMonth={netWorth.monthOverMonth}
+          assets={netWorth.assets}
+          onAddAsset={netWorth.addAsset}
+          onRemoveAsset={netWorth.removeAsset}
+        />
+      ) : (
+        <div className="p-6 rounded bg-[#111820] border border-[#424242]">
+          <h2 className="text-lg font-semibold text-[white] mb-4">Net Position</h2>
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-[#9BA4B0] mb-1">Assets - Liabilities</p>
+              <p className={`text-3xl font-bold ${netPosition >= 0 ? 'text-[#22C55E]' : 'text-[#EF4444]'}`}>
+                {formatCurrency(Math.abs(netPosition))}
+                {netPosition < 0 && ' (in debt)'}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="text-xs text-[#9BA4B0]">Total Savings</p>
+              <p className="text-lg font-semibold text-[#22C55E]">{formatCurrency(totalSavings)}</p>
+              <p className="text-xs text-[#9BA4B0] mt-2">Total Debt</p>
+              <p className="text-lg font-semibold text-[#EF4444]">{formatCurrency(totalDebt)}</p>
+            </div>
           </div>
-        </div>
 
-        {netWorthTrend < 0 && (
-          <div className="mt-4 p-3 rounded bg-[#EAB308]/10 border border-[#EAB308]/30">
-            <p className="text-sm text-[white]">
-              <span className="font-medium">You&apos;re in the debt zone.</span> Focus on high-interest debt first.
-              Every dollar to debt is a step toward financial freedom.
-            </p>
-          </div>
-        )}
-      </div>
+          {netPosition < 0 && (
+            <div className="mt-4 p-3 rounded bg-[#EAB308]/10 border border-[#EAB308]/30">
+              <p className="text-sm text-[white]">
+                <span className="font-medium">You&apos;re in the debt zone.</span> Focus on high-interest debt first.
+                Every dollar to debt is a step toward financial freedom.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
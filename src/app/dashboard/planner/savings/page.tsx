@@ -6,14 +6,17 @@
 import { useState } from 'react';
 import Link from 'next/link';
 import { useSavingsGoals } from '@/hooks/use-savings-goals';
+import { useDataMode } from '@/hooks/use-data-mode';
+import { useAccounts } from '@/hooks/use-accounts';
 import { SavingsGoalCard } from '@/components/planner/savings-goal-card';
+import { UpgradePrompt } from '@/components/planner/upgrade-prompt';
 import {
   formatCurrency,
   formatTargetDate,
   getGoalTypeIcon,
   getGoalTypeLabel,
 } from '@/lib/services/savings-calculator';
-import type { SavingsGoal, SavingsGoalType } from '@/types';
+import type { CompoundingFrequency, FinancialAccount, SavingsGoal, SavingsGoalType } from '@/types';
 
 const GOAL_TYPES: SavingsGoalType[] = [
   'EMERGENCY',
@@ -29,6 +32,7 @@ export default function SavingsPage() {
   const {
     goals,
     projections,
+    trends,
     totalSavings,
     totalMonthlyContributions,
     savingsRate,
@@ -37,12 +41,41 @@ export default function SavingsPage() {
     removeGoal,
     markCompleted,
     addContribution,
+    removeContribution,
+    matches,
+    acceptMatch,
+    dismissMatch,
+    checkTransfers,
     getGoalIcon,
     getGoalLabel,
+    error,
+    isLocked,
   } = useSavingsGoals();
+  const { mode } = useDataMode();
+  const { accounts } = useAccounts();
+
+  // Checking, savings and investment accounts a goal can be funded into
+  const savingsAccounts = accounts.filter(a => a.type !== 'credit' && a.type !== 'loan');
 
   const [showAddModal, setShowAddModal] = useState(false);
   const [showContributionModal, setShowContributionModal] = useState<string | null>(null);
+  const [editingGoal, setEditingGoal] = useState<SavingsGoal | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [checkMessage, setCheckMessage] = useState<string | null>(null);
+
+  const handleCheckTransfers = async () => {
+    setIsChecking(true);
+    setCheckMessage(null);
+    const recorded = await checkTransfers();
+    setCheckMessage(
+      recorded > 0
+        ? `Added ${recorded} ${recorded === 1 ? 'transfer' : 'transfers'} to your goals`
+        : 'No new transfers to your goals'
+    );
+    setIsChecking(false);
+  };
+
+  const goalName = (id: string) => goals.find(g => g.id === id)?.name ?? 'Deleted goal';
 
   // Get active and completed goals
   const activeGoals = goals.filter(g => !g.isCompleted);
@@ -53,6 +86,10 @@ export default function SavingsPage() {
     return projections.find(p => p.goalId === goalId);
   };
 
+  if (isLocked) {
+    return <UpgradePrompt feature="savings-goals" />;
+  }
+
   return (
     <div className="space-y-8 max-w-6xl mx-auto">
       {/* Header with Back Link */}
@@ -73,14 +110,77 @@ export default function SavingsPage() {
             Set specific targets, track progress, and actually reach your goals.
           </p>
         </div>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className="px-4 py-2 rounded text-sm font-medium text-white bg-gradient-to-r from-[#22C55E] to-[#16A34A] hover:opacity-90 transition-opacity"
-        >
-          + Add Goal
-        </button>
+        <div className="flex items-center gap-2">
+          {mode === 'real' && (
+            <button
+              onClick={handleCheckTransfers}
+              disabled={isChecking}
+              className="px-4 py-2 rounded text-sm font-medium text-[#9BA4B0] border border-[#424242] hover:bg-[#111820] disabled:opacity-50 transition-colors"
+            >
+              {isChecking ? 'Checking...' : 'Check transfers'}
+            </button>
+          )}
+          <button
+            onClick={() => setShowAddModal(true)}
+            className="px-4 py-2 rounded text-sm font-medium text-white bg-gradient-to-r from-[#22C55E] to-[#16A34A] hover:opacity-90 transition-opacity"
+          >
+            + Add Goal
+          </button>
+        </div>
       </div>
 
+      {(error || checkMessage) && (
+        <div className={`p-3 rounded text-sm border ${
+          error
+            ? 'bg-[#EF4444]/10 border-[#EF4444]/30 text-[#EF4444]'
+            : 'bg-[#22C55E]/10 border-[#22C55E]/30 text-[#22C55E]'
+        }`}>
+          {error ?? checkMessage}
+        </div>
+      )}
+
+      {/* Transfers to Review */}
+      {matches.length > 0 && (
+        <div className="p-5 rounded bg-[#111820] border border-[#FFC700]/30">
+          <h3 className="font-semibold text-[white] mb-1">Transfers to Review</h3>
+          <p className="text-xs text-[#9BA4B0] mb-4">
+            These could belong to more than one goal, or don&apos;t look like a transfer. Pick where each one goes.
+          </p>
+          <div className="space-y-2">
+            {matches.map(match => (
+              <div key={match.id} className="flex flex-wrap items-center gap-3 p-3 rounded bg-[#000000]">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-[white] truncate">{match.description}</p>
+                  <p className="text-xs text-[#6B7280]">
+                    {match.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </p>
+                </div>
+                <span className={`text-sm font-semibold ${match.amount < 0 ? 'text-[#EF4444]' : 'text-[#22C55E]'}`}>
+                  {match.amount < 0 ? '-' : '+'}{formatCurrency(Math.abs(match.amount))}
+                </span>
+                <div className="flex flex-wrap gap-1">
+                  {match.goalIds.map(goalId => (
+                    <button
+                      key={goalId}
+                      onClick={() => acceptMatch(match.id, goalId)}
+                      className="px-2 py-1 rounded text-xs font-medium bg-[#22C55E]/10 text-[#22C55E] hover:bg-[#22C55E]/20 transition-colors"
+                    >
+                      {goalName(goalId)}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => dismissMatch(match.id)}
+                    className="px-2 py-1 rounded text-xs text-[#6B7280] hover:text-[white] transition-colors"
+                  >
+                    Not savings
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Goal Types Guide */}
       <div className="p-5 rounded bg-gradient-to-br from-[#111820] to-[#000000] border border-[#424242]">
         <h3 className="font-semibold text-[white] mb-3">Start With The Essentials</h3>
@@ -201,9 +301,11 @@ export default function SavingsPage() {
                 key={goal.id}
                 goal={goal}
                 projection={projection}
-                onEdit={(g) => console.log('Edit', g)}
+                trend={trends.get(goal.id)}
+                onEdit={setEditingGoal}
                 onDelete={removeGoal}
                 onAddContribution={(id) => setShowContributionModal(id)}
+                onRemoveContribution={removeContribution}
               />
             );
           })}
@@ -273,6 +375,7 @@ export default function SavingsPage() {
       {/* Add Goal Modal */}
       {showAddModal && (
         <AddGoalModal
+          accounts={mode === 'real' ? savingsAccounts : null}
           onClose={() => setShowAddModal(false)}
           onAdd={(goal) => {
             addGoal(goal);
@@ -281,6 +384,19 @@ export default function SavingsPage() {
         />
       )}
 
+      {/* Edit Goal Modal */}
+      {editingGoal && (
+        <EditGoalModal
+          goal={editingGoal}
+          accounts={mode === 'real' ? savingsAccounts : null}
+          onClose={() => setEditingGoal(null)}
+          onSave={(updates) => {
+            updateGoal(editingGoal.id, updates);
+            setEditingGoal(null);
+          }}
+        />
+      )}
+
       {/* Add Contribution Modal */}
       {showContributionModal && (
         <AddContributionModal
@@ -299,9 +415,12 @@ export default function SavingsPage() {
 
 // Add Goal Modal
 function AddGoalModal({
+  accounts,
   onClose,
   onAdd,
 }: {
+  // Accounts a goal can be funded into; null hides automatic contributions (demo mode)
+  accounts: FinancialAccount[] | null;
   onClose: () => void;
   onAdd: (goal: Omit<SavingsGoal, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => void;
 }) {
@@ -310,10 +429,14 @@ function AddGoalModal({
   const [targetAmount, setTargetAmount] = useState('');
   const [monthlyContribution, setMonthlyContribution] = useState('');
   const [targetDate, setTargetDate] = useState('');
+  const [link, setLink] = useState<AutoContributionValues>(EMPTY_AUTO_CONTRIBUTION);
+  const [growth, setGrowth] = useState<GrowthValues>(EMPTY_GROWTH);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onAdd({
+      ...autoContributionToGoal(link),
+      ...growthToGoal(growth),
       name: name || getGoalTypeLabel(type),
       type,
       icon: getGoalTypeIcon(type),
@@ -328,7 +451,7 @@ function AddGoalModal({
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
-      <div className="w-full max-w-md p-6 rounded bg-[#111820] border border-[#424242]">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto p-6 rounded bg-[#111820] border border-[#424242]">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-lg font-semibold text-[white]">Add Savings Goal</h2>
           <button
@@ -427,6 +550,10 @@ function AddGoalModal({
             />
           </div>
 
+          <GrowthFields values={growth} onChange={setGrowth} />
+
+          {accounts && <AutoContributionFields accounts={accounts} values={link} onChange={setLink} />}
+
           <div className="flex gap-3 pt-4">
             <button
               type="button"
@@ -537,3 +664,256 @@ function AddContributionModal({
     </div>
   );
 }
+
+// Edit Goal Modal
+function EditGoalModal({
+  goal,
+  accounts,
+  onClose,
+  onSave,
+}: {
+  goal: SavingsGoal;
+  accounts: FinancialAccount[] | null;
+  onClose: () => void;
+  onSave: (updates: Partial<SavingsGoal>) => void;
+}) {
+  const [name, setName] = useState(goal.name);
+  const [targetAmount, setTargetAmount] = useState(goal.targetAmount.toString());
+  const [monthlyContribution, setMonthlyContribution] = useState(goal.monthlyContribution?.toString() ?? '');
+  const [targetDate, setTargetDate] = useState(goal.targetDate ? goal.targetDate.toISOString().slice(0, 10) : '');
+  const [link, setLink] = useState<AutoContributionValues>({
+    accountId: goal.accountId ?? '',
+    transferPattern: goal.transferPattern ?? '',
+  });
+  const [growth, setGrowth] = useState<GrowthValues>({
+    returnPercent: goal.expectedReturn ? (goal.expectedReturn * 100).toString() : '',
+    compounding: goal.compounding ?? 'MONTHLY',
+    inflationPercent: goal.inflationRate ? (goal.inflationRate * 100).toString() : '',
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      name,
+      targetAmount: Number(targetAmount),
+      monthlyContribution: monthlyContribution ? Number(monthlyContribution) : null,
+      targetDate: targetDate ? new Date(targetDate) : null,
+      ...growthToGoal(growth),
+      ...(accounts ? autoContributionToGoal(link) : {}),
+    });
+  };
+
+  const inputClass = "w-full px-4 py-2 rounded bg-[#000000] border border-[#424242] text-[white] focus:outline-none focus:ring-2 focus:ring-[#22C55E]/50";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto p-6 rounded bg-[#111820] border border-[#424242]">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-semibold text-[white]">Edit Savings Goal</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded text-[#9BA4B0] hover:bg-[#000000]"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm text-[#9BA4B0] mb-1">Goal Name</label>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} required />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-[#9BA4B0] mb-1">Target Amount</label>
+              <input type="number" step="0.01" value={targetAmount} onChange={(e) => setTargetAmount(e.target.value)} className={inputClass} required />
+            </div>
+            <div>
+              <label className="block text-sm text-[#9BA4B0] mb-1">Monthly</label>
+              <input type="number" step="0.01" value={monthlyContribution} onChange={(e) => setMonthlyContribution(e.target.value)} placeholder="500" className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-[#9BA4B0] mb-1">Target Date (optional)</label>
+            <input type="date" value={targetDate} onChange={(e) => setTargetDate(e.target.value)} className={inputClass} />
+          </div>
+
+          <GrowthFields values={growth} onChange={setGrowth} />
+
+          {accounts && <AutoContributionFields accounts={accounts} values={link} onChange={setLink} />}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 rounded text-sm font-medium text-[#9BA4B0] border border-[#424242] hover:bg-[#000000]"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 rounded text-sm font-medium text-white bg-gradient-to-r from-[#22C55E] to-[#16A34A] hover:opacity-90"
+            >
+              Save Changes
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// Growth assumptions as typed in the form (percentages)
+interface GrowthValues {
+  returnPercent: string;
+  compounding: CompoundingFrequency;
+  inflationPercent: string;
+}
+
+const EMPTY_GROWTH: GrowthValues = { returnPercent: '', compounding: 'MONTHLY', inflationPercent: '' };
+
+const COMPOUNDING_LABELS: Record<CompoundingFrequency, string> = {
+  DAILY: 'Daily',
+  MONTHLY: 'Monthly',
+  QUARTERLY: 'Quarterly',
+  ANNUALLY: 'Annually',
+};
+
+function growthToGoal(values: GrowthValues): Pick<SavingsGoal, 'expectedReturn' | 'compounding' | 'inflationRate'> {
+  return {
+    expectedReturn: values.returnPercent ? Number(values.returnPercent) / 100 : null,
+    compounding: values.compounding,
+    inflationRate: values.inflationPercent ? Number(values.inflationPercent) / 100 : null,
+  };
+}
+
+function GrowthFields({
+  values,
+  onChange,
+}: {
+  values: GrowthValues;
+  onChange: (values: GrowthValues) => void;
+}) {
+  const inputClass = "w-full px-4 py-2 rounded bg-[#000000] border border-[#424242] text-[white] focus:outline-none focus:ring-2 focus:ring-[#22C55E]/50";
+
+  return (
+    <details className="rounded border border-[#424242] p-3" open={values.returnPercent !== '' || values.inflationPercent !== ''}>
+      <summary className="text-sm text-[#9BA4B0] cursor-pointer">Interest &amp; inflation</summary>
+      <div className="grid grid-cols-2 gap-3 mt-3">
+        <div>
+          <label className="block text-xs text-[#9BA4B0] mb-1">Expected Return (%/yr)</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            max="30"
+            value={values.returnPercent}
+            onChange={(e) => onChange({ ...values, returnPercent: e.target.value })}
+            placeholder="4.5"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-[#9BA4B0] mb-1">Compounding</label>
+          <select
+            value={values.compounding}
+            onChange={(e) => onChange({ ...values, compounding: e.target.value as CompoundingFrequency })}
+            className={inputClass}
+          >
+            {(Object.keys(COMPOUNDING_LABELS) as CompoundingFrequency[]).map(c => (
+              <option key={c} value={c}>{COMPOUNDING_LABELS[c]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="col-span-2">
+          <label className="block text-xs text-[#9BA4B0] mb-1">Inflation (%/yr, optional)</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            max="20"
+            value={values.inflationPercent}
+            onChange={(e) => onChange({ ...values, inflationPercent: e.target.value })}
+            placeholder="3"
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-[#6B7280] mt-2">
+        Use your account&apos;s APY or your portfolio&apos;s expected return. With inflation set, the target is
+        in today&apos;s dollars and your contributions are assumed to rise with prices.
+      </p>
+    </details>
+  );
+}
+
+// Automatic contribution fields as typed in the form
+interface AutoContributionValues {
+  accountId: string;
+  transferPattern: string;
+}
+
+const EMPTY_AUTO_CONTRIBUTION: AutoContributionValues = { accountId: '', transferPattern: '' };
+
+function autoContributionToGoal(values: AutoContributionValues): Pick<SavingsGoal, 'accountId' | 'transferPattern'> {
+  return {
+    accountId: values.accountId || null,
+    transferPattern: values.transferPattern.trim() || null,
+  };
+}
+
+function AutoContributionFields({
+  accounts,
+  values,
+  onChange,
+}: {
+  accounts: FinancialAccount[];
+  values: AutoContributionValues;
+  onChange: (values: AutoContributionValues) => void;
+}) {
+  const inputClass = "w-full px-4 py-2 rounded bg-[#000000] border border-[#424242] text-[white] focus:outline-none focus:ring-2 focus:ring-[#22C55E]/50";
+
+  return (
+    <details className="rounded border border-[#424242] p-3" open={values.accountId !== '' || values.transferPattern !== ''}>
+      <summary className="text-sm text-[#9BA4B0] cursor-pointer">Automatic contributions</summary>
+      <div className="space-y-3 mt-3">
+        {accounts.length > 0 && (
+          <div>
+            <label className="block text-xs text-[#9BA4B0] mb-1">Savings Account</label>
+            <select
+              value={values.accountId}
+              onChange={(e) => onChange({ ...values, accountId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">None</option>
+              {accounts.map(account => (
+                <option key={account.id} value={account.id}>
+                  {account.mask ? `${account.name} ••${account.mask}` : account.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="block text-xs text-[#9BA4B0] mb-1">Transfer Description Contains</label>
+          <input
+            type="text"
+            value={values.transferPattern}
+            onChange={(e) => onChange({ ...values, transferPattern: e.target.value })}
+            placeholder="e.g. Transfer to Ally Savings"
+            minLength={3}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-[#6B7280] mt-2">
+        From now on, money into the account (and out of it, as a withdrawal) and transfers matching
+        the description are added to this goal when your bank syncs or you import a CSV.
+      </p>
+    </details>
+  );
+}
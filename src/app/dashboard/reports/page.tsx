@@ -6,7 +6,9 @@ import { useDemoTransactions } from '@/hooks/use-demo-transactions';
 import { useDemoCategorization } from '@/hooks/use-categorization';
 import { useIncome } from '@/hooks/use-income';
 import { formatCurrency } from '@/lib/utils';
+import { getZoneSlices, isCategorized } from '@/lib/services/zone-allocation';
 import type { TrafficLightZone } from '@/constants/traffic-light';
+import type { UserCategorization } from '@/types';
 
 const ZONE_COLORS: Record<TrafficLightZone, string> = {
   GREEN: '#22C55E',
@@ -31,8 +33,8 @@ export default function ReportsPage() {
 
   // Create categorization map
   const categorizationMap = useMemo(() => {
-    const map = new Map<string, TrafficLightZone>();
-    categorizations.forEach((c) => map.set(c.transactionId, c.zone));
+    const map = new Map<string, UserCategorization>();
+    categorizations.forEach((c) => map.set(c.transactionId, c));
     return map;
   }, [categorizations]);
 
@@ -47,17 +49,29 @@ export default function ReportsPage() {
     let totalSpending = 0;
     let categorizedCount = 0;
 
+    // Top merchants by zone
+    const merchantsByZone: Record<string, Map<string, number>> = {
+      GREEN: new Map(),
+      YELLOW: new Map(),
+      RED: new Map(),
+    };
+
     transactions.forEach((t) => {
-      const zone = categorizationMap.get(t.id);
-      const amount = Math.abs(Number(t.amount));
+      const categorization = categorizationMap.get(t.id);
+      if (!isCategorized(categorization)) return;
+      categorizedCount++;
 
-      if (zone && zone !== 'UNCATEGORIZED') {
+      // Split transactions count each part in its own zone
+      getZoneSlices(Number(t.amount), categorization, t.kind).forEach(({ zone, amount }) => {
+        if (zone === 'UNCATEGORIZED') return;
         zones[zone].amount += amount;
         zones[zone].count++;
         zones[zone].transactions.push(t);
         totalSpending += amount;
-        categorizedCount++;
-      }
+
+        const merchant = t.merchantName || 'Unknown';
+        merchantsByZone[zone].set(merchant, (merchantsByZone[zone].get(merchant) || 0) + amount);
+      });
     });
 
     // Calculate percentages
@@ -68,21 +82,6 @@ export default function ReportsPage() {
     // Health score
     const healthScore = Math.max(0, Math.min(100, greenPercent + (yellowPercent * 0.5) - (redPercent * 0.5)));
 
-    // Top merchants by zone
-    const merchantsByZone: Record<string, Map<string, number>> = {
-      GREEN: new Map(),
-      YELLOW: new Map(),
-      RED: new Map(),
-    };
-
-    (['GREEN', 'YELLOW', 'RED'] as const).forEach((zone) => {
-      zones[zone].transactions.forEach((t) => {
-        const merchant = t.merchantName || 'Unknown';
-        const current = merchantsByZone[zone].get(merchant) || 0;
-        merchantsByZone[zone].set(merchant, current + Math.abs(Number(t.amount)));
-      });
-    });
-
     const topMerchants = (['GREEN', 'YELLOW', 'RED'] as const).map((zone) => ({
       zone,
       merchants: Array.from(merchantsByZone[zone].entries())
@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import { PlaidLinkButton } from '@/components/plaid/plaid-link-button';
+import { useAccounts } from '@/hooks/use-accounts';
+import { formatCurrency } from '@/lib/utils';
 
 interface PlaidAccount {
   id: string;
@@ -23,6 +25,26 @@ interface PlaidConnectionData {
   errorCode: string | null;
 }
 
+// Problems fixed by logging in again through Plaid Link (update mode), which
+// restores the same connection instead of adding a duplicate
+const REPAIRABLE_ERRORS: Record<string, { label: string; message: string; color: string }> = {
+  ITEM_LOGIN_REQUIRED: {
+    label: 'Login required',
+    message: 'Your bank needs you to log in again before we can sync.',
+    color: '#EF4444',
+  },
+  PENDING_EXPIRATION: {
+    label: 'Expiring soon',
+    message: 'Access to this bank expires soon. Reconnect to keep syncing.',
+    color: '#EAB308',
+  },
+  USER_PERMISSION_REVOKED: {
+    label: 'Access revoked',
+    message: 'Access to this bank was revoked. Reconnect to resume syncing.',
+    color: '#EF4444',
+  },
+};
+
 // Bank brand data with logos from Brandfetch CDN
 const SUPPORTED_BANKS = [
   {
@@ -63,6 +85,9 @@ export default function ConnectionsPage() {
   const [connections, setConnections] = useState<PlaidConnectionData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSyncing, setIsSyncing] = useState<string | null>(null);
+  const { accounts: financialAccounts, refreshBalances, refetch: refetchAccounts } = useAccounts();
+  const [isRefreshingBalances, setIsRefreshingBalances] = useState(false);
+  const [balanceError, setBalanceError] = useState<string | null>(null);
 
   const fetchConnections = useCallback(async () => {
     try {
@@ -84,6 +109,19 @@ export default function ConnectionsPage() {
 
   const handlePlaidSuccess = () => {
     fetchConnections();
+    refetchAccounts();
+  };
+
+  const handleRefreshBalances = async () => {
+    setIsRefreshingBalances(true);
+    setBalanceError(null);
+    try {
+      await refreshBalances();
+    } catch (error) {
+      setBalanceError(error instanceof Error ? error.message : 'Failed to refresh balances');
+    } finally {
+      setIsRefreshingBalances(false);
+    }
   };
 
   const handleSync = async (connectionId: string) => {
@@ -94,7 +132,7 @@ export default function ConnectionsPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ connectionId }),
       });
-      await fetchConnections();
+      await Promise.all([fetchConnections(), refetchAccounts()]);
     } catch (error) {
       console.error('Failed to sync:', error);
     } finally {
@@ -103,6 +141,18 @@ export default function ConnectionsPage() {
   };
 
   const getStatusBadge = (connection: PlaidConnectionData) => {
+    const repairable = connection.errorCode ? REPAIRABLE_ERRORS[connection.errorCode] : undefined;
+    if (repairable) {
+      return (
+        <span
+          className="flex items-center gap-1.5 px-2 py-1 rounded-full text-xs font-medium"
+          style={{ color: repairable.color, backgroundColor: `${repairable.color}33` }}
+        >
+          <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: repairable.color }} />
+          {repairable.label}
+        </span>
+      );
+    }
     if (connection.errorCode) {
       return (
         <span className="flex items-center gap-1.5 px-2 py-1 rounded-full text-xs font-medium bg-[#EF4444]/20 text-[#EF4444]">
@@ -209,7 +259,22 @@ export default function ConnectionsPage() {
 
       {/* Connected Accounts */}
       <div className="p-6 rounded bg-[#111820] border border-[#424242]">
-        <h2 className="text-lg font-semibold text-[white] mb-6">Connected Accounts</h2>
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <h2 className="text-lg font-semibold text-[white]">Connected Accounts</h2>
+          {financialAccounts.length > 0 && (
+            <button
+              onClick={handleRefreshBalances}
+              disabled={isRefreshingBalances}
+              className="px-3 py-1.5 rounded text-xs font-medium text-[#9BA4B0] hover:text-[white] border border-[#424242] transition-colors disabled:opacity-50"
+            >
+              {isRefreshingBalances ? 'Refreshing...' : 'Refresh balances'}
+            </button>
+          )}
+        </div>
+
+        {balanceError && (
+          <p className="mb-4 text-sm text-[#EF4444]">{balanceError}</p>
+        )}
 
         {isLoading ? (
           <div className="text-center py-12">
@@ -279,8 +344,57 @@ export default function ConnectionsPage() {
                   </div>
                 </div>
 
-                {/* Linked Accounts */}
-                {connection.accounts && connection.accounts.length > 0 && (
+                {/* Fix connection (Plaid Link update mode) */}
+                {connection.errorCode && REPAIRABLE_ERRORS[connection.errorCode] && (
+                  <div className="flex items-center justify-between gap-4 p-3 mb-4 rounded bg-[#111820] border border-[#424242]">
+                    <p className="text-sm text-[#9BA4B0]">{REPAIRABLE_ERRORS[connection.errorCode].message}</p>
+                    <PlaidLinkButton
+                      connectionId={connection.id}
+                      onSuccess={handlePlaidSuccess}
+                      className="px-4 py-2 rounded text-sm font-semibold text-white bg-[#FFC700] hover:bg-[#E6B800] transition-colors disabled:opacity-50 flex-shrink-0"
+                    >
+                      Fix connection
+                    </PlaidLinkButton>
+                  </div>
+                )}
+
+                {/* Linked Accounts - stored accounts carry balances; Link's metadata is the fallback */}
+                {financialAccounts.some((a) => a.plaidConnectionId === connection.id) ? (
+                  <div className="space-y-2 pt-3 border-t border-[#424242]">
+                    {financialAccounts
+                      .filter((a) => a.plaidConnectionId === connection.id)
+                      .map((account) => (
+                        <div
+                          key={account.id}
+                          className="flex items-center gap-3 p-2 rounded"
+                        >
+                          <div className="w-8 h-8 rounded-md bg-[#0D1117] flex items-center justify-center text-[#6B7280]">
+                            {getAccountTypeIcon(account.type)}
+                          </div>
+                          <div className="flex-1">
+                            <p className="text-sm font-medium text-[white]">
+                              {account.name}
+                            </p>
+                            <p className="text-xs text-[#9BA4B0]">
+                              {account.mask ? `••••${account.mask} · ` : ''}{account.subtype || account.type}
+                            </p>
+                          </div>
+                          {account.currentBalance !== null && (
+                            <div className="text-right">
+                              <p className="text-sm font-medium text-[white]">
+                                {formatCurrency(account.currentBalance)}
+                              </p>
+                              {account.creditLimit !== null ? (
+                                <p className="text-xs text-[#9BA4B0]">of {formatCurrency(account.creditLimit)} limit</p>
+                              ) : account.availableBalance !== null && (
+                                <p className="text-xs text-[#9BA4B0]">{formatCurrency(account.availableBalance)} available</p>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                  </div>
+                ) : connection.accounts && connection.accounts.length > 0 && (
                   <div className="space-y-2 pt-3 border-t border-[#424242]">
                     {connection.accounts.map((account) => (
                       <div
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useUserSettings, useUserProfile } from '@/hooks/use-user-settings';
 import { useIncome } from '@/hooks/use-income';
@@ -8,6 +8,7 @@ import { useDemoTransactions } from '@/hooks/use-demo-transactions';
 import { useTheme } from '@/components/theme-provider';
 import { useDataMode } from '@/hooks/use-data-mode';
 import { formatCurrency } from '@/lib/utils';
+import { subscribeToPush, unsubscribeFromPush } from '@/lib/notifications/push-client';
 import { IncomeSettingsModal } from '@/components/income/income-settings-modal';
 import { CSVImportModal } from '@/components/import/csv-import-modal';
 import { PDFImportModal } from '@/components/import/pdf-import-modal';
@@ -23,6 +24,52 @@ export default function SettingsPage() {
   const [showImportModal, setShowImportModal] = useState(false);
   const [showPDFImportModal, setShowPDFImportModal] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
+  const [serverEmailNotifications, setServerEmailNotifications] = useState<boolean | null>(null);
+  const [preferenceError, setPreferenceError] = useState<string | null>(null);
+
+  // In real mode the email preference lives on the server, where alert delivery reads it
+  useEffect(() => {
+    if (mode !== 'real') return;
+
+    async function loadPreferences() {
+      try {
+        const response = await fetch('/api/preferences');
+        if (!response.ok) return;
+        const data = await response.json();
+        setServerEmailNotifications(data.preferences.emailNotifications);
+      } catch (error) {
+        console.error('Failed to fetch preferences:', error);
+      }
+    }
+
+    loadPreferences();
+  }, [mode]);
+
+  const emailNotifications =
+    mode === 'real' && serverEmailNotifications !== null
+      ? serverEmailNotifications
+      : settings.emailNotifications;
+
+  const toggleEmailNotifications = async () => {
+    const enabling = !emailNotifications;
+    if (mode === 'real') {
+      setPreferenceError(null);
+      try {
+        const response = await fetch('/api/preferences', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ emailNotifications: enabling }),
+        });
+        if (!response.ok) throw new Error('Failed to save email preference');
+        const data = await response.json();
+        setServerEmailNotifications(data.preferences.emailNotifications);
+      } catch (error) {
+        setPreferenceError(error instanceof Error ? error.message : 'Failed to save email preference');
+      }
+      return;
+    }
+    updateSetting('emailNotifications', enabling);
+  };
 
   if (isLoading) {
     return (
@@ -46,7 +93,7 @@ export default function SettingsPage() {
       </div>
 
       {/* Quick Links */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
         <Link
           href="/dashboard/settings/profile"
           className="p-4 rounded bg-[#111820] border border-[#424242] hover:border-[#FFC700]/50 transition-all group"
@@ -86,6 +133,19 @@ export default function SettingsPage() {
           <p className="text-xs text-[#6B7280] mt-0.5">Bank accounts</p>
         </Link>
 
+        <Link
+          href="/dashboard/settings/rules"
+          className="p-4 rounded bg-[#111820] border border-[#424242] hover:border-[#FFC700]/50 transition-all group"
+        >
+          <div className="w-10 h-10 rounded bg-[#EF4444]/10 flex items-center justify-center mb-3 group-hover:bg-[#EF4444]/20 transition-colors">
+            <svg className="w-5 h-5 text-[#EF4444]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+            </svg>
+          </div>
+          <h3 className="text-sm font-medium text-[white]">Rules</h3>
+          <p className="text-xs text-[#6B7280] mt-0.5">Auto-categorization</p>
+        </Link>
+
         <button
           onClick={() => setShowIncomeModal(true)}
           className="p-4 rounded bg-[#111820] border border-[#424242] hover:border-[#FFC700]/50 transition-all group text-left"
@@ -180,14 +240,20 @@ export default function SettingsPage() {
       <div className="p-6 rounded bg-[#111820] border border-[#424242]">
         <h2 className="text-lg font-semibold text-[white] mb-6">Notifications</h2>
 
+        {preferenceError && (
+          <div className="mb-6 p-3 rounded text-sm border bg-[#EF4444]/10 border-[#EF4444]/30 text-[#EF4444]">
+            {preferenceError}
+          </div>
+        )}
+
         <div className="space-y-6">
           <SettingRow
             label="Email Notifications"
             description="Receive alerts and updates via email"
           >
             <ToggleSwitch
-              enabled={settings.emailNotifications}
-              onToggle={() => updateSetting('emailNotifications', !settings.emailNotifications)}
+              enabled={emailNotifications}
+              onToggle={toggleEmailNotifications}
             />
           </SettingRow>
 
@@ -197,7 +263,19 @@ export default function SettingsPage() {
           >
             <ToggleSwitch
               enabled={settings.pushNotifications}
-              onToggle={() => updateSetting('pushNotifications', !settings.pushNotifications)}
+              onToggle={async () => {
+                const enabling = !settings.pushNotifications;
+                if (mode === 'real') {
+                  try {
+                    if (enabling && !(await subscribeToPush())) return;
+                    if (!enabling) await unsubscribeFromPush();
+                  } catch (error) {
+                    console.error('Push subscription error:', error);
+                    return;
+                  }
+                }
+                updateSetting('pushNotifications', enabling);
+              }}
             />
           </SettingRow>
 
@@ -0,0 +1,653 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useCategorizationRules, type CategorizationRuleInput } from '@/hooks/use-categorization-rules';
+import { useCategorizationAccuracy, useLearnedMerchants } from '@/hooks/use-categorization-learning';
+import { ZONE_CONFIG, type TrafficLightZone } from '@/constants/traffic-light';
+import { formatCurrency } from '@/lib/utils';
+import { MAX_RULE_REGEX_LENGTH } from '@/lib/services/auto-categorize';
+import type { CategorizationRule } from '@/types';
+
+type RuleZone = Exclude<TrafficLightZone, 'UNCATEGORIZED'>;
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface AccountOption {
+  id: string;
+  label: string;
+}
+
+interface PlaidConnectionResponse {
+  institutionName: string | null;
+  accounts: Array<{ id: string; name: string; mask: string }> | null;
+}
+
+const AUTO_FILE_OPTIONS = [0.7, 0.8, 0.85, 0.9, 0.95, 1];
+
+interface IngestPreferences {
+  autoFileThreshold: number;
+  aiSuggestionsEnabled: boolean;
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+// Human-readable summary of a rule's conditions
+function describeConditions(rule: CategorizationRule, accounts: AccountOption[]): string[] {
+  const parts: string[] = [];
+
+  if (rule.merchantContains) parts.push(`contains "${rule.merchantContains}"`);
+  if (rule.merchantRegex) parts.push(`matches /${rule.merchantRegex}/`);
+  if (rule.minAmount != null && rule.maxAmount != null) {
+    parts.push(`${formatCurrency(rule.minAmount)} – ${formatCurrency(rule.maxAmount)}`);
+  } else if (rule.minAmount != null) {
+    parts.push(`at least ${formatCurrency(rule.minAmount)}`);
+  } else if (rule.maxAmount != null) {
+    parts.push(`at most ${formatCurrency(rule.maxAmount)}`);
+  }
+  if (rule.daysOfWeek.length > 0) {
+    parts.push(`on ${[...rule.daysOfWeek].sort().map((d) => DAY_LABELS[d]).join(', ')}`);
+  }
+  if (rule.accountIds.length > 0) {
+    const names = rule.accountIds.map((id) => accounts.find((a) => a.id === id)?.label || 'Unknown account');
+    parts.push(`from ${names.join(', ')}`);
+  }
+
+  return parts;
+}
+
+export default function CategorizationRulesPage() {
+  const { rules, isLoading, error, createRule, updateRule, deleteRule, reorderRules } = useCategorizationRules();
+  const [accounts, setAccounts] = useState<AccountOption[]>([]);
+  const [editingRule, setEditingRule] = useState<CategorizationRule | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const { merchants, forget } = useLearnedMerchants();
+  const { accuracy } = useCategorizationAccuracy();
+  const [preferences, setPreferences] = useState<IngestPreferences | null>(null);
+
+  // Load linked bank accounts for the account filter
+  useEffect(() => {
+    async function loadAccounts() {
+      try {
+        const response = await fetch('/api/plaid/connections');
+        if (!response.ok) return;
+        const data = await response.json();
+        const options: AccountOption[] = (data.connections || []).flatMap((c: PlaidConnectionResponse) =>
+          (c.accounts || []).map((a) => ({
+            id: a.id,
+            label: `${c.institutionName || 'Bank'} ${a.name} ••••${a.mask}`,
+          }))
+        );
+        setAccounts(options);
+      } catch (err) {
+        console.error('Failed to fetch accounts:', err);
+      }
+    }
+
+    loadAccounts();
+  }, []);
+
+  // Load the auto-file threshold used when new transactions arrive
+  useEffect(() => {
+    async function loadPreferences() {
+      try {
+        const response = await fetch('/api/preferences');
+        if (!response.ok) return;
+        const data = await response.json();
+        setPreferences(data.preferences);
+      } catch (err) {
+        console.error('Failed to fetch preferences:', err);
+      }
+    }
+
+    loadPreferences();
+  }, []);
+
+  const updatePreferences = (updates: Partial<IngestPreferences>) =>
+    runAction(async () => {
+      const response = await fetch('/api/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      if (!response.ok) throw new Error('Failed to save auto-filing settings');
+      const data = await response.json();
+      setPreferences(data.preferences);
+    });
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+    const ids = rules.map((r) => r.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    runAction(() => reorderRules(ids));
+  };
+
+  const handleSave = async (input: CategorizationRuleInput) => {
+    setActionError(null);
+    if (editingRule) {
+      await updateRule(editingRule.id, input);
+    } else {
+      await createRule(input);
+    }
+    setShowModal(false);
+    setEditingRule(null);
+  };
+
+  return (
+    <div className="space-y-6 max-w-4xl">
+      {/* Back Button & Breadcrumb */}
+      <div className="flex items-center gap-3">
+        <Link
+          href="/dashboard/settings"
+          className="p-2 -ml-2 rounded text-[#9BA4B0] hover:text-[white] hover:bg-[white/5] transition-colors"
+          aria-label="Back to Settings"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </Link>
+        <div className="flex items-center gap-2 text-sm">
+          <Link href="/dashboard/settings" className="text-[#6B7280] hover:text-[white] transition-colors">
+            Settings
+          </Link>
+          <span className="text-[#6B7280]">/</span>
+          <span className="text-[white]">Rules</span>
+        </div>
+      </div>
+
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-[white]">Categorization Rules</h1>
+          <p className="text-sm text-[#9BA4B0] mt-1">
+            Your rules run before SpendSignal&apos;s built-in suggestions, top to bottom. The first match wins.
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setEditingRule(null);
+            setShowModal(true);
+          }}
+          className="px-5 py-2.5 rounded text-sm font-semibold text-white bg-[#FFC700] hover:bg-[#E6B800] transition-colors flex items-center gap-2"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          Add Rule
+        </button>
+      </div>
+
+      {(error || actionError) && (
+        <div className="p-4 rounded bg-[#EF4444]/10 border border-[#EF4444]/30 text-sm text-[#EF4444]">
+          {actionError || error}
+        </div>
+      )}
+
+      {/* Rule List */}
+      <div className="p-6 rounded bg-[#111820] border border-[#424242]">
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="w-8 h-8 mx-auto border-2 border-[#6B7280] border-t-[white] rounded-full animate-spin" />
+            <p className="text-sm text-[#9BA4B0] mt-4">Loading rules...</p>
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-[white] mb-2">No rules yet</h3>
+            <p className="text-sm text-[#9BA4B0] max-w-md mx-auto">
+              Add a rule when a merchant keeps landing in the wrong zone, like a local grocer that looks like a restaurant.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule, index) => {
+              const zoneConfig = ZONE_CONFIG[rule.zone];
+              return (
+                <div
+                  key={rule.id}
+                  className={`p-4 rounded bg-[#0D1117] border border-[#424242] flex items-center gap-4 ${
+                    rule.isEnabled ? '' : 'opacity-50'
+                  }`}
+                >
+                  {/* Priority controls */}
+                  <div className="flex flex-col">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-[#6B7280] hover:text-[white] disabled:opacity-30 transition-colors"
+                      aria-label="Move rule up"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === rules.length - 1}
+                      className="p-1 text-[#6B7280] hover:text-[white] disabled:opacity-30 transition-colors"
+                      aria-label="Move rule down"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                      </svg>
+                    </button>
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-semibold text-[white] truncate">{rule.name}</p>
+                      <span
+                        className="px-2 py-0.5 rounded-full text-xs font-medium"
+                        style={{ color: zoneConfig.color, backgroundColor: `${zoneConfig.color}20` }}
+                      >
+                        {rule.category ? `${zoneConfig.label} · ${rule.category}` : zoneConfig.label}
+                      </span>
+                    </div>
+                    <p className="text-xs text-[#9BA4B0] mt-1">
+                      {describeConditions(rule, accounts).join(' · ')}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => runAction(() => updateRule(rule.id, { isEnabled: !rule.isEnabled }))}
+                      className="px-3 py-1.5 rounded text-xs font-medium text-[#9BA4B0] hover:text-[white] border border-[#424242] transition-colors"
+                    >
+                      {rule.isEnabled ? 'Disable' : 'Enable'}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingRule(rule);
+                        setShowModal(true);
+                      }}
+                      className="px-3 py-1.5 rounded text-xs font-medium text-[#9BA4B0] hover:text-[white] border border-[#424242] transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => runAction(() => deleteRule(rule.id))}
+                      className="p-1.5 rounded text-[#6B7280] hover:text-[#EF4444] transition-colors"
+                      aria-label="Delete rule"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Auto-filing */}
+      {preferences && (
+        <div className="p-6 rounded bg-[#111820] border border-[#424242]">
+          <h2 className="text-lg font-semibold text-[white]">Auto-filing</h2>
+          <p className="text-sm text-[#9BA4B0] mt-1 mb-6">
+            New imported and synced transactions are filed automatically when the suggestion is at least this confident.
+            Everything else waits in your canvas inbox.
+          </p>
+          <div className="flex items-center justify-between gap-4">
+            <label className="flex items-center gap-2 text-sm text-[white]">
+              <input
+                type="checkbox"
+                checked={preferences.aiSuggestionsEnabled}
+                onChange={(e) => updatePreferences({ aiSuggestionsEnabled: e.target.checked })}
+              />
+              Auto-file confident suggestions
+            </label>
+            <select
+              value={preferences.autoFileThreshold}
+              onChange={(e) => updatePreferences({ autoFileThreshold: parseFloat(e.target.value) })}
+              disabled={!preferences.aiSuggestionsEnabled}
+              className="px-4 py-2 rounded bg-[#0D1117] border border-[#424242] text-[white] text-sm focus:border-[#FFC700] focus:outline-none disabled:opacity-50"
+            >
+              {AUTO_FILE_OPTIONS.map((value) => (
+                <option key={value} value={value}>
+                  {value === 1 ? 'Only my rules (100%)' : `${formatPercent(value)} or higher`}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {/* Suggestion Accuracy */}
+      {accuracy && accuracy.overall.total > 0 && (
+        <div className="p-6 rounded bg-[#111820] border border-[#424242]">
+          <h2 className="text-lg font-semibold text-[white]">Suggestion Accuracy</h2>
+          <p className="text-sm text-[#9BA4B0] mt-1 mb-6">
+            You kept {formatPercent(1 - accuracy.overall.overrideRate)} of {accuracy.overall.total} suggestions.
+            A high override rate means a rule or merchant needs attention.
+          </p>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-xs font-medium text-[#6B7280] uppercase tracking-wider mb-3">By suggested zone</h3>
+              <div className="space-y-2">
+                {accuracy.byZone.map((row) => (
+                  <div key={row.zone} className="flex items-center justify-between text-sm">
+                    <span style={{ color: ZONE_CONFIG[row.zone].color }}>{ZONE_CONFIG[row.zone].label}</span>
+                    <span className="text-[#9BA4B0]">
+                      {formatPercent(row.overrideRate)} overridden · {row.total}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <h3 className="text-xs font-medium text-[#6B7280] uppercase tracking-wider mb-3">By source</h3>
+              <div className="space-y-2">
+                {accuracy.bySource.map((row) => (
+                  <div key={row.source} className="flex items-center justify-between text-sm gap-3">
+                    <span className="text-[white] truncate">{row.label}</span>
+                    <span className="text-[#9BA4B0] flex-shrink-0">
+                      {formatPercent(row.overrideRate)} overridden · {row.total}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Learned Merchants */}
+      {merchants.length > 0 && (
+        <div className="p-6 rounded bg-[#111820] border border-[#424242]">
+          <h2 className="text-lg font-semibold text-[white]">Learned Merchants</h2>
+          <p className="text-sm text-[#9BA4B0] mt-1 mb-6">
+            Zones picked up from where you drag transactions. These apply after your rules.
+          </p>
+          <div className="space-y-2">
+            {merchants.map((merchant) => (
+              <div
+                key={merchant.merchantKey}
+                className="flex items-center justify-between p-3 rounded bg-[#0D1117] border border-[#424242]"
+              >
+                <div>
+                  <p className="text-sm font-medium text-[white] capitalize">{merchant.merchantKey}</p>
+                  <p className="text-xs text-[#9BA4B0]">
+                    <span style={{ color: ZONE_CONFIG[merchant.zone].color }}>{ZONE_CONFIG[merchant.zone].label}</span>
+                    {' · '}confirmed {merchant.timesConfirmed}× in a row
+                  </p>
+                </div>
+                <button
+                  onClick={() => runAction(() => forget(merchant.merchantKey))}
+                  className="px-3 py-1.5 rounded text-xs font-medium text-[#9BA4B0] hover:text-[white] border border-[#424242] transition-colors"
+                >
+                  Forget
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showModal && (
+        <RuleModal
+          rule={editingRule}
+          accounts={accounts}
+          onClose={() => {
+            setShowModal(false);
+            setEditingRule(null);
+          }}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  );
+}
+
+// Create/edit rule modal
+function RuleModal({
+  rule,
+  accounts,
+  onClose,
+  onSave,
+}: {
+  rule: CategorizationRule | null;
+  accounts: AccountOption[];
+  onClose: () => void;
+  onSave: (input: CategorizationRuleInput) => Promise<void>;
+}) {
+  const [name, setName] = useState(rule?.name || '');
+  const [merchantContains, setMerchantContains] = useState(rule?.merchantContains || '');
+  const [merchantRegex, setMerchantRegex] = useState(rule?.merchantRegex || '');
+  const [minAmount, setMinAmount] = useState(rule?.minAmount != null ? String(rule.minAmount) : '');
+  const [maxAmount, setMaxAmount] = useState(rule?.maxAmount != null ? String(rule.maxAmount) : '');
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>(rule?.daysOfWeek || []);
+  const [accountIds, setAccountIds] = useState<string[]>(rule?.accountIds || []);
+  const [zone, setZone] = useState<RuleZone>(rule && rule.zone !== 'UNCATEGORIZED' ? rule.zone : 'GREEN');
+  const [category, setCategory] = useState(rule?.category || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const hasCondition = Boolean(
+    merchantContains.trim() || merchantRegex.trim() || minAmount || maxAmount || daysOfWeek.length || accountIds.length
+  );
+
+  const toggleDay = (day: number) => {
+    setDaysOfWeek((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]));
+  };
+
+  const toggleAccount = (id: string) => {
+    setAccountIds((prev) => (prev.includes(id) ? prev.filter((a) => a !== id) : [...prev, id]));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !hasCondition) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave({
+        name: name.trim(),
+        merchantContains: merchantContains.trim() || null,
+        merchantRegex: merchantRegex.trim() || null,
+        minAmount: minAmount ? parseFloat(minAmount) : null,
+        maxAmount: maxAmount ? parseFloat(maxAmount) : null,
+        daysOfWeek,
+        accountIds,
+        zone,
+        category: category.trim() || null,
+      });
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-2.5 bg-[#111820] border border-[#424242] text-[white] placeholder:text-[#6B7280] focus:border-[#3B82F6] focus:outline-none transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative w-full max-w-lg mx-4 bg-[#000000] border border-[#424242] shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="p-6 border-b border-[#424242] bg-gradient-to-r from-[#111820] to-transparent">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold text-[white]">{rule ? 'Edit Rule' : 'Create Rule'}</h2>
+            <button
+              onClick={onClose}
+              className="p-2 text-[#6B7280] hover:text-[white] hover:bg-[white/5] transition-colors"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 max-h-[60vh] overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Rule Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Joe's Market is groceries"
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Merchant Contains</label>
+            <input
+              type="text"
+              value={merchantContains}
+              onChange={(e) => setMerchantContains(e.target.value)}
+              placeholder="joe's market"
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Merchant Pattern (regex)</label>
+            <input
+              type="text"
+              value={merchantRegex}
+              onChange={(e) => setMerchantRegex(e.target.value)}
+              maxLength={MAX_RULE_REGEX_LENGTH}
+              placeholder="^sq \*joe"
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Min Amount ($)</label>
+              <input
+                type="number"
+                value={minAmount}
+                onChange={(e) => setMinAmount(e.target.value)}
+                min="0"
+                step="0.01"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Max Amount ($)</label>
+              <input
+                type="number"
+                value={maxAmount}
+                onChange={(e) => setMaxAmount(e.target.value)}
+                min="0"
+                step="0.01"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Days of Week</label>
+            <div className="flex gap-1">
+              {DAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  onClick={() => toggleDay(day)}
+                  className={`flex-1 py-2 border text-xs font-medium transition-all ${
+                    daysOfWeek.includes(day)
+                      ? 'border-[#3B82F6] bg-[#FFC700]/10 text-[white]'
+                      : 'border-[#424242] text-[#6B7280] hover:text-[white]'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-[#6B7280] mt-2">Leave empty to match any day</p>
+          </div>
+
+          {accounts.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Accounts</label>
+              <div className="space-y-1">
+                {accounts.map((account) => (
+                  <label key={account.id} className="flex items-center gap-2 text-sm text-[white]">
+                    <input
+                      type="checkbox"
+                      checked={accountIds.includes(account.id)}
+                      onChange={() => toggleAccount(account.id)}
+                    />
+                    {account.label}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-[#6B7280] mt-2">Leave empty to match any account</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-[#9BA4B0] mb-2">File Into</label>
+            <div className="flex gap-2">
+              {(['GREEN', 'YELLOW', 'RED'] as RuleZone[]).map((z) => (
+                <button
+                  key={z}
+                  onClick={() => setZone(z)}
+                  className={`flex-1 px-4 py-2.5 border text-sm font-medium transition-all ${
+                    zone === z ? 'border-current' : 'border-[#424242] hover:border-current'
+                  }`}
+                  style={{ color: ZONE_CONFIG[z].color, borderColor: zone === z ? ZONE_CONFIG[z].color : undefined }}
+                >
+                  {z}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-[#9BA4B0] mb-2">Category (optional)</label>
+            <input
+              type="text"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              placeholder="Groceries"
+              className={inputClass}
+            />
+          </div>
+
+          {saveError && <p className="text-sm text-[#EF4444]">{saveError}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-[#424242] flex items-center justify-between gap-3">
+          <p className="text-xs text-[#6B7280]">{hasCondition ? '' : 'Add at least one condition'}</p>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onClose}
+              className="px-5 py-2.5 text-sm font-medium text-[#9BA4B0] hover:text-[white] transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!name.trim() || !hasCondition || isSaving}
+              className="px-5 py-2.5 text-sm font-medium text-white bg-[#22C55E] hover:bg-[#16A34A] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {rule ? 'Save Changes' : 'Create Rule'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
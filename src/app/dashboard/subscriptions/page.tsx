@@ -0,0 +1,235 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRecurringCharges } from '@/hooks/use-recurring-charges';
+import { useAlerts } from '@/hooks/use-alerts';
+import { useDataMode } from '@/hooks/use-data-mode';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { isStreamingService } from '@/lib/services/recurring-detection';
+import { formatCategory } from '@/lib/services/budget-calculator';
+import { PATTERN_MESSAGES } from '@/constants/traffic-light';
+import type { RecurringCadence, RecurringCharge } from '@/types';
+
+const CADENCE_LABELS: Record<RecurringCadence, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  annual: 'Yearly',
+};
+
+// Three or more streaming services gets the tough-love nudge
+const STREAMING_STACK_MIN = 3;
+
+const DAY_MS = 86_400_000;
+
+/**
+ * "Today", "in 3 days", "5 days ago"
+ */
+function formatRelativeDay(date: Date): string {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  const days = Math.round((day.getTime() - today.getTime()) / DAY_MS);
+
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  if (days > 0) return `in ${days} days`;
+  return `${-days} day${days === -1 ? '' : 's'} ago`;
+}
+
+export default function SubscriptionsPage() {
+  const { charges, isLoading, error, totals } = useRecurringCharges();
+  const { alerts, createAlert } = useAlerts('demo-user');
+  const { mode } = useDataMode();
+  const [showStopped, setShowStopped] = useState(false);
+
+  // Price increases and missed charges are sent by a saved RECURRING_CHARGE alert
+  const recurringAlert = alerts.find(a => a.type === 'RECURRING_CHARGE');
+
+  const current = charges.filter(c => c.status !== 'stopped');
+  const stopped = charges.filter(c => c.status === 'stopped');
+  const needsAttention = current.filter(c => c.priceIncrease || c.status === 'missed');
+  const streamingCount = current.filter(isStreamingService).length;
+  const upcoming = [...current]
+    .filter(c => c.status === 'active')
+    .sort((a, b) => a.nextChargeAt.getTime() - b.nextChargeAt.getTime());
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="text-center">
+          <div className="w-12 h-12 mx-auto mb-4 rounded-full border-2 border-[#22C55E] border-t-transparent animate-spin" />
+          <p className="text-[#9BA4B0]">Finding recurring charges...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <Link
+          href="/dashboard"
+          className="p-2 -ml-2  text-[#9BA4B0] hover:text-[white] hover:bg-[white/5] transition-colors lg:hidden"
+          aria-label="Back to Dashboard"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-[white]">Subscriptions</h1>
+          <p className="text-sm text-[#9BA4B0] mt-1">
+            Everything that charges you on repeat, found in your transactions.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded text-sm border bg-[#EF4444]/10 border-[#EF4444]/30 text-[#EF4444]">
+          {error}
+        </div>
+      )}
+
+      {/* Quick Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="p-4  bg-[#111820] border border-[#424242]">
+          <p className="text-sm text-[#6B7280]">Per Month</p>
+          <p className="text-2xl font-bold text-[white] mt-1">{formatCurrency(totals.monthly)}</p>
+        </div>
+        <div className="p-4  bg-[#111820] border border-[#424242]">
+          <p className="text-sm text-[#6B7280]">Per Year</p>
+          <p className="text-2xl font-bold text-[white] mt-1">{formatCurrency(totals.annual)}</p>
+        </div>
+        <div className="p-4  bg-[#111820] border border-[#424242]">
+          <p className="text-sm text-[#6B7280]">Active</p>
+          <p className="text-2xl font-bold text-[white] mt-1">{totals.count}</p>
+        </div>
+        <div className="p-4  bg-[#111820] border border-[#424242]">
+          <p className="text-sm text-[#6B7280]">Needs a Look</p>
+          <p className={`text-2xl font-bold mt-1 ${needsAttention.length > 0 ? 'text-[#EAB308]' : 'text-[#22C55E]'}`}>
+            {needsAttention.length}
+          </p>
+        </div>
+      </div>
+
+      {mode === 'real' && charges.length > 0 && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-[#111820] border border-[#424242]">
+          <p className="text-sm text-[#9BA4B0]">
+            {recurringAlert?.isEnabled
+              ? 'You\'ll be alerted when a subscription charges you, goes up in price, or misses a charge.'
+              : 'Get an alert when a subscription goes up in price or misses a charge.'}
+          </p>
+          {!recurringAlert ? (
+            <button
+              onClick={() => createAlert({ type: 'RECURRING_CHARGE', name: 'Subscription changes', config: {} })}
+              className="shrink-0 px-4 py-2 text-sm font-medium text-white bg-[#22C55E] hover:bg-[#16A34A] transition-colors"
+            >
+              Turn on alerts
+            </button>
+          ) : !recurringAlert.isEnabled && (
+            <Link href="/dashboard/alerts" className="shrink-0 text-sm font-medium text-[#22C55E] hover:underline">
+              Enable in Alerts
+            </Link>
+          )}
+        </div>
+      )}
+
+      {streamingCount >= STREAMING_STACK_MIN && (
+        <div className="p-4 bg-[#EAB308]/10 border border-[#EAB308]/30">
+          <p className="text-sm font-medium text-[#FFC700]">{PATTERN_MESSAGES.SUBSCRIPTION_STACK(streamingCount)}</p>
+        </div>
+      )}
+
+      {charges.length === 0 ? (
+        <div className="p-8 text-center bg-[#111820] border border-[#424242]">
+          <p className="text-[white] font-medium">No recurring charges found yet</p>
+          <p className="text-sm text-[#9BA4B0] mt-1">
+            Subscriptions show up here once they&apos;ve charged you a few times on a regular schedule.
+          </p>
+        </div>
+      ) : (
+        <>
+          {needsAttention.length > 0 && (
+            <ChargeList title="Needs a Look" charges={needsAttention} />
+          )}
+
+          {upcoming.length > 0 && (
+            <ChargeList title="Coming Up" charges={upcoming} />
+          )}
+
+          {stopped.length > 0 && (
+            <div>
+              <button
+                onClick={() => setShowStopped(!showStopped)}
+                className="text-sm font-semibold text-[#9BA4B0] uppercase tracking-wider mb-3 hover:text-[white] transition-colors"
+              >
+                {showStopped ? '▾' : '▸'} Stopped ({stopped.length})
+              </button>
+              {showStopped && <ChargeList charges={stopped} />}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function ChargeList({ title, charges }: { title?: string; charges: RecurringCharge[] }) {
+  return (
+    <div>
+      {title && <h2 className="text-sm font-semibold text-[#9BA4B0] uppercase tracking-wider mb-3">{title}</h2>}
+      <div className="bg-[#111820] border border-[#424242] divide-y divide-[#424242]">
+        {charges.map(charge => <ChargeRow key={charge.key} charge={charge} />)}
+      </div>
+    </div>
+  );
+}
+
+function ChargeRow({ charge }: { charge: RecurringCharge }) {
+  const stopped = charge.status === 'stopped';
+
+  return (
+    <div className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 py-4 ${stopped ? 'opacity-60' : ''}`}>
+      <div className="min-w-0">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className="font-medium text-[white] truncate">{charge.name}</span>
+          <span className="px-2 py-0.5 text-xs text-[#9BA4B0] bg-[#000000] border border-[#424242]">
+            {CADENCE_LABELS[charge.cadence]}
+          </span>
+          {charge.priceIncrease && (
+            <span className="px-2 py-0.5 text-xs font-medium text-[#EF4444] bg-[#EF4444]/10 border border-[#EF4444]/30">
+              Price up {formatCurrency(charge.priceIncrease)}
+            </span>
+          )}
+          {charge.status === 'missed' && (
+            <span className="px-2 py-0.5 text-xs font-medium text-[#EAB308] bg-[#EAB308]/10 border border-[#EAB308]/30">
+              Missed
+            </span>
+          )}
+        </div>
+        <p className="text-xs text-[#6B7280] mt-1">
+          {charge.defaultCategory ? `${formatCategory(charge.defaultCategory)} · ` : ''}
+          {charge.occurrences} charges · last {formatDate(charge.lastChargedAt)}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-6 sm:text-right shrink-0">
+        <div>
+          <p className="text-sm font-semibold text-[white]">{formatCurrency(charge.amount)}</p>
+          {charge.cadence !== 'monthly' && (
+            <p className="text-xs text-[#6B7280]">{formatCurrency(charge.monthlyCost)}/mo</p>
+          )}
+        </div>
+        <div className="w-28">
+          <p className="text-xs text-[#6B7280]">{stopped ? 'Was due' : 'Next charge'}</p>
+          <p className={`text-sm ${charge.status === 'active' ? 'text-[white]' : 'text-[#EAB308]'}`}>
+            {formatRelativeDay(charge.nextChargeAt)}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
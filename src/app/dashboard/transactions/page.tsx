@@ -3,13 +3,25 @@
 import { useState, useMemo } from 'react';
 import Link from 'next/link';
 import { useTransactions, useCategorizations } from '@/hooks/use-transactions';
+import { useAccounts } from '@/hooks/use-accounts';
+import { AccountFilter } from '@/components/transactions/account-filter';
 import { formatCurrency, formatRelativeDate } from '@/lib/utils';
+import { sumZoneTotals } from '@/lib/services/zone-allocation';
+import { isSpendingKind, spendingSign } from '@/lib/transactions/direction';
 import { ZONE_CONFIG, type TrafficLightZone } from '@/constants/traffic-light';
+import type { TransactionKind } from '@/types';
 
 type SortField = 'date' | 'amount' | 'merchant' | 'category';
 type SortDirection = 'asc' | 'desc';
 type ZoneFilter = 'ALL' | 'UNCATEGORIZED' | 'GREEN' | 'YELLOW' | 'RED';
 
+const KIND_LABELS: Record<TransactionKind, string> = {
+  DEBIT: 'Purchase',
+  CREDIT: 'Income',
+  REFUND: 'Refund',
+  TRANSFER: 'Transfer',
+};
+
 function SortIcon({ field, sortField, sortDirection }: { field: SortField; sortField: SortField; sortDirection: SortDirection }) {
   if (sortField !== field) {
     return (
@@ -32,18 +44,24 @@ function SortIcon({ field, sortField, sortDirection }: { field: SortField; sortF
 export default function TransactionsPage() {
   const { transactions: rawTransactions, isLoading } = useTransactions(90);
   const { categorizations, categorize } = useCategorizations();
+  const { accounts } = useAccounts();
+  const [accountFilter, setAccountFilter] = useState<string | null>(null);
 
-  // Transform transactions to expected format
+  // Transform transactions to expected format; the account filter also scopes the stats
   const transactions = useMemo(() =>
-    rawTransactions.map(t => ({
-      id: t.id,
-      amount: t.amount,
-      description: t.description,
-      merchantName: t.merchantName,
-      date: new Date(t.date),
-      defaultCategory: t.defaultCategory,
-      isRecurring: t.isRecurring,
-    })), [rawTransactions]);
+    rawTransactions
+      .filter(t => !accountFilter || t.accountId === accountFilter)
+      .map(t => ({
+        id: t.id,
+        amount: t.amount,
+        kind: t.kind,
+        description: t.description,
+        merchantName: t.merchantName,
+        date: new Date(t.date),
+        defaultCategory: t.defaultCategory,
+        isRecurring: t.isRecurring,
+        pending: t.pending,
+      })), [rawTransactions, accountFilter]);
 
   const [searchQuery, setSearchQuery] = useState('');
   const [zoneFilter, setZoneFilter] = useState<ZoneFilter>('ALL');
@@ -54,7 +72,10 @@ export default function TransactionsPage() {
   // Create categorization map
   const categorizationMap = useMemo(() => {
     const map = new Map<string, TrafficLightZone>();
-    categorizations.forEach((c) => map.set(c.transactionId, c.zone as TrafficLightZone));
+    // Inbox entries (zone UNCATEGORIZED) are left out so they count as uncategorized
+    categorizations.forEach((c) => {
+      if (c.zone !== 'UNCATEGORIZED') map.set(c.transactionId, c.zone as TrafficLightZone);
+    });
     return map;
   }, [categorizations]);
 
@@ -78,7 +99,7 @@ export default function TransactionsPage() {
       result = result.filter((t) => {
         const zone = categorizationMap.get(t.id);
         if (zoneFilter === 'UNCATEGORIZED') {
-          return !zone;
+          return !zone && isSpendingKind(t.kind);
         }
         return zone === zoneFilter;
       });
@@ -110,24 +131,32 @@ export default function TransactionsPage() {
   // Stats
   const stats = useMemo(() => {
     const total = transactions.length;
-    const uncategorized = transactions.filter((t) => !categorizationMap.has(t.id)).length;
+    const uncategorized = transactions.filter((t) => isSpendingKind(t.kind) && !categorizationMap.has(t.id)).length;
     const green = transactions.filter((t) => categorizationMap.get(t.id) === 'GREEN').length;
     const yellow = transactions.filter((t) => categorizationMap.get(t.id) === 'YELLOW').length;
     const red = transactions.filter((t) => categorizationMap.get(t.id) === 'RED').length;
 
-    const totalAmount = transactions.reduce((sum, t) => sum + Math.abs(Number(t.amount)), 0);
-    const greenAmount = transactions
-      .filter((t) => categorizationMap.get(t.id) === 'GREEN')
-      .reduce((sum, t) => sum + Math.abs(Number(t.amount)), 0);
-    const yellowAmount = transactions
-      .filter((t) => categorizationMap.get(t.id) === 'YELLOW')
-      .reduce((sum, t) => sum + Math.abs(Number(t.amount)), 0);
-    const redAmount = transactions
-      .filter((t) => categorizationMap.get(t.id) === 'RED')
-      .reduce((sum, t) => sum + Math.abs(Number(t.amount)), 0);
+    // Net spending - refunds subtract, income and transfers are left out
+    const totalAmount = transactions.reduce((sum, t) => sum + spendingSign(t.kind) * Math.abs(Number(t.amount)), 0);
+
+    // Amounts count split parts in their own zones
+    const zoneTotals = sumZoneTotals(
+      transactions.map((t) => ({ id: t.id, amount: Number(t.amount), kind: t.kind })),
+      new Map(categorizations.map((c) => [c.transactionId, c]))
+    );
 
-    return { total, uncategorized, green, yellow, red, totalAmount, greenAmount, yellowAmount, redAmount };
-  }, [transactions, categorizationMap]);
+    return {
+      total,
+      uncategorized,
+      green,
+      yellow,
+      red,
+      totalAmount,
+      greenAmount: zoneTotals.GREEN,
+      yellowAmount: zoneTotals.YELLOW,
+      redAmount: zoneTotals.RED,
+    };
+  }, [transactions, categorizations, categorizationMap]);
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -199,6 +228,12 @@ export default function TransactionsPage() {
           </div>
         </div>
         <div className="flex items-center gap-3">
+          <Link
+            href="/dashboard/transactions/transfers"
+            className="px-4 py-2 text-sm font-medium text-[#9BA4B0] hover:text-[white] border border-[#424242] transition-colors"
+          >
+            Transfers
+          </Link>
           <Link
             href="/dashboard/canvas"
             className="px-4 py-2 text-sm font-medium text-white bg-[#22C55E] hover:bg-[#16A34A] transition-colors"
@@ -296,6 +331,8 @@ export default function TransactionsPage() {
           />
         </div>
 
+        <AccountFilter accounts={accounts} value={accountFilter} onChange={setAccountFilter} className="py-3" />
+
         <div className="flex items-center gap-2 text-sm text-[#6B7280]">
           <span>Showing</span>
           <span className="text-[white] font-medium">{filteredTransactions.length}</span>
@@ -375,6 +412,11 @@ export default function TransactionsPage() {
                       Recurring
                     </span>
                   )}
+                  {transaction.pending && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-[#EAB308]/20 text-[#EAB308]">
+                      Pending
+                    </span>
+                  )}
                 </div>
 
                 {/* Category */}
@@ -386,14 +428,22 @@ export default function TransactionsPage() {
 
                 {/* Amount */}
                 <div className="col-span-2 text-right">
-                  <p className="text-base font-semibold text-[white]">
+                  <p className={`text-base font-semibold ${
+                    transaction.kind === 'CREDIT' || transaction.kind === 'REFUND' ? 'text-[#22C55E]' : 'text-[white]'
+                  }`}>
+                    {transaction.kind === 'CREDIT' || transaction.kind === 'REFUND' ? '+' : ''}
                     {formatCurrency(Number(transaction.amount))}
                   </p>
+                  {transaction.kind && transaction.kind !== 'DEBIT' && (
+                    <p className="text-xs text-[#6B7280]">{KIND_LABELS[transaction.kind]}</p>
+                  )}
                 </div>
 
                 {/* Zone */}
                 <div className="col-span-3 flex items-center justify-end gap-2">
-                  {editingId === transaction.id ? (
+                  {!isSpendingKind(transaction.kind) ? (
+                    <span className="text-xs text-[#6B7280]">Not spending</span>
+                  ) : editingId === transaction.id ? (
                     <div className="flex items-center gap-1">
                       <button
                         onClick={() => handleCategorize(transaction.id, 'GREEN')}
@@ -454,7 +504,7 @@ export default function TransactionsPage() {
           </p>
           <p className="text-lg font-semibold text-[white]">
             {formatCurrency(
-              filteredTransactions.reduce((sum, t) => sum + Math.abs(Number(t.amount)), 0)
+              filteredTransactions.reduce((sum, t) => sum + spendingSign(t.kind) * Math.abs(Number(t.amount)), 0)
             )}
           </p>
         </div>
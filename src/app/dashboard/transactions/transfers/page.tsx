@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useTransfers } from '@/hooks/use-transfers';
+import { formatCurrency, formatRelativeDate } from '@/lib/utils';
+import type { TransferLeg, TransferPair, TransferPairStatus } from '@/types';
+
+const STATUS_CONFIG: Record<TransferPairStatus, { label: string; color: string }> = {
+  SUGGESTED: { label: 'Needs review', color: '#EAB308' },
+  CONFIRMED: { label: 'Confirmed', color: '#22C55E' },
+  REJECTED: { label: 'Unlinked', color: '#6B7280' },
+};
+
+function LegSummary({ leg, direction }: { leg: TransferLeg; direction: 'out' | 'in' }) {
+  return (
+    <div className="flex-1 min-w-0">
+      <p className="text-xs text-[#6B7280] uppercase tracking-wider">{direction === 'out' ? 'From' : 'To'}</p>
+      <p className="font-medium text-[white] truncate">{leg.merchantName || leg.description}</p>
+      <p className="text-xs text-[#9BA4B0]">
+        {formatRelativeDate(leg.date)} &middot;{' '}
+        <span className={direction === 'out' ? 'text-[#EF4444]' : 'text-[#22C55E]'}>
+          {direction === 'out' ? '-' : '+'}{formatCurrency(leg.amount)}
+        </span>
+      </p>
+    </div>
+  );
+}
+
+export default function TransfersPage() {
+  const { pairs, isLoading, error, confirmPair, unlinkPair, detectTransfers } = useTransfers();
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const runAction = async (id: string | null, action: () => Promise<unknown>) => {
+    setActionError(null);
+    setNotice(null);
+    setBusyId(id);
+    try {
+      await action();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDetect = () =>
+    runAction('detect', async () => {
+      const matched = await detectTransfers();
+      setNotice(matched === 0 ? 'No new transfers found' : `Found ${matched} new transfer${matched === 1 ? '' : 's'}`);
+    });
+
+  const toReview = pairs.filter((p) => p.status === 'SUGGESTED');
+  const reviewed = pairs.filter((p) => p.status !== 'SUGGESTED');
+
+  const renderPair = (pair: TransferPair) => {
+    const status = STATUS_CONFIG[pair.status];
+    return (
+      <div
+        key={pair.id}
+        className={`p-4 bg-[#0D1117] border border-[#424242] flex flex-col sm:flex-row sm:items-center gap-4 ${
+          pair.status === 'REJECTED' ? 'opacity-60' : ''
+        }`}
+      >
+        <LegSummary leg={pair.outflow} direction="out" />
+        <svg className="w-5 h-5 text-[#6B7280] shrink-0 hidden sm:block" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
+        </svg>
+        <LegSummary leg={pair.inflow} direction="in" />
+
+        <div className="flex items-center gap-2 shrink-0">
+          <span
+            className="px-2 py-0.5 rounded-full text-xs font-medium"
+            style={{ color: status.color, backgroundColor: `${status.color}20` }}
+          >
+            {pair.matchedBy === 'card-payment' ? `Card payment · ${status.label}` : status.label}
+          </span>
+          {pair.status === 'SUGGESTED' && (
+            <button
+              onClick={() => runAction(pair.id, () => confirmPair(pair.id))}
+              disabled={busyId === pair.id}
+              className="px-3 py-1.5 text-xs font-medium text-white bg-[#22C55E] hover:bg-[#16A34A] disabled:opacity-50 transition-colors"
+            >
+              Confirm
+            </button>
+          )}
+          {pair.status !== 'REJECTED' && (
+            <button
+              onClick={() => runAction(pair.id, () => unlinkPair(pair.id))}
+              disabled={busyId === pair.id}
+              className="px-3 py-1.5 text-xs font-medium text-[#9BA4B0] hover:text-[white] border border-[#424242] disabled:opacity-50 transition-colors"
+            >
+              Unlink
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 max-w-4xl">
+      {/* Back Button & Breadcrumb */}
+      <div className="flex items-center gap-3">
+        <Link
+          href="/dashboard/transactions"
+          className="p-2 -ml-2 text-[#9BA4B0] hover:text-[white] hover:bg-[white/5] transition-colors"
+          aria-label="Back to Transactions"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </Link>
+        <div className="flex items-center gap-2 text-sm">
+          <Link href="/dashboard/transactions" className="text-[#6B7280] hover:text-[white] transition-colors">
+            Transactions
+          </Link>
+          <span className="text-[#6B7280]">/</span>
+          <span className="text-[white]">Transfers</span>
+        </div>
+      </div>
+
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-[white]">Transfers</h1>
+          <p className="text-sm text-[#9BA4B0] mt-1">
+            Money moved between your own accounts and credit card payments aren&apos;t spending, so they&apos;re
+            left out of your zones, health score and insights. Unlink anything that was paired by mistake.
+          </p>
+        </div>
+        <button
+          onClick={handleDetect}
+          disabled={busyId === 'detect'}
+          className="px-4 py-2 text-sm font-medium text-[#9BA4B0] hover:text-[white] border border-[#424242] disabled:opacity-50 transition-colors shrink-0"
+        >
+          {busyId === 'detect' ? 'Scanning...' : 'Scan for transfers'}
+        </button>
+      </div>
+
+      {(error || actionError) && (
+        <div className="p-4 bg-[#EF4444]/10 border border-[#EF4444]/30 text-sm text-[#EF4444]">
+          {actionError || error}
+        </div>
+      )}
+      {notice && (
+        <div className="p-4 bg-[#22C55E]/10 border border-[#22C55E]/30 text-sm text-[#22C55E]">
+          {notice}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="p-6 bg-[#111820] border border-[#424242] text-center py-12">
+          <div className="w-8 h-8 mx-auto border-2 border-[#6B7280] border-t-[white] rounded-full animate-spin" />
+          <p className="text-sm text-[#9BA4B0] mt-4">Loading transfers...</p>
+        </div>
+      ) : pairs.length === 0 ? (
+        <div className="p-6 bg-[#111820] border border-[#424242] text-center py-12">
+          <h3 className="text-lg font-medium text-[white] mb-2">No transfers found</h3>
+          <p className="text-sm text-[#9BA4B0] max-w-md mx-auto">
+            When the same amount leaves one of your accounts and lands in another within a few days, it shows up here.
+          </p>
+        </div>
+      ) : (
+        <>
+          {toReview.length > 0 && (
+            <div className="p-6 bg-[#111820] border border-[#424242]">
+              <h2 className="text-lg font-semibold text-[white] mb-4">To review ({toReview.length})</h2>
+              <div className="space-y-3">{toReview.map(renderPair)}</div>
+            </div>
+          )}
+          {reviewed.length > 0 && (
+            <div className="p-6 bg-[#111820] border border-[#424242]">
+              <h2 className="text-lg font-semibold text-[white] mb-4">Reviewed</h2>
+              <div className="space-y-3">{reviewed.map(renderPair)}</div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -19,8 +19,12 @@ import {
 } from 'recharts';
 import { useTransactions, useCategorizations } from '@/hooks/use-transactions';
 import { useIncome } from '@/hooks/use-income';
+import { useAccounts } from '@/hooks/use-accounts';
 import { formatCurrency } from '@/lib/utils';
+import { getZoneSlices, type ZoneCategorization } from '@/lib/services/zone-allocation';
+import { spendingSign } from '@/lib/transactions/direction';
 import { IncomeSettingsModal } from '@/components/income/income-settings-modal';
+import { AccountFilter } from '@/components/transactions/account-filter';
 import { useSession } from 'next-auth/react';
 import type { TrafficLightZone } from '@/constants/traffic-light';
 
@@ -58,20 +62,25 @@ export default function TrendsPage() {
   const { calculations: incomeCalc, hasActiveIncome } = useIncome(userId);
   const [timeRange, setTimeRange] = useState<TimeRange>('30d');
   const [showIncomeModal, setShowIncomeModal] = useState(false);
+  const { accounts } = useAccounts();
+  const [accountFilter, setAccountFilter] = useState<string | null>(null);
 
   // Transform transactions
   const transactions = useMemo(() =>
-    rawTransactions.map(t => ({
-      id: t.id,
-      amount: t.amount,
-      merchantName: t.merchantName,
-      date: new Date(t.date),
-    })), [rawTransactions]);
+    rawTransactions
+      .filter(t => !accountFilter || t.accountId === accountFilter)
+      .map(t => ({
+        id: t.id,
+        amount: t.amount,
+        kind: t.kind,
+        merchantName: t.merchantName,
+        date: new Date(t.date),
+      })), [rawTransactions, accountFilter]);
 
   // Create categorization map
   const categorizationMap = useMemo(() => {
-    const map = new Map<string, TrafficLightZone>();
-    rawCategorizations.forEach((c) => map.set(c.transactionId, c.zone as TrafficLightZone));
+    const map = new Map<string, ZoneCategorization>();
+    rawCategorizations.forEach((c) => map.set(c.transactionId, c));
     return map;
   }, [rawCategorizations]);
 
@@ -108,8 +117,9 @@ export default function TrendsPage() {
 
       const totals = { GREEN: 0, YELLOW: 0, RED: 0, UNCATEGORIZED: 0 };
       dayTransactions.forEach((t) => {
-        const zone = categorizationMap.get(t.id) || 'UNCATEGORIZED';
-        totals[zone] += Math.abs(Number(t.amount));
+        getZoneSlices(Number(t.amount), categorizationMap.get(t.id), t.kind).forEach((slice) => {
+          totals[slice.zone] += slice.amount;
+        });
       });
 
       data.push({
@@ -127,8 +137,9 @@ export default function TrendsPage() {
   const zoneDistribution = useMemo(() => {
     const totals = { GREEN: 0, YELLOW: 0, RED: 0, UNCATEGORIZED: 0 };
     filteredTransactions.forEach((t) => {
-      const zone = categorizationMap.get(t.id) || 'UNCATEGORIZED';
-      totals[zone] += Math.abs(Number(t.amount));
+      getZoneSlices(Number(t.amount), categorizationMap.get(t.id), t.kind).forEach((slice) => {
+        totals[slice.zone] += slice.amount;
+      });
     });
 
     return [
@@ -145,10 +156,10 @@ export default function TrendsPage() {
 
     filteredTransactions.forEach((t) => {
       const merchant = t.merchantName || 'Unknown';
-      const zone = categorizationMap.get(t.id) || 'UNCATEGORIZED';
+      const zone = categorizationMap.get(t.id)?.zone || 'UNCATEGORIZED';
       const existing = merchantTotals.get(merchant) || { amount: 0, zone, count: 0 };
       merchantTotals.set(merchant, {
-        amount: existing.amount + Math.abs(Number(t.amount)),
+        amount: existing.amount + spendingSign(t.kind) * Math.abs(Number(t.amount)),
         zone: existing.zone,
         count: existing.count + 1,
       });
@@ -172,12 +183,12 @@ export default function TrendsPage() {
     }));
 
     filteredTransactions.forEach((t) => {
-      const zone = categorizationMap.get(t.id);
-      if (!zone || zone === 'UNCATEGORIZED') return;
       const dayIndex = new Date(t.date).getDay();
-      const amount = Math.abs(Number(t.amount));
-      totals[dayIndex][zone] += amount;
-      totals[dayIndex].total += amount;
+      getZoneSlices(Number(t.amount), categorizationMap.get(t.id), t.kind).forEach((slice) => {
+        if (slice.zone === 'UNCATEGORIZED') return;
+        totals[dayIndex][slice.zone] += slice.amount;
+        totals[dayIndex].total += slice.amount;
+      });
     });
 
     return totals;
@@ -187,10 +198,10 @@ export default function TrendsPage() {
   const summary = useMemo(() => {
     const totals = { GREEN: 0, YELLOW: 0, RED: 0, UNCATEGORIZED: 0, all: 0 };
     filteredTransactions.forEach((t) => {
-      const zone = categorizationMap.get(t.id) || 'UNCATEGORIZED';
-      const amount = Math.abs(Number(t.amount));
-      totals[zone] += amount;
-      totals.all += amount;
+      getZoneSlices(Number(t.amount), categorizationMap.get(t.id), t.kind).forEach((slice) => {
+        totals[slice.zone] += slice.amount;
+        totals.all += slice.amount;
+      });
     });
 
     const avgDaily = totals.all / (timeRange === '7d' ? 7 : timeRange === '14d' ? 14 : 30);
@@ -239,21 +250,25 @@ export default function TrendsPage() {
           </div>
         </div>
 
-        {/* Time range selector */}
-        <div className="flex items-center gap-1 p-1 bg-[#111820]  border border-[#424242]">
-          {(['7d', '14d', '30d'] as const).map((range) => (
-            <button
-              key={range}
-              onClick={() => setTimeRange(range)}
-              className={`px-4 py-2 text-sm font-medium  transition-colors ${
-                timeRange === range
-                  ? 'bg-[#FFC700] text-black'
-                  : 'text-[#6B7280] hover:text-[white]'
-              }`}
-            >
-              {range === '7d' ? '7 Days' : range === '14d' ? '14 Days' : '30 Days'}
-            </button>
-          ))}
+        <div className="flex flex-wrap items-center gap-3">
+          <AccountFilter accounts={accounts} value={accountFilter} onChange={setAccountFilter} />
+
+          {/* Time range selector */}
+          <div className="flex items-center gap-1 p-1 bg-[#111820]  border border-[#424242]">
+            {(['7d', '14d', '30d'] as const).map((range) => (
+              <button
+                key={range}
+                onClick={() => setTimeRange(range)}
+                className={`px-4 py-2 text-sm font-medium  transition-colors ${
+                  timeRange === range
+                    ? 'bg-[#FFC700] text-black'
+                    : 'text-[#6B7280] hover:text-[white]'
+                }`}
+              >
+                {range === '7d' ? '7 Days' : range === '14d' ? '14 Days' : '30 Days'}
+              </button>
+            ))}
+          </div>
         </div>
       </div>
 
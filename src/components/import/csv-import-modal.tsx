@@ -3,6 +3,7 @@
 import { useState, useCallback } from 'react';
 import type { Transaction } from '@/types';
 import { useDataMode } from '@/hooks/use-data-mode';
+import { classifyCsvTransaction, type CsvSignConvention } from '@/lib/transactions/direction';
 
 interface CSVImportModalProps {
   isOpen: boolean;
@@ -139,6 +140,7 @@ export function CSVImportModal({ isOpen, onClose, onImport }: CSVImportModalProp
     description: '',
     merchant: '',
   });
+  const [signConvention, setSignConvention] = useState<CsvSignConvention>('negative-is-debit');
   const [error, setError] = useState<string | null>(null);
   const [importing, setImporting] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
@@ -229,9 +231,10 @@ export function CSVImportModal({ isOpen, onClose, onImport }: CSVImportModalProp
       const description = mapping.description ? row[mapping.description] : '';
       const merchant = mapping.merchant ? row[mapping.merchant] : description.split(' ')[0];
 
+      // Signed, so the server can tell spending from money coming in
       return {
         date: parseDate(row[mapping.date]).toISOString(),
-        amount: Math.abs(amount),
+        amount,
         description: description || merchant,
         merchantName: merchant || description.split(' ').slice(0, 3).join(' '),
       };
@@ -243,7 +246,7 @@ export function CSVImportModal({ isOpen, onClose, onImport }: CSVImportModalProp
         const response = await fetch('/api/transactions/import', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ transactions }),
+          body: JSON.stringify({ transactions, signConvention }),
         });
 
         const data = await response.json();
@@ -266,7 +269,8 @@ export function CSVImportModal({ isOpen, onClose, onImport }: CSVImportModalProp
       // In demo mode, use localStorage via the onImport callback
       const demoTransactions: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>[] = transactions.map((txn) => ({
         userId: 'demo-user',
-        amount: txn.amount,
+        amount: Math.abs(txn.amount),
+        kind: classifyCsvTransaction(txn.amount, txn.description, signConvention),
         description: txn.description,
         merchantName: txn.merchantName,
         date: new Date(txn.date),
@@ -283,7 +287,7 @@ export function CSVImportModal({ isOpen, onClose, onImport }: CSVImportModalProp
       // Reload page to ensure all components get fresh data
       window.location.reload();
     }
-  }, [rows, mapping, onImport, mode]);
+  }, [rows, mapping, signConvention, onImport, mode]);
 
   const handleClose = useCallback(() => {
     setStep('upload');
@@ -415,6 +419,20 @@ export function CSVImportModal({ isOpen, onClose, onImport }: CSVImportModalProp
                   </select>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-[var(--foreground)] mb-2">
+                    Negative Amounts Are
+                  </label>
+                  <select
+                    value={signConvention}
+                    onChange={(e) => setSignConvention(e.target.value as CsvSignConvention)}
+                    className="w-full px-4 py-2 rounded-lg bg-[var(--background-muted)] border border-[var(--border)] text-[var(--foreground)] focus:border-[#3B82F6] focus:outline-none"
+                  >
+                    <option value="negative-is-debit">Spending (most bank exports)</option>
+                    <option value="negative-is-credit">Payments and refunds (most card exports)</option>
+                  </select>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-[var(--foreground)] mb-2">
                     Description Column
@@ -133,6 +133,7 @@ export function IncomeSettingsModal({ userId, isOpen, onClose }: IncomeSettingsM
                           <p className="text-sm font-medium text-white">{source.name}</p>
                           <p className="text-xs text-[#6B7280]">
                             {formatCurrency(source.amount)} {FREQUENCY_LABELS[source.frequency].toLowerCase()}
+                            {source.detectedKey && ' · detected from deposits'}
                           </p>
                         </div>
                       </div>
@@ -4,6 +4,8 @@ import { useCallback, useEffect, useState } from 'react';
 import { usePlaidLink, PlaidLinkOptions, PlaidLinkOnSuccess } from 'react-plaid-link';
 
 interface PlaidLinkButtonProps {
+  // Repair this existing connection (Link update mode) instead of adding a new bank
+  connectionId?: string;
   onSuccess?: () => void;
   onExit?: () => void;
   className?: string;
@@ -12,6 +14,7 @@ interface PlaidLinkButtonProps {
 }
 
 export function PlaidLinkButton({
+  connectionId,
   onSuccess,
   onExit,
   className,
@@ -31,6 +34,10 @@ export function PlaidLinkButton({
 
         const response = await fetch('/api/plaid/create-link-token', {
           method: 'POST',
+          ...(connectionId && {
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ connectionId }),
+          }),
         });
 
         if (!response.ok) {
@@ -49,7 +56,7 @@ export function PlaidLinkButton({
     };
 
     fetchLinkToken();
-  }, []);
+  }, [connectionId]);
 
   // Handle successful link
   const handleSuccess = useCallback<PlaidLinkOnSuccess>(
@@ -57,6 +64,30 @@ export function PlaidLinkButton({
       try {
         setIsLoading(true);
 
+        const accounts = metadata.accounts?.map((acc) => ({
+          id: acc.id,
+          name: acc.name,
+          mask: acc.mask,
+          type: acc.type,
+          subtype: acc.subtype,
+        }));
+
+        if (connectionId) {
+          // Update mode keeps the same item and access token; just clear the error and sync
+          const response = await fetch(`/api/plaid/connections/${connectionId}/repair`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ accounts }),
+          });
+
+          if (!response.ok) {
+            throw new Error('Failed to fix connection');
+          }
+
+          onSuccess?.();
+          return;
+        }
+
         const response = await fetch('/api/plaid/exchange-token', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
@@ -64,13 +95,7 @@ export function PlaidLinkButton({
             publicToken,
             institutionId: metadata.institution?.institution_id,
             institutionName: metadata.institution?.name,
-            accounts: metadata.accounts?.map((acc) => ({
-              id: acc.id,
-              name: acc.name,
-              mask: acc.mask,
-              type: acc.type,
-              subtype: acc.subtype,
-            })),
+            accounts,
           }),
         });
 
@@ -88,12 +113,12 @@ export function PlaidLinkButton({
         onSuccess?.();
       } catch (err) {
         console.error('Failed to exchange token:', err);
-        setError('Failed to connect bank. Please try again.');
+        setError(connectionId ? 'Failed to fix connection. Please try again.' : 'Failed to connect bank. Please try again.');
       } finally {
         setIsLoading(false);
       }
     },
-    [onSuccess]
+    [connectionId, onSuccess]
   );
 
   // Handle exit
@@ -159,10 +184,10 @@ export function PlaidLinkButton({
               d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
             />
           </svg>
-          Connecting...
+          {connectionId ? 'Reconnecting...' : 'Connecting...'}
         </span>
       ) : (
-        children || 'Connect Bank'
+        children || (connectionId ? 'Fix connection' : 'Connect Bank')
       )}
     </button>
   );
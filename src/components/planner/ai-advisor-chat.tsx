@@ -5,7 +5,8 @@
 
 import { useState, useRef, useEffect } from 'react';
 import type { Debt, DebtPayoffStrategy, DebtComparison } from '@/types';
-import { formatCurrency } from '@/lib/services/debt-calculator';
+import { formatCurrency, getInterestRateAt, getMinimumPayment, sortDebtsByStrategy } from '@/lib/services/debt-calculator';
+import { STRATEGY_INFO } from '@/components/planner/strategy-selector';
 
 interface Message {
   id: string;
@@ -29,6 +30,33 @@ interface AIAdvisorChatProps {
   onExtraPaymentChange?: (amount: number) => void;
 }
 
+// Warn about promotional rates ending within this many days
+const PROMO_WARNING_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Debts on a promo rate that ends soon, soonest first
+function getExpiringPromos(debts: Debt[], now: Date = new Date()) {
+  return debts
+    .filter(d =>
+      d.promoRate != null &&
+      d.promoEndDate &&
+      d.promoEndDate > now &&
+      d.promoEndDate.getTime() - now.getTime() <= PROMO_WARNING_DAYS * DAY_MS
+    )
+    .map(d => ({
+      debt: d,
+      daysLeft: Math.ceil((d.promoEndDate!.getTime() - now.getTime()) / DAY_MS),
+      // Interest a month at the standard rate if the balance is still there
+      monthlyInterestAfter: d.balance * d.interestRate / 12,
+    }))
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+function describePromoExpiry({ debt, daysLeft, monthlyInterestAfter }: ReturnType<typeof getExpiringPromos>[number]) {
+  return `${debt.name}'s ${((debt.promoRate ?? 0) * 100).toFixed(1)}% promo ends ${debt.promoEndDate!.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} (${daysLeft} day${daysLeft === 1 ? '' : 's'}). Then ${(debt.interestRate * 100).toFixed(1)}% APR kicks in: about ${formatCurrency(monthlyInterestAfter)}/month in interest on ${formatCurrency(debt.balance)}.`;
+}
+
 // Calculate detailed debt metrics
 function calculateDebtMetrics(debts: Debt[]) {
   const activeDebts = debts.filter(d => !d.isPaidOff);
@@ -37,10 +65,12 @@ function calculateDebtMetrics(debts: Debt[]) {
     return null;
   }
 
+  // Costs use the rate in effect today, so a 0% promo card costs nothing yet
+  const now = new Date();
   const totalBalance = activeDebts.reduce((sum, d) => sum + d.balance, 0);
-  const totalMinPayments = activeDebts.reduce((sum, d) => sum + d.minimumPayment, 0);
-  const weightedAvgRate = activeDebts.reduce((sum, d) => sum + (d.interestRate * d.balance), 0) / totalBalance;
-  const monthlyInterestCost = activeDebts.reduce((sum, d) => sum + (d.balance * d.interestRate / 12), 0);
+  const totalMinPayments = activeDebts.reduce((sum, d) => sum + getMinimumPayment(d, d.balance), 0);
+  const weightedAvgRate = activeDebts.reduce((sum, d) => sum + (getInterestRateAt(d, now) * d.balance), 0) / totalBalance;
+  const monthlyInterestCost = activeDebts.reduce((sum, d) => sum + (d.balance * getInterestRateAt(d, now) / 12), 0);
   const yearlyInterestCost = monthlyInterestCost * 12;
 
   const sortedByRate = [...activeDebts].sort((a, b) => b.interestRate - a.interestRate);
@@ -76,6 +106,7 @@ function calculateDebtMetrics(debts: Debt[]) {
     lowRateDebts,
     minPaymentMonths: Math.min(minPaymentMonths, 600),
     debtCount: activeDebts.length,
+    expiringPromos: getExpiringPromos(activeDebts, now),
   };
 }
 
@@ -107,6 +138,7 @@ function generateAdvisorResponse(
     lowRateDebts,
     minPaymentMonths,
     debtCount,
+    expiringPromos,
   } = metrics;
 
   // ============================================
@@ -124,6 +156,10 @@ function generateAdvisorResponse(
       greeting += `⚠️ **Alert:** You have ${highRateDebts.length} high-interest debt${highRateDebts.length > 1 ? 's' : ''} (20%+ APR). That's expensive money.\n\n`;
     }
 
+    expiringPromos.forEach(promo => {
+      greeting += `⏰ **Promo ending:** ${describePromoExpiry(promo)}\n\n`;
+    });
+
     greeting += `**Current Strategy:** ${strategy}\n`;
     greeting += `**Extra Payment:** ${formatCurrency(extraPayment)}/month\n`;
     greeting += `**Debt-Free Date:** ${debtFreeDate}\n\n`;
@@ -145,13 +181,18 @@ function generateAdvisorResponse(
 
     const activeDebts = debts.filter(d => !d.isPaidOff);
     activeDebts.forEach((debt, i) => {
-      const monthlyInterest = debt.balance * debt.interestRate / 12;
+      const currentRate = getInterestRateAt(debt, new Date());
+      const monthlyInterest = debt.balance * currentRate / 12;
       const rateCategory = debt.interestRate >= 0.20 ? '🔴 HIGH' : debt.interestRate >= 0.10 ? '🟡 MEDIUM' : '🟢 LOW';
 
       response += `**${i + 1}. ${debt.name}**\n`;
       response += `   Balance: ${formatCurrency(debt.balance)}\n`;
-      response += `   Rate: ${(debt.interestRate * 100).toFixed(2)}% APR ${rateCategory}\n`;
-      response += `   Minimum: ${formatCurrency(debt.minimumPayment)}/mo\n`;
+      if (currentRate !== debt.interestRate && debt.promoEndDate) {
+        response += `   Rate: ${(currentRate * 100).toFixed(2)}% promo until ${debt.promoEndDate.toLocaleDateString()}, then ${(debt.interestRate * 100).toFixed(2)}% APR ${rateCategory}\n`;
+      } else {
+        response += `   Rate: ${(debt.interestRate * 100).toFixed(2)}% APR ${rateCategory}\n`;
+      }
+      response += `   Minimum: ${formatCurrency(getMinimumPayment(debt, debt.balance))}/mo\n`;
       response += `   Monthly interest: ${formatCurrency(monthlyInterest)}\n`;
       response += `   ${debt.balance > 5000 ? '📊 Large balance' : debt.balance < 1000 ? '✅ Quick win potential' : ''}\n\n`;
     });
@@ -166,10 +207,44 @@ function generateAdvisorResponse(
     return response;
   }
 
+  // ============================================
+  // PROMOTIONAL RATES / BALANCE TRANSFERS
+  // ============================================
+  if (msg.includes('promo') || msg.includes('0%') || msg.includes('balance transfer') || msg.includes('intro')) {
+    const promoDebts = debts.filter(d => !d.isPaidOff && d.promoRate != null && d.promoEndDate);
+
+    if (promoDebts.length === 0) {
+      return `None of your debts have a promotional rate set.\n\nIf you're weighing a balance transfer, add the card's intro APR, when it ends, and the transfer fee on the debt. The plan will then show whether the fee is worth the interest you'd skip.`;
+    }
+
+    let response = `**Your Promotional Rates:**\n\n`;
+    promoDebts.forEach(debt => {
+      const ended = debt.promoEndDate! <= new Date();
+      response += `**${debt.name}**\n`;
+      response += `   ${((debt.promoRate ?? 0) * 100).toFixed(1)}% ${ended ? 'ended' : 'until'} ${debt.promoEndDate!.toLocaleDateString()}, then ${(debt.interestRate * 100).toFixed(1)}%\n`;
+      if (debt.transferFee) {
+        response += `   Transfer fee: ${formatCurrency(debt.transferFee)}\n`;
+      }
+      response += `\n`;
+    });
+
+    if (expiringPromos.length > 0) {
+      response += `⏰ **Ending soon:**\n`;
+      expiringPromos.forEach(promo => {
+        response += `• ${describePromoExpiry(promo)}\n`;
+      });
+      response += `\nWhatever's left when the promo ends starts costing full interest. Put your extra payments here first, or line up another 0% offer before the date.`;
+    } else {
+      response += `Nothing ends in the next ${PROMO_WARNING_DAYS} days. Aim to clear each promo balance before its end date. Divide the balance by the months left to get the payment that does it.`;
+    }
+
+    return response;
+  }
+
   // ============================================
   // STRATEGY COMPARISON (DETAILED)
   // ============================================
-  if (msg.includes('avalanche') || msg.includes('snowball') || msg.includes('strategy') || msg.includes('which method') || msg.includes('which approach') || msg.includes('compare')) {
+  if (msg.includes('avalanche') || msg.includes('snowball') || msg.includes('strategy') || msg.includes('which method') || msg.includes('which approach') || msg.includes('compare') || msg.includes('hybrid') || msg.includes('cash flow') || msg.includes('consolidat')) {
     const avalancheTotal = comparison.avalanche.totalInterest;
     const snowballTotal = comparison.snowball.totalInterest;
     const savings = comparison.interestSaved;
@@ -185,6 +260,17 @@ function generateAdvisorResponse(
     response += `**Snowball:**\n`;
     response += `• Total interest: ${formatCurrency(snowballTotal)}\n`;
     response += `• Time to freedom: ${snowballMonths} months\n\n`;
+    const others = comparison.outcomes.filter(o => o.scenario !== 'AVALANCHE' && o.scenario !== 'SNOWBALL' && o.scenario !== 'CUSTOM');
+    if (others.length > 0) {
+      response += `**Other options:**\n`;
+      others.forEach(o => {
+        response += `• ${STRATEGY_INFO[o.scenario].name}: ${formatCurrency(o.plan.totalInterest)} interest, ${o.plan.monthsToDebtFree} months\n`;
+      });
+      response += `\n`;
+    }
+    if (comparison.best !== 'AVALANCHE' && comparison.best !== 'SNOWBALL') {
+      response += `🏆 **Lowest cost overall: ${STRATEGY_INFO[comparison.best].name}**\n\n`;
+    }
     if (savings > 0) {
       response += `💰 **Avalanche saves ${formatCurrency(savings)}**\n\n`;
     } else if (savings < 0) {
@@ -348,18 +434,11 @@ function generateAdvisorResponse(
     let response = `**Your Debt Freedom Timeline**\n\n`;
     response += `**Target Date:** ${debtFreeDate}\n\n`;
 
-    response += `**Payoff Order (${strategy} Strategy):**\n`;
+    response += `**Payoff Order (${STRATEGY_INFO[strategy].name} Strategy):**\n`;
     const activeDebts = debts.filter(d => !d.isPaidOff);
 
     // Sort by strategy
-    let sortedDebts: Debt[];
-    if (strategy === 'AVALANCHE') {
-      sortedDebts = [...activeDebts].sort((a, b) => b.interestRate - a.interestRate);
-    } else if (strategy === 'SNOWBALL') {
-      sortedDebts = [...activeDebts].sort((a, b) => a.balance - b.balance);
-    } else {
-      sortedDebts = [...activeDebts].sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
-    }
+    const sortedDebts = sortDebtsByStrategy(activeDebts, strategy);
 
     sortedDebts.forEach((debt, i) => {
       const emoji = i === 0 ? '🎯' : i === sortedDebts.length - 1 ? '🏁' : '📍';
@@ -4,8 +4,9 @@
 'use client';
 
 import { useState } from 'react';
-import type { Debt, DebtPayoffSchedule } from '@/types';
-import { formatCurrency, formatPercent, formatPayoffDate } from '@/lib/services/debt-calculator';
+import type { Debt, DebtPayoffSchedule, DebtPlanVsActual } from '@/types';
+import { formatCurrency, formatPercent, formatPayoffDate, getMinimumPayment } from '@/lib/services/debt-calculator';
+import { ProgressBadge } from '@/components/planner/plan-vs-actual';
 
 interface DebtCardProps {
   debt: Debt;
@@ -13,6 +14,8 @@ interface DebtCardProps {
   onEdit?: (debt: Debt) => void;
   onDelete?: (id: string) => void;
   onMarkPaidOff?: (id: string) => void;
+  onRecordPayment?: (id: string, payment: { amount: number; date: Date }) => void;
+  progress?: DebtPlanVsActual;
   isFirst?: boolean;
 }
 
@@ -22,9 +25,23 @@ export function DebtCard({
   onEdit,
   onDelete,
   onMarkPaidOff,
+  onRecordPayment,
+  progress,
   isFirst = false,
 }: DebtCardProps) {
   const [showDetails, setShowDetails] = useState(false);
+  const [showPaymentForm, setShowPaymentForm] = useState(false);
+  const [paymentAmount, setPaymentAmount] = useState(debt.minimumPayment.toString());
+  const [paymentDate, setPaymentDate] = useState(() => new Date().toISOString().slice(0, 10));
+
+  const handleRecordPayment = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(paymentAmount);
+    if (!onRecordPayment || !(amount > 0)) return;
+    // Noon keeps the chosen day the same in any timezone
+    onRecordPayment(debt.id, { amount, date: new Date(`${paymentDate}T12:00:00`) });
+    setShowPaymentForm(false);
+  };
 
   // Calculate progress
   const originalBalance = debt.originalBalance ?? debt.balance;
@@ -33,6 +50,9 @@ export function DebtCard({
     ? Math.round((paidOff / originalBalance) * 100)
     : 0;
 
+  // A promotional rate still in effect
+  const promoActive = debt.promoRate != null && !!debt.promoEndDate && debt.promoEndDate > new Date();
+
   // Get interest rate color based on severity
   const getInterestColor = (rate: number) => {
     if (rate >= 0.20) return 'text-[#EF4444]'; // 20%+ = red
@@ -58,14 +78,29 @@ export function DebtCard({
               </span>
             )}
             <h3 className="font-semibold text-[var(--foreground)]">{debt.name}</h3>
+            {debt.accountId && (
+              <span
+                className="px-2 py-0.5 text-[10px] font-medium rounded-full bg-[#FFC700]/10 text-[#FFC700]"
+                title={debt.syncedAt ? `Last synced ${debt.syncedAt.toLocaleDateString()}` : 'Linked to a bank account'}
+              >
+                Synced from bank
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-4 mt-1">
             <span className="text-2xl font-bold text-[var(--foreground)]">
               {formatCurrency(debt.balance)}
             </span>
-            <span className={`text-sm font-medium ${getInterestColor(debt.interestRate)}`}>
-              {formatPercent(debt.interestRate)} APR
-            </span>
+            {promoActive ? (
+              <span className="text-sm font-medium text-[#22C55E]">
+                {formatPercent(debt.promoRate ?? 0)} until {debt.promoEndDate?.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })}
+                <span className={`ml-1 ${getInterestColor(debt.interestRate)}`}>then {formatPercent(debt.interestRate)}</span>
+              </span>
+            ) : (
+              <span className={`text-sm font-medium ${getInterestColor(debt.interestRate)}`}>
+                {formatPercent(debt.interestRate)} APR
+              </span>
+            )}
           </div>
         </div>
 
@@ -115,7 +150,7 @@ export function DebtCard({
         <div>
           <span className="text-[var(--foreground-muted)]">Min payment: </span>
           <span className="font-medium text-[var(--foreground)]">
-            {formatCurrency(debt.minimumPayment)}/mo
+            {formatCurrency(getMinimumPayment(debt, debt.balance))}/mo
           </span>
         </div>
         {schedule && (
@@ -128,6 +163,59 @@ export function DebtCard({
         )}
       </div>
 
+      {/* Plan vs Actual */}
+      {(progress || onRecordPayment) && (
+        <div className="flex items-center justify-between gap-2 mt-2 text-xs">
+          {progress ? (
+            <div className="flex items-center gap-2">
+              <ProgressBadge progress={progress} />
+              <span className="text-[var(--foreground-muted)]">
+                {formatCurrency(progress.interestPaid)} interest paid
+              </span>
+            </div>
+          ) : (
+            <span className="text-[var(--foreground-muted)]">No payments recorded</span>
+          )}
+          {onRecordPayment && (
+            <button
+              onClick={() => setShowPaymentForm(!showPaymentForm)}
+              className="font-medium text-[#FFC700] hover:text-[#E6B800] transition-colors"
+            >
+              {showPaymentForm ? 'Cancel' : '+ Record payment'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {showPaymentForm && (
+        <form onSubmit={handleRecordPayment} className="flex gap-2 mt-2">
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={paymentAmount}
+            onChange={(e) => setPaymentAmount(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-1.5 rounded-lg bg-[var(--background)] border border-[var(--border)] text-sm text-[var(--foreground)] focus:outline-none"
+            aria-label="Payment amount"
+            required
+          />
+          <input
+            type="date"
+            value={paymentDate}
+            onChange={(e) => setPaymentDate(e.target.value)}
+            className="px-3 py-1.5 rounded-lg bg-[var(--background)] border border-[var(--border)] text-sm text-[var(--foreground)] focus:outline-none"
+            aria-label="Payment date"
+            required
+          />
+          <button
+            type="submit"
+            className="px-3 py-1.5 rounded-lg text-sm font-medium bg-[#22C55E]/10 text-[#22C55E] hover:bg-[#22C55E]/20 transition-colors"
+          >
+            Save
+          </button>
+        </form>
+      )}
+
       {/* Expandable Details */}
       {schedule && (
         <>
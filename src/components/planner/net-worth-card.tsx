@@ -0,0 +1,298 @@
+// Net Worth Card Component
+// Net worth over time, assets vs liabilities, and assets the user tracks by hand
+
+'use client';
+
+import { useState } from 'react';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { formatCurrency } from '@/lib/services/debt-calculator';
+import type { AssetType, ManualAsset, NetWorthBreakdown, NetWorthSnapshot } from '@/types';
+
+const ASSET_TYPE_LABELS: Record<AssetType, string> = {
+  CASH: 'Cash',
+  PROPERTY: 'Property',
+  VEHICLE: 'Vehicle',
+  INVESTMENT: 'Investment',
+  OTHER: 'Other',
+};
+
+const ASSET_ROWS: Array<{ key: keyof NetWorthBreakdown; label: string }> = [
+  { key: 'cash', label: 'Bank accounts' },
+  { key: 'investments', label: 'Investments' },
+  { key: 'savingsGoals', label: 'Savings goals' },
+  { key: 'manualAssets', label: 'Other assets' },
+];
+
+const LIABILITY_ROWS: Array<{ key: keyof NetWorthBreakdown; label: string }> = [
+  { key: 'creditCards', label: 'Credit cards' },
+  { key: 'loans', label: 'Loans' },
+  { key: 'debts', label: 'Other debts' },
+];
+
+interface NetWorthCardProps {
+  current: NetWorthSnapshot;
+  history: NetWorthSnapshot[];
+  monthOverMonth: number | null;
+  assets: ManualAsset[];
+  onAddAsset: (asset: { name: string; type: AssetType; value: number }) => Promise<void>;
+  onRemoveAsset: (id: string) => Promise<void>;
+}
+
+function ChartTooltip({ active, payload, label }: { active?: boolean; payload?: Array<{ value: number }>; label?: string }) {
+  if (!active || !payload?.length) return null;
+  return (
+    <div className="bg-[#111820] border border-[#424242] p-3 shadow-xl">
+      <p className="text-xs text-[#9BA4B0] mb-1">{label}</p>
+      <p className="text-sm font-medium text-[white]">{formatCurrency(payload[0].value)}</p>
+    </div>
+  );
+}
+
+function BreakdownList({
+  title,
+  rows,
+  breakdown,
+  total,
+  color,
+}: {
+  title: string;
+  rows: Array<{ key: keyof NetWorthBreakdown; label: string }>;
+  breakdown: NetWorthBreakdown;
+  total: number;
+  color: string;
+}) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-sm text-[#9BA4B0]">{title}</p>
+        <p className="text-sm font-semibold" style={{ color }}>{formatCurrency(total)}</p>
+      </div>
+      <div className="space-y-2">
+        {rows.filter(({ key }) => breakdown[key] !== 0).map(({ key, label }) => (
+          <div key={key}>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="text-[#9BA4B0]">{label}</span>
+              <span className="text-[white]">{formatCurrency(breakdown[key])}</span>
+            </div>
+            <div className="h-1.5 bg-[#000000] rounded-full overflow-hidden">
+              <div
+                className="h-full rounded-full"
+                style={{ width: `${total > 0 ? Math.max(0, (breakdown[key] / total) * 100) : 0}%`, backgroundColor: color }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function NetWorthCard({
+  current,
+  history,
+  monthOverMonth,
+  assets,
+  onAddAsset,
+  onRemoveAsset,
+}: NetWorthCardProps) {
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AssetType>('PROPERTY');
+  const [value, setValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const chartData = history.map((s) => ({
+    dateLabel: s.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+    netWorth: s.netWorth,
+  }));
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(value);
+    if (!name.trim() || isNaN(amount) || amount < 0) {
+      setFormError('Enter a name and a value');
+      return;
+    }
+
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      await onAddAsset({ name: name.trim(), type, value: amount });
+      setName('');
+      setValue('');
+      setShowAddForm(false);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to add asset');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6 rounded bg-[#111820] border border-[#424242] space-y-6">
+      {/* Headline */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-[white] mb-1">Net Worth</h2>
+          <p className={`text-3xl font-bold ${current.netWorth >= 0 ? 'text-[#22C55E]' : 'text-[#EF4444]'}`}>
+            {current.netWorth < 0 && '-'}{formatCurrency(Math.abs(current.netWorth))}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs text-[#9BA4B0]">Since last month</p>
+          {monthOverMonth === null ? (
+            <p className="text-sm text-[#6B7280] mt-1">Not enough history yet</p>
+          ) : (
+            <p className={`text-lg font-semibold ${monthOverMonth >= 0 ? 'text-[#22C55E]' : 'text-[#EF4444]'}`}>
+              {monthOverMonth >= 0 ? '+' : '-'}{formatCurrency(Math.abs(monthOverMonth))}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* History */}
+      {chartData.length > 1 ? (
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <defs>
+                <linearGradient id="netWorthGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#FFC700" stopOpacity={0.3} />
+                  <stop offset="95%" stopColor="#FFC700" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#424242" />
+              <XAxis
+                dataKey="dateLabel"
+                className="fill-[#6B7280]"
+                stroke="currentColor"
+                fontSize={12}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                className="fill-[#6B7280]"
+                stroke="currentColor"
+                fontSize={12}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(v) => `$${Math.round(v / 1000)}k`}
+              />
+              <Tooltip content={<ChartTooltip />} />
+              <Area type="monotone" dataKey="netWorth" stroke="#FFC700" fill="url(#netWorthGradient)" />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-sm text-[#6B7280]">
+          Your net worth is recorded once a day. The chart fills in as history builds up.
+        </p>
+      )}
+
+      {/* Assets vs liabilities */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 pt-4 border-t border-[#424242]">
+        <BreakdownList
+          title="Assets"
+          rows={ASSET_ROWS}
+          breakdown={current.breakdown}
+          total={current.totalAssets}
+          color="#22C55E"
+        />
+        <BreakdownList
+          title="Liabilities"
+          rows={LIABILITY_ROWS}
+          breakdown={current.breakdown}
+          total={current.totalLiabilities}
+          color="#EF4444"
+        />
+      </div>
+
+      {/* Manual assets */}
+      <div className="pt-4 border-t border-[#424242]">
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-sm text-[#9BA4B0]">Assets you track yourself</p>
+          <button
+            onClick={() => setShowAddForm(!showAddForm)}
+            className="text-xs font-medium text-[#FFC700] hover:text-[#E6B800] transition-colors"
+          >
+            {showAddForm ? 'Cancel' : '+ Add asset'}
+          </button>
+        </div>
+
+        {showAddForm && (
+          <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-2 mb-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Home, Car"
+              className="flex-1 px-3 py-2 rounded bg-[#0D1117] border border-[#424242] text-sm text-[white] placeholder-[#6B7280] focus:border-[#FFC700] focus:outline-none"
+            />
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as AssetType)}
+              className="px-3 py-2 rounded bg-[#0D1117] border border-[#424242] text-sm text-[white] focus:border-[#FFC700] focus:outline-none"
+            >
+              {(Object.keys(ASSET_TYPE_LABELS) as AssetType[]).map((t) => (
+                <option key={t} value={t}>{ASSET_TYPE_LABELS[t]}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="Value"
+              className="sm:w-32 px-3 py-2 rounded bg-[#0D1117] border border-[#424242] text-sm text-[white] placeholder-[#6B7280] focus:border-[#FFC700] focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 rounded text-sm font-semibold text-black bg-[#FFC700] hover:bg-[#E6B800] transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Add'}
+            </button>
+          </form>
+        )}
+        {formError && <p className="text-xs text-[#EF4444] mb-3">{formError}</p>}
+
+        {assets.length === 0 ? (
+          <p className="text-xs text-[#6B7280]">
+            Add things like a home or car so your net worth reflects more than your bank accounts.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {assets.map((asset) => (
+              <div key={asset.id} className="flex items-center gap-3 p-2 rounded bg-[#0D1117]">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-[white] truncate">{asset.name}</p>
+                  <p className="text-xs text-[#6B7280]">{ASSET_TYPE_LABELS[asset.type]}</p>
+                </div>
+                <p className="text-sm font-medium text-[white]">{formatCurrency(asset.value)}</p>
+                <button
+                  onClick={() => onRemoveAsset(asset.id).catch((err) => setFormError(err.message))}
+                  className="p-1 text-[#6B7280] hover:text-[#EF4444] transition-colors"
+                  aria-label={`Remove ${asset.name}`}
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
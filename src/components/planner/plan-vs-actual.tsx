@@ -0,0 +1,132 @@
+// Plan vs Actual Component
+// Recorded debt payments against the payoff plan: ahead or behind, and interest actually paid
+
+'use client';
+
+import { formatCurrency } from '@/lib/services/debt-calculator';
+import type { Debt, DebtPayment, DebtPlanVsActual, DebtProgressStatus } from '@/types';
+
+const STATUS_STYLES: Record<DebtProgressStatus, { label: string; className: string }> = {
+  AHEAD: { label: 'Ahead', className: 'bg-[#22C55E]/10 text-[#22C55E]' },
+  ON_TRACK: { label: 'On track', className: 'bg-[#FFC700]/10 text-[#FFC700]' },
+  BEHIND: { label: 'Behind', className: 'bg-[#EF4444]/10 text-[#EF4444]' },
+};
+
+// How many recent payments to list under the table
+const RECENT_PAYMENTS = 5;
+
+interface PlanVsActualProps {
+  debts: Debt[];
+  planVsActual: Map<string, DebtPlanVsActual>;
+  payments: DebtPayment[];
+  onRemovePayment?: (paymentId: string) => void;
+}
+
+export function ProgressBadge({ progress }: { progress: DebtPlanVsActual }) {
+  const style = STATUS_STYLES[progress.status];
+  const amount = Math.abs(progress.balanceDifference);
+  return (
+    <span className={`px-2 py-0.5 text-[10px] font-medium rounded-full ${style.className}`}>
+      {progress.status === 'ON_TRACK' ? style.label : `${style.label} by ${formatCurrency(amount)}`}
+    </span>
+  );
+}
+
+export function PlanVsActual({ debts, planVsActual, payments, onRemovePayment }: PlanVsActualProps) {
+  const tracked = debts.filter(d => planVsActual.has(d.id));
+  const debtName = (id: string) => debts.find(d => d.id === id)?.name ?? 'Deleted debt';
+
+  const totals = tracked.reduce(
+    (sum, d) => {
+      const p = planVsActual.get(d.id)!;
+      return {
+        actualPaid: sum.actualPaid + p.actualPaid,
+        plannedPaid: sum.plannedPaid + p.plannedPaid,
+        interestPaid: sum.interestPaid + p.interestPaid,
+        plannedInterest: sum.plannedInterest + p.plannedInterest,
+      };
+    },
+    { actualPaid: 0, plannedPaid: 0, interestPaid: 0, plannedInterest: 0 }
+  );
+
+  return (
+    <div className="p-6 rounded bg-[#111820] border border-[#424242]">
+      <h3 className="font-semibold text-[white] mb-1">Plan vs Actual</h3>
+      <p className="text-xs text-[#9BA4B0] mb-4">
+        Payments you&apos;ve made compared with the plan, from each debt&apos;s first recorded payment.
+      </p>
+
+      {tracked.length === 0 ? (
+        <p className="text-sm text-[#6B7280]">
+          No payments recorded yet. Record one from a debt card, or link a card to your bank and
+          payments are picked up when it syncs.
+        </p>
+      ) : (
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs text-[#9BA4B0]">Paid vs planned</p>
+              <p className="text-lg font-semibold text-[white]">
+                {formatCurrency(totals.actualPaid)}
+                <span className="text-sm font-normal text-[#6B7280]"> / {formatCurrency(totals.plannedPaid)}</span>
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-[#9BA4B0]">Interest paid</p>
+              <p className="text-lg font-semibold text-[#EAB308]">
+                {formatCurrency(totals.interestPaid)}
+                <span className="text-sm font-normal text-[#6B7280]"> / {formatCurrency(totals.plannedInterest)} planned</span>
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {tracked.map(debt => {
+              const progress = planVsActual.get(debt.id)!;
+              return (
+                <div key={debt.id} className="flex items-center gap-3 p-3 rounded bg-[#0D1117]">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-[white] truncate">{debt.name}</p>
+                    <p className="text-xs text-[#6B7280]">
+                      {formatCurrency(progress.actualBalance)} owed vs {formatCurrency(progress.plannedBalance)} planned
+                    </p>
+                  </div>
+                  <ProgressBadge progress={progress} />
+                </div>
+              );
+            })}
+          </div>
+
+          <div>
+            <p className="text-xs text-[#9BA4B0] mb-2">Recent payments</p>
+            <div className="space-y-1">
+              {payments.slice(0, RECENT_PAYMENTS).map(payment => (
+                <div key={payment.id} className="flex items-center gap-3 text-xs">
+                  <span className="w-16 text-[#6B7280]">
+                    {payment.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </span>
+                  <span className="flex-1 text-[#9BA4B0] truncate">
+                    {debtName(payment.debtId)}
+                    {payment.source === 'TRANSACTION' && <span className="text-[#6B7280]"> · from bank</span>}
+                  </span>
+                  <span className="text-[white]">{formatCurrency(payment.amount)}</span>
+                  {onRemovePayment && (
+                    <button
+                      onClick={() => onRemovePayment(payment.id)}
+                      className="p-1 text-[#6B7280] hover:text-[#EF4444] transition-colors"
+                      aria-label="Remove payment"
+                    >
+                      <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
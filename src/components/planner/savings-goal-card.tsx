@@ -1,31 +1,42 @@
 // Savings Goal Card Component
-// Displays a savings goal with progress and projections
+// Displays a savings goal with progress, projections and, for retirement, a range of market outcomes
 
 'use client';
 
 import { useState } from 'react';
-import type { SavingsGoalWithContributions, SavingsProjection } from '@/types';
+import type { SavingsGoalWithContributions, SavingsOutcomeBand, SavingsProjection } from '@/types';
 import {
   formatCurrency,
   formatTargetDate,
   getGoalTypeIcon,
   getAmountToNextMilestone,
+  type ContributionTrend,
 } from '@/lib/services/savings-calculator';
 
 interface SavingsGoalCardProps {
   goal: SavingsGoalWithContributions;
   projection: SavingsProjection;
+  trend?: ContributionTrend;
   onEdit?: (goal: SavingsGoalWithContributions) => void;
   onDelete?: (id: string) => void;
   onAddContribution?: (goalId: string) => void;
+  onRemoveContribution?: (contributionId: string) => void;
 }
 
+const TREND_LABELS: Record<ContributionTrend['trend'], string> = {
+  increasing: '↑ Saving more',
+  decreasing: '↓ Saving less',
+  stable: '→ Steady',
+};
+
 export function SavingsGoalCard({
   goal,
   projection,
+  trend,
   onEdit,
   onDelete,
   onAddContribution,
+  onRemoveContribution,
 }: SavingsGoalCardProps) {
   const [showDetails, setShowDetails] = useState(false);
 
@@ -61,6 +72,11 @@ export function SavingsGoalCard({
             <h3 className="font-semibold text-[var(--foreground)]">{goal.name}</h3>
             <p className="text-sm text-[var(--foreground-muted)]">
               {formatCurrency(goal.monthlyContribution ?? 0)}/month
+              {(goal.accountId || goal.transferPattern) && (
+                <span className="ml-2 text-xs text-[#22C55E]" title="Contributions are added from your bank transactions">
+                  ⟳ Auto-tracked
+                </span>
+              )}
             </p>
           </div>
         </div>
@@ -200,6 +216,29 @@ export function SavingsGoalCard({
             )}
           </div>
 
+          {/* Growth */}
+          {projection.expectedReturn > 0 && (
+            <div className="p-3 rounded-lg bg-[var(--background)]">
+              <p className="text-xs text-[var(--foreground-muted)] mb-1">
+                Growth at {(projection.expectedReturn * 100).toFixed(2)}%/yr, compounded {projection.compounding.toLowerCase()}
+              </p>
+              <p className="font-semibold text-[#22C55E]">
+                +{formatCurrency(projection.projectedGrowth)}
+                <span className="text-xs font-normal text-[var(--foreground-muted)]"> earned on the way to your goal</span>
+              </p>
+              {projection.inflationRate != null && projection.inflationRate > 0 && (
+                <p className="text-xs text-[var(--foreground-muted)] mt-1">
+                  In today&apos;s dollars, after {(projection.inflationRate * 100).toFixed(1)}% inflation
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Market Outcomes */}
+          {projection.outcomeBand && (
+            <OutcomeBand band={projection.outcomeBand} targetAmount={goal.targetAmount} />
+          )}
+
           {/* Next Milestone */}
           {amountToNextMilestone > 0 && (
             <div className="p-3 rounded-lg bg-[#3B82F6]/10 border border-[#3B82F6]/30">
@@ -214,17 +253,48 @@ export function SavingsGoalCard({
             </div>
           )}
 
+          {/* Contribution Pace */}
+          {trend && (
+            <div className="p-3 rounded-lg bg-[var(--background)]">
+              <p className="text-xs text-[var(--foreground-muted)] mb-1">Actual pace (last 3 months)</p>
+              <div className="flex items-baseline justify-between">
+                <p className={`font-semibold ${
+                  trend.averageMonthly >= (goal.monthlyContribution ?? 0) ? 'text-[#22C55E]' : 'text-[#EAB308]'
+                }`}>
+                  {formatCurrency(trend.averageMonthly)}/month
+                </p>
+                <span className="text-xs text-[var(--foreground-muted)]">
+                  {TREND_LABELS[trend.trend]}
+                </span>
+              </div>
+            </div>
+          )}
+
           {/* Recent Contributions */}
           {goal.contributions.length > 0 && (
             <div>
               <p className="text-xs text-[var(--foreground-muted)] mb-2">Recent Contributions</p>
               <div className="space-y-1">
                 {goal.contributions.slice(-3).reverse().map(c => (
-                  <div key={c.id} className="flex justify-between text-sm">
+                  <div key={c.id} className="group flex items-center justify-between text-sm">
                     <span className="text-[var(--foreground-muted)]">
                       {new Date(c.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                      {c.source === 'TRANSACTION' && <span className="text-xs"> · from bank</span>}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <span className={`font-medium ${c.amount < 0 ? 'text-[#EF4444]' : 'text-[#22C55E]'}`}>
+                        {c.amount < 0 ? '-' : '+'}{formatCurrency(Math.abs(c.amount))}
+                      </span>
+                      {onRemoveContribution && (
+                        <button
+                          onClick={() => onRemoveContribution(c.id)}
+                          className="opacity-0 group-hover:opacity-100 text-[var(--foreground-muted)] hover:text-[#EF4444] transition-opacity"
+                          aria-label="Remove contribution"
+                        >
+                          ×
+                        </button>
+                      )}
                     </span>
-                    <span className="font-medium text-[#22C55E]">+{formatCurrency(c.amount)}</span>
                   </div>
                 ))}
               </div>
@@ -235,3 +305,45 @@ export function SavingsGoalCard({
     </div>
   );
 }
+
+// Range of simulated balances at the horizon, with the target marked
+function OutcomeBand({ band, targetAmount }: { band: SavingsOutcomeBand; targetAmount: number }) {
+  const scaleMax = Math.max(band.p90, targetAmount) * 1.05;
+  const position = (amount: number) => `${Math.min(100, (amount / scaleMax) * 100)}%`;
+  const years = Math.round((band.horizonMonths / 12) * 10) / 10;
+
+  return (
+    <div className="p-3 rounded-lg bg-[var(--background)]">
+      <div className="flex items-baseline justify-between mb-2">
+        <p className="text-xs text-[var(--foreground-muted)]">Likely range in {years} years</p>
+        <span className={`text-xs font-medium ${
+          band.chanceOfReachingTarget >= 0.75 ? 'text-[#22C55E]' : 'text-[#EAB308]'
+        }`}>
+          {Math.round(band.chanceOfReachingTarget * 100)}% chance of reaching target
+        </span>
+      </div>
+      <div className="relative h-2 rounded-full bg-[var(--card)]">
+        <div
+          className="absolute h-full rounded-full bg-[#3B82F6]/40"
+          style={{ left: position(band.p10), width: `calc(${position(band.p90)} - ${position(band.p10)})` }}
+        />
+        <div className="absolute -top-0.5 h-3 w-0.5 bg-[#3B82F6]" style={{ left: position(band.p50) }} />
+        <div className="absolute -top-1 h-4 w-0.5 bg-[#22C55E]" style={{ left: position(targetAmount) }} title="Target" />
+      </div>
+      <div className="grid grid-cols-3 gap-2 mt-2 text-xs">
+        <div>
+          <p className="text-[var(--foreground-muted)]">Poor markets</p>
+          <p className="font-medium text-[var(--foreground)]">{formatCurrency(band.p10)}</p>
+        </div>
+        <div className="text-center">
+          <p className="text-[var(--foreground-muted)]">Typical</p>
+          <p className="font-medium text-[var(--foreground)]">{formatCurrency(band.p50)}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-[var(--foreground-muted)]">Strong markets</p>
+          <p className="font-medium text-[var(--foreground)]">{formatCurrency(band.p90)}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,21 @@
 // Strategy Selector Component
-// Allows users to choose between debt payoff strategies
+// Compares every debt payoff strategy side by side, plus a consolidation-loan what-if
 
 'use client';
 
-import type { DebtPayoffStrategy, DebtComparison } from '@/types';
+import { useState } from 'react';
+import type { ConsolidationOffer, DebtComparison, DebtPayoffStrategy, DebtScenario, DebtScenarioOutcome } from '@/types';
 import { formatCurrency } from '@/lib/services/debt-calculator';
 
 interface StrategySelectorProps {
   currentStrategy: DebtPayoffStrategy;
   onStrategyChange: (strategy: DebtPayoffStrategy) => void;
   comparison: DebtComparison;
+  consolidationOffer?: ConsolidationOffer | null;
+  onConsolidationChange?: (offer: ConsolidationOffer | null) => void;
 }
 
-const STRATEGY_INFO: Record<DebtPayoffStrategy, {
+export const STRATEGY_INFO: Record<DebtScenario, {
   name: string;
   shortDesc: string;
   icon: string;
@@ -30,30 +33,84 @@ const STRATEGY_INFO: Record<DebtPayoffStrategy, {
     icon: '⛄',
     benefit: 'Quick wins for motivation',
   },
+  CASH_FLOW_INDEX: {
+    name: 'Cash-Flow Index',
+    shortDesc: 'Lowest balance-to-minimum ratio first',
+    icon: '💧',
+    benefit: 'Frees up monthly cash fastest',
+  },
+  HYBRID: {
+    name: 'Hybrid',
+    shortDesc: 'Clear balances under $1,000, then highest interest',
+    icon: '⚡',
+    benefit: 'Early wins without giving up much',
+  },
   CUSTOM: {
     name: 'Custom',
     shortDesc: 'Your priority order',
     icon: '🎯',
     benefit: 'Total control',
   },
+  CONSOLIDATION: {
+    name: 'Consolidation Loan',
+    shortDesc: 'One loan replaces all your debts',
+    icon: '🏦',
+    benefit: 'One payment, possibly a lower rate',
+  },
 };
 
+// "+$120 · 3 mo later" relative to the strategy in use
+function describeDifference(outcome: DebtScenarioOutcome): string | null {
+  const parts: string[] = [];
+  if (Math.abs(outcome.interestDifference) >= 1) {
+    parts.push(`${outcome.interestDifference > 0 ? '+' : '-'}${formatCurrency(Math.abs(outcome.interestDifference))}`);
+  }
+  if (outcome.monthsDifference !== 0) {
+    parts.push(`${Math.abs(outcome.monthsDifference)} mo ${outcome.monthsDifference > 0 ? 'later' : 'sooner'}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+function OutcomeStats({ outcome, isCurrent }: { outcome: DebtScenarioOutcome; isCurrent: boolean }) {
+  const difference = isCurrent ? null : describeDifference(outcome);
+  const cheaper = outcome.interestDifference < 0;
+
+  return (
+    <div className="text-right shrink-0">
+      <p className="text-lg font-bold text-[var(--foreground)]">
+        {formatCurrency(outcome.plan.totalInterest)}
+      </p>
+      <p className="text-xs text-[var(--foreground-muted)]">
+        interest · {outcome.plan.monthsToDebtFree} mo
+      </p>
+      {difference && (
+        <p className={`text-xs font-medium ${cheaper ? 'text-[#22C55E]' : 'text-[#EF4444]'}`}>{difference}</p>
+      )}
+    </div>
+  );
+}
+
 export function StrategySelector({
   currentStrategy,
   onStrategyChange,
   comparison,
+  consolidationOffer,
+  onConsolidationChange,
 }: StrategySelectorProps) {
-  const strategies: DebtPayoffStrategy[] = ['AVALANCHE', 'SNOWBALL', 'CUSTOM'];
-  const avalancheIsBetter = comparison.interestSaved > 0;
+  const strategies = comparison.outcomes.filter(
+    (o): o is DebtScenarioOutcome & { scenario: DebtPayoffStrategy } => o.scenario !== 'CONSOLIDATION'
+  );
+  const consolidation = comparison.outcomes.find(o => o.scenario === 'CONSOLIDATION');
 
   return (
     <div className="space-y-4">
       {/* Strategy Options - Simple Radio Style */}
       <div className="space-y-2">
-        {strategies.map(strategy => {
+        {strategies.map(outcome => {
+          const strategy = outcome.scenario;
           const info = STRATEGY_INFO[strategy];
           const isSelected = currentStrategy === strategy;
-          const isRecommended = strategy === 'AVALANCHE' && avalancheIsBetter;
+          const isRecommended = comparison.best === strategy;
 
           return (
             <button
@@ -95,19 +152,8 @@ export function StrategySelector({
                 <p className="text-sm text-[var(--foreground-muted)]">{info.shortDesc}</p>
               </div>
 
-              {/* Stats (for non-custom) */}
-              {strategy !== 'CUSTOM' && (
-                <div className="text-right shrink-0">
-                  <p className={`text-lg font-bold ${strategy === 'AVALANCHE' ? 'text-[#22C55E]' : 'text-[var(--foreground)]'}`}>
-                    {formatCurrency(
-                      strategy === 'AVALANCHE'
-                        ? comparison.avalanche.totalInterest
-                        : comparison.snowball.totalInterest
-                    )}
-                  </p>
-                  <p className="text-xs text-[var(--foreground-muted)]">total interest</p>
-                </div>
-              )}
+              {/* Stats */}
+              <OutcomeStats outcome={outcome} isCurrent={isSelected} />
             </button>
           );
         })}
@@ -122,6 +168,101 @@ export function StrategySelector({
           </p>
         </div>
       )}
+
+      {/* Consolidation What-If */}
+      {onConsolidationChange && (
+        <ConsolidationWhatIf
+          offer={consolidationOffer ?? null}
+          outcome={consolidation}
+          isBest={comparison.best === 'CONSOLIDATION'}
+          onChange={onConsolidationChange}
+        />
+      )}
+    </div>
+  );
+}
+
+function ConsolidationWhatIf({
+  offer,
+  outcome,
+  isBest,
+  onChange,
+}: {
+  offer: ConsolidationOffer | null;
+  outcome?: DebtScenarioOutcome;
+  isBest: boolean;
+  onChange: (offer: ConsolidationOffer | null) => void;
+}) {
+  const [rate, setRate] = useState(offer ? (offer.interestRate * 100).toString() : '');
+  const [term, setTerm] = useState(offer ? offer.termMonths.toString() : '60');
+  const [fee, setFee] = useState(offer ? offer.fee.toString() : '0');
+  const info = STRATEGY_INFO.CONSOLIDATION;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const termMonths = Math.round(Number(term));
+    if (rate === '' || !(termMonths > 0)) return;
+    onChange({ interestRate: Number(rate) / 100, termMonths, fee: Number(fee) || 0 });
+  };
+
+  const inputClass = 'w-full px-3 py-1.5 rounded-lg bg-[var(--background)] border border-[var(--border)] text-sm text-[var(--foreground)] focus:outline-none';
+
+  return (
+    <div className="p-4 rounded-xl border border-dashed border-[var(--border)] bg-[var(--card)]">
+      <div className="flex items-center gap-4 mb-3">
+        <span className="text-2xl shrink-0">{info.icon}</span>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold text-[var(--foreground)]">{info.name}</span>
+            {isBest && (
+              <span className="px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider rounded-full bg-[#22C55E] text-white">
+                Best
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-[var(--foreground-muted)]">What if you took an offer?</p>
+        </div>
+        {outcome && <OutcomeStats outcome={outcome} isCurrent={false} />}
+      </div>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-3 gap-2">
+        <div>
+          <label className="block text-xs text-[var(--foreground-muted)] mb-1">APR (%)</label>
+          <input type="number" step="0.01" min="0" value={rate} onChange={(e) => setRate(e.target.value)} placeholder="8.99" className={inputClass} required />
+        </div>
+        <div>
+          <label className="block text-xs text-[var(--foreground-muted)] mb-1">Term (months)</label>
+          <input type="number" step="1" min="1" value={term} onChange={(e) => setTerm(e.target.value)} className={inputClass} required />
+        </div>
+        <div>
+          <label className="block text-xs text-[var(--foreground-muted)] mb-1">Fee ($)</label>
+          <input type="number" step="0.01" min="0" value={fee} onChange={(e) => setFee(e.target.value)} className={inputClass} />
+        </div>
+        <div className="col-span-3 flex gap-2 mt-1">
+          <button
+            type="submit"
+            className="flex-1 py-1.5 rounded-lg text-sm font-medium bg-[#3B82F6]/10 text-[#3B82F6] hover:bg-[#3B82F6]/20 transition-colors"
+          >
+            {offer ? 'Update offer' : 'Compare offer'}
+          </button>
+          {offer && (
+            <button
+              type="button"
+              onClick={() => onChange(null)}
+              className="px-3 py-1.5 rounded-lg text-sm text-[var(--foreground-muted)] hover:text-[var(--foreground)] transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </form>
+
+      {outcome && (
+        <p className="text-xs text-[var(--foreground-muted)] mt-3">
+          Loan payment {formatCurrency(outcome.plan.debts[0]?.monthlyPayments[0]?.payment ?? 0)}/mo including your extra payment.
+          The fee is added to the loan.
+        </p>
+      )}
     </div>
   );
 }
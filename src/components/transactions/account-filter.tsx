@@ -0,0 +1,46 @@
+'use client';
+
+import { formatCurrency } from '@/lib/utils';
+import type { FinancialAccount } from '@/types';
+
+interface AccountFilterProps {
+  accounts: FinancialAccount[];
+  // null shows every account
+  value: string | null;
+  onChange: (accountId: string | null) => void;
+  className?: string;
+}
+
+export function accountLabel(account: FinancialAccount): string {
+  return account.mask ? `${account.name} ••${account.mask}` : account.name;
+}
+
+function optionLabel(account: FinancialAccount): string {
+  const institution = account.institutionName ? `${account.institutionName} · ` : '';
+  const balance = account.currentBalance !== null ? ` (${formatCurrency(account.currentBalance)})` : '';
+  return `${institution}${accountLabel(account)}${balance}`;
+}
+
+/**
+ * Account picker for transaction views. Renders nothing until the user has
+ * linked accounts, since demo and imported data have none.
+ */
+export function AccountFilter({ accounts, value, onChange, className = '' }: AccountFilterProps) {
+  if (accounts.length === 0) return null;
+
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      aria-label="Filter by account"
+      className={`px-4 py-2 bg-[#0D1117] border border-[#424242] text-[white] text-sm focus:border-[#FFC700] focus:outline-none ${className}`}
+    >
+      <option value="">All accounts</option>
+      {accounts.map((account) => (
+        <option key={account.id} value={account.id}>
+          {optionLabel(account)}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -4,8 +4,9 @@ import { useMemo, useState } from 'react';
 import { formatCurrency } from '@/lib/utils';
 import { useIncome } from '@/hooks/use-income';
 import { IncomeSettingsModal } from '@/components/income/income-settings-modal';
+import { getZoneSlices } from '@/lib/services/zone-allocation';
+import { isSpendingKind } from '@/lib/transactions/direction';
 import type { Transaction, UserCategorization } from '@/types';
-import type { TrafficLightZone } from '@/constants/traffic-light';
 
 interface SpendingAnalysisProps {
   transactions: Transaction[];
@@ -19,8 +20,7 @@ export function SpendingAnalysis({ transactions, categorizations, userId = 'demo
 
   const analysis = useMemo(() => {
     // Create categorization map
-    const catMap = new Map<string, TrafficLightZone>();
-    categorizations.forEach((c) => catMap.set(c.transactionId, c.zone));
+    const catMap = new Map(categorizations.map((c) => [c.transactionId, c]));
 
     // Calculate zone totals
     const zones = {
@@ -30,12 +30,15 @@ export function SpendingAnalysis({ transactions, categorizations, userId = 'demo
       UNCATEGORIZED: { count: 0, amount: 0, transactions: [] as Transaction[] },
     };
 
+    // Split transactions count toward each zone they have a part in
     transactions.forEach((t) => {
-      const zone = catMap.get(t.id) || 'UNCATEGORIZED';
-      const amount = Math.abs(Number(t.amount));
-      zones[zone].count++;
-      zones[zone].amount += amount;
-      zones[zone].transactions.push(t);
+      getZoneSlices(Number(t.amount), catMap.get(t.id), t.kind).forEach((slice) => {
+        if (!zones[slice.zone].transactions.includes(t)) {
+          zones[slice.zone].count++;
+          zones[slice.zone].transactions.push(t);
+        }
+        zones[slice.zone].amount += slice.amount;
+      });
     });
 
     const totalCategorized = zones.GREEN.amount + zones.YELLOW.amount + zones.RED.amount;
@@ -72,7 +75,7 @@ export function SpendingAnalysis({ transactions, categorizations, userId = 'demo
       healthScore,
       potentialSavings,
       yearlyRedProjection,
-      categorizedCount: zones.GREEN.count + zones.YELLOW.count + zones.RED.count,
+      categorizedCount: transactions.filter((t) => isSpendingKind(t.kind)).length - zones.UNCATEGORIZED.count,
       uncategorizedCount: zones.UNCATEGORIZED.count,
     };
   }, [transactions, categorizations]);
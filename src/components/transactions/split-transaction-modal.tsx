@@ -0,0 +1,254 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { ZONE_CONFIG } from '@/constants/traffic-light';
+import { formatCurrency } from '@/lib/utils';
+import { validateSplitParts } from '@/lib/services/zone-allocation';
+import type { Transaction, TransactionSplitPart } from '@/types';
+
+type SplitZone = 'GREEN' | 'YELLOW' | 'RED';
+
+interface DraftPart {
+  amount: string;
+  zone: SplitZone;
+  category: string;
+  note: string;
+}
+
+interface SplitTransactionModalProps {
+  transaction: Transaction;
+  splits?: TransactionSplitPart[];
+  onSave: (transactionId: string, parts: TransactionSplitPart[]) => Promise<void>;
+  onRemove?: (transactionId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const toDraft = (part: TransactionSplitPart): DraftPart => ({
+  amount: part.amount.toFixed(2),
+  zone: part.zone === 'UNCATEGORIZED' ? 'YELLOW' : part.zone,
+  category: part.category ?? '',
+  note: part.note ?? '',
+});
+
+export function SplitTransactionModal({
+  transaction,
+  splits,
+  onSave,
+  onRemove,
+  onClose,
+}: SplitTransactionModalProps) {
+  const total = Math.abs(Number(transaction.amount));
+  const [parts, setParts] = useState<DraftPart[]>(() =>
+    splits && splits.length > 0
+      ? splits.map(toDraft)
+      : [
+          { amount: total.toFixed(2), zone: 'GREEN', category: '', note: '' },
+          { amount: '0.00', zone: 'RED', category: '', note: '' },
+        ]
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const parsedParts = useMemo(() =>
+    parts.map((p) => ({
+      amount: Number(p.amount) || 0,
+      zone: p.zone,
+      category: p.category.trim() || null,
+      note: p.note.trim() || null,
+    })), [parts]);
+
+  const allocated = parsedParts.reduce((sum, p) => sum + p.amount, 0);
+  const remaining = Math.round((total - allocated) * 100) / 100;
+  const validationError = validateSplitParts(total, parsedParts);
+
+  const updatePart = (index: number, updates: Partial<DraftPart>) => {
+    setParts((prev) => prev.map((p, i) => (i === index ? { ...p, ...updates } : p)));
+  };
+
+  const addPart = () => {
+    setParts((prev) => [
+      ...prev,
+      { amount: Math.max(0, remaining).toFixed(2), zone: 'YELLOW', category: '', note: '' },
+    ]);
+  };
+
+  const removePart = (index: number) => {
+    setParts((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  // Put whatever is left over onto the last part
+  const assignRemainder = () => {
+    const last = parts.length - 1;
+    updatePart(last, { amount: (parsedParts[last].amount + remaining).toFixed(2) });
+  };
+
+  const handleSave = async () => {
+    if (validationError) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(transaction.id, parsedParts);
+      onClose();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to split transaction');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!onRemove) return;
+    setIsSaving(true);
+    await onRemove(transaction.id);
+    setIsSaving(false);
+    onClose();
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 bg-[#111820] border border-[#424242] text-[white] placeholder:text-[#6B7280] focus:border-[#3B82F6] focus:outline-none transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative w-full max-w-lg mx-4 bg-[#000000] border border-[#424242] shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="p-6 border-b border-[#424242] bg-gradient-to-r from-[#111820] to-transparent">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-xl font-bold text-[white]">Split Transaction</h2>
+              <p className="text-sm text-[#9BA4B0] mt-1">
+                {transaction.merchantName || transaction.description} &middot; {formatCurrency(total)}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-[#6B7280] hover:text-[white] hover:bg-[white/5] transition-colors"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Parts */}
+        <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+          {parts.map((part, index) => (
+            <div key={index} className="p-4 bg-[#111820] border border-[#424242] space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  value={part.amount}
+                  onChange={(e) => updatePart(index, { amount: e.target.value })}
+                  min="0"
+                  step="0.01"
+                  className={`${inputClass} w-32`}
+                />
+                <div className="flex gap-1 flex-1">
+                  {(['GREEN', 'YELLOW', 'RED'] as SplitZone[]).map((z) => (
+                    <button
+                      key={z}
+                      onClick={() => updatePart(index, { zone: z })}
+                      className={`flex-1 py-2 border text-xs font-medium transition-all ${
+                        part.zone === z ? 'border-current' : 'border-[#424242] hover:border-current'
+                      }`}
+                      style={{ color: ZONE_CONFIG[z].color, borderColor: part.zone === z ? ZONE_CONFIG[z].color : undefined }}
+                    >
+                      {z}
+                    </button>
+                  ))}
+                </div>
+                {parts.length > 2 && (
+                  <button
+                    onClick={() => removePart(index)}
+                    className="p-2 text-[#6B7280] hover:text-[#EF4444] transition-colors"
+                    title="Remove part"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  value={part.category}
+                  onChange={(e) => updatePart(index, { category: e.target.value })}
+                  placeholder="Category"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={part.note}
+                  onChange={(e) => updatePart(index, { note: e.target.value })}
+                  placeholder="Note"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between text-sm">
+            <button
+              onClick={addPart}
+              disabled={parts.length >= 10}
+              className="text-[#3B82F6] hover:underline disabled:opacity-50"
+            >
+              + Add part
+            </button>
+            <div className="flex items-center gap-3">
+              <span className={remaining === 0 ? 'text-[#22C55E]' : 'text-[#EAB308]'}>
+                {remaining === 0
+                  ? 'Fully allocated'
+                  : `${formatCurrency(Math.abs(remaining))} ${remaining > 0 ? 'left' : 'over'}`}
+              </span>
+              {remaining !== 0 && (
+                <button onClick={assignRemainder} className="text-[#3B82F6] hover:underline">
+                  Balance
+                </button>
+              )}
+            </div>
+          </div>
+
+          {(saveError || validationError) && (
+            <p className="text-sm text-[#EF4444]">{saveError || validationError}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-[#424242] flex items-center justify-between gap-3">
+          <div>
+            {onRemove && splits && splits.length > 0 && (
+              <button
+                onClick={handleRemove}
+                disabled={isSaving}
+                className="text-sm text-[#EF4444] hover:underline disabled:opacity-50"
+              >
+                Remove split
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onClose}
+              className="px-5 py-2.5 text-sm font-medium text-[#9BA4B0] hover:text-[white] transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!!validationError || isSaving}
+              className="px-5 py-2.5 text-sm font-medium text-white bg-[#22C55E] hover:bg-[#16A34A] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Save Split
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export { SplitTransactionModal as default };
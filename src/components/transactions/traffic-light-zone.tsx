@@ -4,15 +4,26 @@ import { useDroppable } from '@dnd-kit/core';
 import { TransactionCard } from './transaction-card';
 import { ZONE_CONFIG, type TrafficLightZone } from '@/constants/traffic-light';
 import { formatCurrency } from '@/lib/utils';
-import type { Transaction } from '@/types';
+import type { Transaction, TransactionSplitPart } from '@/types';
 
 interface TrafficLightZoneProps {
   zone: TrafficLightZone;
   transactions: Transaction[];
   aiSuggestions?: Map<string, { zone: TrafficLightZone; confidence: number; reasoning: string }>;
+  // Zone total including split parts filed here from cards shown in other zones
+  zoneTotal?: number;
+  splits?: Map<string, TransactionSplitPart[]>;
+  onSplit?: (transaction: Transaction) => void;
 }
 
-export function TrafficLightZoneComponent({ zone, transactions, aiSuggestions }: TrafficLightZoneProps) {
+export function TrafficLightZoneComponent({
+  zone,
+  transactions,
+  aiSuggestions,
+  zoneTotal,
+  splits,
+  onSplit,
+}: TrafficLightZoneProps) {
   const { setNodeRef, isOver } = useDroppable({
     id: zone,
     data: {
@@ -22,7 +33,7 @@ export function TrafficLightZoneComponent({ zone, transactions, aiSuggestions }:
   });
 
   const config = ZONE_CONFIG[zone];
-  const totalAmount = transactions.reduce((sum, t) => sum + Number(t.amount), 0);
+  const totalAmount = zoneTotal ?? transactions.reduce((sum, t) => sum + Number(t.amount), 0);
 
   // Zone-specific styling
   const zoneStyles: Record<TrafficLightZone, {
@@ -102,6 +113,8 @@ export function TrafficLightZoneComponent({ zone, transactions, aiSuggestions }:
               key={transaction.id}
               transaction={transaction}
               aiSuggestion={aiSuggestions?.get(transaction.id)}
+              splits={splits?.get(transaction.id)}
+              onSplit={onSplit}
             />
           ))}
 
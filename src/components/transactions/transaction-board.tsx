@@ -16,22 +16,33 @@ import {
 import { UncategorizedPool } from './uncategorized-pool';
 import { TrafficLightZoneComponent } from './traffic-light-zone';
 import { TransactionCardOverlay, MultiTransactionOverlay } from './transaction-card';
-import { autoCategorize } from '@/lib/services/auto-categorize';
-import type { Transaction, UserCategorization } from '@/types';
+import { SplitTransactionModal } from './split-transaction-modal';
+import { autoCategorize, type LearnedMerchant, type UserCategoryRule } from '@/lib/services/auto-categorize';
+import { sumZoneTotals } from '@/lib/services/zone-allocation';
+import type { Transaction, TransactionSplitPart, UserCategorization } from '@/types';
 import type { TrafficLightZone } from '@/constants/traffic-light';
 
 interface TransactionBoardProps {
   transactions: Transaction[];
   categorizations: UserCategorization[];
   onCategorize: (transactionId: string, zone: TrafficLightZone) => void;
+  rules?: UserCategoryRule[];
+  learned?: Map<string, LearnedMerchant>;
+  onSplit?: (transactionId: string, parts: TransactionSplitPart[]) => Promise<void>;
+  onUnsplit?: (transactionId: string) => Promise<void>;
 }
 
 export function TransactionBoard({
   transactions,
   categorizations,
   onCategorize,
+  rules,
+  learned,
+  onSplit,
+  onUnsplit,
 }: TransactionBoardProps) {
   const [activeTransaction, setActiveTransaction] = useState<Transaction | null>(null);
+  const [splittingTransaction, setSplittingTransaction] = useState<Transaction | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   // Configure sensors for drag detection
@@ -53,6 +64,26 @@ export function TransactionBoard({
     return map;
   }, [categorizations]);
 
+  // Split parts by transaction ID - a split card sits in its largest part's zone
+  const splitsMap = useMemo(() => {
+    const map = new Map<string, TransactionSplitPart[]>();
+    categorizations.forEach((c) => {
+      if (c.splits && c.splits.length > 0) {
+        map.set(c.transactionId, c.splits);
+      }
+    });
+    return map;
+  }, [categorizations]);
+
+  // Zone totals count each split part in its own zone
+  const zoneTotals = useMemo(() => {
+    const map = new Map(categorizations.map((c) => [c.transactionId, c]));
+    return sumZoneTotals(
+      transactions.map((t) => ({ id: t.id, amount: Number(t.amount), kind: t.kind })),
+      map
+    );
+  }, [transactions, categorizations]);
+
   // Group transactions by zone
   const groupedTransactions = useMemo(() => {
     const groups: Record<TrafficLightZone | 'UNCATEGORIZED', Transaction[]> = {
@@ -70,7 +101,7 @@ export function TransactionBoard({
     return groups;
   }, [transactions, categorizationMap]);
 
-  // Generate AI suggestions for uncategorized transactions using real categorization rules
+  // Generate AI suggestions for uncategorized transactions - the user's rules and past choices first, then built-in rules
   const aiSuggestions = useMemo(() => {
     const suggestions = new Map<string, { zone: TrafficLightZone; confidence: number; reasoning: string }>();
 
@@ -78,7 +109,8 @@ export function TransactionBoard({
       const result = autoCategorize(
         transaction.merchantName || '',
         transaction.description,
-        Number(transaction.amount)
+        Number(transaction.amount),
+        { rules, learned, date: transaction.date }
       );
 
       // autoCategorize always returns a result now
@@ -90,7 +122,7 @@ export function TransactionBoard({
     });
 
     return suggestions;
-  }, [groupedTransactions.UNCATEGORIZED]);
+  }, [groupedTransactions.UNCATEGORIZED, rules, learned]);
 
   // Selection handlers
   const toggleSelection = useCallback((transactionId: string) => {
@@ -192,10 +224,10 @@ export function TransactionBoard({
   const stats = useMemo(() => {
     const total = transactions.length;
     const categorized = total - groupedTransactions.UNCATEGORIZED.length;
-    const greenAmount = groupedTransactions.GREEN.reduce((sum, t) => sum + Number(t.amount), 0);
-    const yellowAmount = groupedTransactions.YELLOW.reduce((sum, t) => sum + Number(t.amount), 0);
-    const redAmount = groupedTransactions.RED.reduce((sum, t) => sum + Number(t.amount), 0);
-    const totalAmount = greenAmount + yellowAmount + redAmount;
+    const greenAmount = zoneTotals.GREEN;
+    const yellowAmount = zoneTotals.YELLOW;
+    const redAmount = zoneTotals.RED;
+    const totalAmount = zoneTotals.total;
 
     return {
       total,
@@ -209,7 +241,7 @@ export function TransactionBoard({
       yellowPercent: totalAmount > 0 ? (yellowAmount / totalAmount) * 100 : 0,
       redPercent: totalAmount > 0 ? (redAmount / totalAmount) * 100 : 0,
     };
-  }, [transactions, groupedTransactions]);
+  }, [transactions, groupedTransactions, zoneTotals]);
 
   // Count selected from uncategorized
   const selectedCount = selectedIds.size;
@@ -262,24 +294,34 @@ export function TransactionBoard({
           onSelectAll={() => selectAll(groupedTransactions.UNCATEGORIZED.map((t) => t.id))}
           onClearSelection={clearSelection}
           onAutoCategorize={onCategorize}
+          onSplit={onSplit ? setSplittingTransaction : undefined}
         />
 
         {/* Green Zone */}
         <TrafficLightZoneComponent
           zone="GREEN"
           transactions={groupedTransactions.GREEN}
+          zoneTotal={zoneTotals.GREEN}
+          splits={splitsMap}
+          onSplit={onSplit ? setSplittingTransaction : undefined}
         />
 
         {/* Yellow Zone */}
         <TrafficLightZoneComponent
           zone="YELLOW"
           transactions={groupedTransactions.YELLOW}
+          zoneTotal={zoneTotals.YELLOW}
+          splits={splitsMap}
+          onSplit={onSplit ? setSplittingTransaction : undefined}
         />
 
         {/* Red Zone */}
         <TrafficLightZoneComponent
           zone="RED"
           transactions={groupedTransactions.RED}
+          zoneTotal={zoneTotals.RED}
+          splits={splitsMap}
+          onSplit={onSplit ? setSplittingTransaction : undefined}
         />
       </div>
 
@@ -296,6 +338,17 @@ export function TransactionBoard({
           )
         )}
       </DragOverlay>
+
+      {/* Split editor */}
+      {splittingTransaction && onSplit && (
+        <SplitTransactionModal
+          transaction={splittingTransaction}
+          splits={splitsMap.get(splittingTransaction.id)}
+          onSave={onSplit}
+          onRemove={onUnsplit}
+          onClose={() => setSplittingTransaction(null)}
+        />
+      )}
     </DndContext>
   );
 }
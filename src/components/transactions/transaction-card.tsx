@@ -3,7 +3,7 @@
 import { useDraggable } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
 import { formatCurrency, formatRelativeDate } from '@/lib/utils';
-import type { Transaction } from '@/types';
+import type { Transaction, TransactionSplitPart } from '@/types';
 import type { TrafficLightZone } from '@/constants/traffic-light';
 
 interface TransactionCardProps {
@@ -17,6 +17,8 @@ interface TransactionCardProps {
   isSelected?: boolean;
   onToggleSelection?: (id: string) => void;
   selectionMode?: boolean;
+  splits?: TransactionSplitPart[];
+  onSplit?: (transaction: Transaction) => void;
 }
 
 export function TransactionCard({
@@ -26,6 +28,8 @@ export function TransactionCard({
   isSelected = false,
   onToggleSelection,
   selectionMode = false,
+  splits,
+  onSplit,
 }: TransactionCardProps) {
   const {
     attributes,
@@ -80,6 +84,14 @@ export function TransactionCard({
     onToggleSelection?.(transaction.id);
   };
 
+  const handleSplitClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    onSplit?.(transaction);
+  };
+
+  const isSplit = !!splits && splits.length > 0;
+
   return (
     <div
       ref={setNodeRef}
@@ -135,12 +147,25 @@ export function TransactionCard({
           </p>
         </div>
         <div className="text-right flex-shrink-0">
-          <p className="text-base font-semibold text-[var(--foreground)]">
-            {formatCurrency(Number(transaction.amount))}
+          {/* Refunds net against the zone they're filed in */}
+          <p className={`text-base font-semibold ${transaction.kind === 'REFUND' ? 'text-[#22C55E]' : 'text-[var(--foreground)]'}`}>
+            {transaction.kind === 'REFUND' ? '-' : ''}{formatCurrency(Number(transaction.amount))}
           </p>
+          {transaction.kind === 'REFUND' && (
+            <p className="text-xs text-[#22C55E]">Refund</p>
+          )}
           <p className="text-sm text-[var(--foreground-subtle)] mt-0.5">
             {formatRelativeDate(new Date(transaction.date))}
           </p>
+          {/* Not posted yet - the amount can still change, but filing carries over */}
+          {transaction.pending && (
+            <span
+              className="inline-block mt-1 text-xs px-2 py-0.5 rounded-full bg-[#EAB308]/20 text-[#EAB308]"
+              title="Not posted yet. The amount may change; your filing carries over when it posts."
+            >
+              Pending
+            </span>
+          )}
         </div>
       </div>
 
@@ -162,6 +187,38 @@ export function TransactionCard({
         </div>
       )}
 
+      {/* Split breakdown */}
+      {isSplit && (
+        <div className="mt-3 ml-7 space-y-1">
+          {splits.map((part, index) => (
+            <div key={index} className="flex items-center justify-between gap-2 text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                <div className={`w-2 h-2 rounded-full flex-shrink-0 ${zoneColors[part.zone].text.replace('text-', 'bg-')}`} />
+                <span className="text-[var(--foreground-muted)] truncate">
+                  {part.category || part.note || part.zone}
+                </span>
+              </div>
+              <span className={`flex-shrink-0 ${zoneColors[part.zone].text}`}>
+                {formatCurrency(part.amount)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Split action */}
+      {onSplit && !isOverlay && (
+        <div className="mt-2 ml-7 flex justify-end">
+          <button
+            onClick={handleSplitClick}
+            onPointerDown={(e) => e.stopPropagation()}
+            className={`text-xs text-[#9BA4B0] hover:text-white transition-opacity ${isSplit ? '' : 'opacity-0 group-hover:opacity-100'}`}
+          >
+            {isSplit ? 'Edit split' : 'Split'}
+          </button>
+        </div>
+      )}
+
       {/* Recurring indicator */}
       {transaction.isRecurring && (
         <div className="absolute -top-2 left-5 w-5 h-5 rounded-full bg-[#3B82F6] flex items-center justify-center">
@@ -170,15 +227,6 @@ export function TransactionCard({
           </svg>
         </div>
       )}
-
-      {/* Pending indicator */}
-      {transaction.pending && (
-        <div className="absolute top-2 left-10">
-          <span className="text-xs px-2 py-0.5 rounded-full bg-[#EAB308]/20 text-[#EAB308]">
-            Pending
-          </span>
-        </div>
-      )}
     </div>
   );
 }
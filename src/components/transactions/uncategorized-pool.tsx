@@ -15,6 +15,7 @@ interface UncategorizedPoolProps {
   onSelectAll?: () => void;
   onClearSelection?: () => void;
   onAutoCategorize?: (transactionId: string, zone: TrafficLightZone) => void;
+  onSplit?: (transaction: Transaction) => void;
 }
 
 type SortOption = 'date-desc' | 'date-asc' | 'amount-desc' | 'amount-asc';
@@ -28,6 +29,7 @@ export function UncategorizedPool({
   onSelectAll,
   onClearSelection,
   onAutoCategorize,
+  onSplit,
 }: UncategorizedPoolProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [zoneFilter, setZoneFilter] = useState<ZoneFilter>('ALL');
@@ -338,6 +340,7 @@ export function UncategorizedPool({
               isSelected={selectedIds.has(transaction.id)}
               onToggleSelection={onToggleSelection}
               selectionMode={selectionMode || selectedIds.size > 0}
+              onSplit={onSplit}
             />
           ))}
 
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { FinancialAccount } from '@/types';
+
+// Convert date strings (from JSON) back to Date objects
+function parseAccountDates(account: FinancialAccount): FinancialAccount {
+  return {
+    ...account,
+    balanceUpdatedAt: account.balanceUpdatedAt ? new Date(account.balanceUpdatedAt) : null,
+  };
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+interface UseAccounts {
+  accounts: FinancialAccount[];
+  isLoading: boolean;
+  error: string | null;
+  refreshBalances: () => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+export function useAccounts(): UseAccounts {
+  const [accounts, setAccounts] = useState<FinancialAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/accounts');
+      if (!response.ok) {
+        throw new Error(response.status === 401 ? 'Please log in to view accounts' : 'Failed to fetch accounts');
+      }
+      const data = await response.json();
+      setAccounts((data.accounts || []).map(parseAccountDates));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching accounts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load accounts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  // Live balances from Plaid; throws with the server's message on failure
+  const refreshBalances = useCallback(async () => {
+    const response = await fetch('/api/accounts/refresh', { method: 'POST' });
+    if (!response.ok) {
+      throw new Error(await readError(response, 'Failed to refresh balances'));
+    }
+    const data = await response.json();
+    setAccounts((data.accounts || []).map(parseAccountDates));
+  }, []);
+
+  return {
+    accounts,
+    isLoading,
+    error,
+    refreshBalances,
+    refetch: fetchAccounts,
+  };
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import type { Alert, AlertType, AlertChannel, AlertConfig, AlertNotification } from '@/types';
 import type { TrafficLightZone } from '@/constants/traffic-light';
+import { useDataMode } from '@/hooks/use-data-mode';
 
 const ALERTS_STORAGE_KEY = 'spendsignal_alerts';
 const NOTIFICATIONS_STORAGE_KEY = 'spendsignal_notifications';
@@ -11,13 +12,87 @@ function generateId(): string {
   return `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Convert date strings (from JSON) back to Date objects
+function parseAlertDates(a: Alert): Alert {
+  return {
+    ...a,
+    lastTriggeredAt: a.lastTriggeredAt ? new Date(a.lastTriggeredAt) : null,
+    createdAt: new Date(a.createdAt),
+    updatedAt: new Date(a.updatedAt),
+  };
+}
+
+function parseNotificationDates(n: AlertNotification): AlertNotification {
+  return {
+    ...n,
+    readAt: n.readAt ? new Date(n.readAt) : null,
+    createdAt: new Date(n.createdAt),
+  };
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+type AlertInput = {
+  type: AlertType;
+  name: string;
+  config: AlertConfig;
+  channels?: AlertChannel[];
+};
+
 export function useAlerts(userId: string) {
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [notifications, setNotifications] = useState<AlertNotification[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { mode } = useDataMode();
+  const isRealMode = mode === 'real';
 
-  // Load from localStorage
+  // Load from the API (real mode - these are the alerts the server evaluates)
   useEffect(() => {
+    if (!isRealMode) return;
+    let cancelled = false;
+
+    async function loadAlerts() {
+      try {
+        const [alertsResponse, notificationsResponse] = await Promise.all([
+          fetch('/api/alerts'),
+          fetch('/api/alerts/notifications'),
+        ]);
+        if (!alertsResponse.ok || !notificationsResponse.ok) {
+          throw new Error(alertsResponse.status === 401 ? 'Please log in to view alerts' : 'Failed to fetch alerts');
+        }
+        const [alertsData, notificationsData] = await Promise.all([
+          alertsResponse.json(),
+          notificationsResponse.json(),
+        ]);
+        if (!cancelled) {
+          setAlerts((alertsData.alerts || []).map(parseAlertDates));
+          setNotifications((notificationsData.notifications || []).map(parseNotificationDates));
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Error fetching alerts:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load alerts');
+      }
+      if (!cancelled) setIsLoading(false);
+    }
+
+    loadAlerts();
+    return () => {
+      cancelled = true;
+    };
+  }, [isRealMode]);
+
+  // Load from localStorage (demo mode)
+  useEffect(() => {
+    if (isRealMode) return;
     const alertsKey = `${ALERTS_STORAGE_KEY}_${userId}`;
     const notificationsKey = `${NOTIFICATIONS_STORAGE_KEY}_${userId}`;
 
@@ -25,12 +100,7 @@ export function useAlerts(userId: string) {
       const storedAlerts = localStorage.getItem(alertsKey);
       if (storedAlerts) {
         const parsed = JSON.parse(storedAlerts);
-        setAlerts(parsed.map((a: Alert) => ({
-          ...a,
-          lastTriggeredAt: a.lastTriggeredAt ? new Date(a.lastTriggeredAt) : null,
-          createdAt: new Date(a.createdAt),
-          updatedAt: new Date(a.updatedAt),
-        })));
+        setAlerts(parsed.map(parseAlertDates));
       } else {
         // Set up default alerts for new users
         const defaultAlerts = getDefaultAlerts(userId);
@@ -41,45 +111,58 @@ export function useAlerts(userId: string) {
       const storedNotifications = localStorage.getItem(notificationsKey);
       if (storedNotifications) {
         const parsed = JSON.parse(storedNotifications);
-        setNotifications(parsed.map((n: AlertNotification) => ({
-          ...n,
-          readAt: n.readAt ? new Date(n.readAt) : null,
-          createdAt: new Date(n.createdAt),
-        })));
+        setNotifications(parsed.map(parseNotificationDates));
       }
     } catch (error) {
       console.error('Error loading alerts:', error);
     }
     setIsLoading(false);
-  }, [userId]);
+  }, [userId, isRealMode]);
 
-  // Save alerts to localStorage
+  // Save alerts to localStorage (demo mode only - real mode persists through the API)
   const saveAlerts = useCallback((updatedAlerts: Alert[]) => {
+    if (isRealMode) return;
     const key = `${ALERTS_STORAGE_KEY}_${userId}`;
     try {
       localStorage.setItem(key, JSON.stringify(updatedAlerts));
     } catch (error) {
       console.error('Error saving alerts:', error);
     }
-  }, [userId]);
+  }, [userId, isRealMode]);
 
-  // Save notifications to localStorage
+  // Save notifications to localStorage (demo mode only)
   const saveNotifications = useCallback((updatedNotifications: AlertNotification[]) => {
+    if (isRealMode) return;
     const key = `${NOTIFICATIONS_STORAGE_KEY}_${userId}`;
     try {
       localStorage.setItem(key, JSON.stringify(updatedNotifications));
     } catch (error) {
       console.error('Error saving notifications:', error);
     }
-  }, [userId]);
-
-  // Create new alert
-  const createAlert = useCallback((alertData: {
-    type: AlertType;
-    name: string;
-    config: AlertConfig;
-    channels?: AlertChannel[];
-  }) => {
+  }, [userId, isRealMode]);
+
+  // Create new alert; returns its id, or null if the API refused it
+  const createAlert = useCallback(async (alertData: AlertInput): Promise<string | null> => {
+    if (isRealMode) {
+      try {
+        const response = await fetch('/api/alerts', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(alertData),
+        });
+        if (!response.ok) throw new Error(await readError(response, 'Failed to create alert'));
+        const data = await response.json();
+        const created = parseAlertDates(data.alert);
+        setAlerts((prev) => [...prev, created]);
+        setError(null);
+        return created.id;
+      } catch (err) {
+        console.error('Error creating alert:', err);
+        setError(err instanceof Error ? err.message : 'Failed to create alert');
+        return null;
+      }
+    }
+
     const now = new Date();
     const newAlert: Alert = {
       id: generateId(),
@@ -101,10 +184,32 @@ export function useAlerts(userId: string) {
     });
 
     return newAlert.id;
-  }, [userId, saveAlerts]);
+  }, [userId, isRealMode, saveAlerts]);
 
   // Update alert
-  const updateAlert = useCallback((id: string, updates: Partial<Omit<Alert, 'id' | 'userId' | 'createdAt'>>) => {
+  const updateAlert = useCallback(async (
+    id: string,
+    updates: Partial<Pick<Alert, 'name' | 'config' | 'channels' | 'isEnabled'>>
+  ) => {
+    if (isRealMode) {
+      try {
+        const response = await fetch(`/api/alerts/${id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        });
+        if (!response.ok) throw new Error(await readError(response, 'Failed to update alert'));
+        const data = await response.json();
+        const updated = parseAlertDates(data.alert);
+        setAlerts((prev) => prev.map((a) => (a.id === id ? updated : a)));
+        setError(null);
+      } catch (err) {
+        console.error('Error updating alert:', err);
+        setError(err instanceof Error ? err.message : 'Failed to update alert');
+      }
+      return;
+    }
+
     setAlerts((prev) => {
       const updated = prev.map((a) =>
         a.id === id ? { ...a, ...updates, updatedAt: new Date() } : a
@@ -112,29 +217,40 @@ export function useAlerts(userId: string) {
       saveAlerts(updated);
       return updated;
     });
-  }, [saveAlerts]);
+  }, [isRealMode, saveAlerts]);
 
   // Toggle alert enabled
-  const toggleAlert = useCallback((id: string) => {
-    setAlerts((prev) => {
-      const updated = prev.map((a) =>
-        a.id === id ? { ...a, isEnabled: !a.isEnabled, updatedAt: new Date() } : a
-      );
-      saveAlerts(updated);
-      return updated;
-    });
-  }, [saveAlerts]);
+  const toggleAlert = useCallback(async (id: string) => {
+    const current = alerts.find((a) => a.id === id);
+    if (!current) return;
+    await updateAlert(id, { isEnabled: !current.isEnabled });
+  }, [alerts, updateAlert]);
 
   // Delete alert
-  const deleteAlert = useCallback((id: string) => {
+  const deleteAlert = useCallback(async (id: string) => {
+    if (isRealMode) {
+      try {
+        const response = await fetch(`/api/alerts/${id}`, { method: 'DELETE' });
+        if (!response.ok) throw new Error(await readError(response, 'Failed to delete alert'));
+        setAlerts((prev) => prev.filter((a) => a.id !== id));
+        // Its notifications go with it
+        setNotifications((prev) => prev.filter((n) => n.alertId !== id));
+        setError(null);
+      } catch (err) {
+        console.error('Error deleting alert:', err);
+        setError(err instanceof Error ? err.message : 'Failed to delete alert');
+      }
+      return;
+    }
+
     setAlerts((prev) => {
       const updated = prev.filter((a) => a.id !== id);
       saveAlerts(updated);
       return updated;
     });
-  }, [saveAlerts]);
+  }, [isRealMode, saveAlerts]);
 
-  // Add notification
+  // Add notification (demo mode - real notifications are written by the server's evaluator)
   const addNotification = useCallback((alertId: string, title: string, message: string, data?: Record<string, unknown>) => {
     const notification: AlertNotification = {
       id: generateId(),
@@ -156,8 +272,24 @@ export function useAlerts(userId: string) {
     return notification.id;
   }, [saveNotifications]);
 
+  // Mark notifications read on the server; ids omitted marks them all
+  const markReadOnServer = useCallback(async (ids?: string[]) => {
+    try {
+      const response = await fetch('/api/alerts/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids }),
+      });
+      if (!response.ok) throw new Error(await readError(response, 'Failed to update notifications'));
+    } catch (err) {
+      console.error('Error marking notifications read:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update notifications');
+    }
+  }, []);
+
   // Mark notification as read
   const markAsRead = useCallback((id: string) => {
+    if (isRealMode) markReadOnServer([id]);
     setNotifications((prev) => {
       const updated = prev.map((n) =>
         n.id === id ? { ...n, isRead: true, readAt: new Date() } : n
@@ -165,23 +297,34 @@ export function useAlerts(userId: string) {
       saveNotifications(updated);
       return updated;
     });
-  }, [saveNotifications]);
+  }, [isRealMode, markReadOnServer, saveNotifications]);
 
   // Mark all as read
   const markAllAsRead = useCallback(() => {
+    if (isRealMode) markReadOnServer();
     const now = new Date();
     setNotifications((prev) => {
       const updated = prev.map((n) => ({ ...n, isRead: true, readAt: now }));
       saveNotifications(updated);
       return updated;
     });
-  }, [saveNotifications]);
+  }, [isRealMode, markReadOnServer, saveNotifications]);
 
   // Clear all notifications
-  const clearNotifications = useCallback(() => {
+  const clearNotifications = useCallback(async () => {
+    if (isRealMode) {
+      try {
+        const response = await fetch('/api/alerts/notifications', { method: 'DELETE' });
+        if (!response.ok) throw new Error(await readError(response, 'Failed to clear notifications'));
+      } catch (err) {
+        console.error('Error clearing notifications:', err);
+        setError(err instanceof Error ? err.message : 'Failed to clear notifications');
+        return;
+      }
+    }
     setNotifications([]);
     saveNotifications([]);
-  }, [saveNotifications]);
+  }, [isRealMode, saveNotifications]);
 
   // Count unread notifications
   const unreadCount = useMemo(() => notifications.filter((n) => !n.isRead).length, [notifications]);
@@ -193,6 +336,7 @@ export function useAlerts(userId: string) {
     alerts,
     notifications,
     isLoading,
+    error,
     unreadCount,
     enabledAlerts,
     createAlert,
@@ -0,0 +1,162 @@
+// Budgets Hook
+// Loads monthly envelopes from the API and keeps remaining-to-spend live as transactions are categorized
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { Budget, BudgetStatus } from '@/types';
+import {
+  getMonthStart,
+  addMonths,
+  sumBudgetSpending,
+  withSpending,
+  type BudgetTransaction,
+} from '@/lib/services/budget-calculator';
+import type { ZoneCategorization } from '@/lib/services/zone-allocation';
+
+// API responses carry dates as strings
+function parseBudgetDates(b: BudgetStatus): BudgetStatus {
+  return {
+    ...b,
+    startMonth: new Date(b.startMonth),
+    createdAt: new Date(b.createdAt),
+    updatedAt: new Date(b.updatedAt),
+  };
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+type BudgetInput = Pick<Budget, 'zone' | 'category' | 'amount' | 'rollover'>;
+
+interface UseBudgetsOptions {
+  // The dashboard's transactions and categorizations. When given, this month's
+  // spending is recomputed from them so it follows categorization without a refetch.
+  transactions?: BudgetTransaction[];
+  categorizations?: ZoneCategorization[];
+}
+
+interface UseBudgets {
+  budgets: BudgetStatus[];
+  isLoading: boolean;
+  error: string | null;
+  totals: { available: number; spent: number; remaining: number };
+  addBudget: (budget: BudgetInput) => Promise<boolean>;
+  updateBudget: (id: string, updates: Partial<Pick<Budget, 'amount' | 'rollover'>>) => Promise<void>;
+  removeBudget: (id: string) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+export function useBudgets(options: UseBudgetsOptions = {}): UseBudgets {
+  const { transactions, categorizations } = options;
+  const [saved, setSaved] = useState<BudgetStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBudgets = useCallback(async () => {
+    try {
+      const response = await fetch('/api/budgets');
+      if (!response.ok) {
+        throw new Error(response.status === 401 ? 'Please log in to view budgets' : 'Failed to fetch budgets');
+      }
+      const data = await response.json();
+      setSaved((data.budgets || []).map(parseBudgetDates));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching budgets:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load budgets');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBudgets();
+  }, [fetchBudgets]);
+
+  // Rollover comes from the server; this month's spending from the live transactions when we have them
+  const budgets = useMemo(() => {
+    if (!transactions) return saved;
+
+    const categorizationMap = new Map((categorizations ?? []).map((c) => [c.transactionId, c]));
+    const monthStart = getMonthStart();
+    const monthEnd = addMonths(monthStart, 1);
+
+    return saved.map((b) =>
+      withSpending(b, sumBudgetSpending(b, transactions, categorizationMap, monthStart, monthEnd))
+    );
+  }, [saved, transactions, categorizations]);
+
+  const totals = useMemo(() => {
+    const available = budgets.reduce((sum, b) => sum + b.available, 0);
+    const spent = budgets.reduce((sum, b) => sum + b.spent, 0);
+    return { available, spent, remaining: available - spent };
+  }, [budgets]);
+
+  // Add a budget; returns false (with the error set) if the API refused it
+  const addBudget = useCallback(async (budget: BudgetInput): Promise<boolean> => {
+    try {
+      const response = await fetch('/api/budgets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(budget),
+      });
+      if (!response.ok) throw new Error(await readError(response, 'Failed to create budget'));
+      const data = await response.json();
+      setSaved((prev) => [...prev, parseBudgetDates(data.budget)]);
+      setError(null);
+      return true;
+    } catch (err) {
+      console.error('Error creating budget:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create budget');
+      return false;
+    }
+  }, []);
+
+  const updateBudget = useCallback(async (id: string, updates: Partial<Pick<Budget, 'amount' | 'rollover'>>) => {
+    try {
+      const response = await fetch(`/api/budgets/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      if (!response.ok) throw new Error(await readError(response, 'Failed to update budget'));
+      const data = await response.json();
+      const updated = parseBudgetDates(data.budget);
+      setSaved((prev) => prev.map((b) => (b.id === id ? updated : b)));
+      setError(null);
+    } catch (err) {
+      console.error('Error updating budget:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update budget');
+    }
+  }, []);
+
+  const removeBudget = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/budgets/${id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error(await readError(response, 'Failed to delete budget'));
+      setSaved((prev) => prev.filter((b) => b.id !== id));
+      setError(null);
+    } catch (err) {
+      console.error('Error deleting budget:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete budget');
+    }
+  }, []);
+
+  return {
+    budgets,
+    isLoading,
+    error,
+    totals,
+    addBudget,
+    updateBudget,
+    removeBudget,
+    refetch: fetchBudgets,
+  };
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { LearnedMerchant } from '@/lib/services/auto-categorize';
+import type { CategorizationAccuracy, LearnedMerchantZone } from '@/types';
+
+interface UseLearnedMerchants {
+  merchants: LearnedMerchantZone[];
+  // Keyed by normalized merchant, ready for autoCategorize
+  learned: Map<string, LearnedMerchant>;
+  isLoading: boolean;
+  forget: (merchantKey: string) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+export function useLearnedMerchants(): UseLearnedMerchants {
+  const [merchants, setMerchants] = useState<LearnedMerchantZone[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchMerchants = useCallback(async () => {
+    try {
+      const response = await fetch('/api/categorizations/learned');
+      if (response.ok) {
+        const data = await response.json();
+        setMerchants(
+          (data.merchants || []).map((m: LearnedMerchantZone) => ({
+            ...m,
+            lastChosenAt: new Date(m.lastChosenAt),
+          }))
+        );
+      }
+    } catch (err) {
+      console.error('Error fetching learned merchants:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMerchants();
+  }, [fetchMerchants]);
+
+  const learned = useMemo(
+    () => new Map(merchants.map((m) => [m.merchantKey, { zone: m.zone, timesConfirmed: m.timesConfirmed }])),
+    [merchants]
+  );
+
+  const forget = useCallback(async (merchantKey: string) => {
+    const response = await fetch(
+      `/api/categorizations/learned?merchantKey=${encodeURIComponent(merchantKey)}`,
+      { method: 'DELETE' }
+    );
+    if (!response.ok) {
+      throw new Error('Failed to forget merchant');
+    }
+    setMerchants((prev) => prev.filter((m) => m.merchantKey !== merchantKey));
+  }, []);
+
+  return {
+    merchants,
+    learned,
+    isLoading,
+    forget,
+    refetch: fetchMerchants,
+  };
+}
+
+export function useCategorizationAccuracy() {
+  const [accuracy, setAccuracy] = useState<CategorizationAccuracy | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchAccuracy = useCallback(async () => {
+    try {
+      const response = await fetch('/api/categorizations/accuracy');
+      if (response.ok) {
+        const data = await response.json();
+        setAccuracy(data.accuracy);
+      }
+    } catch (err) {
+      console.error('Error fetching categorization accuracy:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAccuracy();
+  }, [fetchAccuracy]);
+
+  return { accuracy, isLoading, refetch: fetchAccuracy };
+}
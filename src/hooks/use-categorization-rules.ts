@@ -0,0 +1,145 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { CategorizationRule } from '@/types';
+
+// Fields the client may set when creating or editing a rule
+export type CategorizationRuleInput = Pick<
+  CategorizationRule,
+  | 'name'
+  | 'merchantContains'
+  | 'merchantRegex'
+  | 'minAmount'
+  | 'maxAmount'
+  | 'daysOfWeek'
+  | 'accountIds'
+  | 'zone'
+  | 'category'
+> & { isEnabled?: boolean };
+
+// Convert date strings (from JSON) back to Date objects
+function parseRuleDates(rule: CategorizationRule): CategorizationRule {
+  return {
+    ...rule,
+    createdAt: new Date(rule.createdAt),
+    updatedAt: new Date(rule.updatedAt),
+  };
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.details?.[0]?.message || data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+interface UseCategorizationRules {
+  rules: CategorizationRule[];
+  isLoading: boolean;
+  error: string | null;
+  createRule: (input: CategorizationRuleInput) => Promise<CategorizationRule>;
+  updateRule: (id: string, updates: Partial<CategorizationRuleInput>) => Promise<CategorizationRule>;
+  deleteRule: (id: string) => Promise<void>;
+  reorderRules: (ruleIds: string[]) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+export function useCategorizationRules(): UseCategorizationRules {
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/categorization-rules');
+      if (!response.ok) {
+        throw new Error(response.status === 401 ? 'Please log in to manage rules' : 'Failed to fetch rules');
+      }
+      const data = await response.json();
+      setRules((data.rules || []).map(parseRuleDates));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching categorization rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load rules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const createRule = useCallback(async (input: CategorizationRuleInput) => {
+    const response = await fetch('/api/categorization-rules', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, 'Failed to create rule'));
+    }
+    const data = await response.json();
+    const rule = parseRuleDates(data.rule);
+    setRules((prev) => [...prev, rule].sort((a, b) => a.priority - b.priority));
+    return rule;
+  }, []);
+
+  const updateRule = useCallback(async (id: string, updates: Partial<CategorizationRuleInput>) => {
+    const response = await fetch(`/api/categorization-rules/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, 'Failed to update rule'));
+    }
+    const data = await response.json();
+    const rule = parseRuleDates(data.rule);
+    setRules((prev) => prev.map((r) => (r.id === id ? rule : r)));
+    return rule;
+  }, []);
+
+  const deleteRule = useCallback(async (id: string) => {
+    const response = await fetch(`/api/categorization-rules/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(await readError(response, 'Failed to delete rule'));
+    }
+    setRules((prev) => prev.filter((r) => r.id !== id));
+  }, []);
+
+  const reorderRules = useCallback(async (ruleIds: string[]) => {
+    // Optimistically apply the new order, then take the server's priorities
+    setRules((prev) => ruleIds
+      .map((id, index) => {
+        const rule = prev.find((r) => r.id === id);
+        return rule ? { ...rule, priority: index } : null;
+      })
+      .filter((r): r is CategorizationRule => r !== null));
+
+    const response = await fetch('/api/categorization-rules/reorder', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ruleIds }),
+    });
+    if (!response.ok) {
+      await fetchRules();
+      throw new Error(await readError(response, 'Failed to reorder rules'));
+    }
+    const data = await response.json();
+    setRules((data.rules || []).map(parseRuleDates));
+  }, [fetchRules]);
+
+  return {
+    rules,
+    isLoading,
+    error,
+    createRule,
+    updateRule,
+    deleteRule,
+    reorderRules,
+    refetch: fetchRules,
+  };
+}
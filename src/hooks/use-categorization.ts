@@ -59,6 +59,7 @@ export function useCategorization(
         aiSuggestedZone: null,
         aiConfidence: null,
         aiReasoning: null,
+        aiSource: null,
         note: note ?? null,
         sortOrder: prev.length,
         userOverrodeAI: false,
@@ -213,6 +214,7 @@ export function useDemoCategorization(userId: string = 'demo-user') {
             aiSuggestedZone: null,
             aiConfidence: null,
             aiReasoning: null,
+            aiSource: null,
             note: note ?? null,
             sortOrder: prev.length,
             userOverrodeAI: false,
@@ -3,9 +3,12 @@
 
 'use client';
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import type {
+  ConsolidationOffer,
   Debt,
+  DebtPayment,
+  DebtPlanVsActual,
   DebtPayoffStrategy,
   DebtPayoffPlan,
   DebtComparison,
@@ -15,9 +18,14 @@ import {
   compareStrategies,
   calculateExtraPaymentImpact,
   debtToInput,
+  foldTransferFee,
+  getInterestRateAt,
+  getMinimumPayment,
   formatCurrency,
   formatPayoffDate,
 } from '@/lib/services/debt-calculator';
+import { calculatePlanVsActual, splitPayment } from '@/lib/services/debt-progress';
+import { useDataMode } from '@/hooks/use-data-mode';
 
 // Demo debts for testing
 const DEMO_DEBTS: Debt[] = [
@@ -68,7 +76,40 @@ const DEMO_DEBTS: Debt[] = [
   },
 ];
 
+// Convert date strings (from JSON) back to Date objects
+function parseDebtDates(d: Debt): Debt {
+  return {
+    ...d,
+    paidOffDate: d.paidOffDate ? new Date(d.paidOffDate) : null,
+    promoEndDate: d.promoEndDate ? new Date(d.promoEndDate) : null,
+    transferFeeAppliedAt: d.transferFeeAppliedAt ? new Date(d.transferFeeAppliedAt) : null,
+    syncedAt: d.syncedAt ? new Date(d.syncedAt) : null,
+    createdAt: new Date(d.createdAt),
+    updatedAt: new Date(d.updatedAt),
+  };
+}
+
+function parsePaymentDates(p: DebtPayment): DebtPayment {
+  return { ...p, date: new Date(p.date), createdAt: new Date(p.createdAt) };
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+interface DebtPaymentInput {
+  amount: number;
+  date?: Date;
+  note?: string | null;
+}
+
 interface UseDebtsOptions {
+  // Defaults to the app's data mode
   isDemoMode?: boolean;
 }
 
@@ -79,6 +120,7 @@ interface UseDebtsReturn {
   error: string | null;
   strategy: DebtPayoffStrategy;
   extraPayment: number;
+  consolidationOffer: ConsolidationOffer | null;
 
   // Calculated values
   payoffPlan: DebtPayoffPlan;
@@ -87,14 +129,26 @@ interface UseDebtsReturn {
   totalMinimumPayment: number;
   debtFreeDate: string;
 
+  // Payment ledger
+  payments: DebtPayment[];
+  planVsActual: Map<string, DebtPlanVsActual>;
+  recordPayment: (debtId: string, payment: DebtPaymentInput) => Promise<void>;
+  removePayment: (paymentId: string) => Promise<void>;
+
   // Actions
-  addDebt: (debt: Omit<Debt, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => void;
-  updateDebt: (id: string, updates: Partial<Debt>) => void;
-  removeDebt: (id: string) => void;
-  markPaidOff: (id: string) => void;
+  addDebt: (debt: Omit<Debt, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  updateDebt: (id: string, updates: Partial<Debt>) => Promise<void>;
+  removeDebt: (id: string) => Promise<void>;
+  markPaidOff: (id: string) => Promise<void>;
   setStrategy: (strategy: DebtPayoffStrategy) => void;
   setExtraPayment: (amount: number) => void;
-  reorderDebts: (debtId: string, newPriority: number) => void;
+  setConsolidationOffer: (offer: ConsolidationOffer | null) => void;
+  reorderDebts: (debtId: string, newPriority: number) => Promise<void>;
+
+  // Linked accounts (real mode)
+  linkDebt: (id: string, accountId: string | null) => Promise<void>;
+  importDebts: () => Promise<number>;
+  refetch: () => Promise<void>;
 
   // What-if scenarios
   calculateWhatIf: (newExtraPayment: number) => {
@@ -104,14 +158,69 @@ interface UseDebtsReturn {
 }
 
 export function useDebts(options: UseDebtsOptions = {}): UseDebtsReturn {
-  const { isDemoMode = true } = options;
+  const { mode } = useDataMode();
+  const { isDemoMode = mode === 'demo' } = options;
 
   // State
   const [debts, setDebts] = useState<Debt[]>(isDemoMode ? DEMO_DEBTS : []);
-  const [isLoading, setIsLoading] = useState(false);
+  const [payments, setPayments] = useState<DebtPayment[]>([]);
+  const [isLoading, setIsLoading] = useState(!isDemoMode);
   const [error, setError] = useState<string | null>(null);
   const [strategy, setStrategy] = useState<DebtPayoffStrategy>('AVALANCHE');
   const [extraPayment, setExtraPayment] = useState(200);
+  const [consolidationOffer, setConsolidationOffer] = useState<ConsolidationOffer | null>(null);
+
+  // Load debts and payments from the API (real mode); demo mode keeps the sample debts in memory
+  const fetchDebts = useCallback(async () => {
+    if (isDemoMode) {
+      setDebts(DEMO_DEBTS);
+      setPayments([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const [debtsResponse, paymentsResponse] = await Promise.all([
+        fetch('/api/debts'),
+        fetch('/api/debts/payments'),
+      ]);
+      if (!debtsResponse.ok) {
+        throw new Error(debtsResponse.status === 401 ? 'Please log in to view debts' : 'Failed to fetch debts');
+      }
+      const data = await debtsResponse.json();
+      const paymentData = paymentsResponse.ok ? await paymentsResponse.json() : { payments: [] };
+      setDebts((data.debts || []).map(parseDebtDates));
+      setPayments((paymentData.payments || []).map(parsePaymentDates));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching debts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load debts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isDemoMode]);
+
+  useEffect(() => {
+    fetchDebts();
+  }, [fetchDebts]);
+
+  // Send a change to the API and put the returned debt in place of the old one
+  const saveDebt = useCallback(async (id: string, request: RequestInit, fallback: string, url = `/api/debts/${id}`) => {
+    try {
+      const response = await fetch(url, {
+        ...request,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!response.ok) throw new Error(await readError(response, fallback));
+      const data = await response.json();
+      const saved = parseDebtDates(data.debt);
+      setDebts(prev => prev.map(d => (d.id === id ? saved : d)));
+      setError(null);
+    } catch (err) {
+      console.error('Error saving debt:', err);
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  }, []);
 
   // Filter to only active debts
   const activeDebts = useMemo(
@@ -133,8 +242,8 @@ export function useDebts(options: UseDebtsOptions = {}): UseDebtsReturn {
 
   // Compare strategies
   const comparison = useMemo(
-    () => compareStrategies(debtInputs, extraPayment),
-    [debtInputs, extraPayment]
+    () => compareStrategies(debtInputs, extraPayment, { current: strategy, consolidation: consolidationOffer }),
+    [debtInputs, extraPayment, strategy, consolidationOffer]
   );
 
   // Total debt
@@ -145,7 +254,7 @@ export function useDebts(options: UseDebtsOptions = {}): UseDebtsReturn {
 
   // Total minimum payment
   const totalMinimumPayment = useMemo(
-    () => activeDebts.reduce((sum, d) => sum + d.minimumPayment, 0),
+    () => activeDebts.reduce((sum, d) => sum + getMinimumPayment(d, d.balance), 0),
     [activeDebts]
   );
 
@@ -155,65 +264,285 @@ export function useDebts(options: UseDebtsOptions = {}): UseDebtsReturn {
     [payoffPlan.debtFreeDate]
   );
 
+  // Recorded payments against the plan, for each debt that has any
+  const planVsActual = useMemo(() => {
+    const result = new Map<string, DebtPlanVsActual>();
+    for (const debt of debts) {
+      const debtPayments = payments.filter(p => p.debtId === debt.id);
+      const schedule = payoffPlan.debts.find(s => s.debtId === debt.id);
+      const plannedPayment = schedule?.monthlyPayments[0]?.payment ?? debt.minimumPayment;
+      const progress = calculatePlanVsActual(debt, debtPayments, plannedPayment);
+      if (progress) result.set(debt.id, progress);
+    }
+    return result;
+  }, [debts, payments, payoffPlan]);
+
+  // Record a payment; the debt comes back with its new balance (and paid-off state)
+  const recordPayment = useCallback(async (debtId: string, input: DebtPaymentInput) => {
+    if (!isDemoMode) {
+      try {
+        const response = await fetch(`/api/debts/${debtId}/payments`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        });
+        if (!response.ok) throw new Error(await readError(response, 'Failed to record payment'));
+        const data = await response.json();
+        const saved = parseDebtDates(data.debt);
+        setPayments(prev => [parsePaymentDates(data.payment), ...prev]);
+        setDebts(prev => prev.map(d => (d.id === debtId ? saved : d)));
+        setError(null);
+      } catch (err) {
+        console.error('Error recording payment:', err);
+        setError(err instanceof Error ? err.message : 'Failed to record payment');
+      }
+      return;
+    }
+
+    const debt = debts.find(d => d.id === debtId);
+    if (!debt) return;
+
+    const date = input.date ?? new Date();
+    const firstThisMonth = !payments.some(p =>
+      p.debtId === debtId &&
+      p.date.getFullYear() === date.getFullYear() &&
+      p.date.getMonth() === date.getMonth()
+    );
+    const { principal, interest } = splitPayment(
+      debt.balance,
+      getInterestRateAt(debt, date),
+      input.amount,
+      firstThisMonth
+    );
+    const balanceAfter = Math.max(0, Math.round((debt.balance - principal) * 100) / 100);
+
+    setPayments(prev => [{
+      id: `payment-${Date.now()}`,
+      debtId,
+      transactionId: null,
+      amount: input.amount,
+      principal,
+      interest,
+      balanceAfter,
+      date,
+      source: 'MANUAL',
+      note: input.note ?? null,
+      createdAt: new Date(),
+    }, ...prev]);
+    setDebts(prev => prev.map(d =>
+      d.id === debtId
+        ? {
+            ...d,
+            balance: balanceAfter,
+            ...(balanceAfter === 0 && !d.isPaidOff ? { isPaidOff: true, paidOffDate: date } : {}),
+            updatedAt: new Date(),
+          }
+        : d
+    ));
+  }, [isDemoMode, debts, payments]);
+
+  // Delete a payment; its principal goes back on the debt
+  const removePayment = useCallback(async (paymentId: string) => {
+    const payment = payments.find(p => p.id === paymentId);
+    if (!payment) return;
+
+    if (!isDemoMode) {
+      try {
+        const response = await fetch(`/api/debts/payments/${paymentId}`, { method: 'DELETE' });
+        if (!response.ok) throw new Error(await readError(response, 'Failed to delete payment'));
+        const data = await response.json();
+        const saved = parseDebtDates(data.debt);
+        setPayments(prev => prev.filter(p => p.id !== paymentId));
+        setDebts(prev => prev.map(d => (d.id === saved.id ? saved : d)));
+        setError(null);
+      } catch (err) {
+        console.error('Error deleting payment:', err);
+        setError(err instanceof Error ? err.message : 'Failed to delete payment');
+      }
+      return;
+    }
+
+    setPayments(prev => prev.filter(p => p.id !== paymentId));
+    setDebts(prev => prev.map(d => {
+      if (d.id !== payment.debtId) return d;
+      const balance = Math.round((d.balance + payment.principal) * 100) / 100;
+      return {
+        ...d,
+        balance,
+        ...(d.isPaidOff && balance > 0 ? { isPaidOff: false, paidOffDate: null } : {}),
+        updatedAt: new Date(),
+      };
+    }));
+  }, [isDemoMode, payments]);
+
   // Add debt
-  const addDebt = useCallback((debt: Omit<Debt, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => {
+  const addDebt = useCallback(async (debt: Omit<Debt, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => {
+    if (!isDemoMode) {
+      try {
+        const response = await fetch('/api/debts', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: debt.name,
+            balance: debt.balance,
+            interestRate: debt.interestRate,
+            minimumPayment: debt.minimumPayment,
+            dueDate: debt.dueDate,
+            originalBalance: debt.originalBalance,
+            promoRate: debt.promoRate,
+            promoEndDate: debt.promoEndDate,
+            transferFee: debt.transferFee,
+            minimumPaymentPercent: debt.minimumPaymentPercent,
+          }),
+        });
+        if (!response.ok) throw new Error(await readError(response, 'Failed to add debt'));
+        const data = await response.json();
+        setDebts(prev => [...prev, parseDebtDates(data.debt)]);
+        setError(null);
+      } catch (err) {
+        console.error('Error adding debt:', err);
+        setError(err instanceof Error ? err.message : 'Failed to add debt');
+      }
+      return;
+    }
+
+    const fee = foldTransferFee({ balance: debt.balance }, { transferFee: debt.transferFee });
     const newDebt: Debt = {
       ...debt,
+      ...fee,
+      originalBalance: debt.originalBalance ?? fee.balance ?? debt.balance,
       id: `debt-${Date.now()}`,
       userId: 'demo-user',
       createdAt: new Date(),
       updatedAt: new Date(),
     };
     setDebts(prev => [...prev, newDebt]);
-  }, []);
+  }, [isDemoMode]);
 
   // Update debt
-  const updateDebt = useCallback((id: string, updates: Partial<Debt>) => {
+  const updateDebt = useCallback(async (id: string, updates: Partial<Debt>) => {
+    if (!isDemoMode) {
+      await saveDebt(id, { method: 'PATCH', body: JSON.stringify(updates) }, 'Failed to update debt');
+      return;
+    }
+
     setDebts(prev => prev.map(d =>
       d.id === id
-        ? { ...d, ...updates, updatedAt: new Date() }
+        ? { ...d, ...updates, ...foldTransferFee(d, updates), updatedAt: new Date() }
         : d
     ));
-  }, []);
+  }, [isDemoMode, saveDebt]);
 
   // Remove debt
-  const removeDebt = useCallback((id: string) => {
+  const removeDebt = useCallback(async (id: string) => {
+    if (!isDemoMode) {
+      try {
+        const response = await fetch(`/api/debts/${id}`, { method: 'DELETE' });
+        if (!response.ok) throw new Error(await readError(response, 'Failed to delete debt'));
+        setError(null);
+      } catch (err) {
+        console.error('Error deleting debt:', err);
+        setError(err instanceof Error ? err.message : 'Failed to delete debt');
+        return;
+      }
+    }
+
     setDebts(prev => prev.filter(d => d.id !== id));
-  }, []);
+  }, [isDemoMode]);
 
   // Mark debt as paid off
-  const markPaidOff = useCallback((id: string) => {
+  const markPaidOff = useCallback(async (id: string) => {
+    if (!isDemoMode) {
+      await saveDebt(id, { method: 'PATCH', body: JSON.stringify({ isPaidOff: true }) }, 'Failed to update debt');
+      return;
+    }
+
     setDebts(prev => prev.map(d =>
       d.id === id
         ? { ...d, isPaidOff: true, paidOffDate: new Date(), balance: 0, updatedAt: new Date() }
         : d
     ));
-  }, []);
+  }, [isDemoMode, saveDebt]);
 
   // Reorder debts (for custom strategy) - swap positions
-  const reorderDebts = useCallback((debtId: string, newIndex: number) => {
-    setDebts(prev => {
-      const activeDebts = prev.filter(d => !d.isPaidOff);
-      const paidOffDebts = prev.filter(d => d.isPaidOff);
+  const reorderDebts = useCallback(async (debtId: string, newIndex: number) => {
+    const activeDebts = debts.filter(d => !d.isPaidOff);
+    const paidOffDebts = debts.filter(d => d.isPaidOff);
 
-      const currentIndex = activeDebts.findIndex(d => d.id === debtId);
-      if (currentIndex === -1 || newIndex < 0 || newIndex >= activeDebts.length) return prev;
+    const currentIndex = activeDebts.findIndex(d => d.id === debtId);
+    if (currentIndex === -1 || newIndex < 0 || newIndex >= activeDebts.length) return;
 
-      // Swap the two debts
-      const reordered = [...activeDebts];
-      const [removed] = reordered.splice(currentIndex, 1);
-      reordered.splice(newIndex, 0, removed);
+    // Swap the two debts
+    const reordered = [...activeDebts];
+    const [removed] = reordered.splice(currentIndex, 1);
+    reordered.splice(newIndex, 0, removed);
 
-      // Update priorities based on new order
-      const withPriorities = reordered.map((d, i) => ({
-        ...d,
-        priority: i,
-        updatedAt: new Date(),
-      }));
+    // Update priorities based on new order
+    const withPriorities = reordered.map((d, i) => ({
+      ...d,
+      priority: i,
+      updatedAt: new Date(),
+    }));
 
-      return [...withPriorities, ...paidOffDebts];
-    });
-  }, []);
+    setDebts([...withPriorities, ...paidOffDebts]);
+
+    if (!isDemoMode) {
+      // Only debts whose position actually moved need saving
+      const moved = withPriorities.filter(d => d.priority !== debts.find(p => p.id === d.id)?.priority);
+      try {
+        const responses = await Promise.all(moved.map(d =>
+          fetch(`/api/debts/${d.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ priority: d.priority }),
+          })
+        ));
+        if (responses.some(r => !r.ok)) throw new Error('Failed to save debt order');
+      } catch (err) {
+        console.error('Error reordering debts:', err);
+        setError(err instanceof Error ? err.message : 'Failed to save debt order');
+      }
+    }
+  }, [debts, isDemoMode]);
+
+  // Link a debt to the credit card or loan account it syncs from (null unlinks it)
+  const linkDebt = useCallback(async (id: string, accountId: string | null) => {
+    if (!isDemoMode) {
+      await saveDebt(
+        id,
+        accountId
+          ? { method: 'POST', body: JSON.stringify({ accountId }) }
+          : { method: 'DELETE' },
+        'Failed to link debt',
+        `/api/debts/${id}/link`
+      );
+      // Linking can absorb a debt that was imported for the same account
+      await fetchDebts();
+      return;
+    }
+
+    setDebts(prev => prev.map(d =>
+      d.id === id ? { ...d, accountId, updatedAt: new Date() } : d
+    ));
+  }, [isDemoMode, saveDebt, fetchDebts]);
+
+  // Pull credit cards and student loans from linked banks. Returns how many were written.
+  const importDebts = useCallback(async () => {
+    if (isDemoMode) return 0;
+
+    try {
+      const response = await fetch('/api/debts/import', { method: 'POST' });
+      if (!response.ok) throw new Error(await readError(response, 'Failed to import debts'));
+      const data = await response.json();
+      setDebts((data.debts || []).map(parseDebtDates));
+      setError(data.failed?.length ? 'Some banks could not be reached. Try again later.' : null);
+      return data.imported ?? 0;
+    } catch (err) {
+      console.error('Error importing debts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import debts');
+      return 0;
+    }
+  }, [isDemoMode]);
 
   // What-if calculation
   const calculateWhatIf = useCallback((newExtraPayment: number) => {
@@ -236,6 +565,7 @@ export function useDebts(options: UseDebtsOptions = {}): UseDebtsReturn {
     error,
     strategy,
     extraPayment,
+    consolidationOffer,
 
     // Calculated values
     payoffPlan,
@@ -244,6 +574,12 @@ export function useDebts(options: UseDebtsOptions = {}): UseDebtsReturn {
     totalMinimumPayment,
     debtFreeDate,
 
+    // Payment ledger
+    payments,
+    planVsActual,
+    recordPayment,
+    removePayment,
+
     // Actions
     addDebt,
     updateDebt,
@@ -251,7 +587,11 @@ export function useDebts(options: UseDebtsOptions = {}): UseDebtsReturn {
     markPaidOff,
     setStrategy,
     setExtraPayment,
+    setConsolidationOffer,
     reorderDebts,
+    linkDebt,
+    importDebts,
+    refetch: fetchDebts,
 
     // What-if
     calculateWhatIf,
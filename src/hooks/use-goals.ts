@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import type { Goal, GoalType, GoalStatus, GoalTargetConfig } from '@/types';
-import type { TrafficLightZone } from '@/constants/traffic-light';
+import type { BudgetStatus, Goal, GoalType, GoalStatus, GoalTargetConfig, TransactionKind } from '@/types';
+import { useDataMode } from '@/hooks/use-data-mode';
+import { sumZoneTotals, type ZoneCategorization } from '@/lib/services/zone-allocation';
 
 const GOALS_STORAGE_KEY = 'spendsignal_goals';
 
@@ -10,84 +11,111 @@ function generateId(): string {
   return `goal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Convert date strings (from JSON) back to Date objects
+function parseGoalDates(g: Goal): Goal {
+  return {
+    ...g,
+    startDate: new Date(g.startDate),
+    endDate: g.endDate ? new Date(g.endDate) : null,
+    createdAt: new Date(g.createdAt),
+    updatedAt: new Date(g.updatedAt),
+  };
+}
+
 interface UseGoalsOptions {
   transactions?: Array<{
     id: string;
     amount: number;
     date: Date;
+    kind?: TransactionKind | null;
   }>;
-  categorizations?: Array<{
-    transactionId: string;
-    zone: TrafficLightZone;
-  }>;
+  categorizations?: ZoneCategorization[];
+  // SPENDING_LIMIT goals that follow a budget read its spending and available amount
+  budgets?: BudgetStatus[];
 }
 
 export function useGoals(userId: string, options: UseGoalsOptions = {}) {
   const [goals, setGoals] = useState<Goal[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { mode } = useDataMode();
+  const isRealMode = mode === 'real';
 
-  const { transactions = [], categorizations = [] } = options;
+  const { transactions = [], categorizations = [], budgets = [] } = options;
 
-  // Load goals from localStorage
+  // Load goals from the API (real mode) or localStorage (demo mode)
   useEffect(() => {
-    const storageKey = `${GOALS_STORAGE_KEY}_${userId}`;
-    try {
-      const stored = localStorage.getItem(storageKey);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        // Convert date strings back to Date objects
-        const goalsWithDates = parsed.map((g: Goal) => ({
-          ...g,
-          startDate: new Date(g.startDate),
-          endDate: g.endDate ? new Date(g.endDate) : null,
-          createdAt: new Date(g.createdAt),
-          updatedAt: new Date(g.updatedAt),
-        }));
-        setGoals(goalsWithDates);
+    let cancelled = false;
+
+    async function loadGoals() {
+      if (isRealMode) {
+        try {
+          const response = await fetch('/api/goals');
+          if (!response.ok) {
+            throw new Error(response.status === 401 ? 'Please log in to view goals' : 'Failed to fetch goals');
+          }
+          const data = await response.json();
+          if (!cancelled) {
+            setGoals((data.goals || []).map(parseGoalDates));
+            setError(null);
+          }
+        } catch (err) {
+          console.error('Error fetching goals:', err);
+          if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load goals');
+        }
+      } else {
+        const storageKey = `${GOALS_STORAGE_KEY}_${userId}`;
+        try {
+          const stored = localStorage.getItem(storageKey);
+          if (stored) {
+            const parsed = JSON.parse(stored);
+            // Convert date strings back to Date objects
+            setGoals(parsed.map(parseGoalDates));
+          }
+        } catch (err) {
+          console.error('Error loading goals:', err);
+        }
       }
-    } catch (error) {
-      console.error('Error loading goals:', error);
+      if (!cancelled) setIsLoading(false);
     }
-    setIsLoading(false);
-  }, [userId]);
 
-  // Save to localStorage
+    loadGoals();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isRealMode]);
+
+  // Save to localStorage (demo mode only - real mode persists through the API)
   const saveGoals = useCallback((updatedGoals: Goal[]) => {
+    if (isRealMode) return;
     const storageKey = `${GOALS_STORAGE_KEY}_${userId}`;
     try {
       localStorage.setItem(storageKey, JSON.stringify(updatedGoals));
     } catch (error) {
       console.error('Error saving goals:', error);
     }
-  }, [userId]);
+  }, [userId, isRealMode]);
 
   // Create categorization map for calculations
-  const categorizationMap = useMemo(() => {
-    const map = new Map<string, TrafficLightZone>();
-    categorizations.forEach((c) => map.set(c.transactionId, c.zone));
-    return map;
-  }, [categorizations]);
-
-  // Calculate zone totals
-  const zoneTotals = useMemo(() => {
-    const totals = {
-      GREEN: 0,
-      YELLOW: 0,
-      RED: 0,
-      total: 0,
-    };
-
-    transactions.forEach((t) => {
-      const zone = categorizationMap.get(t.id);
-      const amount = Math.abs(Number(t.amount));
-      if (zone && zone !== 'UNCATEGORIZED') {
-        totals[zone] += amount;
-        totals.total += amount;
-      }
-    });
-
-    return totals;
-  }, [transactions, categorizationMap]);
+  const categorizationMap = useMemo(
+    () => new Map(categorizations.map((c) => [c.transactionId, c])),
+    [categorizations]
+  );
+
+  // Calculate zone totals - split parts count in their own zones, refunds net out,
+  // income and transfers are left out
+  const zoneTotals = useMemo(
+    () => sumZoneTotals(transactions, categorizationMap),
+    [transactions, categorizationMap]
+  );
+
+  const budgetMap = useMemo(() => new Map(budgets.map((b) => [b.id, b])), [budgets]);
+
+  // The budget a SPENDING_LIMIT goal follows, if it still exists
+  const getGoalBudget = useCallback((goal: Goal): BudgetStatus | undefined => {
+    if (goal.type !== 'SPENDING_LIMIT' || !goal.targetConfig.budgetId) return undefined;
+    return budgetMap.get(goal.targetConfig.budgetId);
+  }, [budgetMap]);
 
   // Calculate current value for a goal
   const calculateCurrentValue = useCallback((goal: Goal): number => {
@@ -95,6 +123,11 @@ export function useGoals(userId: string, options: UseGoalsOptions = {}) {
 
     switch (goal.type) {
       case 'SPENDING_LIMIT': {
+        // This month's spending against the budget it follows
+        const budget = getGoalBudget(goal);
+        if (budget) return budget.spent;
+
+
         // Total spending in a zone for the period
         const zone = config.zone;
         if (zone && zone !== 'UNCATEGORIZED') {
@@ -131,7 +164,7 @@ export function useGoals(userId: string, options: UseGoalsOptions = {}) {
       default:
         return 0;
     }
-  }, [zoneTotals, categorizations]);
+  }, [zoneTotals, categorizations, getGoalBudget]);
 
   // Calculate progress percentage for a goal
   const calculateProgress = useCallback((goal: Goal): number => {
@@ -140,8 +173,9 @@ export function useGoals(userId: string, options: UseGoalsOptions = {}) {
     switch (goal.type) {
       case 'SPENDING_LIMIT': {
         // Progress is inverse - lower spending = more progress
-        if (goal.targetValue === 0) return 100;
-        const ratio = currentValue / goal.targetValue;
+        const limit = getGoalBudget(goal)?.available ?? goal.targetValue;
+        if (limit === 0) return 100;
+        const ratio = currentValue / limit;
         // If under limit, show as % complete. If over, cap at 0
         return Math.max(0, Math.min(100, (1 - ratio) * 100 + 100));
       }
@@ -169,17 +203,36 @@ export function useGoals(userId: string, options: UseGoalsOptions = {}) {
       default:
         return 0;
     }
-  }, [calculateCurrentValue]);
+  }, [calculateCurrentValue, getGoalBudget]);
 
   // Add a new goal
-  const addGoal = useCallback((goalData: {
+  const addGoal = useCallback(async (goalData: {
     type: GoalType;
     name: string;
     description?: string;
     targetConfig: GoalTargetConfig;
     targetValue: number;
     endDate?: Date;
-  }) => {
+  }): Promise<string | null> => {
+    if (isRealMode) {
+      try {
+        const response = await fetch('/api/goals', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(goalData),
+        });
+        if (!response.ok) throw new Error('Failed to create goal');
+        const data = await response.json();
+        const created = parseGoalDates(data.goal);
+        setGoals((prev) => [...prev, created]);
+        return created.id;
+      } catch (err) {
+        console.error('Error creating goal:', err);
+        setError(err instanceof Error ? err.message : 'Failed to create goal');
+        return null;
+      }
+    }
+
     const now = new Date();
     const newGoal: Goal = {
       id: generateId(),
@@ -204,10 +257,28 @@ export function useGoals(userId: string, options: UseGoalsOptions = {}) {
     });
 
     return newGoal.id;
-  }, [userId, saveGoals]);
+  }, [userId, isRealMode, saveGoals]);
 
   // Update a goal
-  const updateGoal = useCallback((id: string, updates: Partial<Omit<Goal, 'id' | 'userId' | 'createdAt'>>) => {
+  const updateGoal = useCallback(async (id: string, updates: Partial<Omit<Goal, 'id' | 'userId' | 'createdAt'>>) => {
+    if (isRealMode) {
+      try {
+        const response = await fetch(`/api/goals/${id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        });
+        if (!response.ok) throw new Error('Failed to update goal');
+        const data = await response.json();
+        const updated = parseGoalDates(data.goal);
+        setGoals((prev) => prev.map((g) => (g.id === id ? updated : g)));
+      } catch (err) {
+        console.error('Error updating goal:', err);
+        setError(err instanceof Error ? err.message : 'Failed to update goal');
+      }
+      return;
+    }
+
     setGoals((prev) => {
       const updated = prev.map((g) =>
         g.id === id ? { ...g, ...updates, updatedAt: new Date() } : g
@@ -215,30 +286,66 @@ export function useGoals(userId: string, options: UseGoalsOptions = {}) {
       saveGoals(updated);
       return updated;
     });
-  }, [saveGoals]);
+  }, [isRealMode, saveGoals]);
 
   // Delete a goal
-  const deleteGoal = useCallback((id: string) => {
+  const deleteGoal = useCallback(async (id: string) => {
+    if (isRealMode) {
+      try {
+        const response = await fetch(`/api/goals/${id}`, { method: 'DELETE' });
+        if (!response.ok) throw new Error('Failed to delete goal');
+        setGoals((prev) => prev.filter((g) => g.id !== id));
+      } catch (err) {
+        console.error('Error deleting goal:', err);
+        setError(err instanceof Error ? err.message : 'Failed to delete goal');
+      }
+      return;
+    }
+
     setGoals((prev) => {
       const updated = prev.filter((g) => g.id !== id);
       saveGoals(updated);
       return updated;
     });
-  }, [saveGoals]);
+  }, [isRealMode, saveGoals]);
+
+  // Update goal status - pausing an active goal and resuming a paused one go through
+  // the dedicated pause endpoint; every other change is a normal update
+  const updateStatus = useCallback(async (id: string, status: GoalStatus) => {
+    const current = goals.find((g) => g.id === id);
+    const isPauseToggle =
+      (current?.status === 'ACTIVE' && status === 'PAUSED') ||
+      (current?.status === 'PAUSED' && status === 'ACTIVE');
+
+    if (isRealMode && isPauseToggle) {
+      try {
+        const response = await fetch(`/api/goals/${id}/pause`, {
+          method: status === 'PAUSED' ? 'POST' : 'DELETE',
+        });
+        if (!response.ok) throw new Error('Failed to update goal status');
+        const data = await response.json();
+        const updated = parseGoalDates(data.goal);
+        setGoals((prev) => prev.map((g) => (g.id === id ? updated : g)));
+      } catch (err) {
+        console.error('Error updating goal status:', err);
+        setError(err instanceof Error ? err.message : 'Failed to update goal status');
+      }
+      return;
+    }
 
-  // Update goal status
-  const updateStatus = useCallback((id: string, status: GoalStatus) => {
-    updateGoal(id, { status });
-  }, [updateGoal]);
+    await updateGoal(id, { status });
+  }, [goals, isRealMode, updateGoal]);
 
   // Get goals with calculated progress
   const goalsWithProgress = useMemo(() => {
     return goals.map((goal) => ({
       ...goal,
+      // A budget's limit moves with rollover, so show what it allows this month
+      targetValue: getGoalBudget(goal)?.available ?? goal.targetValue,
       currentValue: calculateCurrentValue(goal),
       progress: calculateProgress(goal),
     }));
-  }, [goals, calculateCurrentValue, calculateProgress]);
+  }, [goals, calculateCurrentValue, calculateProgress, getGoalBudget]);
 
   // Filter goals by status
   const activeGoals = useMemo(() => goalsWithProgress.filter((g) => g.status === 'ACTIVE'), [goalsWithProgress]);
@@ -249,6 +356,7 @@ export function useGoals(userId: string, options: UseGoalsOptions = {}) {
     activeGoals,
     completedGoals,
     isLoading,
+    error,
     addGoal,
     updateGoal,
     deleteGoal,
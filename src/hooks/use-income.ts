@@ -1,7 +1,14 @@
 'use client';
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import type { IncomeSource, IncomeSettings, IncomeFrequency, IncomeCalculations } from '@/types';
+import { useDataMode } from '@/hooks/use-data-mode';
+import type {
+  IncomeSource,
+  IncomeSettings,
+  IncomeFrequency,
+  IncomeCalculations,
+  DetectedIncomeSource,
+} from '@/types';
 
 const INCOME_STORAGE_KEY = 'spendsignal_income';
 
@@ -32,6 +39,7 @@ export function useIncome(userId: string) {
     updatedAt: new Date(),
   });
   const [isLoading, setIsLoading] = useState(true);
+  const { mode } = useDataMode();
 
   // Load from localStorage
   useEffect(() => {
@@ -61,6 +69,55 @@ export function useIncome(userId: string) {
     }
   }, [userId]);
 
+  // Add payroll deposits found in real transactions as income sources.
+  // Sources the user already has (or removed) are left alone so manual edits stick.
+  useEffect(() => {
+    if (isLoading || mode !== 'real') return;
+
+    let cancelled = false;
+    const detect = async () => {
+      try {
+        const response = await fetch('/api/income/detected');
+        if (!response.ok || cancelled) return;
+        const data = await response.json();
+        const detected: DetectedIncomeSource[] = data.sources || [];
+
+        setIncomeSettings((prev) => {
+          const known = new Set([
+            ...prev.sources.map((s) => s.detectedKey).filter(Boolean),
+            ...(prev.dismissedDetectedKeys ?? []),
+          ]);
+          const added: IncomeSource[] = detected
+            .filter((d) => !known.has(d.key))
+            .map((d) => ({
+              id: generateId(),
+              name: d.name,
+              amount: d.amount,
+              frequency: d.frequency,
+              isActive: true,
+              detectedKey: d.key,
+            }));
+          if (added.length === 0) return prev;
+
+          const updated = {
+            ...prev,
+            sources: [...prev.sources, ...added],
+            updatedAt: new Date(),
+          };
+          saveSettings(updated);
+          return updated;
+        });
+      } catch (error) {
+        console.error('Error detecting income:', error);
+      }
+    };
+
+    detect();
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoading, mode, saveSettings]);
+
   // Add income source
   const addSource = useCallback((source: Omit<IncomeSource, 'id'>) => {
     const newSource: IncomeSource = {
@@ -70,6 +127,7 @@ export function useIncome(userId: string) {
 
     setIncomeSettings((prev) => {
       const updated = {
+        ...prev,
         sources: [...prev.sources, newSource],
         updatedAt: new Date(),
       };
@@ -84,6 +142,7 @@ export function useIncome(userId: string) {
   const updateSource = useCallback((id: string, updates: Partial<Omit<IncomeSource, 'id'>>) => {
     setIncomeSettings((prev) => {
       const updated = {
+        ...prev,
         sources: prev.sources.map((s) =>
           s.id === id ? { ...s, ...updates } : s
         ),
@@ -94,11 +153,16 @@ export function useIncome(userId: string) {
     });
   }, [saveSettings]);
 
-  // Remove income source
+  // Remove income source - a removed detected source stays dismissed
   const removeSource = useCallback((id: string) => {
     setIncomeSettings((prev) => {
+      const removed = prev.sources.find((s) => s.id === id);
       const updated = {
+        ...prev,
         sources: prev.sources.filter((s) => s.id !== id),
+        dismissedDetectedKeys: removed?.detectedKey
+          ? [...(prev.dismissedDetectedKeys ?? []), removed.detectedKey]
+          : prev.dismissedDetectedKeys,
         updatedAt: new Date(),
       };
       saveSettings(updated);
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { AssetType, ManualAsset, NetWorthSnapshot, NetWorthSummary } from '@/types';
+
+// Convert date strings (from JSON) back to Date objects
+function parseSnapshotDates(snapshot: NetWorthSnapshot): NetWorthSnapshot {
+  return { ...snapshot, date: new Date(snapshot.date) };
+}
+
+function parseAssetDates(asset: ManualAsset): ManualAsset {
+  return { ...asset, updatedAt: new Date(asset.updatedAt) };
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+interface ManualAssetInput {
+  name: string;
+  type?: AssetType;
+  value: number;
+}
+
+interface UseNetWorth extends NetWorthSummary {
+  isLoading: boolean;
+  error: string | null;
+  addAsset: (asset: ManualAssetInput) => Promise<void>;
+  updateAsset: (id: string, updates: Partial<ManualAssetInput>) => Promise<void>;
+  removeAsset: (id: string) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+const EMPTY_SUMMARY: NetWorthSummary = { current: null, history: [], monthOverMonth: null, assets: [] };
+
+export function useNetWorth(): UseNetWorth {
+  const [summary, setSummary] = useState<NetWorthSummary>(EMPTY_SUMMARY);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      const response = await fetch('/api/net-worth');
+      if (!response.ok) {
+        throw new Error(response.status === 401 ? 'Please log in to view net worth' : 'Failed to fetch net worth');
+      }
+      const data: NetWorthSummary = await response.json();
+      setSummary({
+        current: data.current ? parseSnapshotDates(data.current) : null,
+        history: (data.history || []).map(parseSnapshotDates),
+        monthOverMonth: data.monthOverMonth ?? null,
+        assets: (data.assets || []).map(parseAssetDates),
+      });
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching net worth:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load net worth');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  // Asset changes move today's snapshot, so the whole summary is reloaded after each one
+  const addAsset = useCallback(async (asset: ManualAssetInput) => {
+    const response = await fetch('/api/net-worth/assets', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(asset),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, 'Failed to add asset'));
+    }
+    await fetchSummary();
+  }, [fetchSummary]);
+
+  const updateAsset = useCallback(async (id: string, updates: Partial<ManualAssetInput>) => {
+    const response = await fetch(`/api/net-worth/assets/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, 'Failed to update asset'));
+    }
+    await fetchSummary();
+  }, [fetchSummary]);
+
+  const removeAsset = useCallback(async (id: string) => {
+    const response = await fetch(`/api/net-worth/assets/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(await readError(response, 'Failed to delete asset'));
+    }
+    await fetchSummary();
+  }, [fetchSummary]);
+
+  return {
+    ...summary,
+    isLoading,
+    error,
+    addAsset,
+    updateAsset,
+    removeAsset,
+    refetch: fetchSummary,
+  };
+}
@@ -0,0 +1,66 @@
+// Recurring Charges Hook
+// Loads detected subscriptions and repeating bills with their monthly and yearly cost
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { RecurringCharge } from '@/types';
+
+// API responses carry dates as strings
+function parseChargeDates(c: RecurringCharge): RecurringCharge {
+  return {
+    ...c,
+    lastChargedAt: new Date(c.lastChargedAt),
+    nextChargeAt: new Date(c.nextChargeAt),
+  };
+}
+
+interface UseRecurringCharges {
+  charges: RecurringCharge[];
+  isLoading: boolean;
+  error: string | null;
+  // Stopped charges are left out - they're likely cancelled
+  totals: { monthly: number; annual: number; count: number };
+  refetch: () => Promise<void>;
+}
+
+export function useRecurringCharges(): UseRecurringCharges {
+  const [charges, setCharges] = useState<RecurringCharge[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCharges = useCallback(async () => {
+    try {
+      const response = await fetch('/api/recurring');
+      if (!response.ok) {
+        throw new Error(response.status === 401 ? 'Please log in to view subscriptions' : 'Failed to fetch subscriptions');
+      }
+      const data = await response.json();
+      setCharges((data.charges || []).map(parseChargeDates));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching recurring charges:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load subscriptions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCharges();
+  }, [fetchCharges]);
+
+  const totals = useMemo(() => {
+    const current = charges.filter((c) => c.status !== 'stopped');
+    const monthly = Math.round(current.reduce((sum, c) => sum + c.monthlyCost, 0) * 100) / 100;
+    return { monthly, annual: Math.round(monthly * 12 * 100) / 100, count: current.length };
+  }, [charges]);
+
+  return {
+    charges,
+    isLoading,
+    error,
+    totals,
+    refetch: fetchCharges,
+  };
+}
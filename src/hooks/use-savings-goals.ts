@@ -3,15 +3,17 @@
 
 'use client';
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import type {
   SavingsGoal,
   SavingsGoalType,
   SavingsProjection,
   SavingsContribution,
   SavingsGoalWithContributions,
+  SavingsMatch,
 } from '@/types';
 import {
+  analyzeContributionTrend,
   calculateSavingsProjection,
   calculateContributionImpact,
   calculateTotalSavings,
@@ -23,7 +25,9 @@ import {
   formatCurrency,
   formatTargetDate,
   getAmountToNextMilestone,
+  type ContributionTrend,
 } from '@/lib/services/savings-calculator';
+import { useDataMode } from '@/hooks/use-data-mode';
 
 // Demo savings goals for testing
 const DEMO_GOALS: SavingsGoalWithContributions[] = [
@@ -86,7 +90,36 @@ const DEMO_GOALS: SavingsGoalWithContributions[] = [
   },
 ];
 
+type SavingsGoalInput = Omit<SavingsGoal, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+// API responses carry dates as strings
+function parseGoalDates(g: SavingsGoalWithContributions): SavingsGoalWithContributions {
+  return {
+    ...g,
+    targetDate: g.targetDate ? new Date(g.targetDate) : null,
+    completedDate: g.completedDate ? new Date(g.completedDate) : null,
+    linkedAt: g.linkedAt ? new Date(g.linkedAt) : null,
+    createdAt: new Date(g.createdAt),
+    updatedAt: new Date(g.updatedAt),
+    contributions: (g.contributions || []).map(c => ({ ...c, date: new Date(c.date) })),
+  };
+}
+
+function parseMatchDates(m: SavingsMatch): SavingsMatch {
+  return { ...m, date: new Date(m.date), createdAt: new Date(m.createdAt) };
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 interface UseSavingsGoalsOptions {
+  // Defaults to the app's data mode
   isDemoMode?: boolean;
   monthlyIncome?: number;
 }
@@ -96,19 +129,31 @@ interface UseSavingsGoalsReturn {
   goals: SavingsGoalWithContributions[];
   isLoading: boolean;
   error: string | null;
+  // True when the API refused because the plan doesn't include savings goals
+  isLocked: boolean;
 
   // Calculated values
   projections: SavingsProjection[];
+  trends: Map<string, ContributionTrend>;
   totalSavings: number;
   totalMonthlyContributions: number;
   savingsRate: number;
 
+  // Transfers matched to more than one goal (or not clearly a transfer), waiting for review
+  matches: SavingsMatch[];
+  acceptMatch: (matchId: string, goalId: string) => Promise<void>;
+  dismissMatch: (matchId: string) => Promise<void>;
+  // Re-run matching against recent transactions. Returns how many contributions were recorded.
+  checkTransfers: () => Promise<number>;
+
   // Actions
-  addGoal: (goal: Omit<SavingsGoal, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => void;
-  updateGoal: (id: string, updates: Partial<SavingsGoal>) => void;
-  removeGoal: (id: string) => void;
-  markCompleted: (id: string) => void;
-  addContribution: (goalId: string, amount: number, note?: string) => void;
+  addGoal: (goal: SavingsGoalInput) => Promise<void>;
+  updateGoal: (id: string, updates: Partial<SavingsGoal>) => Promise<void>;
+  removeGoal: (id: string) => Promise<void>;
+  markCompleted: (id: string) => Promise<void>;
+  addContribution: (goalId: string, amount: number, note?: string) => Promise<void>;
+  removeContribution: (contributionId: string) => Promise<void>;
+  refetch: () => Promise<void>;
 
   // What-if scenarios
   calculateWhatIf: (goalId: string, newMonthlyContribution: number) => {
@@ -123,14 +168,75 @@ interface UseSavingsGoalsReturn {
 }
 
 export function useSavingsGoals(options: UseSavingsGoalsOptions = {}): UseSavingsGoalsReturn {
-  const { isDemoMode = true, monthlyIncome = 5000 } = options;
+  const { mode } = useDataMode();
+  const { isDemoMode = mode === 'demo', monthlyIncome = 5000 } = options;
 
   // State
   const [goals, setGoals] = useState<SavingsGoalWithContributions[]>(
     isDemoMode ? DEMO_GOALS : []
   );
-  const [isLoading, setIsLoading] = useState(false);
+  const [isLoading, setIsLoading] = useState(!isDemoMode);
   const [error, setError] = useState<string | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [matches, setMatches] = useState<SavingsMatch[]>([]);
+
+  // Load goals with their contribution history from the API (real mode); demo mode keeps the samples in memory
+  const fetchGoals = useCallback(async () => {
+    if (isDemoMode) {
+      setGoals(DEMO_GOALS);
+      setMatches([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const [response, matchesResponse] = await Promise.all([
+        fetch('/api/savings-goals'),
+        fetch('/api/savings-goals/matches'),
+      ]);
+      setIsLocked(response.status === 403);
+      if (!response.ok) {
+        throw new Error(
+          response.status === 401
+            ? 'Please log in to view savings goals'
+            : await readError(response, 'Failed to fetch savings goals')
+        );
+      }
+      const data = await response.json();
+      const matchData = matchesResponse.ok ? await matchesResponse.json() : { matches: [] };
+      setGoals((data.goals || []).map(parseGoalDates));
+      setMatches((matchData.matches || []).map(parseMatchDates));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching savings goals:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load savings goals');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isDemoMode]);
+
+  useEffect(() => {
+    fetchGoals();
+  }, [fetchGoals]);
+
+  // Send a change to the API and put the returned goal in place of the old one
+  const saveGoal = useCallback(async (id: string, updates: Partial<SavingsGoal>, fallback: string) => {
+    try {
+      const response = await fetch(`/api/savings-goals/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      if (!response.ok) throw new Error(await readError(response, fallback));
+      const data = await response.json();
+      const saved = parseGoalDates(data.goal);
+      setGoals(prev => prev.map(g => (g.id === id ? saved : g)));
+      setError(null);
+    } catch (err) {
+      console.error('Error saving savings goal:', err);
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  }, []);
 
   // Filter to only active goals
   const activeGoals = useMemo(
@@ -144,6 +250,17 @@ export function useSavingsGoals(options: UseSavingsGoalsOptions = {}): UseSaving
     [activeGoals]
   );
 
+  // Recent contribution pace for each goal that has a history
+  const trends = useMemo(() => {
+    const result = new Map<string, ContributionTrend>();
+    for (const goal of activeGoals) {
+      if (goal.contributions.length > 0) {
+        result.set(goal.id, analyzeContributionTrend(goal.contributions));
+      }
+    }
+    return result;
+  }, [activeGoals]);
+
   // Total savings
   const totalSavings = useMemo(
     () => calculateTotalSavings(activeGoals.map(savingsGoalToInput)),
@@ -163,7 +280,38 @@ export function useSavingsGoals(options: UseSavingsGoalsOptions = {}): UseSaving
   );
 
   // Add goal
-  const addGoal = useCallback((goal: Omit<SavingsGoal, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => {
+  const addGoal = useCallback(async (goal: SavingsGoalInput) => {
+    if (!isDemoMode) {
+      try {
+        const response = await fetch('/api/savings-goals', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: goal.name,
+            type: goal.type,
+            icon: goal.icon,
+            targetAmount: goal.targetAmount,
+            currentAmount: goal.currentAmount,
+            monthlyContribution: goal.monthlyContribution,
+            targetDate: goal.targetDate,
+            accountId: goal.accountId,
+            transferPattern: goal.transferPattern,
+            expectedReturn: goal.expectedReturn,
+            compounding: goal.compounding,
+            inflationRate: goal.inflationRate,
+          }),
+        });
+        if (!response.ok) throw new Error(await readError(response, 'Failed to add savings goal'));
+        const data = await response.json();
+        setGoals(prev => [...prev, parseGoalDates(data.goal)]);
+        setError(null);
+      } catch (err) {
+        console.error('Error adding savings goal:', err);
+        setError(err instanceof Error ? err.message : 'Failed to add savings goal');
+      }
+      return;
+    }
+
     const newGoal: SavingsGoalWithContributions = {
       ...goal,
       id: `goal-${Date.now()}`,
@@ -173,33 +321,74 @@ export function useSavingsGoals(options: UseSavingsGoalsOptions = {}): UseSaving
       contributions: [],
     };
     setGoals(prev => [...prev, newGoal]);
-  }, []);
+  }, [isDemoMode]);
 
   // Update goal
-  const updateGoal = useCallback((id: string, updates: Partial<SavingsGoal>) => {
+  const updateGoal = useCallback(async (id: string, updates: Partial<SavingsGoal>) => {
+    if (!isDemoMode) {
+      await saveGoal(id, updates, 'Failed to update savings goal');
+      return;
+    }
+
     setGoals(prev => prev.map(g =>
       g.id === id
         ? { ...g, ...updates, updatedAt: new Date() }
         : g
     ));
-  }, []);
+  }, [isDemoMode, saveGoal]);
 
   // Remove goal
-  const removeGoal = useCallback((id: string) => {
+  const removeGoal = useCallback(async (id: string) => {
+    if (!isDemoMode) {
+      try {
+        const response = await fetch(`/api/savings-goals/${id}`, { method: 'DELETE' });
+        if (!response.ok) throw new Error(await readError(response, 'Failed to delete savings goal'));
+        setError(null);
+      } catch (err) {
+        console.error('Error deleting savings goal:', err);
+        setError(err instanceof Error ? err.message : 'Failed to delete savings goal');
+        return;
+      }
+    }
+
     setGoals(prev => prev.filter(g => g.id !== id));
-  }, []);
+  }, [isDemoMode]);
 
   // Mark goal as completed
-  const markCompleted = useCallback((id: string) => {
+  const markCompleted = useCallback(async (id: string) => {
+    if (!isDemoMode) {
+      await saveGoal(id, { isCompleted: true }, 'Failed to update savings goal');
+      return;
+    }
+
     setGoals(prev => prev.map(g =>
       g.id === id
         ? { ...g, isCompleted: true, completedDate: new Date(), updatedAt: new Date() }
         : g
     ));
-  }, []);
+  }, [isDemoMode, saveGoal]);
+
+  // Add contribution; the goal comes back with its new amount (and completed state)
+  const addContribution = useCallback(async (goalId: string, amount: number, note?: string) => {
+    if (!isDemoMode) {
+      try {
+        const response = await fetch(`/api/savings-goals/${goalId}/contributions`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ amount, note: note ?? null }),
+        });
+        if (!response.ok) throw new Error(await readError(response, 'Failed to add contribution'));
+        const data = await response.json();
+        const saved = parseGoalDates(data.goal);
+        setGoals(prev => prev.map(g => (g.id === goalId ? saved : g)));
+        setError(null);
+      } catch (err) {
+        console.error('Error adding contribution:', err);
+        setError(err instanceof Error ? err.message : 'Failed to add contribution');
+      }
+      return;
+    }
 
-  // Add contribution
-  const addContribution = useCallback((goalId: string, amount: number, note?: string) => {
     setGoals(prev => prev.map(g => {
       if (g.id !== goalId) return g;
 
@@ -223,8 +412,92 @@ export function useSavingsGoals(options: UseSavingsGoalsOptions = {}): UseSaving
         updatedAt: new Date(),
       };
     }));
+  }, [isDemoMode]);
+
+  // Remove a contribution; it comes back off the goal
+  const removeContribution = useCallback(async (contributionId: string) => {
+    if (!isDemoMode) {
+      try {
+        const response = await fetch(`/api/savings-goals/contributions/${contributionId}`, { method: 'DELETE' });
+        if (!response.ok) throw new Error(await readError(response, 'Failed to delete contribution'));
+        const data = await response.json();
+        const saved = parseGoalDates(data.goal);
+        setGoals(prev => prev.map(g => (g.id === saved.id ? saved : g)));
+        setError(null);
+      } catch (err) {
+        console.error('Error deleting contribution:', err);
+        setError(err instanceof Error ? err.message : 'Failed to delete contribution');
+      }
+      return;
+    }
+
+    setGoals(prev => prev.map(g => {
+      const contribution = g.contributions.find(c => c.id === contributionId);
+      if (!contribution) return g;
+
+      const newCurrentAmount = g.currentAmount - contribution.amount;
+      const reopen = g.isCompleted && newCurrentAmount < g.targetAmount;
+      return {
+        ...g,
+        currentAmount: newCurrentAmount,
+        ...(reopen ? { isCompleted: false, completedDate: null } : {}),
+        contributions: g.contributions.filter(c => c.id !== contributionId),
+        updatedAt: new Date(),
+      };
+    }));
+  }, [isDemoMode]);
+
+  // Record a queued transfer against the chosen goal
+  const acceptMatch = useCallback(async (matchId: string, goalId: string) => {
+    try {
+      const response = await fetch(`/api/savings-goals/matches/${matchId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ goalId }),
+      });
+      if (!response.ok) throw new Error(await readError(response, 'Failed to add transfer to goal'));
+      const data = await response.json();
+      const saved = parseGoalDates(data.goal);
+      setGoals(prev => prev.map(g => (g.id === saved.id ? saved : g)));
+      setMatches(prev => prev.filter(m => m.id !== matchId));
+      setError(null);
+    } catch (err) {
+      console.error('Error accepting savings match:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add transfer to goal');
+    }
   }, []);
 
+  // Leave a queued transfer out of every goal
+  const dismissMatch = useCallback(async (matchId: string) => {
+    try {
+      const response = await fetch(`/api/savings-goals/matches/${matchId}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error(await readError(response, 'Failed to dismiss transfer'));
+      setMatches(prev => prev.filter(m => m.id !== matchId));
+      setError(null);
+    } catch (err) {
+      console.error('Error dismissing savings match:', err);
+      setError(err instanceof Error ? err.message : 'Failed to dismiss transfer');
+    }
+  }, []);
+
+  const checkTransfers = useCallback(async () => {
+    if (isDemoMode) return 0;
+
+    try {
+      const response = await fetch('/api/savings-goals/matches', { method: 'POST' });
+      if (!response.ok) throw new Error(await readError(response, 'Failed to check transfers'));
+      const data = await response.json();
+      setGoals((data.goals || []).map(parseGoalDates));
+      setMatches((data.matches || []).map(parseMatchDates));
+      setError(null);
+      return data.recorded ?? 0;
+    } catch (err) {
+      console.error('Error checking transfers:', err);
+      setError(err instanceof Error ? err.message : 'Failed to check transfers');
+      return 0;
+    }
+  }, [isDemoMode]);
+
   // What-if calculation
   const calculateWhatIf = useCallback((goalId: string, newMonthlyContribution: number) => {
     const goal = goals.find(g => g.id === goalId);
@@ -249,19 +522,29 @@ export function useSavingsGoals(options: UseSavingsGoalsOptions = {}): UseSaving
     goals,
     isLoading,
     error,
+    isLocked,
 
     // Calculated values
     projections,
+    trends,
     totalSavings,
     totalMonthlyContributions,
     savingsRate,
 
+    // Review queue
+    matches,
+    acceptMatch,
+    dismissMatch,
+    checkTransfers,
+
     // Actions
     addGoal,
     updateGoal,
     removeGoal,
     markCompleted,
     addContribution,
+    removeContribution,
+    refetch: fetchGoals,
 
     // What-if
     calculateWhatIf,
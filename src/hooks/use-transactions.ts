@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import type { TrafficLightZone } from '@/constants/traffic-light';
+import type { TransactionKind, TransactionSplitPart } from '@/types';
 
 interface Transaction {
   id: string;
@@ -11,6 +12,8 @@ interface Transaction {
   merchantName: string | null;
   date: string;
   source: 'PLAID' | 'DEMO' | 'MANUAL';
+  kind: TransactionKind;
+  accountId: string | null;
   defaultCategory: string | null;
   pending: boolean;
   isRecurring: boolean;
@@ -76,12 +79,15 @@ interface Categorization {
   transactionId: string;
   zone: TrafficLightZone;
   note: string | null;
+  splits?: TransactionSplitPart[];
 }
 
 interface UseCategorizations {
   categorizations: Categorization[];
   isLoading: boolean;
   categorize: (transactionId: string, zone: TrafficLightZone, note?: string) => Promise<void>;
+  splitTransaction: (transactionId: string, parts: TransactionSplitPart[]) => Promise<void>;
+  unsplitTransaction: (transactionId: string) => Promise<void>;
   refetch: () => Promise<void>;
 }
 
@@ -136,10 +142,55 @@ export function useCategorizations(): UseCategorizations {
     }
   }, []);
 
+  // Replace the transaction's parts; throws with the server's message when they don't add up
+  const splitTransaction = useCallback(async (
+    transactionId: string,
+    parts: TransactionSplitPart[]
+  ) => {
+    const response = await fetch(`/api/transactions/${transactionId}/splits`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ parts }),
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to split transaction');
+    }
+
+    setCategorizations((prev) => {
+      const existing = prev.findIndex((c) => c.transactionId === transactionId);
+      if (existing >= 0) {
+        const updated = [...prev];
+        updated[existing] = data.categorization;
+        return updated;
+      }
+      return [...prev, data.categorization];
+    });
+  }, []);
+
+  const unsplitTransaction = useCallback(async (transactionId: string) => {
+    try {
+      const response = await fetch(`/api/transactions/${transactionId}/splits`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        setCategorizations((prev) =>
+          prev.map((c) => (c.transactionId === transactionId ? { ...c, splits: [] } : c))
+        );
+      }
+    } catch (err) {
+      console.error('Error removing split:', err);
+    }
+  }, []);
+
   return {
     categorizations,
     isLoading,
     categorize,
+    splitTransaction,
+    unsplitTransaction,
     refetch: fetchCategorizations,
   };
 }
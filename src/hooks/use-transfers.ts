@@ -0,0 +1,106 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { TransferLeg, TransferPair } from '@/types';
+
+// Convert date strings (from JSON) back to Date objects
+function parseLegDates(leg: TransferLeg): TransferLeg {
+  return { ...leg, date: new Date(leg.date) };
+}
+
+function parsePairDates(pair: TransferPair): TransferPair {
+  return {
+    ...pair,
+    outflow: parseLegDates(pair.outflow),
+    inflow: parseLegDates(pair.inflow),
+    createdAt: new Date(pair.createdAt),
+  };
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+interface UseTransfers {
+  pairs: TransferPair[];
+  isLoading: boolean;
+  error: string | null;
+  confirmPair: (id: string) => Promise<void>;
+  unlinkPair: (id: string) => Promise<void>;
+  detectTransfers: () => Promise<number>;
+  refetch: () => Promise<void>;
+}
+
+export function useTransfers(): UseTransfers {
+  const [pairs, setPairs] = useState<TransferPair[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPairs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/transfers');
+      if (!response.ok) {
+        throw new Error(response.status === 401 ? 'Please log in to review transfers' : 'Failed to fetch transfers');
+      }
+      const data = await response.json();
+      setPairs((data.pairs || []).map(parsePairDates));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching transfers:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load transfers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPairs();
+  }, [fetchPairs]);
+
+  const replacePair = (pair: TransferPair) => {
+    setPairs((prev) => prev.map((p) => (p.id === pair.id ? pair : p)));
+  };
+
+  const confirmPair = useCallback(async (id: string) => {
+    const response = await fetch(`/api/transfers/${id}`, { method: 'PATCH' });
+    if (!response.ok) {
+      throw new Error(await readError(response, 'Failed to confirm transfer'));
+    }
+    const data = await response.json();
+    replacePair(parsePairDates(data.pair));
+  }, []);
+
+  const unlinkPair = useCallback(async (id: string) => {
+    const response = await fetch(`/api/transfers/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(await readError(response, 'Failed to unlink transfer'));
+    }
+    const data = await response.json();
+    replacePair(parsePairDates(data.pair));
+  }, []);
+
+  const detectTransfers = useCallback(async () => {
+    const response = await fetch('/api/transfers', { method: 'POST' });
+    if (!response.ok) {
+      throw new Error(await readError(response, 'Failed to detect transfers'));
+    }
+    const data = await response.json();
+    setPairs((data.pairs || []).map(parsePairDates));
+    return data.matched as number;
+  }, []);
+
+  return {
+    pairs,
+    isLoading,
+    error,
+    confirmPair,
+    unlinkPair,
+    detectTransfers,
+    refetch: fetchPairs,
+  };
+}
@@ -0,0 +1,459 @@
+// Server-side Alert Evaluator
+// Runs every enabled Alert against the user's stored transactions and records AlertNotification rows
+
+import type { Prisma, Alert as PrismaAlert } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { dispatchNotifications } from '@/lib/notifications/dispatcher';
+import { getZoneSlices } from '@/lib/services/zone-allocation';
+import { getBudgetLabel } from '@/lib/services/budget-calculator';
+import { getBudgetStatuses } from '@/lib/budgets/server';
+import { listRecurringCharges } from '@/lib/recurring/server';
+import type { AlertConfig, BudgetStatus, RecurringCharge, TransactionKind } from '@/types';
+import type { TrafficLightZone } from '@/constants/traffic-light';
+
+type AlertPeriod = NonNullable<AlertConfig['period']>;
+
+// How far back we load transactions - enough for a monthly period plus an unusual-activity baseline
+const LOOKBACK_DAYS = 90;
+
+// When an alert has never fired, only consider transactions ingested within this window
+const FIRST_RUN_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Defaults for configs that leave fields blank
+const DEFAULT_UNUSUAL_MULTIPLIER = 3;
+const DEFAULT_GOAL_THRESHOLD = 80;
+const MAX_NOTIFICATIONS_PER_RUN = 5;
+
+interface EvaluatedTransaction {
+  id: string;
+  amount: number;
+  merchantName: string | null;
+  description: string;
+  date: Date;
+  createdAt: Date;
+  isRecurring: boolean;
+  // Not posted yet - counted, but the amount may still change
+  pending: boolean;
+  kind: TransactionKind;
+  zone: TrafficLightZone | null;
+  splits: Array<{ amount: number; zone: TrafficLightZone }>;
+}
+
+interface PendingNotification {
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+interface EvaluationContext {
+  userId: string;
+  now: Date;
+  transactions: EvaluatedTransaction[];
+  // Loaded on first use - only budget-linked alerts and goals need them
+  getBudgets: () => Promise<BudgetStatus[]>;
+  // Loaded on first use - only RECURRING_CHARGE alerts need them
+  getRecurringCharges: () => Promise<RecurringCharge[]>;
+}
+
+export interface AlertEvaluationResult {
+  evaluated: number;
+  triggered: number;
+  notificationIds: string[];
+}
+
+/**
+ * Get the start of the current daily/weekly/monthly period
+ */
+export function getPeriodStart(period: AlertPeriod, now: Date = new Date()): Date {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+
+  if (period === 'weekly') {
+    start.setDate(start.getDate() - start.getDay());
+  } else if (period === 'monthly') {
+    start.setDate(1);
+  }
+
+  return start;
+}
+
+function formatAmount(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+// Suffix marking a figure that includes transactions still pending
+function provisionalNote(pendingAmount: number): string {
+  return pendingAmount > 0 ? ` (includes ${formatAmount(pendingAmount)} pending)` : '';
+}
+
+/**
+ * Sum categorized spending by zone for transactions on/after a date.
+ * `pending` is the part of the total that hasn't posted yet.
+ */
+function sumByZone(transactions: EvaluatedTransaction[], since: Date) {
+  const totals = { GREEN: 0, YELLOW: 0, RED: 0, total: 0, pending: 0 };
+
+  for (const txn of transactions) {
+    if (txn.date < since || !txn.zone) continue;
+    for (const slice of getZoneSlices(txn.amount, { transactionId: txn.id, zone: txn.zone, splits: txn.splits }, txn.kind)) {
+      if (slice.zone === 'UNCATEGORIZED') continue;
+      totals[slice.zone] += slice.amount;
+      totals.total += slice.amount;
+      if (txn.pending) totals.pending += slice.amount;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Transactions ingested since the alert last fired (or within the first-run window).
+ * A posted transaction reuses its pending version's row and createdAt, so it never alerts twice.
+ */
+function getNewTransactions(alert: PrismaAlert, ctx: EvaluationContext): EvaluatedTransaction[] {
+  const since = alert.lastTriggeredAt ?? new Date(ctx.now.getTime() - FIRST_RUN_WINDOW_MS);
+  return ctx.transactions.filter((t) => t.createdAt > since);
+}
+
+/**
+ * SPENDING_THRESHOLD - zone (or total) spending for the period reached the configured amount.
+ * With a threshold percent, fires once spending reaches that share of the amount.
+ * Dedup: at most once per period.
+ */
+function evaluateSpendingThreshold(alert: PrismaAlert, ctx: EvaluationContext): PendingNotification[] {
+  const config = alert.config as AlertConfig;
+  if (!config.amount) return [];
+
+  const period = config.period ?? 'monthly';
+  const periodStart = getPeriodStart(period, ctx.now);
+  if (alert.lastTriggeredAt && alert.lastTriggeredAt >= periodStart) return [];
+
+  const totals = sumByZone(ctx.transactions, periodStart);
+  const spent = config.zone && config.zone !== 'UNCATEGORIZED' ? totals[config.zone] : totals.total;
+  const trigger = config.amount * ((config.threshold ?? 100) / 100);
+
+  if (spent < trigger) return [];
+
+  const label = config.zone && config.zone !== 'UNCATEGORIZED' ? `${config.zone} zone` : 'Total';
+  const percent = Math.round((spent / config.amount) * 100);
+
+  return [{
+    title: alert.name,
+    message: `${label} spending hit ${formatAmount(spent)}${provisionalNote(totals.pending)} this ${period.replace('ly', '')} - ${percent}% of your ${formatAmount(config.amount)} limit.`,
+    data: { zone: config.zone ?? null, spent, limit: config.amount, percent, period, provisional: totals.pending > 0 },
+  }];
+}
+
+/**
+ * SPENDING_THRESHOLD on a budget - this month's spending reached `threshold` percent
+ * (default 100) of what the budget has available, rollover included.
+ * Dedup: at most once per month.
+ */
+async function evaluateBudgetThreshold(alert: PrismaAlert, ctx: EvaluationContext): Promise<PendingNotification[]> {
+  const config = alert.config as AlertConfig;
+
+  const monthStart = getPeriodStart('monthly', ctx.now);
+  if (alert.lastTriggeredAt && alert.lastTriggeredAt >= monthStart) return [];
+
+  const budget = (await ctx.getBudgets()).find((b) => b.id === config.budgetId);
+  if (!budget || budget.percentUsed < (config.threshold ?? 100)) return [];
+
+  const label = getBudgetLabel(budget);
+  const message = budget.remaining < 0
+    ? `${label} budget is ${formatAmount(-budget.remaining)} over this month (${formatAmount(budget.spent)} of ${formatAmount(budget.available)}).`
+    : `${label} budget: ${formatAmount(budget.spent)} of ${formatAmount(budget.available)} spent this month, ${formatAmount(budget.remaining)} left.`;
+
+  return [{
+    title: alert.name,
+    message,
+    data: { budgetId: budget.id, spent: budget.spent, limit: budget.available, percent: budget.percentUsed, period: 'monthly' },
+  }];
+}
+
+/**
+ * UNUSUAL_ACTIVITY - a new transaction far above the user's typical amount.
+ * `threshold` is the multiple of the average transaction (default 3x), `amount` an optional floor.
+ * Dedup: each transaction is only considered once (ingested after lastTriggeredAt).
+ */
+function evaluateUnusualActivity(alert: PrismaAlert, ctx: EvaluationContext): PendingNotification[] {
+  const config = alert.config as AlertConfig;
+  // Only purchases - a paycheck or transfer isn't unusual spending
+  const newTransactions = getNewTransactions(alert, ctx).filter((t) => t.kind === 'DEBIT');
+  if (newTransactions.length === 0) return [];
+
+  const newIds = new Set(newTransactions.map((t) => t.id));
+  const baseline = ctx.transactions.filter((t) => t.kind === 'DEBIT' && !newIds.has(t.id));
+  if (baseline.length === 0) return [];
+
+  const average = baseline.reduce((sum, t) => sum + t.amount, 0) / baseline.length;
+  const multiplier = config.threshold ?? DEFAULT_UNUSUAL_MULTIPLIER;
+  const limit = Math.max(average * multiplier, config.amount ?? 0);
+
+  return newTransactions
+    .filter((t) => t.amount >= limit)
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, MAX_NOTIFICATIONS_PER_RUN)
+    .map((t) => ({
+      title: alert.name,
+      message: `${t.pending ? 'Pending: ' : ''}${formatAmount(t.amount)} at ${t.merchantName || t.description} is ${(t.amount / average).toFixed(1)}x your typical purchase.`,
+      data: { transactionId: t.id, amount: t.amount, average, provisional: t.pending },
+    }));
+}
+
+/**
+ * GOAL_PROGRESS - an active SPENDING_LIMIT goal has used `threshold` percent (default 80) of its limit.
+ * A goal that follows a budget uses the budget's spending and available amount for the month.
+ * Dedup: once per goal per goal period.
+ */
+async function evaluateGoalProgress(alert: PrismaAlert, ctx: EvaluationContext): Promise<PendingNotification[]> {
+  const config = alert.config as AlertConfig;
+  const threshold = config.threshold ?? DEFAULT_GOAL_THRESHOLD;
+
+  const goals = await prisma.goal.findMany({
+    where: { userId: ctx.userId, status: 'ACTIVE', type: 'SPENDING_LIMIT' },
+  });
+
+  const notifications: PendingNotification[] = [];
+
+  for (const goal of goals) {
+    const goalConfig = goal.targetConfig as { zone?: TrafficLightZone; period?: AlertPeriod; budgetId?: string };
+
+    let targetValue: number;
+    let spent: number;
+    let pending: number;
+    let periodStart: Date;
+    if (goalConfig.budgetId) {
+      const budget = (await ctx.getBudgets()).find((b) => b.id === goalConfig.budgetId);
+      if (!budget) continue;
+      targetValue = budget.available;
+      spent = budget.spent;
+      pending = 0;
+      periodStart = getPeriodStart('monthly', ctx.now);
+    } else {
+      targetValue = goal.targetValue.toNumber();
+      periodStart = getPeriodStart(goalConfig.period ?? 'monthly', ctx.now);
+      const totals = sumByZone(ctx.transactions, periodStart);
+      spent = goalConfig.zone && goalConfig.zone !== 'UNCATEGORIZED' ? totals[goalConfig.zone] : totals.total;
+      pending = totals.pending;
+    }
+    if (targetValue <= 0) continue;
+
+    const percent = Math.round((spent / targetValue) * 100);
+
+    if (percent < threshold) continue;
+
+    const alreadyNotified = await prisma.alertNotification.count({
+      where: {
+        alertId: alert.id,
+        createdAt: { gte: periodStart },
+        data: { path: ['goalId'], equals: goal.id },
+      },
+    });
+    if (alreadyNotified > 0) continue;
+
+    notifications.push({
+      title: `${goal.name} at risk`,
+      message: `You've used ${percent}% of your ${formatAmount(targetValue)} limit (${formatAmount(spent)} spent${pending > 0 ? `, ${formatAmount(pending)} of it pending` : ''}).`,
+      data: { goalId: goal.id, spent, limit: targetValue, percent, provisional: pending > 0 },
+    });
+  }
+
+  return notifications;
+}
+
+/**
+ * RECURRING_CHARGE - a new charge in a recurring series (detected, or flagged by Plaid),
+ * calling out a price increase, or an expected charge that didn't arrive.
+ * `amount` is an optional floor.
+ * Dedup: each transaction is only considered once; each missed charge once per expected date.
+ */
+async function evaluateRecurringCharge(alert: PrismaAlert, ctx: EvaluationContext): Promise<PendingNotification[]> {
+  const config = alert.config as AlertConfig;
+  const floor = config.amount ?? 0;
+
+  const charges = await ctx.getRecurringCharges();
+  const seriesByTransaction = new Map(
+    charges.flatMap((c) => c.transactionIds.map((id) => [id, c] as const))
+  );
+
+  const notifications: PendingNotification[] = getNewTransactions(alert, ctx)
+    .filter((t) => t.kind === 'DEBIT' && t.amount >= floor && (t.isRecurring || seriesByTransaction.has(t.id)))
+    .map((t) => {
+      const series = seriesByTransaction.get(t.id);
+      // A price increase is called out on the latest charge in the series
+      const increase = series && series.transactionIds[series.transactionIds.length - 1] === t.id
+        ? series.priceIncrease
+        : null;
+      const label = t.pending ? 'Pending recurring charge' : 'Recurring charge';
+      const priceNote = increase && series?.previousAmount
+        ? ` That's up ${formatAmount(increase)} from ${formatAmount(series.previousAmount)}.`
+        : '';
+
+      return {
+        title: increase ? `${alert.name}: price increase` : alert.name,
+        message: `${label}: ${formatAmount(t.amount)} at ${t.merchantName || t.description}${series ? ` (${series.cadence})` : ''}.${priceNote}`,
+        data: {
+          transactionId: t.id,
+          amount: t.amount,
+          cadence: series?.cadence ?? null,
+          priceIncrease: increase,
+          provisional: t.pending,
+        },
+      };
+    });
+
+  for (const charge of charges) {
+    if (charge.status !== 'missed' || charge.amount < floor) continue;
+
+    const expectedOn = charge.nextChargeAt.toISOString().slice(0, 10);
+    const missedKey = `${charge.key}:${expectedOn}`;
+    const alreadyNotified = await prisma.alertNotification.count({
+      where: { alertId: alert.id, data: { path: ['missedKey'], equals: missedKey } },
+    });
+    if (alreadyNotified > 0) continue;
+
+    notifications.push({
+      title: `${charge.name} charge missing`,
+      message: `Expected ${formatAmount(charge.amount)} from ${charge.name} around ${charge.nextChargeAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}. Cancelled it? Nice. If not, check the account.`,
+      data: { missedKey, amount: charge.amount, expectedAt: charge.nextChargeAt.toISOString() },
+    });
+  }
+
+  return notifications.slice(0, MAX_NOTIFICATIONS_PER_RUN);
+}
+
+/**
+ * WEEKLY_SUMMARY - zone totals for the last 7 days.
+ * Dedup: at most once every 7 days.
+ */
+function evaluateWeeklySummary(alert: PrismaAlert, ctx: EvaluationContext): PendingNotification[] {
+  const weekAgo = new Date(ctx.now);
+  weekAgo.setDate(weekAgo.getDate() - 7);
+
+  if (alert.lastTriggeredAt && alert.lastTriggeredAt > weekAgo) return [];
+
+  const totals = sumByZone(ctx.transactions, weekAgo);
+  if (totals.total === 0) return [];
+
+  return [{
+    title: alert.name,
+    message: `This week: ${formatAmount(totals.total)} spent${provisionalNote(totals.pending)}. GREEN ${formatAmount(totals.GREEN)} • YELLOW ${formatAmount(totals.YELLOW)} • RED ${formatAmount(totals.RED)}.`,
+    data: { ...totals, from: weekAgo.toISOString(), to: ctx.now.toISOString() },
+  }];
+}
+
+async function evaluateAlert(alert: PrismaAlert, ctx: EvaluationContext): Promise<PendingNotification[]> {
+  switch (alert.type) {
+    case 'SPENDING_THRESHOLD':
+      return (alert.config as AlertConfig).budgetId
+        ? evaluateBudgetThreshold(alert, ctx)
+        : evaluateSpendingThreshold(alert, ctx);
+    case 'UNUSUAL_ACTIVITY':
+      return evaluateUnusualActivity(alert, ctx);
+    case 'GOAL_PROGRESS':
+      return evaluateGoalProgress(alert, ctx);
+    case 'RECURRING_CHARGE':
+      return evaluateRecurringCharge(alert, ctx);
+    case 'WEEKLY_SUMMARY':
+      return evaluateWeeklySummary(alert, ctx);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Evaluate all enabled alerts for a user.
+ * Creates AlertNotification rows, bumps lastTriggeredAt for every alert that fires,
+ * then dispatches the new notifications to their channels.
+ */
+export async function evaluateAlertsForUser(
+  userId: string,
+  now: Date = new Date()
+): Promise<AlertEvaluationResult> {
+  const alerts = await prisma.alert.findMany({
+    where: { userId, isEnabled: true },
+  });
+
+  if (alerts.length === 0) {
+    return { evaluated: 0, triggered: 0, notificationIds: [] };
+  }
+
+  const since = new Date(now);
+  since.setDate(since.getDate() - LOOKBACK_DAYS);
+
+  const rows = await prisma.transaction.findMany({
+    where: { userId, date: { gte: since } },
+    include: {
+      categorization: { select: { zone: true } },
+      splits: { select: { amount: true, zone: true } },
+    },
+  });
+
+  let budgets: Promise<BudgetStatus[]> | null = null;
+  let recurringCharges: Promise<RecurringCharge[]> | null = null;
+
+  const ctx: EvaluationContext = {
+    userId,
+    now,
+    getBudgets: () => {
+      if (!budgets) budgets = getBudgetStatuses(userId, now);
+      return budgets;
+    },
+    getRecurringCharges: () => {
+      if (!recurringCharges) recurringCharges = listRecurringCharges(userId, now);
+      return recurringCharges;
+    },
+    transactions: rows.map((t) => ({
+      id: t.id,
+      amount: t.amount.toNumber(),
+      merchantName: t.merchantName,
+      description: t.description,
+      date: t.date,
+      createdAt: t.createdAt,
+      isRecurring: t.isRecurring,
+      pending: t.pending,
+      kind: t.kind,
+      zone: t.categorization?.zone ?? null,
+      splits: t.splits.map((s) => ({ amount: s.amount.toNumber(), zone: s.zone })),
+    })),
+  };
+
+  const notificationIds: string[] = [];
+  let triggered = 0;
+
+  for (const alert of alerts) {
+    try {
+      const pending = await evaluateAlert(alert, ctx);
+      if (pending.length === 0) continue;
+
+      const created = await prisma.$transaction([
+        ...pending.map((n) =>
+          prisma.alertNotification.create({
+            data: {
+              alertId: alert.id,
+              title: n.title,
+              message: n.message,
+              data: (n.data ?? undefined) as Prisma.InputJsonValue | undefined,
+            },
+          })
+        ),
+        prisma.alert.update({
+          where: { id: alert.id },
+          data: { lastTriggeredAt: now },
+        }),
+      ]);
+
+      triggered++;
+      for (const row of created.slice(0, pending.length)) {
+        notificationIds.push(row.id);
+      }
+    } catch (error) {
+      console.error(`Error evaluating alert ${alert.id}:`, error);
+    }
+  }
+
+  // Deliver through EMAIL/PUSH/IN_APP per each alert's channels
+  await dispatchNotifications(notificationIds);
+
+  return { evaluated: alerts.length, triggered, notificationIds };
+}
@@ -0,0 +1,74 @@
+// Alert validation schemas and serialization
+// Shared by the /api/alerts route family
+
+import { z } from 'zod';
+import type { Alert as PrismaAlert, AlertNotification as PrismaAlertNotification } from '@prisma/client';
+import type { Alert, AlertConfig, AlertNotification } from '@/types';
+
+export const AlertTypeSchema = z.enum([
+  'SPENDING_THRESHOLD',
+  'UNUSUAL_ACTIVITY',
+  'GOAL_PROGRESS',
+  'RECURRING_CHARGE',
+  'WEEKLY_SUMMARY',
+]);
+
+export const AlertChannelSchema = z.enum(['IN_APP', 'EMAIL', 'PUSH']);
+
+export const AlertConfigSchema = z.object({
+  zone: z.enum(['UNCATEGORIZED', 'GREEN', 'YELLOW', 'RED']).optional(),
+  budgetId: z.string().min(1).optional(),
+  amount: z.number().nonnegative().optional(),
+  period: z.enum(['daily', 'weekly', 'monthly']).optional(),
+  threshold: z.number().positive().optional(),
+});
+
+export const CreateAlertSchema = z.object({
+  type: AlertTypeSchema,
+  name: z.string().trim().min(1).max(100),
+  config: AlertConfigSchema,
+  channels: z.array(AlertChannelSchema).min(1).optional(),
+});
+
+export const UpdateAlertSchema = CreateAlertSchema.omit({ type: true }).partial().extend({
+  isEnabled: z.boolean().optional(),
+});
+
+export const MarkNotificationsReadSchema = z.object({
+  // Omit to mark every notification read
+  ids: z.array(z.string().min(1)).optional(),
+});
+
+/**
+ * Convert a Prisma alert row into the client-facing Alert shape
+ */
+export function serializeAlert(alert: PrismaAlert): Alert {
+  return {
+    id: alert.id,
+    userId: alert.userId,
+    type: alert.type,
+    name: alert.name,
+    isEnabled: alert.isEnabled,
+    config: alert.config as AlertConfig,
+    channels: alert.channels,
+    lastTriggeredAt: alert.lastTriggeredAt,
+    createdAt: alert.createdAt,
+    updatedAt: alert.updatedAt,
+  };
+}
+
+/**
+ * Convert a Prisma notification row into the client-facing AlertNotification shape
+ */
+export function serializeAlertNotification(notification: PrismaAlertNotification): AlertNotification {
+  return {
+    id: notification.id,
+    alertId: notification.alertId,
+    title: notification.title,
+    message: notification.message,
+    data: notification.data as Record<string, unknown> | null,
+    isRead: notification.isRead,
+    readAt: notification.readAt,
+    createdAt: notification.createdAt,
+  };
+}
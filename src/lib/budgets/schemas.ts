@@ -0,0 +1,44 @@
+// Budget validation schemas and serialization
+// Shared by the /api/budgets route family
+
+import { z } from 'zod';
+import type { Budget as PrismaBudget } from '@prisma/client';
+import type { Budget } from '@/types';
+
+const BudgetZoneSchema = z.enum(['GREEN', 'YELLOW', 'RED']);
+
+// A budget covers exactly one zone or one category
+export const CreateBudgetSchema = z
+  .object({
+    zone: BudgetZoneSchema.nullable().optional(),
+    category: z.string().trim().min(1).max(100).nullable().optional(),
+    amount: z.number().nonnegative(),
+    rollover: z.boolean().optional(),
+  })
+  .refine((data) => !data.zone !== !data.category, {
+    message: 'Choose either a zone or a category',
+    path: ['zone'],
+  });
+
+export const UpdateBudgetSchema = z.object({
+  amount: z.number().nonnegative().optional(),
+  rollover: z.boolean().optional(),
+});
+
+/**
+ * Convert a Prisma budget row into the client-facing Budget shape
+ */
+export function serializeBudget(budget: PrismaBudget): Budget {
+  return {
+    id: budget.id,
+    userId: budget.userId,
+    zone: budget.zone,
+    category: budget.category,
+    amount: budget.amount.toNumber(),
+    rollover: budget.rollover,
+    carryover: budget.carryover.toNumber(),
+    startMonth: budget.startMonth,
+    createdAt: budget.createdAt,
+    updatedAt: budget.updatedAt,
+  };
+}
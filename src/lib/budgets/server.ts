@@ -0,0 +1,104 @@
+// Server-side helpers for budgets
+// Loads budgets with where they stand this month, replaying past months for rollover
+
+import type { Budget as PrismaBudget } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { serializeBudget } from './schemas';
+import {
+  calculateBudgetStatus,
+  getMonthStart,
+  type BudgetTransaction,
+} from '@/lib/services/budget-calculator';
+import type { ZoneCategorization } from '@/lib/services/zone-allocation';
+import type { Budget, BudgetStatus } from '@/types';
+
+/**
+ * Transactions on/after a date with their zones and split parts, in the shape the calculator reads
+ */
+async function loadBudgetTransactions(userId: string, since: Date) {
+  const rows = await prisma.transaction.findMany({
+    where: { userId, date: { gte: since } },
+    select: {
+      id: true,
+      amount: true,
+      date: true,
+      kind: true,
+      defaultCategory: true,
+      categorization: { select: { zone: true } },
+      splits: { select: { amount: true, zone: true, category: true } },
+    },
+  });
+
+  const transactions: BudgetTransaction[] = [];
+  const categorizations = new Map<string, ZoneCategorization>();
+  for (const row of rows) {
+    transactions.push({
+      id: row.id,
+      amount: row.amount.toNumber(),
+      date: row.date,
+      kind: row.kind,
+      defaultCategory: row.defaultCategory,
+    });
+    if (row.categorization || row.splits.length > 0) {
+      categorizations.set(row.id, {
+        transactionId: row.id,
+        zone: row.categorization?.zone ?? 'UNCATEGORIZED',
+        splits: row.splits.map((s) => ({ amount: s.amount.toNumber(), zone: s.zone, category: s.category })),
+      });
+    }
+  }
+
+  return { transactions, categorizations };
+}
+
+async function calculateStatuses(userId: string, budgets: Budget[], now: Date): Promise<BudgetStatus[]> {
+  if (budgets.length === 0) return [];
+
+  const since = budgets.reduce(
+    (earliest, b) => (b.startMonth < earliest ? getMonthStart(b.startMonth) : earliest),
+    getMonthStart(now)
+  );
+  const { transactions, categorizations } = await loadBudgetTransactions(userId, since);
+
+  return budgets.map((b) => calculateBudgetStatus(b, transactions, categorizations, now));
+}
+
+/**
+ * A user's budgets with this month's spending and rollover, zone budgets first
+ */
+export async function getBudgetStatuses(userId: string, now: Date = new Date()): Promise<BudgetStatus[]> {
+  const rows = await prisma.budget.findMany({
+    where: { userId },
+    orderBy: [{ zone: 'asc' }, { category: 'asc' }],
+  });
+  return calculateStatuses(userId, rows.map(serializeBudget), now);
+}
+
+/**
+ * One budget's standing this month
+ */
+export async function getBudgetStatus(
+  userId: string,
+  budget: PrismaBudget,
+  now: Date = new Date()
+): Promise<BudgetStatus> {
+  const [status] = await calculateStatuses(userId, [serializeBudget(budget)], now);
+  return status;
+}
+
+/**
+ * The carryover and start month to save before a budget's amount or rollover
+ * changes: what had built up under the old settings is kept, and rollover is
+ * replayed from this month on. Turning rollover off empties the envelope.
+ */
+export async function rebaseBudget(
+  userId: string,
+  budget: PrismaBudget,
+  now: Date = new Date()
+): Promise<{ carryover: number; startMonth: Date }> {
+  const startMonth = getMonthStart(now);
+  if (!budget.rollover) return { carryover: 0, startMonth };
+
+  const status = await getBudgetStatus(userId, budget, now);
+  return { carryover: status.carriedIn, startMonth };
+}
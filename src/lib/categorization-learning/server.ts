@@ -0,0 +1,166 @@
+// Categorization learning layer
+// Remembers the zone a user picks for each merchant and measures how often suggestions are overridden
+
+import { prisma } from '@/lib/db/prisma';
+import { normalizeMerchant, type LearnedMerchant } from '@/lib/services/auto-categorize';
+import type { TrafficLightZone } from '@/constants/traffic-light';
+import type { CategorizationAccuracy, LearnedMerchantZone, SuggestionAccuracy } from '@/types';
+
+/**
+ * Load every merchant the user has taught us about
+ */
+export async function listLearnedMerchants(userId: string): Promise<LearnedMerchantZone[]> {
+  const rows = await prisma.learnedMerchantZone.findMany({
+    where: { userId },
+    orderBy: { lastChosenAt: 'desc' },
+  });
+
+  return rows.map((row) => ({
+    merchantKey: row.merchantKey,
+    zone: row.zone,
+    timesConfirmed: row.timesConfirmed,
+    totalChoices: row.totalChoices,
+    lastChosenAt: row.lastChosenAt,
+  }));
+}
+
+/**
+ * Learned zones keyed by merchant, ready to pass to autoCategorize
+ */
+export async function loadLearnedMerchants(userId: string): Promise<Map<string, LearnedMerchant>> {
+  const merchants = await listLearnedMerchants(userId);
+  return new Map(merchants.map((m) => [m.merchantKey, { zone: m.zone, timesConfirmed: m.timesConfirmed }]));
+}
+
+/**
+ * Record a zone the user chose by hand. Choosing the same zone again
+ * strengthens the memory; choosing a different one replaces it.
+ */
+export async function recordMerchantChoice(
+  userId: string,
+  merchantName: string,
+  zone: TrafficLightZone
+): Promise<void> {
+  if (zone === 'UNCATEGORIZED') return;
+
+  const merchantKey = normalizeMerchant(merchantName);
+  if (!merchantKey) return;
+
+  const existing = await prisma.learnedMerchantZone.findUnique({
+    where: { userId_merchantKey: { userId, merchantKey } },
+  });
+
+  if (!existing) {
+    await prisma.learnedMerchantZone.create({
+      data: { userId, merchantKey, zone },
+    });
+    return;
+  }
+
+  await prisma.learnedMerchantZone.update({
+    where: { id: existing.id },
+    data: {
+      zone,
+      timesConfirmed: existing.zone === zone ? { increment: 1 } : 1,
+      totalChoices: { increment: 1 },
+      lastChosenAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Forget a learned merchant so suggestions fall back to rules
+ */
+export async function forgetLearnedMerchant(userId: string, merchantKey: string): Promise<boolean> {
+  const result = await prisma.learnedMerchantZone.deleteMany({
+    where: { userId, merchantKey },
+  });
+  return result.count > 0;
+}
+
+function toAccuracy(total: number, overridden: number): SuggestionAccuracy {
+  return {
+    total,
+    overridden,
+    overrideRate: total > 0 ? overridden / total : 0,
+  };
+}
+
+function describeSource(source: string, ruleNames: Map<string, string>): string {
+  if (source === 'learned') return 'Learned from your choices';
+  if (source === 'heuristic') return 'Keyword & amount heuristics';
+  if (source.startsWith('builtin:')) return `Built-in: ${source.slice('builtin:'.length)}`;
+  if (source.startsWith('rule:')) {
+    return `Your rule: ${ruleNames.get(source.slice('rule:'.length)) ?? 'Deleted rule'}`;
+  }
+  return source;
+}
+
+/**
+ * Override rates per suggested zone and per suggestion source.
+ * Only categorizations that carry an AI suggestion are counted.
+ */
+export async function getCategorizationAccuracy(userId: string): Promise<CategorizationAccuracy> {
+  const where = {
+    userId,
+    aiSuggestedZone: { not: null },
+    zone: { not: 'UNCATEGORIZED' as const },
+  };
+
+  const [byZoneRows, bySourceRows, rules] = await Promise.all([
+    prisma.userCategorization.groupBy({
+      by: ['aiSuggestedZone', 'userOverrodeAI'],
+      where,
+      _count: { _all: true },
+    }),
+    prisma.userCategorization.groupBy({
+      by: ['aiSource', 'userOverrodeAI'],
+      where,
+      _count: { _all: true },
+    }),
+    prisma.categorizationRule.findMany({
+      where: { userId },
+      select: { id: true, name: true },
+    }),
+  ]);
+
+  const zoneCounts = new Map<TrafficLightZone, { total: number; overridden: number }>();
+  for (const row of byZoneRows) {
+    if (!row.aiSuggestedZone) continue;
+    const counts = zoneCounts.get(row.aiSuggestedZone) ?? { total: 0, overridden: 0 };
+    counts.total += row._count._all;
+    if (row.userOverrodeAI) counts.overridden += row._count._all;
+    zoneCounts.set(row.aiSuggestedZone, counts);
+  }
+
+  // Suggestions stored before sources were tracked are grouped as "unknown"
+  const sourceCounts = new Map<string, { total: number; overridden: number }>();
+  for (const row of bySourceRows) {
+    const source = row.aiSource ?? 'unknown';
+    const counts = sourceCounts.get(source) ?? { total: 0, overridden: 0 };
+    counts.total += row._count._all;
+    if (row.userOverrodeAI) counts.overridden += row._count._all;
+    sourceCounts.set(source, counts);
+  }
+
+  const ruleNames = new Map(rules.map((r) => [r.id, r.name]));
+  let total = 0;
+  let overridden = 0;
+  zoneCounts.forEach((counts) => {
+    total += counts.total;
+    overridden += counts.overridden;
+  });
+
+  return {
+    overall: toAccuracy(total, overridden),
+    byZone: Array.from(zoneCounts, ([zone, counts]) => ({
+      zone,
+      ...toAccuracy(counts.total, counts.overridden),
+    })),
+    bySource: Array.from(sourceCounts, ([source, counts]) => ({
+      source,
+      label: source === 'unknown' ? 'Older suggestions' : describeSource(source, ruleNames),
+      ...toAccuracy(counts.total, counts.overridden),
+    })).sort((a, b) => b.total - a.total),
+  };
+}
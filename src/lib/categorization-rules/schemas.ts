@@ -0,0 +1,86 @@
+// Categorization rule validation schemas and serialization
+// Shared by the /api/categorization-rules route family
+
+import { z } from 'zod';
+import type { CategorizationRule as PrismaCategorizationRule } from '@prisma/client';
+import { isSafeRegex, MAX_RULE_REGEX_LENGTH } from '@/lib/services/auto-categorize';
+import type { CategorizationRule } from '@/types';
+
+const RuleFieldsSchema = z.object({
+  name: z.string().min(1).max(100),
+  isEnabled: z.boolean().optional(),
+  merchantContains: z.string().trim().min(1).max(100).nullable().optional(),
+  merchantRegex: z
+    .string()
+    .min(1)
+    .max(MAX_RULE_REGEX_LENGTH)
+    .refine((pattern) => {
+      try {
+        new RegExp(pattern, 'i');
+        return true;
+      } catch {
+        return false;
+      }
+    }, 'Invalid regular expression')
+    .refine(isSafeRegex, 'Pattern is too complex: avoid repeating groups with repeats or alternatives inside, like (a+)+ or (a|b)*, and backreferences')
+    .nullable()
+    .optional(),
+  minAmount: z.number().nonnegative().nullable().optional(),
+  maxAmount: z.number().nonnegative().nullable().optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+  accountIds: z.array(z.string().min(1)).optional(),
+  zone: z.enum(['GREEN', 'YELLOW', 'RED']),
+  category: z.string().max(50).nullable().optional(),
+});
+
+const amountRangeIsValid = (rule: { minAmount?: number | null; maxAmount?: number | null }) =>
+  rule.minAmount == null || rule.maxAmount == null || rule.minAmount <= rule.maxAmount;
+
+const hasMatcher = (rule: z.infer<typeof RuleFieldsSchema>) =>
+  Boolean(
+    rule.merchantContains ||
+      rule.merchantRegex ||
+      rule.minAmount != null ||
+      rule.maxAmount != null ||
+      rule.daysOfWeek?.length ||
+      rule.accountIds?.length
+  );
+
+export const CreateCategorizationRuleSchema = RuleFieldsSchema.extend({
+  priority: z.number().int().min(0).optional(),
+})
+  .refine(amountRangeIsValid, { message: 'minAmount must not exceed maxAmount', path: ['minAmount'] })
+  .refine(hasMatcher, { message: 'A rule needs at least one condition' });
+
+export const UpdateCategorizationRuleSchema = RuleFieldsSchema.partial()
+  .extend({
+    priority: z.number().int().min(0).optional(),
+  })
+  .refine(amountRangeIsValid, { message: 'minAmount must not exceed maxAmount', path: ['minAmount'] });
+
+export const ReorderCategorizationRulesSchema = z.object({
+  ruleIds: z.array(z.string().min(1)).min(1),
+});
+
+/**
+ * Convert a Prisma rule row into the client-facing CategorizationRule shape
+ */
+export function serializeCategorizationRule(rule: PrismaCategorizationRule): CategorizationRule {
+  return {
+    id: rule.id,
+    userId: rule.userId,
+    name: rule.name,
+    priority: rule.priority,
+    isEnabled: rule.isEnabled,
+    merchantContains: rule.merchantContains,
+    merchantRegex: rule.merchantRegex,
+    minAmount: rule.minAmount ? rule.minAmount.toNumber() : null,
+    maxAmount: rule.maxAmount ? rule.maxAmount.toNumber() : null,
+    daysOfWeek: rule.daysOfWeek,
+    accountIds: rule.accountIds,
+    zone: rule.zone,
+    category: rule.category,
+    createdAt: rule.createdAt,
+    updatedAt: rule.updatedAt,
+  };
+}
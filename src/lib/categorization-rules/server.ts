@@ -0,0 +1,17 @@
+// Server-side helpers for user-defined categorization rules
+
+import { prisma } from '@/lib/db/prisma';
+import { serializeCategorizationRule } from './schemas';
+import type { CategorizationRule } from '@/types';
+
+/**
+ * Load a user's enabled rules in evaluation order (lowest priority number first)
+ */
+export async function loadUserCategorizationRules(userId: string): Promise<CategorizationRule[]> {
+  const rules = await prisma.categorizationRule.findMany({
+    where: { userId, isEnabled: true },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  return rules.map(serializeCategorizationRule);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { findPaidDebt, isPaymentCredit, settleDebtBalance } from './payments';
+
+const date = new Date('2026-10-15T00:00:00Z');
+const debt = (balance: number, isPaidOff = false) => ({ balance: new Prisma.Decimal(balance), isPaidOff });
+
+describe('settleDebtBalance', () => {
+  it('leaves a debt with a balance alone', () => {
+    expect(settleDebtBalance(debt(250), date)).toEqual({});
+  });
+
+  it('pays a debt off when it reaches zero, clamping an overpayment', () => {
+    expect(settleDebtBalance(debt(0), date)).toEqual({ isPaidOff: true, paidOffDate: date });
+    expect(settleDebtBalance(debt(-12.5), date)).toEqual({ balance: 0, isPaidOff: true, paidOffDate: date });
+  });
+
+  it('reopens a paid-off debt that has a balance again', () => {
+    expect(settleDebtBalance(debt(80, true), date)).toEqual({ isPaidOff: false, paidOffDate: null });
+    expect(settleDebtBalance(debt(0, true), date)).toEqual({});
+  });
+});
+
+describe('isPaymentCredit', () => {
+  it('treats ordinary credits on a card as payments', () => {
+    expect(isPaymentCredit({ description: 'AUTOPAY PAYMENT - THANK YOU', defaultCategory: null })).toBe(true);
+  });
+
+  it('skips cashback, statement credits and income', () => {
+    expect(isPaymentCredit({ description: 'Cash Back Redemption', defaultCategory: null })).toBe(false);
+    expect(isPaymentCredit({ description: 'Statement credit', defaultCategory: null })).toBe(false);
+    expect(isPaymentCredit({ description: 'Deposit', defaultCategory: 'INCOME' })).toBe(false);
+  });
+});
+
+describe('findPaidDebt', () => {
+  const debts = [
+    { id: 'car', name: 'Toyota Financial' },
+    { id: 'card', name: 'Chase Sapphire' },
+    { id: 'student', name: 'Navient' },
+  ];
+
+  it('finds the one debt a payment names', () => {
+    expect(findPaidDebt(debts, 'TOYOTA FINANCIAL PMT 0042')?.id).toBe('car');
+    expect(findPaidDebt(debts, 'NAVIENT ONLINE PAYMENT')?.id).toBe('student');
+  });
+
+  it('needs the description to read as a payment', () => {
+    expect(findPaidDebt(debts, 'NAVIENT')).toBeNull();
+  });
+
+  it('gives up when a payment names more than one debt or only part of a name', () => {
+    expect(findPaidDebt(debts, 'PAYMENT NAVIENT TOYOTA FINANCIAL')).toBeNull();
+    expect(findPaidDebt(debts, 'CHASE PAYMENT')).toBeNull();
+  });
+});
@@ -0,0 +1,241 @@
+// Debt payment ledger
+// Records payments against debts (by hand or from card-payment transactions), keeping
+// each debt's balance and paid-off state in step
+
+import type { Debt as PrismaDebt, DebtPaymentSource, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { normalizeMerchant } from '@/lib/services/auto-categorize';
+import { getInterestRateAt } from '@/lib/services/debt-calculator';
+import { splitPayment } from '@/lib/services/debt-progress';
+import { serializeDebt, serializeDebtPayment } from './schemas';
+import type { Debt, DebtPayment, TransactionKind } from '@/types';
+
+// Payments older than this aren't matched from transactions
+const MATCH_LOOKBACK_DAYS = 60;
+
+// Credits on a card or loan account that don't pay it down
+const NON_PAYMENT_CREDIT_PATTERN =
+  /cash ?back|statement credit|\brewards?\b|redemption|\bpoints\b|interest (charge )?(adj|adjustment|credit|reversal)|\bfee (reversal|credit|waiver)\b|courtesy credit|promo(tional)? credit|provisional credit|\bdispute\b/i;
+
+// Words that mark a checking-account debit as a payment toward a card or loan
+const PAYMENT_PATTERN = /\b(payment|pmt|pymt|autopay|auto pay|epay|loan)\b/i;
+
+interface DebtPaymentInput {
+  amount: number;
+  date: Date;
+  note?: string | null;
+  transactionId?: string | null;
+  source: DebtPaymentSource;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function monthRange(date: Date): { gte: Date; lt: Date } {
+  return {
+    gte: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+    lt: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * The change a debt's stored balance calls for: a balance taken below zero is
+ * clamped to it, reaching zero pays the debt off on `date`, and a balance back
+ * above zero reopens it
+ */
+export function settleDebtBalance(
+  debt: { balance: Prisma.Decimal; isPaidOff: boolean },
+  date: Date
+): Prisma.DebtUpdateInput {
+  const clamp = debt.balance.lt(0) ? { balance: 0 } : {};
+  if (debt.balance.lte(0) && !debt.isPaidOff) return { ...clamp, isPaidOff: true, paidOffDate: date };
+  if (debt.balance.gt(0) && debt.isPaidOff) return { isPaidOff: false, paidOffDate: null };
+  return clamp;
+}
+
+// Apply a settle change, skipping the write when there's nothing to change
+async function settleDebt(tx: Prisma.TransactionClient, debt: PrismaDebt, date: Date): Promise<PrismaDebt> {
+  const change = settleDebtBalance(debt, date);
+  if (Object.keys(change).length === 0) return debt;
+  return tx.debt.update({ where: { id: debt.id }, data: change });
+}
+
+/**
+ * A user's payments, newest first, optionally for one debt
+ */
+export async function listDebtPayments(userId: string, debtId?: string): Promise<DebtPayment[]> {
+  const payments = await prisma.debtPayment.findMany({
+    where: { userId, ...(debtId ? { debtId } : {}) },
+    orderBy: { date: 'desc' },
+  });
+  return payments.map(serializeDebtPayment);
+}
+
+/**
+ * Record a payment and bring the debt down by its principal. A debt linked to an
+ * account keeps the balance Plaid reports, since that already includes the payment.
+ * Reaching zero marks the debt paid off on the payment's date.
+ * Returns null if the debt isn't theirs.
+ */
+export async function recordDebtPayment(
+  userId: string,
+  debtId: string,
+  input: DebtPaymentInput
+): Promise<{ payment: DebtPayment; debt: Debt } | null> {
+  const debt = await prisma.debt.findFirst({ where: { id: debtId, userId } });
+  if (!debt) return null;
+
+  const paymentsThisMonth = await prisma.debtPayment.count({
+    where: { debtId, date: monthRange(input.date) },
+  });
+
+  const balance = debt.balance.toNumber();
+  const { principal, interest } = splitPayment(
+    balance,
+    getInterestRateAt(
+      {
+        interestRate: debt.interestRate.toNumber(),
+        promoRate: debt.promoRate?.toNumber() ?? null,
+        promoEndDate: debt.promoEndDate,
+      },
+      input.date
+    ),
+    input.amount,
+    paymentsThisMonth === 0
+  );
+
+  const [payment, updated] = await prisma.$transaction(async (tx) => {
+    // Taken off in the database so payments recorded at the same time both land
+    const adjusted = debt.accountId
+      ? await tx.debt.findUniqueOrThrow({ where: { id: debtId } })
+      : await tx.debt.update({ where: { id: debtId }, data: { balance: { decrement: principal } } });
+    const settled = await settleDebt(tx, adjusted, input.date);
+
+    const created = await tx.debtPayment.create({
+      data: {
+        userId,
+        debtId,
+        transactionId: input.transactionId ?? null,
+        amount: input.amount,
+        principal,
+        interest,
+        balanceAfter: settled.balance,
+        date: input.date,
+        source: input.source,
+        note: input.note ?? null,
+      },
+    });
+    return [created, settled] as const;
+  });
+
+  return { payment: serializeDebtPayment(payment), debt: serializeDebt(updated) };
+}
+
+/**
+ * Remove a payment and put its principal back on the debt (unless the balance
+ * syncs from an account), reopening the debt if that takes it above zero.
+ * Returns the updated debt, or null if the payment isn't theirs.
+ */
+export async function deleteDebtPayment(userId: string, paymentId: string): Promise<Debt | null> {
+  const payment = await prisma.debtPayment.findFirst({
+    where: { id: paymentId, userId },
+    include: { debt: { select: { accountId: true } } },
+  });
+  if (!payment) return null;
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.debtPayment.delete({ where: { id: payment.id } });
+    const adjusted = payment.debt.accountId
+      ? await tx.debt.findUniqueOrThrow({ where: { id: payment.debtId } })
+      : await tx.debt.update({ where: { id: payment.debtId }, data: { balance: { increment: payment.principal } } });
+    return settleDebt(tx, adjusted, new Date());
+  });
+
+  return serializeDebt(updated);
+}
+
+/**
+ * Whether a credit on a card or loan account is the user paying it down, rather
+ * than cashback, a statement credit or some other adjustment
+ */
+export function isPaymentCredit(txn: { description: string; defaultCategory: string | null }): boolean {
+  return txn.defaultCategory !== 'INCOME' && !NON_PAYMENT_CREDIT_PATTERN.test(txn.description);
+}
+
+/**
+ * The manual debt a checking-account payment is for: the description has to read
+ * as a payment and name exactly one of the debts
+ */
+export function findPaidDebt<T extends { name: string }>(debts: T[], description: string): T | null {
+  if (!PAYMENT_PATTERN.test(description)) return null;
+
+  const text = ` ${normalizeMerchant(description)} `;
+  const matches = debts.filter((d) => {
+    const name = normalizeMerchant(d.name);
+    return name.length > 0 && text.includes(` ${name} `);
+  });
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Add payments found among recent transactions to the ledger. Money coming into
+ * a linked credit card or loan account pays down its debt, except cashback and
+ * other credits that aren't payments. A payment going out of a checking account
+ * that names a manual debt pays that debt down, if it's dated after the debt was
+ * added. Refunds and pending transactions are left out. Returns how many
+ * payments were recorded.
+ */
+export async function matchDebtPayments(userId: string): Promise<number> {
+  const debts = await prisma.debt.findMany({
+    where: { userId },
+    select: { id: true, name: true, accountId: true, isPaidOff: true, createdAt: true },
+  });
+  if (debts.length === 0) return 0;
+
+  const debtByAccount = new Map(debts.flatMap((d) => (d.accountId ? [[d.accountId, d.id] as const] : [])));
+  const manualDebts = debts.filter((d) => d.accountId === null && !d.isPaidOff);
+  const since = new Date(Date.now() - MATCH_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      userId,
+      pending: false,
+      kind: { not: 'REFUND' },
+      date: { gte: since },
+      debtPayment: { is: null },
+      OR: [
+        { accountId: { in: [...debtByAccount.keys()] }, inflow: true },
+        ...(manualDebts.length > 0
+          ? [{ account: { type: 'depository' }, inflow: false, kind: { in: ['DEBIT', 'TRANSFER'] as TransactionKind[] } }]
+          : []),
+      ],
+    },
+    select: { id: true, accountId: true, amount: true, inflow: true, date: true, description: true, defaultCategory: true },
+    orderBy: { date: 'asc' },
+  });
+
+  let recorded = 0;
+  for (const txn of transactions) {
+    let debtId: string | null = null;
+    if (txn.inflow) {
+      debtId = isPaymentCredit(txn) ? debtByAccount.get(txn.accountId as string) ?? null : null;
+    } else {
+      // Payments made before the debt was added are already reflected in the balance entered
+      const debt = findPaidDebt(manualDebts, txn.description);
+      debtId = debt && txn.date >= startOfDay(debt.createdAt) ? debt.id : null;
+    }
+    if (!debtId) continue;
+
+    await recordDebtPayment(userId, debtId, {
+      amount: txn.amount.toNumber(),
+      date: txn.date,
+      note: txn.description,
+      transactionId: txn.id,
+      source: 'TRANSACTION',
+    });
+    recorded++;
+  }
+
+  return recorded;
+}
@@ -0,0 +1,88 @@
+// Debt validation schemas and serialization
+// Shared by the /api/debts route family
+
+import { z } from 'zod';
+import type { Debt as PrismaDebt, DebtPayment as PrismaDebtPayment } from '@prisma/client';
+import type { Debt, DebtPayment } from '@/types';
+
+export const CreateDebtSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  balance: z.number().nonnegative(),
+  interestRate: z.number().min(0).max(1), // As decimal (0.1999 = 19.99%)
+  minimumPayment: z.number().nonnegative(),
+  dueDate: z.number().int().min(1).max(31).nullable().optional(),
+  priority: z.number().int().min(0).optional(),
+  originalBalance: z.number().nonnegative().nullable().optional(),
+  promoRate: z.number().min(0).max(1).nullable().optional(),
+  promoEndDate: z.coerce.date().nullable().optional(),
+  transferFee: z.number().nonnegative().nullable().optional(),
+  minimumPaymentPercent: z.number().min(0).max(1).nullable().optional(),
+});
+
+export const UpdateDebtSchema = CreateDebtSchema.partial().extend({
+  isPaidOff: z.boolean().optional(),
+});
+
+export const LinkDebtSchema = z.object({
+  accountId: z.string().min(1),
+});
+
+// A manual payment needs an amount; attaching a transaction takes its amount and date
+export const CreateDebtPaymentSchema = z
+  .object({
+    amount: z.number().positive().optional(),
+    date: z.coerce.date().optional(),
+    note: z.string().trim().max(200).nullable().optional(),
+    transactionId: z.string().min(1).optional(),
+  })
+  .refine((data) => data.amount !== undefined || data.transactionId !== undefined, {
+    message: 'Provide an amount or a transactionId',
+  });
+
+/**
+ * Convert a Prisma debt row into the client-facing Debt shape
+ */
+export function serializeDebt(debt: PrismaDebt): Debt {
+  return {
+    id: debt.id,
+    userId: debt.userId,
+    name: debt.name,
+    balance: debt.balance.toNumber(),
+    interestRate: debt.interestRate.toNumber(),
+    minimumPayment: debt.minimumPayment.toNumber(),
+    dueDate: debt.dueDate,
+    priority: debt.priority,
+    isPaidOff: debt.isPaidOff,
+    paidOffDate: debt.paidOffDate,
+    originalBalance: debt.originalBalance ? debt.originalBalance.toNumber() : null,
+    promoRate: debt.promoRate ? debt.promoRate.toNumber() : null,
+    promoEndDate: debt.promoEndDate,
+    transferFee: debt.transferFee ? debt.transferFee.toNumber() : null,
+    transferFeeAppliedAt: debt.transferFeeAppliedAt,
+    minimumPaymentPercent: debt.minimumPaymentPercent ? debt.minimumPaymentPercent.toNumber() : null,
+    accountId: debt.accountId,
+    liabilityType: debt.liabilityType as Debt['liabilityType'],
+    syncedAt: debt.syncedAt,
+    createdAt: debt.createdAt,
+    updatedAt: debt.updatedAt,
+  };
+}
+
+/**
+ * Convert a Prisma debt payment row into the client-facing DebtPayment shape
+ */
+export function serializeDebtPayment(payment: PrismaDebtPayment): DebtPayment {
+  return {
+    id: payment.id,
+    debtId: payment.debtId,
+    transactionId: payment.transactionId,
+    amount: payment.amount.toNumber(),
+    principal: payment.principal.toNumber(),
+    interest: payment.interest.toNumber(),
+    balanceAfter: payment.balanceAfter.toNumber(),
+    date: payment.date,
+    source: payment.source,
+    note: payment.note,
+    createdAt: payment.createdAt,
+  };
+}
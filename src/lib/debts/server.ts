@@ -0,0 +1,94 @@
+// Server-side helpers for debts
+// Listing, and linking planner debts to the credit card or loan accounts they sync from
+
+import { prisma } from '@/lib/db/prisma';
+import { serializeDebt } from './schemas';
+import type { Debt } from '@/types';
+
+// Plaid account types that can back a debt
+const LIABILITY_ACCOUNT_TYPES = ['credit', 'loan'];
+
+/**
+ * A user's debts in payoff order, paid-off debts last
+ */
+export async function listDebts(userId: string): Promise<Debt[]> {
+  const debts = await prisma.debt.findMany({
+    where: { userId },
+    orderBy: [{ isPaidOff: 'asc' }, { priority: 'asc' }, { createdAt: 'asc' }],
+  });
+  return debts.map(serializeDebt);
+}
+
+/**
+ * Link a debt to a credit card or loan account so its balance and terms sync from
+ * Plaid. If the account already has an imported debt, that debt's synced figures
+ * move onto this one and the duplicate is deleted. Returns null if the debt or
+ * account isn't theirs, or the account isn't a credit card or loan.
+ */
+export async function linkDebtToAccount(userId: string, debtId: string, accountId: string): Promise<Debt | null> {
+  const [debt, account] = await Promise.all([
+    prisma.debt.findFirst({ where: { id: debtId, userId } }),
+    prisma.financialAccount.findFirst({
+      where: { id: accountId, userId, type: { in: LIABILITY_ACCOUNT_TYPES } },
+      include: { debt: true },
+    }),
+  ]);
+  if (!debt || !account) return null;
+
+  const imported = account.debt && account.debt.id !== debt.id ? account.debt : null;
+  const synced = imported
+    ? {
+        balance: imported.balance,
+        interestRate: imported.interestRate,
+        minimumPayment: imported.minimumPayment,
+        dueDate: imported.dueDate,
+        liabilityType: imported.liabilityType,
+        syncedAt: imported.syncedAt,
+      }
+    : account.currentBalance !== null
+      ? { balance: account.currentBalance }
+      : {};
+
+  const linked = await prisma.$transaction(async (tx) => {
+    if (imported) await tx.debt.delete({ where: { id: imported.id } });
+    await tx.financialAccount.update({ where: { id: account.id }, data: { trackAsDebt: true } });
+    return tx.debt.update({ where: { id: debt.id }, data: { ...synced, accountId: account.id } });
+  });
+
+  return serializeDebt(linked);
+}
+
+/**
+ * Turn a linked debt back into a manual one. The account stops being imported so
+ * the debt isn't duplicated on the next sync. Returns null if the debt isn't theirs.
+ */
+export async function unlinkDebt(userId: string, debtId: string): Promise<Debt | null> {
+  const debt = await prisma.debt.findFirst({ where: { id: debtId, userId } });
+  if (!debt) return null;
+  if (!debt.accountId) return serializeDebt(debt);
+
+  const [, unlinked] = await prisma.$transaction([
+    prisma.financialAccount.update({ where: { id: debt.accountId }, data: { trackAsDebt: false } }),
+    prisma.debt.update({ where: { id: debt.id }, data: { accountId: null, syncedAt: null } }),
+  ]);
+
+  return serializeDebt(unlinked);
+}
+
+/**
+ * Delete a debt. A linked account is excluded from future imports, otherwise the
+ * next sync would bring the debt straight back. Returns false if it isn't theirs.
+ */
+export async function deleteDebt(userId: string, debtId: string): Promise<boolean> {
+  const debt = await prisma.debt.findFirst({ where: { id: debtId, userId } });
+  if (!debt) return false;
+
+  await prisma.$transaction([
+    ...(debt.accountId
+      ? [prisma.financialAccount.update({ where: { id: debt.accountId }, data: { trackAsDebt: false } })]
+      : []),
+    prisma.debt.delete({ where: { id: debt.id } }),
+  ]);
+
+  return true;
+}
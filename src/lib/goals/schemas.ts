@@ -0,0 +1,55 @@
+// Goal validation schemas and serialization
+// Shared by the /api/goals route family
+
+import { z } from 'zod';
+import type { Goal as PrismaGoal } from '@prisma/client';
+import type { Goal, GoalTargetConfig } from '@/types';
+
+export const GoalTargetConfigSchema = z.object({
+  zone: z.enum(['UNCATEGORIZED', 'GREEN', 'YELLOW', 'RED']).optional(),
+  budgetId: z.string().min(1).optional(),
+  amount: z.number().nonnegative().optional(),
+  period: z.enum(['daily', 'weekly', 'monthly']).optional(),
+  minPercent: z.number().min(0).max(100).optional(),
+  maxPercent: z.number().min(0).max(100).optional(),
+  avoidDays: z.number().int().positive().optional(),
+  targetDate: z.string().optional(),
+});
+
+export const GoalTypeSchema = z.enum(['SPENDING_LIMIT', 'ZONE_RATIO', 'STREAK', 'SAVINGS_TARGET']);
+export const GoalStatusSchema = z.enum(['ACTIVE', 'COMPLETED', 'FAILED', 'PAUSED']);
+
+export const CreateGoalSchema = z.object({
+  type: GoalTypeSchema,
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  targetConfig: GoalTargetConfigSchema,
+  targetValue: z.number().nonnegative(),
+  endDate: z.coerce.date().nullable().optional(),
+});
+
+export const UpdateGoalSchema = CreateGoalSchema.partial().extend({
+  status: GoalStatusSchema.optional(),
+  currentValue: z.number().nullable().optional(),
+});
+
+/**
+ * Convert a Prisma goal row into the client-facing Goal shape
+ */
+export function serializeGoal(goal: PrismaGoal): Goal {
+  return {
+    id: goal.id,
+    userId: goal.userId,
+    type: goal.type,
+    status: goal.status,
+    name: goal.name,
+    description: goal.description,
+    targetConfig: goal.targetConfig as GoalTargetConfig,
+    currentValue: goal.currentValue ? goal.currentValue.toNumber() : null,
+    targetValue: goal.targetValue.toNumber(),
+    startDate: goal.startDate,
+    endDate: goal.endDate,
+    createdAt: goal.createdAt,
+    updatedAt: goal.updatedAt,
+  };
+}
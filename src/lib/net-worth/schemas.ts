@@ -0,0 +1,45 @@
+// Net worth validation schemas and serialization
+// Shared by the /api/net-worth route family
+
+import { z } from 'zod';
+import type {
+  ManualAsset as PrismaManualAsset,
+  NetWorthSnapshot as PrismaNetWorthSnapshot,
+} from '@prisma/client';
+import type { ManualAsset, NetWorthBreakdown, NetWorthSnapshot } from '@/types';
+
+export const AssetTypeSchema = z.enum(['CASH', 'PROPERTY', 'VEHICLE', 'INVESTMENT', 'OTHER']);
+
+export const CreateManualAssetSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  type: AssetTypeSchema.optional(),
+  value: z.number().nonnegative(),
+});
+
+export const UpdateManualAssetSchema = CreateManualAssetSchema.partial();
+
+/**
+ * Convert a Prisma manual asset row into the client-facing shape
+ */
+export function serializeManualAsset(asset: PrismaManualAsset): ManualAsset {
+  return {
+    id: asset.id,
+    name: asset.name,
+    type: asset.type,
+    value: asset.value.toNumber(),
+    updatedAt: asset.updatedAt,
+  };
+}
+
+/**
+ * Convert a Prisma snapshot row into the client-facing shape
+ */
+export function serializeNetWorthSnapshot(snapshot: PrismaNetWorthSnapshot): NetWorthSnapshot {
+  return {
+    date: snapshot.date,
+    totalAssets: snapshot.totalAssets.toNumber(),
+    totalLiabilities: snapshot.totalLiabilities.toNumber(),
+    netWorth: snapshot.netWorth.toNumber(),
+    breakdown: snapshot.breakdown as unknown as NetWorthBreakdown,
+  };
+}
@@ -0,0 +1,98 @@
+// Server-side helpers for net worth
+// Records one snapshot per user per day and builds the history shown in the planner
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { calculateMonthOverMonth, calculateNetWorth } from '@/lib/services/net-worth-calculator';
+import { serializeManualAsset, serializeNetWorthSnapshot } from './schemas';
+import type { NetWorthSnapshot, NetWorthSummary } from '@/types';
+
+// A year of daily points is plenty for the chart and the month-over-month figure
+const HISTORY_DAYS = 365;
+
+// Snapshots are keyed by calendar day (UTC)
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Save today's net worth from current balances, manual assets, debts and savings
+ * goals. Re-running on the same day overwrites that day's snapshot. Returns null
+ * (and saves nothing) for a user with nothing to add up yet.
+ */
+export async function recordNetWorthSnapshot(userId: string): Promise<NetWorthSnapshot | null> {
+  const [accounts, manualAssets, debts, savingsGoals] = await Promise.all([
+    prisma.financialAccount.findMany({
+      where: { userId, plaidConnection: { isActive: true } },
+      select: { type: true, currentBalance: true },
+    }),
+    prisma.manualAsset.findMany({ where: { userId }, select: { value: true } }),
+    // Linked debts are already counted through their account's balance
+    prisma.debt.findMany({
+      where: { userId, OR: [{ accountId: null }, { account: { plaidConnection: { isActive: false } } }] },
+      select: { balance: true, isPaidOff: true },
+    }),
+    // Likewise linked savings goals, whose money already sits in their account's balance
+    prisma.savingsGoal.findMany({
+      where: { userId, OR: [{ accountId: null }, { account: { plaidConnection: { isActive: false } } }] },
+      select: { currentAmount: true, isCompleted: true },
+    }),
+  ]);
+
+  if (accounts.length + manualAssets.length + debts.length + savingsGoals.length === 0) {
+    return null;
+  }
+
+  const totals = calculateNetWorth({
+    accounts: accounts.map((a) => ({ type: a.type, currentBalance: a.currentBalance?.toNumber() ?? null })),
+    manualAssets: manualAssets.map((a) => ({ value: a.value.toNumber() })),
+    debts: debts.map((d) => ({ balance: d.balance.toNumber(), isPaidOff: d.isPaidOff })),
+    savingsGoals: savingsGoals.map((g) => ({ currentAmount: g.currentAmount.toNumber(), isCompleted: g.isCompleted })),
+  });
+
+  const date = startOfDay(new Date());
+  const data = {
+    totalAssets: totals.totalAssets,
+    totalLiabilities: totals.totalLiabilities,
+    netWorth: totals.netWorth,
+    breakdown: totals.breakdown as unknown as Prisma.InputJsonValue,
+  };
+
+  const snapshot = await prisma.netWorthSnapshot.upsert({
+    where: { userId_date: { userId, date } },
+    create: { userId, date, ...data },
+    update: data,
+  });
+
+  return serializeNetWorthSnapshot(snapshot);
+}
+
+/**
+ * Today's net worth (refreshed), the stored history and the change from a month ago
+ */
+export async function getNetWorthSummary(userId: string): Promise<NetWorthSummary> {
+  const current = await recordNetWorthSnapshot(userId);
+
+  const since = startOfDay(new Date());
+  since.setUTCDate(since.getUTCDate() - HISTORY_DAYS);
+
+  const [snapshots, assets] = await Promise.all([
+    prisma.netWorthSnapshot.findMany({
+      where: { userId, date: { gte: since } },
+      orderBy: { date: 'asc' },
+    }),
+    prisma.manualAsset.findMany({
+      where: { userId },
+      orderBy: { value: 'desc' },
+    }),
+  ]);
+
+  const history = snapshots.map(serializeNetWorthSnapshot);
+
+  return {
+    current,
+    history,
+    monthOverMonth: calculateMonthOverMonth(history),
+    assets: assets.map(serializeManualAsset),
+  };
+}
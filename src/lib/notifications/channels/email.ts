@@ -0,0 +1,59 @@
+// Email notification channel
+// Sends alert notifications over SMTP (any SMTP server, including a local sink such as Mailpit)
+
+import nodemailer, { type Transporter } from 'nodemailer';
+import { ChannelSkippedError, type NotificationChannelAdapter } from '@/lib/notifications/types';
+
+const SMTP_HOST = process.env.SMTP_HOST;
+const SMTP_PORT = parseInt(process.env.SMTP_PORT || '587', 10);
+const SMTP_USER = process.env.SMTP_USER;
+const SMTP_PASS = process.env.SMTP_PASS;
+const SMTP_SECURE = process.env.SMTP_SECURE === 'true';
+const EMAIL_FROM = process.env.EMAIL_FROM || 'SpendSignal <alerts@spendsignal.app>';
+
+let transporter: Transporter | null = null;
+
+// Check if SMTP is configured
+export function isEmailConfigured(): boolean {
+  return Boolean(SMTP_HOST);
+}
+
+function getTransporter(): Transporter {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: SMTP_HOST,
+      port: SMTP_PORT,
+      secure: SMTP_SECURE,
+      auth: SMTP_USER ? { user: SMTP_USER, pass: SMTP_PASS } : undefined,
+    });
+  }
+  return transporter;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export const emailAdapter: NotificationChannelAdapter = {
+  channel: 'EMAIL',
+  async send({ title, message, recipient }) {
+    if (!isEmailConfigured()) {
+      throw new ChannelSkippedError('SMTP is not configured');
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const alertsUrl = `${appUrl}/dashboard/alerts`;
+
+    await getTransporter().sendMail({
+      from: EMAIL_FROM,
+      to: recipient.email,
+      subject: `SpendSignal: ${title}`,
+      text: `${message}\n\nView your alerts: ${alertsUrl}`,
+      html: `<p><strong>${escapeHtml(title)}</strong></p><p>${escapeHtml(message)}</p><p><a href="${alertsUrl}">View your alerts</a></p>`,
+    });
+  },
+};
@@ -0,0 +1,11 @@
+// In-app notification channel
+// The AlertNotification row itself is the in-app delivery, so there is nothing to send
+
+import type { NotificationChannelAdapter } from '@/lib/notifications/types';
+
+export const inAppAdapter: NotificationChannelAdapter = {
+  channel: 'IN_APP',
+  async send() {
+    // Row already exists and is read by the alerts page
+  },
+};
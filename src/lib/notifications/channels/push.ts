@@ -0,0 +1,79 @@
+// Web Push notification channel
+// Sends alert notifications to every browser subscription the user registered (VAPID)
+
+import webpush, { WebPushError } from 'web-push';
+import { prisma } from '@/lib/db/prisma';
+import { ChannelSkippedError, type NotificationChannelAdapter } from '@/lib/notifications/types';
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY;
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:alerts@spendsignal.app';
+
+let vapidInitialized = false;
+
+// Check if Web Push is configured
+export function isPushConfigured(): boolean {
+  return Boolean(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY);
+}
+
+function ensureVapid() {
+  if (!vapidInitialized) {
+    webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY!, VAPID_PRIVATE_KEY!);
+    vapidInitialized = true;
+  }
+}
+
+export const pushAdapter: NotificationChannelAdapter = {
+  channel: 'PUSH',
+  async send({ notificationId, alertId, title, message, recipient }) {
+    if (!isPushConfigured()) {
+      throw new ChannelSkippedError('Web Push is not configured');
+    }
+
+    const subscriptions = await prisma.pushSubscription.findMany({
+      where: { userId: recipient.userId },
+    });
+
+    if (subscriptions.length === 0) {
+      throw new ChannelSkippedError('No push subscriptions registered');
+    }
+
+    ensureVapid();
+
+    const payload = JSON.stringify({
+      title,
+      body: message,
+      url: '/dashboard/alerts',
+      notificationId,
+      alertId,
+    });
+
+    let delivered = 0;
+    const failures: string[] = [];
+
+    for (const sub of subscriptions) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+          payload
+        );
+        delivered++;
+      } catch (error) {
+        // Subscription expired or was revoked by the browser - stop sending to it
+        if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+          await prisma.pushSubscription.delete({ where: { id: sub.id } }).catch(() => undefined);
+          continue;
+        }
+        failures.push(error instanceof Error ? error.message : 'Unknown push error');
+      }
+    }
+
+    if (delivered === 0 && failures.length > 0) {
+      throw new Error(failures.join('; '));
+    }
+
+    if (delivered === 0) {
+      throw new ChannelSkippedError('All push subscriptions have expired');
+    }
+  },
+};
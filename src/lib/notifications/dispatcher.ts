@@ -0,0 +1,189 @@
+// Notification Dispatcher
+// Delivers AlertNotification rows through each channel on the alert, recording attempts per channel
+
+import { prisma } from '@/lib/db/prisma';
+import type { AlertChannel } from '@/types';
+import { ChannelSkippedError, type ChannelMessage, type NotificationChannelAdapter } from '@/lib/notifications/types';
+import { inAppAdapter } from '@/lib/notifications/channels/in-app';
+import { emailAdapter } from '@/lib/notifications/channels/email';
+import { pushAdapter } from '@/lib/notifications/channels/push';
+
+// Attempts per channel. A dispatch tries once; retryFailedDeliveries makes the rest,
+// waiting longer after each failure, so a flaky channel never stalls sync or import.
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+// Notifications retried per run, so one run stays inside the function time limit
+const RETRY_BATCH_SIZE = 100;
+
+const adapters: Record<AlertChannel, NotificationChannelAdapter> = {
+  IN_APP: inAppAdapter,
+  EMAIL: emailAdapter,
+  PUSH: pushAdapter,
+};
+
+export interface DeliveryResult {
+  channel: AlertChannel;
+  status: 'SENT' | 'FAILED' | 'SKIPPED';
+  attempts: number;
+  error: string | null;
+}
+
+/**
+ * Replace the adapter for a channel (e.g. to point EMAIL at a different transport)
+ */
+export function registerChannelAdapter(adapter: NotificationChannelAdapter) {
+  adapters[adapter.channel] = adapter;
+}
+
+async function recordSkipped(notificationId: string, channel: AlertChannel, reason: string): Promise<DeliveryResult> {
+  await prisma.notificationDelivery.upsert({
+    where: { notificationId_channel: { notificationId, channel } },
+    create: { notificationId, channel, status: 'SKIPPED', lastError: reason },
+    update: { status: 'SKIPPED', lastError: reason },
+  });
+  return { channel, status: 'SKIPPED', attempts: 0, error: reason };
+}
+
+/**
+ * Deliver one message through one channel. Failures are recorded as FAILED for
+ * retryFailedDeliveries to pick up.
+ */
+async function deliver(channel: AlertChannel, message: ChannelMessage): Promise<DeliveryResult> {
+  const { notificationId } = message;
+  const delivery = await prisma.notificationDelivery.upsert({
+    where: { notificationId_channel: { notificationId, channel } },
+    create: { notificationId, channel },
+    update: {},
+  });
+
+  if (delivery.status !== 'PENDING') {
+    return { channel, status: delivery.status, attempts: delivery.attempts, error: delivery.lastError };
+  }
+
+  const attempts = delivery.attempts + 1;
+
+  try {
+    await adapters[channel].send(message);
+    await prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'SENT', attempts, lastAttemptAt: new Date(), sentAt: new Date(), lastError: null },
+    });
+    return { channel, status: 'SENT', attempts, error: null };
+  } catch (error) {
+    if (error instanceof ChannelSkippedError) {
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'SKIPPED', attempts, lastAttemptAt: new Date(), lastError: error.message },
+      });
+      return { channel, status: 'SKIPPED', attempts, error: error.message };
+    }
+
+    const lastError = error instanceof Error ? error.message : 'Unknown delivery error';
+    await prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'FAILED', attempts, lastAttemptAt: new Date(), lastError },
+    });
+    console.error(`Notification ${notificationId} failed on ${channel} (attempt ${attempts}):`, lastError);
+
+    return { channel, status: 'FAILED', attempts, error: lastError };
+  }
+}
+
+/**
+ * Dispatch a notification through every channel configured on its alert.
+ * EMAIL is skipped when the user has turned off email notifications.
+ */
+export async function dispatchNotification(notificationId: string): Promise<DeliveryResult[]> {
+  const notification = await prisma.alertNotification.findUnique({
+    where: { id: notificationId },
+    include: {
+      alert: {
+        include: {
+          user: { include: { preferences: true } },
+        },
+      },
+    },
+  });
+
+  if (!notification) {
+    throw new Error(`Notification ${notificationId} not found`);
+  }
+
+  const { alert } = notification;
+  const message: ChannelMessage = {
+    notificationId: notification.id,
+    alertId: alert.id,
+    title: notification.title,
+    message: notification.message,
+    data: notification.data as Record<string, unknown> | null,
+    recipient: {
+      userId: alert.user.id,
+      email: alert.user.email,
+      name: alert.user.name,
+    },
+  };
+
+  const results: DeliveryResult[] = [];
+
+  for (const channel of alert.channels) {
+    if (channel === 'EMAIL' && alert.user.preferences && !alert.user.preferences.emailNotifications) {
+      results.push(await recordSkipped(notification.id, channel, 'Email notifications disabled by user'));
+      continue;
+    }
+    results.push(await deliver(channel, message));
+  }
+
+  return results;
+}
+
+/**
+ * Dispatch several notifications; a failure on one never blocks the others
+ */
+export async function dispatchNotifications(notificationIds: string[]) {
+  for (const id of notificationIds) {
+    try {
+      await dispatchNotification(id);
+    } catch (error) {
+      console.error(`Error dispatching notification ${id}:`, error);
+    }
+  }
+}
+
+/**
+ * Re-attempt failed deliveries that still have attempts left and whose backoff
+ * has passed (run on a schedule). The longest-waiting notifications go first, up
+ * to `batchSize`; the rest wait for the next run. Returns the number of
+ * notifications retried.
+ */
+export async function retryFailedDeliveries(
+  maxAgeHours: number = 48,
+  now: Date = new Date(),
+  batchSize: number = RETRY_BATCH_SIZE
+): Promise<number> {
+  const since = new Date(now.getTime() - maxAgeHours * 60 * 60 * 1000);
+
+  const failed = await prisma.notificationDelivery.findMany({
+    where: { status: 'FAILED', attempts: { lt: MAX_ATTEMPTS }, createdAt: { gte: since } },
+    select: { id: true, notificationId: true, attempts: true, lastAttemptAt: true },
+    orderBy: { lastAttemptAt: 'asc' },
+  });
+
+  // Wait 5, then 10 minutes after each failed attempt
+  const due = failed.filter(
+    (d) => !d.lastAttemptAt || now.getTime() - d.lastAttemptAt.getTime() >= RETRY_BASE_DELAY_MS * 2 ** (d.attempts - 1)
+  );
+  if (due.length === 0) return 0;
+
+  const notificationIds = [...new Set(due.map((d) => d.notificationId))].slice(0, batchSize);
+  const batch = new Set(notificationIds);
+
+  // Reset to PENDING so dispatchNotification picks them up again
+  await prisma.notificationDelivery.updateMany({
+    where: { id: { in: due.filter((d) => batch.has(d.notificationId)).map((d) => d.id) } },
+    data: { status: 'PENDING' },
+  });
+
+  await dispatchNotifications(notificationIds);
+
+  return notificationIds.length;
+}
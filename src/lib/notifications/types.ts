@@ -0,0 +1,38 @@
+// Notification channel types
+// Shared contract between the dispatcher and each delivery channel adapter
+
+import type { AlertChannel } from '@/types';
+
+export interface NotificationRecipient {
+  userId: string;
+  email: string;
+  name: string | null;
+}
+
+export interface ChannelMessage {
+  notificationId: string;
+  alertId: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown> | null;
+  recipient: NotificationRecipient;
+}
+
+export interface NotificationChannelAdapter {
+  channel: AlertChannel;
+  /**
+   * Deliver a message. Throw ChannelSkippedError when the channel does not apply
+   * (not configured, no subscriptions); any other error is retried.
+   */
+  send(message: ChannelMessage): Promise<void>;
+}
+
+/**
+ * Thrown by adapters when delivery should be skipped rather than retried
+ */
+export class ChannelSkippedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChannelSkippedError';
+  }
+}
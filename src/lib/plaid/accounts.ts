@@ -0,0 +1,114 @@
+// Plaid accounts
+// Keeps FinancialAccount rows (type, mask, balances, credit limit) in step with a connection's
+// accounts, and links transactions that were stored before their account was known
+
+import { Prisma, type PlaidConnection } from '@prisma/client';
+import type { AccountBase } from 'plaid';
+import { prisma } from '@/lib/db/prisma';
+import { plaidClient, withAccessToken } from '@/lib/plaid/client';
+import type { FinancialAccount } from '@/types';
+
+const accountInclude = {
+  plaidConnection: { select: { institutionName: true } },
+} satisfies Prisma.FinancialAccountInclude;
+
+type AccountWithConnection = Prisma.FinancialAccountGetPayload<{ include: typeof accountInclude }>;
+
+const toNumber = (value: Prisma.Decimal | null) => (value === null ? null : value.toNumber());
+
+export function serializeFinancialAccount(account: AccountWithConnection): FinancialAccount {
+  return {
+    id: account.id,
+    plaidConnectionId: account.plaidConnectionId,
+    institutionName: account.plaidConnection.institutionName,
+    name: account.name,
+    officialName: account.officialName,
+    mask: account.mask,
+    type: account.type,
+    subtype: account.subtype,
+    currentBalance: toNumber(account.currentBalance),
+    availableBalance: toNumber(account.availableBalance),
+    creditLimit: toNumber(account.creditLimit),
+    isoCurrencyCode: account.isoCurrencyCode,
+    balanceUpdatedAt: account.balanceUpdatedAt,
+  };
+}
+
+/**
+ * A user's accounts on active connections, grouped by institution
+ */
+export async function listAccounts(userId: string): Promise<FinancialAccount[]> {
+  const accounts = await prisma.financialAccount.findMany({
+    where: { userId, plaidConnection: { isActive: true } },
+    include: accountInclude,
+    orderBy: [{ plaidConnection: { institutionName: 'asc' } }, { name: 'asc' }],
+  });
+  return accounts.map(serializeFinancialAccount);
+}
+
+/**
+ * Upsert a connection's accounts with their latest balances. `realtime` asks Plaid's
+ * balance endpoint for live figures (slower, billed per call); otherwise the balances
+ * cached from Plaid's last item update are used.
+ * Returns how many accounts were saved.
+ */
+export async function refreshAccounts(
+  connection: PlaidConnection,
+  options: { realtime?: boolean } = {}
+): Promise<number> {
+  const response = options.realtime
+    ? await plaidClient.accountsBalanceGet(withAccessToken(connection, {}))
+    : await plaidClient.accountsGet(withAccessToken(connection, {}));
+
+  const balanceUpdatedAt = new Date();
+
+  for (const account of response.data.accounts) {
+    const data = toAccountData(account, balanceUpdatedAt);
+    await prisma.financialAccount.upsert({
+      where: { plaidAccountId: account.account_id },
+      create: {
+        ...data,
+        userId: connection.userId,
+        plaidConnectionId: connection.id,
+        plaidAccountId: account.account_id,
+      },
+      update: data,
+    });
+  }
+
+  await linkTransactionsToAccounts(connection.id);
+
+  return response.data.accounts.length;
+}
+
+function toAccountData(account: AccountBase, balanceUpdatedAt: Date) {
+  return {
+    name: account.name,
+    officialName: account.official_name ?? null,
+    mask: account.mask ?? null,
+    type: account.type,
+    subtype: account.subtype ?? null,
+    currentBalance: account.balances.current,
+    availableBalance: account.balances.available,
+    creditLimit: account.balances.limit,
+    isoCurrencyCode: account.balances.iso_currency_code ?? account.balances.unofficial_currency_code ?? null,
+    balanceUpdatedAt,
+  };
+}
+
+/**
+ * Point a connection's unlinked transactions at their stored account
+ */
+async function linkTransactionsToAccounts(connectionId: string): Promise<void> {
+  const accounts = await prisma.financialAccount.findMany({
+    where: { plaidConnectionId: connectionId },
+    select: { id: true, plaidAccountId: true },
+  });
+
+  for (const account of accounts) {
+    await prisma.transaction.updateMany({
+      where: { plaidConnectionId: connectionId, plaidAccountId: account.plaidAccountId, accountId: null },
+      data: { accountId: account.id },
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import { Configuration, PlaidApi, PlaidEnvironments, Products, CountryCode } from 'plaid';
+import { decryptAccessToken } from '@/lib/plaid/token-crypto';
 
 const PLAID_CLIENT_ID = process.env.PLAID_CLIENT_ID;
 const PLAID_SECRET = process.env.PLAID_SECRET;
@@ -27,10 +28,37 @@ export const plaidClient = new PlaidApi(configuration);
 // Products we request from Plaid
 export const PLAID_PRODUCTS: Products[] = [Products.Transactions];
 
+// Requested only where the institution supports them, so they never hide a bank from Link.
+// Liabilities brings in APR, minimum payment and due date for credit cards and student loans.
+export const PLAID_IF_SUPPORTED_PRODUCTS: Products[] = [Products.Liabilities];
+
 // Countries we support
 export const PLAID_COUNTRY_CODES: CountryCode[] = [CountryCode.Us];
 
+// Public URL of /api/plaid/webhook; without it, transactions only sync on demand
+export const PLAID_WEBHOOK_URL = process.env.PLAID_WEBHOOK_URL;
+
 // Check if Plaid is configured
 export function isPlaidConfigured(): boolean {
   return Boolean(PLAID_CLIENT_ID && PLAID_SECRET);
 }
+
+/**
+ * Build a Plaid request for a stored connection. Access tokens are encrypted at
+ * rest and only decrypted here, straight into the outgoing request:
+ *   plaidClient.transactionsSync(withAccessToken(connection, { cursor }))
+ */
+export function withAccessToken<T extends object>(
+  connection: { accessToken: string },
+  request: T
+): T & { access_token: string } {
+  return { ...request, access_token: decryptAccessToken(connection.accessToken) };
+}
+
+/**
+ * Plaid's error code from a failed API call, if there is one
+ */
+export function getPlaidErrorCode(error: unknown): string | null {
+  const plaidError = error as { response?: { data?: { error_code?: string } } };
+  return plaidError.response?.data?.error_code ?? null;
+}
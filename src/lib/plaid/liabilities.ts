@@ -0,0 +1,131 @@
+// Plaid liabilities
+// Credit card and student loan terms (APR, minimum payment, due date) from Plaid's liabilities
+// endpoint, kept on the Debt linked to each account. Runs after refreshAccounts on every sync.
+
+import type { PlaidConnection } from '@prisma/client';
+import type { AccountBase, CreditCardLiability, StudentLoan } from 'plaid';
+import { prisma } from '@/lib/db/prisma';
+import { plaidClient, withAccessToken, getPlaidErrorCode } from '@/lib/plaid/client';
+
+// The item has no liabilities (or hasn't consented to them) - nothing to import, not a failure
+const UNAVAILABLE_ERROR_CODES = new Set([
+  'PRODUCTS_NOT_SUPPORTED',
+  'NO_LIABILITY_ACCOUNTS',
+  'PRODUCT_NOT_READY',
+  'ADDITIONAL_CONSENT_REQUIRED',
+]);
+
+interface LiabilityTerms {
+  plaidAccountId: string;
+  liabilityType: 'credit' | 'student';
+  interestRate: number; // As decimal (0.1999 = 19.99%)
+  minimumPayment: number;
+  dueDate: number | null; // Day of month
+  originalBalance: number | null;
+}
+
+const toRate = (percentage: number) => Math.round(percentage * 100) / 10000;
+
+// "2026-11-15" -> 15
+const dayOfMonth = (date: string | null) => (date ? Number(date.slice(8, 10)) || null : null);
+
+function fromCreditCard(card: CreditCardLiability): LiabilityTerms | null {
+  if (!card.account_id) return null;
+
+  // The purchase APR is what a carried balance costs; fall back to the highest listed
+  const purchase = card.aprs.find((a) => a.apr_type === 'purchase_apr');
+  const highest = Math.max(0, ...card.aprs.map((a) => a.apr_percentage));
+
+  return {
+    plaidAccountId: card.account_id,
+    liabilityType: 'credit',
+    interestRate: toRate(purchase?.apr_percentage ?? highest),
+    minimumPayment: card.minimum_payment_amount ?? 0,
+    dueDate: dayOfMonth(card.next_payment_due_date),
+    originalBalance: null,
+  };
+}
+
+function fromStudentLoan(loan: StudentLoan): LiabilityTerms | null {
+  if (!loan.account_id) return null;
+
+  return {
+    plaidAccountId: loan.account_id,
+    liabilityType: 'student',
+    interestRate: toRate(loan.interest_rate_percentage),
+    minimumPayment: loan.minimum_payment_amount ?? 0,
+    dueDate: dayOfMonth(loan.next_payment_due_date),
+    originalBalance: loan.origination_principal_amount,
+  };
+}
+
+/**
+ * Create or update a Debt for each credit card and student loan on the connection.
+ * Accounts the user removed from the planner (trackAsDebt off) are skipped.
+ * Returns how many debts were written.
+ */
+export async function importLiabilities(connection: PlaidConnection): Promise<number> {
+  let liabilities;
+  let accounts: AccountBase[];
+  try {
+    const response = await plaidClient.liabilitiesGet(withAccessToken(connection, {}));
+    liabilities = response.data.liabilities;
+    accounts = response.data.accounts;
+  } catch (error) {
+    const code = getPlaidErrorCode(error);
+    if (code && UNAVAILABLE_ERROR_CODES.has(code)) return 0;
+    throw error;
+  }
+
+  const terms = [
+    ...(liabilities.credit ?? []).map(fromCreditCard),
+    ...(liabilities.student ?? []).map(fromStudentLoan),
+  ].filter((t): t is LiabilityTerms => t !== null);
+
+  const syncedAt = new Date();
+  let written = 0;
+
+  for (const term of terms) {
+    const account = await prisma.financialAccount.findUnique({
+      where: { plaidAccountId: term.plaidAccountId },
+      include: { debt: { select: { id: true, isPaidOff: true } } },
+    });
+    if (!account || account.plaidConnectionId !== connection.id || !account.trackAsDebt) continue;
+
+    const balance = accounts.find((a) => a.account_id === term.plaidAccountId)?.balances.current ?? 0;
+    const data = {
+      balance,
+      interestRate: term.interestRate,
+      minimumPayment: term.minimumPayment,
+      dueDate: term.dueDate,
+      liabilityType: term.liabilityType,
+      syncedAt,
+    };
+
+    if (account.debt) {
+      // A balance synced down to zero pays the debt off; a card used again reopens it
+      const payoff = balance <= 0 && !account.debt.isPaidOff
+        ? { isPaidOff: true, paidOffDate: syncedAt }
+        : balance > 0 && account.debt.isPaidOff
+          ? { isPaidOff: false, paidOffDate: null }
+          : {};
+      await prisma.debt.update({ where: { id: account.debt.id }, data: { ...data, ...payoff } });
+    } else {
+      // New debts go to the end of the user's payoff order
+      const priority = await prisma.debt.count({ where: { userId: connection.userId, isPaidOff: false } });
+      await prisma.debt.create({
+        data: {
+          ...data,
+          userId: connection.userId,
+          accountId: account.id,
+          name: account.mask ? `${account.name} ••${account.mask}` : account.name,
+          priority,
+          originalBalance: term.originalBalance ?? balance,
+        },
+      });
+    }
+    written++;
+  }
+
+  return written;
+}
@@ -0,0 +1,254 @@
+// Plaid Sync Service
+// The one place transactions are pulled from Plaid. The sync and resync routes, the
+// webhook queue and any scheduled job all go through syncConnections/queueConnectionSync.
+
+import type { PlaidConnection } from '@prisma/client';
+import type { RemovedTransaction, Transaction as PlaidTransaction } from 'plaid';
+import { prisma } from '@/lib/db/prisma';
+import { plaidClient, withAccessToken, getPlaidErrorCode, PLAID_WEBHOOK_URL } from '@/lib/plaid/client';
+import { toIngestInput } from '@/lib/plaid/transactions';
+import { refreshAccounts } from '@/lib/plaid/accounts';
+import { importLiabilities } from '@/lib/plaid/liabilities';
+import { evaluateAlertsForUser } from '@/lib/alerts/evaluator';
+import { recordNetWorthSnapshot } from '@/lib/net-worth/server';
+import {
+  loadIngestContext,
+  ingestTransactions,
+  removeTransactionsByExternalId,
+  type IngestContext,
+} from '@/lib/transactions/ingest';
+
+const SYNC_PAGE_SIZE = 500;
+
+// Plaid asks clients to restart pagination when the item changes mid-sync
+const MUTATION_DURING_PAGINATION = 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION';
+const MAX_PAGINATION_RESTARTS = 3;
+
+// Warnings that a successful sync shouldn't clear - the user still has to act on them
+const STICKY_ERROR_CODES = new Set(['PENDING_EXPIRATION']);
+
+export interface ConnectionSyncResult {
+  connectionId: string;
+  institutionName: string | null;
+  status: 'synced' | 'error' | 'login_required';
+  added: number;
+  modified: number;
+  removed: number;
+  // Plaid error code (or SYNC_FAILED) when the sync failed; also stored on the connection
+  error?: string;
+}
+
+export interface SyncRunResult {
+  added: number;
+  modified: number;
+  removed: number;
+  connections: ConnectionSyncResult[];
+}
+
+interface SyncChanges {
+  added: PlaidTransaction[];
+  modified: PlaidTransaction[];
+  removed: RemovedTransaction[];
+  cursor: string | undefined;
+}
+
+/**
+ * Page through every change since the connection's cursor. Nothing is written
+ * until all pages are in, so a pagination restart can simply start over.
+ */
+async function fetchChanges(connection: PlaidConnection): Promise<SyncChanges> {
+  for (let attempt = 0; ; attempt++) {
+    const changes: SyncChanges = { added: [], modified: [], removed: [], cursor: connection.cursor || undefined };
+
+    try {
+      let hasMore = true;
+      while (hasMore) {
+        const response = await plaidClient.transactionsSync(
+          withAccessToken(connection, { cursor: changes.cursor, count: SYNC_PAGE_SIZE })
+        );
+        const { added, modified, removed, next_cursor, has_more } = response.data;
+
+        changes.added.push(...added);
+        changes.modified.push(...modified);
+        changes.removed.push(...removed);
+        changes.cursor = next_cursor;
+        hasMore = has_more;
+      }
+      return changes;
+    } catch (error) {
+      if (getPlaidErrorCode(error) === MUTATION_DURING_PAGINATION && attempt < MAX_PAGINATION_RESTARTS) {
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Point the item at our webhook if it isn't already. Items linked before the
+ * webhook was configured (or under an old URL) only learn about it here.
+ */
+async function ensureWebhook(connection: PlaidConnection): Promise<void> {
+  if (!PLAID_WEBHOOK_URL || connection.webhookUrl === PLAID_WEBHOOK_URL) return;
+
+  await plaidClient.itemWebhookUpdate(withAccessToken(connection, { webhook: PLAID_WEBHOOK_URL }));
+  await prisma.plaidConnection.update({
+    where: { id: connection.id },
+    data: { webhookUrl: PLAID_WEBHOOK_URL },
+  });
+}
+
+/**
+ * Run an incremental, cursor-based sync for one connection. Failures are
+ * recorded on the connection and in the result rather than thrown.
+ */
+async function syncConnection(
+  connection: PlaidConnection,
+  context: IngestContext
+): Promise<ConnectionSyncResult> {
+  const result: ConnectionSyncResult = {
+    connectionId: connection.id,
+    institutionName: connection.institutionName,
+    status: 'synced',
+    added: 0,
+    modified: 0,
+    removed: 0,
+  };
+
+  try {
+    await prisma.plaidConnection.update({
+      where: { id: connection.id },
+      data: { syncStatus: 'syncing' },
+    });
+
+    // Accounts first, so new transactions can be linked to them. Balances, debt
+    // terms and the webhook are a nice-to-have here; a failure shouldn't block the transaction sync.
+    await refreshAccounts(connection).catch((e) =>
+      console.error(`Account refresh failed for connection ${connection.id}:`, e)
+    );
+    await importLiabilities(connection).catch((e) =>
+      console.error(`Liabilities import failed for connection ${connection.id}:`, e)
+    );
+    await ensureWebhook(connection).catch((e) =>
+      console.error(`Webhook update failed for connection ${connection.id}:`, e)
+    );
+
+    const changes = await fetchChanges(connection);
+
+    // Pending transactions are stored too; their posted versions reconcile onto them.
+    // Removals go last so a pending row isn't deleted before its posted version takes it over.
+    await ingestTransactions(
+      connection.userId,
+      [...changes.added, ...changes.modified].map((txn) => toIngestInput(txn, connection.id)),
+      context
+    );
+    result.added = changes.added.length;
+    result.modified = changes.modified.length;
+    result.removed = await removeTransactionsByExternalId(
+      connection.userId,
+      changes.removed.map((r) => r.transaction_id)
+    );
+
+    // The cursor only moves once everything above is saved, so a failed run is simply retried
+    await prisma.plaidConnection.update({
+      where: { id: connection.id },
+      data: {
+        cursor: changes.cursor,
+        lastSyncedAt: new Date(),
+        syncStatus: 'synced',
+        errorCode: connection.errorCode && STICKY_ERROR_CODES.has(connection.errorCode) ? connection.errorCode : null,
+      },
+    });
+  } catch (error) {
+    console.error(`Error syncing connection ${connection.id}:`, error);
+
+    result.error = getPlaidErrorCode(error) ?? 'SYNC_FAILED';
+    result.status = result.error === 'ITEM_LOGIN_REQUIRED' ? 'login_required' : 'error';
+    await prisma.plaidConnection.update({
+      where: { id: connection.id },
+      data: { syncStatus: result.status, errorCode: result.error },
+    });
+  }
+
+  return result;
+}
+
+// One chain per connection, so overlapping syncs (a webhook during a manual refresh)
+// never page through the same cursor twice
+const connectionLocks = new Map<string, Promise<unknown>>();
+
+function runExclusive<T>(connectionId: string, task: () => Promise<T>): Promise<T> {
+  const previous = connectionLocks.get(connectionId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+
+  connectionLocks.set(connectionId, next);
+  next
+    .finally(() => {
+      if (connectionLocks.get(connectionId) === next) connectionLocks.delete(connectionId);
+    })
+    .catch(() => undefined);
+
+  return next;
+}
+
+/**
+ * Sync a user's active connections (or just one), then re-evaluate their alerts.
+ * Returns totals plus a result per connection.
+ */
+export async function syncConnections(
+  userId: string,
+  options: { connectionId?: string } = {}
+): Promise<SyncRunResult> {
+  const connections = await prisma.plaidConnection.findMany({
+    where: { userId, isActive: true, ...(options.connectionId ? { id: options.connectionId } : {}) },
+    select: { id: true },
+  });
+
+  const run: SyncRunResult = { added: 0, modified: 0, removed: 0, connections: [] };
+  if (connections.length === 0) return run;
+
+  // Rules, learned merchants and the auto-file threshold for new transactions
+  const context = await loadIngestContext(userId);
+
+  for (const { id } of connections) {
+    const result = await runExclusive(id, async () => {
+      // Re-read inside the lock so the sync starts from the latest cursor
+      const connection = await prisma.plaidConnection.findUniqueOrThrow({ where: { id } });
+      return syncConnection(connection, context);
+    });
+
+    run.connections.push(result);
+    run.added += result.added;
+    run.modified += result.modified;
+    run.removed += result.removed;
+  }
+
+  // Fire any alerts affected by the synced transactions
+  await evaluateAlertsForUser(userId).catch((e) =>
+    console.error('Alert evaluation failed after sync:', e)
+  );
+
+  // Balances just changed, so today's net-worth point is refreshed too
+  await recordNetWorthSnapshot(userId).catch((e) =>
+    console.error('Net worth snapshot failed after sync:', e)
+  );
+
+  return run;
+}
+
+/**
+ * Sync one connection in the background (e.g. from a webhook). Errors are logged.
+ */
+export async function queueConnectionSync(connectionId: string): Promise<void> {
+  try {
+    const connection = await prisma.plaidConnection.findUnique({
+      where: { id: connectionId },
+      select: { userId: true },
+    });
+    if (!connection) return;
+
+    await syncConnections(connection.userId, { connectionId });
+  } catch (error) {
+    console.error(`Queued sync failed for connection ${connectionId}:`, error);
+  }
+}
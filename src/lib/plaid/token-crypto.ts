@@ -0,0 +1,126 @@
+// Plaid access token encryption
+// Envelope encryption: each token gets its own random data key (AES-256-GCM), and that
+// data key is wrapped with a versioned master key from PLAID_TOKEN_KEYS. Rotating the
+// master key only re-wraps data keys. Decryption is only used by the Plaid client wrapper.
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+// Stored form: enc:v<keyVersion>:<wrapped data key>:<encrypted token>
+const PREFIX = 'enc';
+
+interface MasterKeys {
+  current: number;
+  keys: Map<number, Buffer>;
+}
+
+/**
+ * Parse PLAID_TOKEN_KEYS ("1:<base64>,2:<base64>") and PLAID_TOKEN_KEY_VERSION
+ * (defaults to the highest version listed)
+ */
+function loadMasterKeys(): MasterKeys {
+  const keys = new Map<number, Buffer>();
+
+  for (const entry of (process.env.PLAID_TOKEN_KEYS || '').split(',')) {
+    if (!entry.trim()) continue;
+    const [version, encoded] = entry.trim().split(':');
+    const key = Buffer.from(encoded || '', 'base64');
+    if (!/^\d+$/.test(version) || key.length !== KEY_BYTES) {
+      throw new Error(`PLAID_TOKEN_KEYS entry "${version}" must be <version>:<32-byte base64 key>`);
+    }
+    keys.set(Number(version), key);
+  }
+
+  if (keys.size === 0) {
+    throw new Error('PLAID_TOKEN_KEYS is not set - Plaid access tokens cannot be encrypted');
+  }
+
+  const current = process.env.PLAID_TOKEN_KEY_VERSION
+    ? Number(process.env.PLAID_TOKEN_KEY_VERSION)
+    : Math.max(...keys.keys());
+  if (!keys.has(current)) {
+    throw new Error(`PLAID_TOKEN_KEY_VERSION ${current} is not in PLAID_TOKEN_KEYS`);
+  }
+
+  return { current, keys };
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+}
+
+function unseal(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64url');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+interface ParsedToken {
+  version: number;
+  wrappedKey: string;
+  ciphertext: string;
+}
+
+function parse(stored: string): ParsedToken | null {
+  const parts = stored.split(':');
+  if (parts.length !== 4 || parts[0] !== PREFIX || !/^v\d+$/.test(parts[1])) return null;
+  return { version: Number(parts[1].slice(1)), wrappedKey: parts[2], ciphertext: parts[3] };
+}
+
+function getMasterKey(masterKeys: MasterKeys, version: number): Buffer {
+  const key = masterKeys.keys.get(version);
+  if (!key) throw new Error(`Plaid token key version ${version} is not in PLAID_TOKEN_KEYS`);
+  return key;
+}
+
+/**
+ * Encrypt an access token under the current master key version
+ */
+export function encryptAccessToken(token: string): string {
+  const masterKeys = loadMasterKeys();
+  const dataKey = randomBytes(KEY_BYTES);
+
+  const wrappedKey = seal(getMasterKey(masterKeys, masterKeys.current), dataKey);
+  const ciphertext = seal(dataKey, Buffer.from(token, 'utf8'));
+
+  return [PREFIX, `v${masterKeys.current}`, wrappedKey, ciphertext].join(':');
+}
+
+/**
+ * Decrypt a stored access token. Rows written before encryption was added are
+ * still plaintext until the rotation command has run over them.
+ */
+export function decryptAccessToken(stored: string): string {
+  const parsed = parse(stored);
+  if (!parsed) return stored;
+
+  const masterKeys = loadMasterKeys();
+  const dataKey = unseal(getMasterKey(masterKeys, parsed.version), parsed.wrappedKey);
+  return unseal(dataKey, parsed.ciphertext).toString('utf8');
+}
+
+/**
+ * Bring a stored token under the current master key version. Encrypted tokens
+ * keep their data key and ciphertext - only the data key is re-wrapped.
+ * Returns null when the token is already current.
+ */
+export function rotateAccessToken(stored: string): string | null {
+  const masterKeys = loadMasterKeys();
+  const parsed = parse(stored);
+
+  if (!parsed) return encryptAccessToken(stored);
+  if (parsed.version === masterKeys.current) return null;
+
+  const dataKey = unseal(getMasterKey(masterKeys, parsed.version), parsed.wrappedKey);
+  const wrappedKey = seal(getMasterKey(masterKeys, masterKeys.current), dataKey);
+
+  return [PREFIX, `v${masterKeys.current}`, wrappedKey, parsed.ciphertext].join(':');
+}
@@ -0,0 +1,27 @@
+// Maps Plaid transactions into the ingest pipeline's input shape
+
+import type { Transaction as PlaidTransaction } from 'plaid';
+import type { IngestTransactionInput } from '@/lib/transactions/ingest';
+import { classifyPlaidTransaction } from '@/lib/transactions/direction';
+
+/**
+ * Convert a Plaid transaction for ingestTransactions()
+ */
+export function toIngestInput(txn: PlaidTransaction, connectionId: string): IngestTransactionInput {
+  return {
+    externalId: txn.transaction_id,
+    plaidConnectionId: connectionId,
+    accountId: txn.account_id,
+    amount: Math.abs(txn.amount), // Plaid uses positive for money out; direction goes in kind
+    kind: classifyPlaidTransaction(txn.amount, txn.personal_finance_category, txn.name),
+    inflow: txn.amount < 0,
+    description: txn.name,
+    merchantName: txn.merchant_name || txn.name,
+    date: new Date(txn.date),
+    source: 'PLAID',
+    defaultCategory: txn.personal_finance_category?.primary || txn.category?.[0] || null,
+    pending: txn.pending,
+    pendingExternalId: txn.pending_transaction_id ?? null,
+    isRecurring: txn.personal_finance_category?.detailed?.includes('SUBSCRIPTION') || false,
+  };
+}
@@ -0,0 +1,80 @@
+// Plaid webhook verification
+// Checks the Plaid-Verification JWT: ES256 signature against Plaid's published key,
+// freshness, and that it was issued for this exact request body
+
+import { createHash, createPublicKey, timingSafeEqual, verify, type KeyObject } from 'crypto';
+import { plaidClient } from '@/lib/plaid/client';
+
+// Plaid recommends rejecting webhooks signed more than 5 minutes ago
+const MAX_TOKEN_AGE_SECONDS = 5 * 60;
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface JwtPayload {
+  iat?: number;
+  request_body_sha256?: string;
+}
+
+// Verification keys by key id; Plaid rotates keys rarely, so they're cached per process
+const keyCache = new Map<string, KeyObject>();
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+async function getVerificationKey(keyId: string): Promise<KeyObject | null> {
+  const cached = keyCache.get(keyId);
+  if (cached) return cached;
+
+  const response = await plaidClient.webhookVerificationKeyGet({ key_id: keyId });
+  const jwk = response.data.key;
+  if (jwk.expired_at) return null;
+
+  const key = createPublicKey({
+    key: { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y },
+    format: 'jwk',
+  });
+  keyCache.set(keyId, key);
+  return key;
+}
+
+/**
+ * Whether a webhook body really came from Plaid. `token` is the
+ * Plaid-Verification header; `body` must be the raw, unparsed request body.
+ */
+export async function verifyPlaidWebhook(body: string, token: string | null): Promise<boolean> {
+  if (!token) return false;
+
+  const segments = token.split('.');
+  if (segments.length !== 3) return false;
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+
+  const header = decodeSegment<JwtHeader>(encodedHeader);
+  if (header?.alg !== 'ES256' || !header.kid) return false;
+
+  const key = await getVerificationKey(header.kid);
+  if (!key) return false;
+
+  const signatureValid = verify(
+    'sha256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!signatureValid) return false;
+
+  const payload = decodeSegment<JwtPayload>(encodedPayload);
+  if (!payload?.iat || !payload.request_body_sha256) return false;
+  if (Date.now() / 1000 - payload.iat > MAX_TOKEN_AGE_SECONDS) return false;
+
+  const expected = Buffer.from(payload.request_body_sha256, 'hex');
+  const actual = createHash('sha256').update(body).digest();
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
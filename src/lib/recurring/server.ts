@@ -0,0 +1,54 @@
+// Server-side helpers for recurring charges
+// Runs the detector over a user's stored spending and flags the transactions it finds
+
+import { prisma } from '@/lib/db/prisma';
+import { detectRecurringCharges } from '@/lib/services/recurring-detection';
+import type { RecurringCharge } from '@/types';
+
+// Long enough to see an annual charge come around twice
+const LOOKBACK_DAYS = 400;
+
+/**
+ * A user's recurring charges, detected from spending over the lookback window.
+ * Pending charges count, so a charge that's on its way isn't reported as missed.
+ */
+export async function listRecurringCharges(userId: string, now: Date = new Date()): Promise<RecurringCharge[]> {
+  const since = new Date(now);
+  since.setDate(since.getDate() - LOOKBACK_DAYS);
+
+  const rows = await prisma.transaction.findMany({
+    where: { userId, kind: 'DEBIT', date: { gte: since, lte: now } },
+    select: {
+      id: true,
+      amount: true,
+      description: true,
+      merchantName: true,
+      defaultCategory: true,
+      date: true,
+      kind: true,
+      isRecurring: true,
+    },
+  });
+
+  return detectRecurringCharges(
+    rows.map((r) => ({ ...r, amount: r.amount.toNumber() })),
+    now
+  );
+}
+
+/**
+ * Flag the transactions in every detected series as recurring, so charges
+ * Plaid didn't mark as subscriptions show up as recurring too.
+ * Returns the number of transactions newly flagged.
+ */
+export async function markRecurringCharges(userId: string): Promise<number> {
+  const charges = await listRecurringCharges(userId);
+  const ids = charges.flatMap((c) => c.transactionIds);
+  if (ids.length === 0) return 0;
+
+  const result = await prisma.transaction.updateMany({
+    where: { id: { in: ids }, userId, isRecurring: false },
+    data: { isRecurring: true },
+  });
+  return result.count;
+}
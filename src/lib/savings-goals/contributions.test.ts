@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { findCandidateGoals, getCompletionChange } from './contributions';
+
+describe('getCompletionChange', () => {
+  const date = new Date('2026-10-15T00:00:00Z');
+  const goal = (currentAmount: number, isCompleted = false) => ({
+    currentAmount: new Prisma.Decimal(currentAmount),
+    targetAmount: new Prisma.Decimal(1000),
+    isCompleted,
+  });
+
+  it('completes a goal on the date it reaches its target', () => {
+    expect(getCompletionChange(goal(1000), date)).toEqual({ isCompleted: true, completedDate: date });
+    expect(getCompletionChange(goal(999.99), date)).toEqual({});
+  });
+
+  it('reopens a completed goal that drops below target', () => {
+    expect(getCompletionChange(goal(950, true), date)).toEqual({ isCompleted: false, completedDate: null });
+    expect(getCompletionChange(goal(1200, true), date)).toEqual({});
+  });
+});
+
+describe('findCandidateGoals', () => {
+  const linkedAt = new Date('2026-10-01T15:00:00Z');
+  const goals = [
+    { id: 'account', accountId: 'savings', transferPattern: null, linkedAt },
+    { id: 'pattern', accountId: null, transferPattern: 'Vacation', linkedAt },
+  ];
+  const txn = (overrides: Partial<Parameters<typeof findCandidateGoals>[1]> = {}) => ({
+    accountId: null,
+    inflow: false,
+    description: 'Online transfer',
+    merchantName: null,
+    date: new Date('2026-10-05T00:00:00Z'),
+    ...overrides,
+  });
+
+  it('matches money in or out of a linked account', () => {
+    expect(findCandidateGoals(goals, txn({ accountId: 'savings', inflow: true })).map((g) => g.id)).toEqual(['account']);
+    expect(findCandidateGoals(goals, txn({ accountId: 'savings' })).map((g) => g.id)).toEqual(['account']);
+  });
+
+  it('matches only outgoing transfers to a pattern', () => {
+    expect(findCandidateGoals(goals, txn({ description: 'Transfer to VACATION fund' })).map((g) => g.id)).toEqual(['pattern']);
+    expect(findCandidateGoals(goals, txn({ description: 'Transfer from vacation fund', inflow: true }))).toEqual([]);
+  });
+
+  it('counts from the start of the day the goal was linked', () => {
+    expect(findCandidateGoals(goals, txn({ accountId: 'savings', date: new Date('2026-10-01T00:00:00Z') }))).toHaveLength(1);
+    expect(findCandidateGoals(goals, txn({ accountId: 'savings', date: new Date('2026-09-30T00:00:00Z') }))).toEqual([]);
+  });
+});
@@ -0,0 +1,367 @@
+// Savings contribution ledger
+// Records contributions by hand or from matched transfers, keeps each goal's current
+// amount in step, and holds ambiguous matches in a review queue
+
+import type { Prisma, SavingsContributionSource } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { serializeSavingsContribution, serializeSavingsGoal, serializeSavingsMatch } from './schemas';
+import type { SavingsContribution, SavingsGoalWithContributions, SavingsMatch } from '@/types';
+
+// Transactions older than this aren't matched to goals
+const MATCH_LOOKBACK_DAYS = 60;
+
+const goalInclude = {
+  contributions: { orderBy: { date: 'asc' } },
+} satisfies Prisma.SavingsGoalInclude;
+
+const matchInclude = {
+  transaction: { select: { description: true, date: true } },
+} satisfies Prisma.SavingsMatchInclude;
+
+interface SavingsContributionInput {
+  // Negative for money taken out of a linked account
+  amount: number;
+  date: Date;
+  note?: string | null;
+  transactionId?: string | null;
+  source: SavingsContributionSource;
+}
+
+interface LinkedGoal {
+  id: string;
+  accountId: string | null;
+  transferPattern: string | null;
+  linkedAt: Date;
+}
+
+interface MatchableTransaction {
+  accountId: string | null;
+  inflow: boolean;
+  description: string;
+  merchantName: string | null;
+  date: Date;
+}
+
+/**
+ * A goal's contributions, newest first. Returns null if the goal isn't theirs.
+ */
+export async function listSavingsContributions(
+  userId: string,
+  goalId: string
+): Promise<SavingsContribution[] | null> {
+  const goal = await prisma.savingsGoal.findFirst({
+    where: { id: goalId, userId },
+    include: { contributions: { orderBy: { date: 'desc' } } },
+  });
+  if (!goal) return null;
+  return goal.contributions.map(serializeSavingsContribution);
+}
+
+/**
+ * The completion change a goal's new current amount calls for: reaching the
+ * target completes it on `date`, dropping back below reopens it
+ */
+export function getCompletionChange(
+  goal: { currentAmount: Prisma.Decimal; targetAmount: Prisma.Decimal; isCompleted: boolean },
+  date: Date
+): Prisma.SavingsGoalUpdateInput {
+  const reached = goal.currentAmount.gte(goal.targetAmount);
+  if (reached && !goal.isCompleted) return { isCompleted: true, completedDate: date };
+  if (!reached && goal.isCompleted) return { isCompleted: false, completedDate: null };
+  return {};
+}
+
+// Move a goal's current amount by a delta in the database, then settle its
+// completion from the amount that actually landed, so concurrent changes can't
+// overwrite each other
+async function adjustGoalAmount(
+  tx: Prisma.TransactionClient,
+  goalId: string,
+  delta: Prisma.Decimal | number,
+  date: Date
+) {
+  const adjusted = await tx.savingsGoal.update({
+    where: { id: goalId },
+    data: { currentAmount: { increment: delta } },
+    include: goalInclude,
+  });
+  const completion = getCompletionChange(adjusted, date);
+  if (Object.keys(completion).length === 0) return adjusted;
+  return tx.savingsGoal.update({ where: { id: goalId }, data: completion, include: goalInclude });
+}
+
+/**
+ * Record a contribution and add it to the goal's current amount. Reaching the
+ * target completes the goal on the contribution's date; a withdrawal that drops
+ * it back below reopens it.
+ * Returns null if the goal isn't theirs.
+ */
+export async function recordSavingsContribution(
+  userId: string,
+  goalId: string,
+  input: SavingsContributionInput
+): Promise<{ contribution: SavingsContribution; goal: SavingsGoalWithContributions } | null> {
+  const goal = await prisma.savingsGoal.findFirst({ where: { id: goalId, userId } });
+  if (!goal) return null;
+
+  const [contribution, updated] = await prisma.$transaction(async (tx) => {
+    const created = await tx.savingsContribution.create({
+      data: {
+        savingsGoalId: goalId,
+        amount: input.amount,
+        date: input.date,
+        note: input.note ?? null,
+        transactionId: input.transactionId ?? null,
+        source: input.source,
+      },
+    });
+    return [created, await adjustGoalAmount(tx, goalId, input.amount, input.date)] as const;
+  });
+
+  return { contribution: serializeSavingsContribution(contribution), goal: serializeSavingsGoal(updated) };
+}
+
+/**
+ * Remove a contribution and take it back off the goal, reopening the goal if
+ * that drops it below target. A contribution that came from a transaction leaves
+ * a dismissed match behind so the matcher doesn't add it again.
+ * Returns the updated goal, or null if the contribution isn't theirs.
+ */
+export async function deleteSavingsContribution(
+  userId: string,
+  contributionId: string
+): Promise<SavingsGoalWithContributions | null> {
+  const contribution = await prisma.savingsContribution.findFirst({
+    where: { id: contributionId, savingsGoal: { userId } },
+  });
+  if (!contribution) return null;
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.savingsContribution.delete({ where: { id: contribution.id } });
+    if (contribution.transactionId) {
+      await tx.savingsMatch.upsert({
+        where: { transactionId: contribution.transactionId },
+        create: {
+          userId,
+          transactionId: contribution.transactionId,
+          goalIds: [contribution.savingsGoalId],
+          amount: contribution.amount,
+          status: 'DISMISSED',
+        },
+        update: { status: 'DISMISSED' },
+      });
+    }
+    return adjustGoalAmount(tx, contribution.savingsGoalId, contribution.amount.negated(), new Date());
+  });
+
+  return serializeSavingsGoal(updated);
+}
+
+/**
+ * Take contributions back off their goals before their transactions are deleted
+ * (e.g. removed upstream by the bank), reopening any goal that drops below target.
+ * Returns how many were reversed.
+ */
+export async function reverseTransactionContributions(userId: string, transactionIds: string[]): Promise<number> {
+  if (transactionIds.length === 0) return 0;
+
+  const contributions = await prisma.savingsContribution.findMany({
+    where: { transactionId: { in: transactionIds }, savingsGoal: { userId } },
+    select: {
+      id: true,
+      amount: true,
+      savingsGoalId: true,
+    },
+  });
+  if (contributions.length === 0) return 0;
+
+  // Total removed per goal, so each goal is updated (and reopened) once
+  const removedByGoal = new Map<string, Prisma.Decimal>();
+  for (const c of contributions) {
+    const removed = removedByGoal.get(c.savingsGoalId);
+    removedByGoal.set(c.savingsGoalId, removed ? removed.plus(c.amount) : c.amount);
+  }
+
+  const now = new Date();
+  await prisma.$transaction(async (tx) => {
+    await tx.savingsContribution.deleteMany({ where: { id: { in: contributions.map((c) => c.id) } } });
+    for (const [goalId, removed] of removedByGoal) {
+      await adjustGoalAmount(tx, goalId, removed.negated(), now);
+    }
+  });
+
+  return contributions.length;
+}
+
+// Matching is by calendar day: anything dated on or after the day the goal was linked
+function isLinkedOn(goal: LinkedGoal, date: Date): boolean {
+  const linkedDay = Date.UTC(goal.linkedAt.getUTCFullYear(), goal.linkedAt.getUTCMonth(), goal.linkedAt.getUTCDate());
+  return date.getTime() >= linkedDay;
+}
+
+// Only money going out matches a pattern: "transfer to savings" funds the goal,
+// while "transfer from savings" coming back in is not a contribution
+function matchesPattern(goal: LinkedGoal, txn: MatchableTransaction): boolean {
+  if (!goal.transferPattern || txn.inflow) return false;
+  const pattern = goal.transferPattern.toLowerCase();
+  return txn.description.toLowerCase().includes(pattern) || (txn.merchantName?.toLowerCase().includes(pattern) ?? false);
+}
+
+/**
+ * Goals a transaction could count toward: linked by the transaction's date, and
+ * either on its account or matching an outgoing transfer's pattern
+ */
+export function findCandidateGoals(goals: LinkedGoal[], txn: MatchableTransaction): LinkedGoal[] {
+  return goals.filter((g) =>
+    isLinkedOn(g, txn.date) && ((g.accountId !== null && g.accountId === txn.accountId) || matchesPattern(g, txn))
+  );
+}
+
+/**
+ * Turn recent transactions into contributions for goals linked to an account or
+ * a transfer pattern. Everything moving in or out of a linked account counts
+ * (withdrawals as negative contributions); a pattern counts matching outgoing
+ * transfers as money into the goal. A transaction that fits exactly one goal for certain
+ * is recorded straight away. One that fits several goals, or only matches a
+ * pattern without being a transfer, waits in the review queue instead.
+ */
+export async function matchSavingsContributions(userId: string): Promise<{ recorded: number; queued: number }> {
+  const rows = await prisma.savingsGoal.findMany({
+    where: {
+      userId,
+      isCompleted: false,
+      linkedAt: { not: null },
+      OR: [{ accountId: { not: null } }, { transferPattern: { not: null } }],
+    },
+    select: { id: true, accountId: true, transferPattern: true, linkedAt: true },
+  });
+  const goals: LinkedGoal[] = rows.map((g) => ({ ...g, linkedAt: g.linkedAt as Date }));
+  if (goals.length === 0) return { recorded: 0, queued: 0 };
+
+  const linkedAccounts = new Set(goals.flatMap((g) => (g.accountId ? [g.accountId] : [])));
+  const since = new Date(Date.now() - MATCH_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      userId,
+      pending: false,
+      kind: { not: 'REFUND' },
+      date: { gte: since },
+      savingsContribution: { is: null },
+      savingsMatch: { is: null },
+    },
+    select: {
+      id: true,
+      accountId: true,
+      amount: true,
+      inflow: true,
+      kind: true,
+      date: true,
+      description: true,
+      merchantName: true,
+      transferOut: {
+        select: {
+          status: true,
+          inflow: { select: { accountId: true, inflow: true, description: true, merchantName: true, date: true } },
+        },
+      },
+    },
+    orderBy: { date: 'asc' },
+  });
+
+  let recorded = 0;
+  let queued = 0;
+  for (const txn of transactions) {
+    const candidates = findCandidateGoals(goals, txn);
+    if (candidates.length === 0) continue;
+
+    // Both legs of a transfer can match; only the leg going in is counted
+    const pair = txn.transferOut;
+    if (pair && pair.status !== 'REJECTED' && findCandidateGoals(goals, pair.inflow).length > 0) continue;
+
+    const fromLinkedAccount = txn.accountId !== null && linkedAccounts.has(txn.accountId);
+    const amount = fromLinkedAccount && !txn.inflow ? -txn.amount.toNumber() : txn.amount.toNumber();
+    const certain = candidates.length === 1 &&
+      ((candidates[0].accountId !== null && candidates[0].accountId === txn.accountId) || txn.kind === 'TRANSFER');
+
+    if (certain) {
+      await recordSavingsContribution(userId, candidates[0].id, {
+        amount,
+        date: txn.date,
+        note: txn.description,
+        transactionId: txn.id,
+        source: 'TRANSACTION',
+      });
+      recorded++;
+    } else {
+      await prisma.savingsMatch.create({
+        data: { userId, transactionId: txn.id, goalIds: candidates.map((g) => g.id), amount },
+      });
+      queued++;
+    }
+  }
+
+  return { recorded, queued };
+}
+
+/**
+ * Matches waiting for the user to pick a goal, newest transaction first
+ */
+export async function listSavingsMatches(userId: string): Promise<SavingsMatch[]> {
+  const matches = await prisma.savingsMatch.findMany({
+    where: { userId, status: 'PENDING' },
+    include: matchInclude,
+    orderBy: { transaction: { date: 'desc' } },
+  });
+  return matches.map(serializeSavingsMatch);
+}
+
+/**
+ * Record a queued match as a contribution to the goal the user picked. Returns
+ * null if the match isn't theirs and pending, or the goal isn't one of its candidates.
+ */
+export async function acceptSavingsMatch(
+  userId: string,
+  matchId: string,
+  goalId: string
+): Promise<{ match: SavingsMatch; goal: SavingsGoalWithContributions } | null> {
+  const match = await prisma.savingsMatch.findFirst({
+    where: { id: matchId, userId, status: 'PENDING' },
+    include: { transaction: { select: { description: true, date: true } } },
+  });
+  if (!match || !match.goalIds.includes(goalId)) return null;
+
+  const result = await recordSavingsContribution(userId, goalId, {
+    amount: match.amount.toNumber(),
+    date: match.transaction.date,
+    note: match.transaction.description,
+    transactionId: match.transactionId,
+    source: 'TRANSACTION',
+  });
+  if (!result) return null;
+
+  const updated = await prisma.savingsMatch.update({
+    where: { id: match.id },
+    data: { status: 'ACCEPTED' },
+    include: matchInclude,
+  });
+
+  return { match: serializeSavingsMatch(updated), goal: result.goal };
+}
+
+/**
+ * Drop a queued match; the transaction is kept out of future matching.
+ * Returns null if the match isn't theirs.
+ */
+export async function dismissSavingsMatch(userId: string, matchId: string): Promise<SavingsMatch | null> {
+  const match = await prisma.savingsMatch.findFirst({ where: { id: matchId, userId } });
+  if (!match) return null;
+
+  const updated = await prisma.savingsMatch.update({
+    where: { id: match.id },
+    data: { status: 'DISMISSED' },
+    include: matchInclude,
+  });
+
+  return serializeSavingsMatch(updated);
+}
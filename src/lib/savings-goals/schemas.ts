@@ -0,0 +1,115 @@
+// Savings goal validation schemas and serialization
+// Shared by the /api/savings-goals route family
+
+import { z } from 'zod';
+import type {
+  SavingsContribution as PrismaSavingsContribution,
+  SavingsGoal as PrismaSavingsGoal,
+  SavingsMatch as PrismaSavingsMatch,
+} from '@prisma/client';
+import type { SavingsContribution, SavingsGoalWithContributions, SavingsMatch } from '@/types';
+
+export const SavingsGoalTypeSchema = z.enum([
+  'EMERGENCY',
+  'HOUSE',
+  'RETIREMENT',
+  'VACATION',
+  'CAR',
+  'EDUCATION',
+  'CUSTOM',
+]);
+
+export const CreateSavingsGoalSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  type: SavingsGoalTypeSchema,
+  icon: z.string().max(16).nullable().optional(),
+  targetAmount: z.number().positive(),
+  currentAmount: z.number().nonnegative().optional(),
+  monthlyContribution: z.number().nonnegative().nullable().optional(),
+  targetDate: z.coerce.date().nullable().optional(),
+  // Automatic contributions: transfers into this account, or whose description contains the pattern
+  accountId: z.string().min(1).nullable().optional(),
+  transferPattern: z.string().trim().min(3).max(100).nullable().optional(),
+  // Growth: annual rates as decimals (0.045 = 4.5%)
+  expectedReturn: z.number().min(0).max(0.3).nullable().optional(),
+  compounding: z.enum(['DAILY', 'MONTHLY', 'QUARTERLY', 'ANNUALLY']).optional(),
+  inflationRate: z.number().min(0).max(0.2).nullable().optional(),
+});
+
+export const UpdateSavingsGoalSchema = CreateSavingsGoalSchema.partial().extend({
+  isCompleted: z.boolean().optional(),
+});
+
+export const CreateSavingsContributionSchema = z.object({
+  amount: z.number().positive(),
+  date: z.coerce.date().optional(),
+  note: z.string().trim().max(200).nullable().optional(),
+});
+
+export const AcceptSavingsMatchSchema = z.object({
+  goalId: z.string().min(1),
+});
+
+/**
+ * Convert a Prisma contribution row into the client-facing SavingsContribution shape
+ */
+export function serializeSavingsContribution(contribution: PrismaSavingsContribution): SavingsContribution {
+  return {
+    id: contribution.id,
+    savingsGoalId: contribution.savingsGoalId,
+    amount: contribution.amount.toNumber(),
+    date: contribution.date,
+    note: contribution.note,
+    transactionId: contribution.transactionId,
+    source: contribution.source,
+  };
+}
+
+/**
+ * Convert a Prisma savings goal row (with its contributions, oldest first) into
+ * the client-facing shape
+ */
+export function serializeSavingsGoal(
+  goal: PrismaSavingsGoal & { contributions?: PrismaSavingsContribution[] }
+): SavingsGoalWithContributions {
+  return {
+    id: goal.id,
+    userId: goal.userId,
+    name: goal.name,
+    type: goal.type,
+    icon: goal.icon,
+    targetAmount: goal.targetAmount.toNumber(),
+    currentAmount: goal.currentAmount.toNumber(),
+    monthlyContribution: goal.monthlyContribution ? goal.monthlyContribution.toNumber() : null,
+    targetDate: goal.targetDate,
+    isCompleted: goal.isCompleted,
+    completedDate: goal.completedDate,
+    accountId: goal.accountId,
+    transferPattern: goal.transferPattern,
+    linkedAt: goal.linkedAt,
+    expectedReturn: goal.expectedReturn ? goal.expectedReturn.toNumber() : null,
+    compounding: goal.compounding,
+    inflationRate: goal.inflationRate ? goal.inflationRate.toNumber() : null,
+    createdAt: goal.createdAt,
+    updatedAt: goal.updatedAt,
+    contributions: (goal.contributions ?? []).map(serializeSavingsContribution),
+  };
+}
+
+/**
+ * Convert a Prisma savings match row (with its transaction) into the client-facing shape
+ */
+export function serializeSavingsMatch(
+  match: PrismaSavingsMatch & { transaction: { description: string; date: Date } }
+): SavingsMatch {
+  return {
+    id: match.id,
+    transactionId: match.transactionId,
+    goalIds: match.goalIds,
+    amount: match.amount.toNumber(),
+    description: match.transaction.description,
+    date: match.transaction.date,
+    status: match.status,
+    createdAt: match.createdAt,
+  };
+}
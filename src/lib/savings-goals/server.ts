@@ -0,0 +1,60 @@
+// Server-side helpers for savings goals
+// Listing goals with their contribution history, and linking goals to the transfers that fund them
+
+import { prisma } from '@/lib/db/prisma';
+import { serializeSavingsGoal } from './schemas';
+import type { SavingsGoalWithContributions } from '@/types';
+
+// Plaid account types that can't hold savings
+const LIABILITY_ACCOUNT_TYPES = ['credit', 'loan'];
+
+interface GoalLink {
+  accountId: string | null;
+  transferPattern: string | null;
+}
+
+/**
+ * A user's savings goals with their contributions (oldest first), completed goals last
+ */
+export async function listSavingsGoals(userId: string): Promise<SavingsGoalWithContributions[]> {
+  const goals = await prisma.savingsGoal.findMany({
+    where: { userId },
+    include: { contributions: { orderBy: { date: 'asc' } } },
+    orderBy: [{ isCompleted: 'asc' }, { createdAt: 'asc' }],
+  });
+  return goals.map(serializeSavingsGoal);
+}
+
+/**
+ * The link fields to save for a goal's account and transfer pattern. Changing
+ * either restarts linkedAt, so only transactions from then on are matched and
+ * history the user already entered by hand isn't counted twice. Returns an empty
+ * object when nothing changes, or null if the account isn't theirs or is a card or loan.
+ */
+export async function resolveGoalLink(
+  userId: string,
+  current: GoalLink | null,
+  updates: Partial<GoalLink>
+): Promise<Partial<GoalLink & { linkedAt: Date | null }> | null> {
+  const next: GoalLink = {
+    accountId: updates.accountId !== undefined ? updates.accountId : current?.accountId ?? null,
+    transferPattern: updates.transferPattern !== undefined ? updates.transferPattern : current?.transferPattern ?? null,
+  };
+
+  if (next.accountId && next.accountId !== current?.accountId) {
+    const account = await prisma.financialAccount.findFirst({
+      where: { id: next.accountId, userId, type: { notIn: LIABILITY_ACCOUNT_TYPES } },
+      select: { id: true },
+    });
+    if (!account) return null;
+  }
+
+  if (next.accountId === (current?.accountId ?? null) && next.transferPattern === (current?.transferPattern ?? null)) {
+    return {};
+  }
+
+  return {
+    ...next,
+    linkedAt: next.accountId || next.transferPattern ? new Date() : null,
+  };
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import {
+  autoCategorize,
+  findMatchingUserRule,
+  isSafeRegex,
+  learnedConfidence,
+  matchesUserRule,
+  normalizeMerchant,
+  type UserCategoryRule,
+} from './auto-categorize';
+
+function rule(overrides: Partial<UserCategoryRule> = {}): UserCategoryRule {
+  return {
+    id: 'rule-1',
+    name: 'Test rule',
+    priority: 0,
+    isEnabled: true,
+    merchantContains: null,
+    merchantRegex: null,
+    minAmount: null,
+    maxAmount: null,
+    daysOfWeek: [],
+    accountIds: [],
+    zone: 'GREEN',
+    category: null,
+    ...overrides,
+  };
+}
+
+describe('normalizeMerchant', () => {
+  it('drops processor prefixes, store numbers and punctuation', () => {
+    expect(normalizeMerchant("SQ *JOE'S MARKET #042")).toBe('joes market');
+    expect(normalizeMerchant("Joe's Market")).toBe('joes market');
+  });
+});
+
+describe('matchesUserRule', () => {
+  it('never matches a disabled rule', () => {
+    expect(matchesUserRule(rule({ isEnabled: false, merchantContains: 'coffee' }), 'coffee', 5)).toBe(false);
+  });
+
+  it('requires every condition that is set', () => {
+    const r = rule({ merchantContains: 'Coffee', minAmount: 5, maxAmount: 20 });
+    expect(matchesUserRule(r, 'blue bottle coffee', 12)).toBe(true);
+    expect(matchesUserRule(r, 'blue bottle coffee', 25)).toBe(false);
+    expect(matchesUserRule(r, 'blue bottle coffee', undefined)).toBe(false);
+    expect(matchesUserRule(r, 'tea house', 12)).toBe(false);
+  });
+
+  it('reads the weekday in UTC', () => {
+    const weekends = rule({ daysOfWeek: [0, 6] });
+    expect(matchesUserRule(weekends, 'bar', 10, { date: new Date('2026-10-17T00:00:00Z') })).toBe(true);
+    expect(matchesUserRule(weekends, 'bar', 10, { date: new Date('2026-10-19T00:00:00Z') })).toBe(false);
+    expect(matchesUserRule(weekends, 'bar', 10)).toBe(false);
+  });
+
+  it('limits a rule to its accounts', () => {
+    const r = rule({ accountIds: ['acct-1'] });
+    expect(matchesUserRule(r, 'shop', 10, { accountId: 'acct-1' })).toBe(true);
+    expect(matchesUserRule(r, 'shop', 10, { accountId: 'acct-2' })).toBe(false);
+  });
+
+  it('matches patterns case-insensitively', () => {
+    expect(matchesUserRule(rule({ merchantRegex: '^sq \\*joe' }), 'sq *joes market', 5)).toBe(true);
+  });
+
+  it('skips unsafe or invalid patterns instead of running them', () => {
+    expect(matchesUserRule(rule({ merchantRegex: '(a+)+$' }), 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaab', 5)).toBe(false);
+    expect(matchesUserRule(rule({ merchantRegex: '(' }), 'anything', 5)).toBe(false);
+  });
+});
+
+describe('isSafeRegex', () => {
+  it('accepts ordinary patterns', () => {
+    for (const pattern of ['^sq \\*joe', 'netflix|hulu', '(foo){2,}', '(?:uber|lyft) trip', '[(]+', 'x{2}', '(ab)?c', '(a+?b)']) {
+      expect(isSafeRegex(pattern)).toBe(true);
+    }
+  });
+
+  it('rejects nested repeats and backreferences', () => {
+    for (const pattern of ['(a+)+$', '(a*)*', '((ab)*)+', '(\\w+\\s?)+', '(.)\\1', '(a|a)*$', '(a|b)+', '(?:\\w|\\d)+', '(a?a)+$']) {
+      expect(isSafeRegex(pattern)).toBe(false);
+    }
+  });
+
+  it('keeps a repeated alternation from running away', () => {
+    expect(matchesUserRule(rule({ merchantRegex: '(a|a)*$' }), `${'a'.repeat(27)}!`, 5)).toBe(false);
+  });
+
+  it('rejects patterns over the length cap', () => {
+    expect(isSafeRegex('a'.repeat(101))).toBe(false);
+  });
+});
+
+describe('findMatchingUserRule', () => {
+  it('lets the lowest priority number win', () => {
+    const rules = [
+      rule({ id: 'later', priority: 2, merchantContains: 'amazon' }),
+      rule({ id: 'first', priority: 1, merchantContains: 'amazon' }),
+    ];
+    expect(findMatchingUserRule(rules, 'Amazon', 'AMZN Mktp')?.id).toBe('first');
+  });
+});
+
+describe('autoCategorize', () => {
+  it('puts user rules ahead of the built-in rules', () => {
+    const result = autoCategorize('Starbucks', '', 6, {
+      rules: [rule({ merchantContains: 'starbucks', zone: 'GREEN', category: 'Work Meals' })],
+    });
+    expect(result).toMatchObject({ zone: 'GREEN', category: 'Work Meals', confidence: 1, source: 'rule:rule-1' });
+  });
+
+  it('uses what the user taught it before the built-in rules', () => {
+    const learned = new Map([[normalizeMerchant('Starbucks'), { zone: 'YELLOW' as const, timesConfirmed: 3 }]]);
+    const result = autoCategorize('Starbucks', '', 6, { learned });
+    expect(result).toMatchObject({ zone: 'YELLOW', source: 'learned', confidence: learnedConfidence(3) });
+  });
+
+  it('falls back to the built-in rules', () => {
+    expect(autoCategorize('Starbucks', '', 6)).toMatchObject({ zone: 'RED', category: 'Coffee Shops', source: 'builtin:Coffee Shops' });
+  });
+
+  it('guesses from the amount for unknown merchants', () => {
+    expect(autoCategorize('Zzyzx Co', '', 4)).toMatchObject({ zone: 'RED', source: 'heuristic' });
+  });
+});
+
+describe('learned merchants', () => {
+  const learned = new Map([[normalizeMerchant('Blue Bottle Coffee'), { zone: 'GREEN' as const, timesConfirmed: 1 }]]);
+
+  it('recognizes the merchant however the processor formats it', () => {
+    for (const name of ['SQ *BLUE BOTTLE COFFEE #0123', 'PAYPAL *Blue Bottle Coffee', 'POS BLUE BOTTLE COFFEE 88231']) {
+      expect(autoCategorize(name, '', 6, { learned })).toMatchObject({ zone: 'GREEN', source: 'learned' });
+    }
+  });
+
+  it('falls back to the description when there is no merchant name', () => {
+    expect(autoCategorize('', 'Blue Bottle Coffee', 6, { learned }).source).toBe('learned');
+  });
+
+  it('says how often the user chose the zone', () => {
+    expect(autoCategorize('Blue Bottle Coffee', '', 6, { learned }).reasoning).toBe('You filed this merchant as GREEN last time');
+    const confirmed = new Map([[normalizeMerchant('Blue Bottle Coffee'), { zone: 'GREEN' as const, timesConfirmed: 4 }]]);
+    expect(autoCategorize('Blue Bottle Coffee', '', 6, { learned: confirmed }).reasoning).toBe('You filed this merchant as GREEN the last 4 times');
+  });
+
+  it('still lets a user rule win, and ignores an unfiled memory', () => {
+    const rules = [rule({ merchantContains: 'blue bottle', zone: 'YELLOW' })];
+    expect(autoCategorize('Blue Bottle Coffee', '', 6, { rules, learned }).source).toBe('rule:rule-1');
+
+    const unfiled = new Map([[normalizeMerchant('Zzyzx Co'), { zone: 'UNCATEGORIZED' as const, timesConfirmed: 2 }]]);
+    expect(autoCategorize('Zzyzx Co', '', 4, { learned: unfiled }).source).toBe('heuristic');
+  });
+});
+
+describe('learnedConfidence', () => {
+  it('grows with each confirmation up to a cap', () => {
+    expect(learnedConfidence(1)).toBeCloseTo(0.8);
+    expect(learnedConfidence(2)).toBeCloseTo(0.85);
+    expect(learnedConfidence(20)).toBe(0.97);
+  });
+});
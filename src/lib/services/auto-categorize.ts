@@ -2,6 +2,7 @@
 // Automatically assigns traffic light zones to transactions based on merchant/description patterns
 
 import type { TrafficLightZone } from '@/constants/traffic-light';
+import type { CategorizationRule } from '@/types';
 
 interface CategoryRule {
   patterns: string[];
@@ -68,20 +69,220 @@ export interface AutoCategorizeResult {
   category: string;
   confidence: number;
   reasoning: string;
+  // Which layer produced the suggestion: "rule:<id>", "learned", "builtin:<category>" or "heuristic"
+  source: string;
+}
+
+// The subset of a stored rule needed to evaluate it
+export type UserCategoryRule = Pick<
+  CategorizationRule,
+  | 'id'
+  | 'name'
+  | 'priority'
+  | 'isEnabled'
+  | 'merchantContains'
+  | 'merchantRegex'
+  | 'minAmount'
+  | 'maxAmount'
+  | 'daysOfWeek'
+  | 'accountIds'
+  | 'zone'
+  | 'category'
+>;
+
+// A zone the user has repeatedly chosen for a merchant
+export interface LearnedMerchant {
+  zone: TrafficLightZone;
+  timesConfirmed: number;
+}
+
+export interface CategorizeContext {
+  rules?: UserCategoryRule[];
+  // Keyed by normalizeMerchant()
+  learned?: Map<string, LearnedMerchant>;
+  date?: Date | string;
+  accountId?: string | null;
+}
+
+// Processor prefixes and noise that vary between charges from the same merchant
+const MERCHANT_PREFIXES = /^(sq ?\*|tst ?\*|sp ?\*|pp ?\*|paypal ?\*|pos |ach |debit card purchase |checkcard \d* ?)/;
+
+/**
+ * Reduce a merchant name to a stable key so "SQ *JOE'S MARKET #042" and
+ * "Joe's Market" are learned as the same merchant
+ */
+export function normalizeMerchant(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(MERCHANT_PREFIXES, '')
+    .replace(/#\s*\d+/g, ' ')
+    .replace(/\b\d{3,}\b/g, ' ')
+    .replace(/[^a-z0-9& ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Confidence for a learned merchant grows with each consecutive confirmation
+ */
+export function learnedConfidence(timesConfirmed: number): number {
+  return Math.min(0.97, 0.8 + 0.05 * (timesConfirmed - 1));
+}
+
+// User patterns run on the server for every incoming transaction, so they're kept short
+export const MAX_RULE_REGEX_LENGTH = 100;
+
+/**
+ * Whether a user's pattern is safe to run: short, without backreferences, and
+ * without a repeated group that can match the same text more than one way -
+ * one holding a repeat, an optional part or an alternation, like "(a+)+" or
+ * "(a|a)*". Those make a regex backtrack for ever on a near-miss.
+ */
+export function isSafeRegex(pattern: string): boolean {
+  if (pattern.length > MAX_RULE_REGEX_LENGTH) return false;
+
+  const isQuantifier = (i: number) =>
+    pattern[i] === '*' || pattern[i] === '+' || (pattern[i] === '{' && /\d/.test(pattern[i + 1] ?? ''));
+  // "?" makes the previous token optional unless it opens "(?:" or makes a quantifier lazy
+  const isOptional = (i: number) =>
+    pattern[i] === '?' && i > 0 && pattern[i - 1] !== '(' && !isQuantifier(i - 1) && pattern[i - 1] !== '}';
+
+  // For each open group, whether it can match its text more than one way
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\') {
+      if (/[1-9k]/.test(pattern[i + 1] ?? '')) return false;
+      i++;
+    } else if (inClass) {
+      if (ch === ']') inClass = false;
+    } else if (ch === '[') {
+      inClass = true;
+    } else if (ch === '(') {
+      groups.push(false);
+    } else if (ch === ')') {
+      const ambiguousInside = groups.pop() ?? false;
+      const repeated = isQuantifier(i + 1);
+      if (ambiguousInside && repeated) return false;
+      if (groups.length > 0 && (ambiguousInside || repeated)) groups[groups.length - 1] = true;
+    } else if ((ch === '|' || isQuantifier(i) || isOptional(i)) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check whether a user rule matches a transaction.
+ * Every filter that is set on the rule must match; unset filters are ignored.
+ */
+export function matchesUserRule(
+  rule: UserCategoryRule,
+  searchText: string,
+  amount: number | undefined,
+  context: Omit<CategorizeContext, 'rules'> = {}
+): boolean {
+  if (!rule.isEnabled) return false;
+
+  if (rule.merchantContains && !searchText.includes(rule.merchantContains.toLowerCase())) {
+    return false;
+  }
+
+  if (rule.merchantRegex) {
+    // Rules saved before patterns were screened could still be unsafe
+    if (!isSafeRegex(rule.merchantRegex)) return false;
+    try {
+      if (!new RegExp(rule.merchantRegex, 'i').test(searchText)) return false;
+    } catch {
+      // An invalid pattern never matches rather than breaking categorization
+      return false;
+    }
+  }
+
+  if (rule.minAmount != null || rule.maxAmount != null) {
+    if (amount === undefined) return false;
+    const amt = Math.abs(amount);
+    if (rule.minAmount != null && amt < rule.minAmount) return false;
+    if (rule.maxAmount != null && amt > rule.maxAmount) return false;
+  }
+
+  if (rule.daysOfWeek.length > 0) {
+    if (!context.date) return false;
+    // Transaction dates are stored as UTC midnight, so read the UTC weekday
+    const day = new Date(context.date).getUTCDay();
+    if (!rule.daysOfWeek.includes(day)) return false;
+  }
+
+  if (rule.accountIds.length > 0) {
+    if (!context.accountId || !rule.accountIds.includes(context.accountId)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Find the first matching user rule, honoring priority (lower number wins)
+ */
+export function findMatchingUserRule(
+  rules: UserCategoryRule[],
+  merchantName: string,
+  description: string,
+  amount?: number,
+  context: Omit<CategorizeContext, 'rules'> = {}
+): UserCategoryRule | null {
+  const searchText = `${merchantName} ${description}`.toLowerCase();
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority);
+
+  return ordered.find((rule) => matchesUserRule(rule, searchText, amount, context)) ?? null;
 }
 
 /**
  * Auto-categorize a transaction based on merchant name and description
+ * User rules in context are evaluated first, then the built-in rules
  * Always returns a suggestion - never returns null
  */
 export function autoCategorize(
   merchantName: string,
   description: string,
-  amount?: number
+  amount?: number,
+  context: CategorizeContext = {}
 ): AutoCategorizeResult {
   const searchText = `${merchantName} ${description}`.toLowerCase();
 
-  // First, try to match against known patterns
+  // User-defined rules take precedence over everything else
+  if (context.rules && context.rules.length > 0) {
+    const userRule = findMatchingUserRule(context.rules, merchantName, description, amount, context);
+    if (userRule) {
+      return {
+        zone: userRule.zone,
+        category: userRule.category || 'Custom Rule',
+        confidence: 1,
+        reasoning: `Your rule "${userRule.name}"`,
+        source: `rule:${userRule.id}`,
+      };
+    }
+  }
+
+  // Next, what the user has taught us about this merchant
+  if (context.learned && context.learned.size > 0) {
+    const learned = context.learned.get(normalizeMerchant(merchantName || description));
+    if (learned && learned.zone !== 'UNCATEGORIZED') {
+      const times = learned.timesConfirmed === 1 ? 'last time' : `the last ${learned.timesConfirmed} times`;
+      return {
+        zone: learned.zone,
+        category: 'Learned',
+        confidence: learnedConfidence(learned.timesConfirmed),
+        reasoning: `You filed this merchant as ${learned.zone} ${times}`,
+        source: 'learned',
+      };
+    }
+  }
+
+  // Then try to match against known patterns
   for (const rule of ALL_RULES) {
     for (const pattern of rule.patterns) {
       if (searchText.includes(pattern.toLowerCase())) {
@@ -90,6 +291,7 @@ export function autoCategorize(
           category: rule.category,
           confidence: 0.85,
           reasoning: `Matched "${pattern}" → ${rule.category}`,
+          source: `builtin:${rule.category}`,
         };
       }
     }
@@ -106,6 +308,7 @@ export function autoCategorize(
       category: 'Bill Payment',
       confidence: 0.6,
       reasoning: 'Appears to be a bill payment or scheduled payment',
+      source: 'heuristic',
     };
   }
 
@@ -117,6 +320,7 @@ export function autoCategorize(
       category: 'Transfer',
       confidence: 0.5,
       reasoning: 'Money transfer - review if this was necessary',
+      source: 'heuristic',
     };
   }
 
@@ -130,6 +334,7 @@ export function autoCategorize(
       category: 'Dining Out',
       confidence: 0.65,
       reasoning: 'Appears to be a restaurant or food purchase',
+      source: 'heuristic',
     };
   }
 
@@ -142,6 +347,7 @@ export function autoCategorize(
       category: 'Shopping',
       confidence: 0.55,
       reasoning: 'Retail purchase - consider if this was planned',
+      source: 'heuristic',
     };
   }
 
@@ -154,6 +360,7 @@ export function autoCategorize(
         category: 'Small Purchase',
         confidence: 0.45,
         reasoning: `Small $${amt.toFixed(0)} purchase - often impulse buys add up`,
+        source: 'heuristic',
       };
     }
 
@@ -164,6 +371,7 @@ export function autoCategorize(
         category: 'Uncategorized',
         confidence: 0.4,
         reasoning: 'Unknown merchant - review and categorize based on actual need',
+        source: 'heuristic',
       };
     }
 
@@ -174,6 +382,7 @@ export function autoCategorize(
         category: 'Uncategorized',
         confidence: 0.35,
         reasoning: `$${amt.toFixed(0)} purchase - was this planned or impulsive?`,
+        source: 'heuristic',
       };
     }
 
@@ -183,6 +392,7 @@ export function autoCategorize(
       category: 'Large Purchase',
       confidence: 0.4,
       reasoning: `Large $${amt.toFixed(0)} purchase - verify this was a planned expense`,
+      source: 'heuristic',
     };
   }
 
@@ -192,6 +402,7 @@ export function autoCategorize(
     category: 'Uncategorized',
     confidence: 0.3,
     reasoning: 'Unknown merchant - drag to the correct zone',
+    source: 'heuristic',
   };
 }
 
@@ -204,7 +415,9 @@ export function autoCategorizeMany(
     merchantName: string | null;
     description: string;
     amount: number;
-  }>
+    date?: Date | string;
+  }>,
+  context: Pick<CategorizeContext, 'rules' | 'learned'> = {}
 ): Map<string, AutoCategorizeResult> {
   const results = new Map<string, AutoCategorizeResult>();
 
@@ -212,7 +425,8 @@ export function autoCategorizeMany(
     const result = autoCategorize(
       txn.merchantName || '',
       txn.description,
-      txn.amount
+      txn.amount,
+      { ...context, date: txn.date }
     );
     if (result) {
       results.set(txn.id, result);
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { Budget } from '@/types';
+import type { ZoneCategorization } from './zone-allocation';
+import {
+  calculateBudgetStatus,
+  calculateCarryover,
+  formatCategory,
+  getDailyAllowance,
+  sumBudgetSpending,
+  type BudgetTransaction,
+} from './budget-calculator';
+
+function budget(overrides: Partial<Budget> = {}): Budget {
+  return {
+    id: 'budget-1',
+    userId: 'user-1',
+    zone: 'RED',
+    category: null,
+    amount: 200,
+    rollover: false,
+    carryover: 0,
+    startMonth: new Date(2026, 7, 1),
+    createdAt: new Date(2026, 7, 1),
+    updatedAt: new Date(2026, 7, 1),
+    ...overrides,
+  };
+}
+
+function txn(id: string, amount: number, date: Date, overrides: Partial<BudgetTransaction> = {}): BudgetTransaction {
+  return { id, amount, date, defaultCategory: null, ...overrides };
+}
+
+const red = (id: string): [string, ZoneCategorization] => [id, { transactionId: id, zone: 'RED' }];
+
+describe('calculateCarryover', () => {
+  it('carries what is left of each month forward', () => {
+    expect(calculateCarryover(200, [150, 100])).toBe(150);
+  });
+
+  it('empties the envelope on overspending without going negative', () => {
+    expect(calculateCarryover(200, [150, 400, 50])).toBe(150);
+  });
+
+  it('starts from the saved carryover', () => {
+    expect(calculateCarryover(200, [200], 25)).toBe(25);
+  });
+});
+
+describe('sumBudgetSpending', () => {
+  const from = new Date(2026, 9, 1);
+  const to = new Date(2026, 10, 1);
+
+  it('counts filed slices in the zone within the month and nets refunds', () => {
+    const transactions = [
+      txn('dinner', 60, new Date(2026, 9, 3)),
+      txn('refund', 10, new Date(2026, 9, 4), { kind: 'REFUND' }),
+      txn('unfiled', 40, new Date(2026, 9, 5)),
+      txn('last-month', 90, new Date(2026, 8, 30)),
+    ];
+    const categorizations = new Map([red('dinner'), red('refund'), red('last-month')]);
+    expect(sumBudgetSpending(budget(), transactions, categorizations, from, to)).toBe(50);
+  });
+
+  it('counts category spending whether filed or not, with split parts keeping their own category', () => {
+    const transactions = [
+      txn('groceries', 80, new Date(2026, 9, 3), { defaultCategory: 'Groceries' }),
+      txn('target', 100, new Date(2026, 9, 4), { defaultCategory: 'Shopping' }),
+    ];
+    const categorizations = new Map<string, ZoneCategorization>([
+      ['target', {
+        transactionId: 'target',
+        zone: 'YELLOW',
+        splits: [{ amount: 30, zone: 'GREEN', category: 'Groceries' }, { amount: 70, zone: 'YELLOW' }],
+      }],
+    ]);
+    const groceries = budget({ zone: null, category: 'Groceries' });
+    expect(sumBudgetSpending(groceries, transactions, categorizations, from, to)).toBe(110);
+  });
+});
+
+describe('calculateBudgetStatus', () => {
+  const now = new Date(2026, 9, 15);
+  const transactions = [
+    txn('aug', 150, new Date(2026, 7, 10)),
+    txn('sep', 100, new Date(2026, 8, 10)),
+    txn('oct', 80, new Date(2026, 9, 10)),
+  ];
+  const categorizations = new Map([red('aug'), red('sep'), red('oct')]);
+
+  it('replays closed months into the rollover', () => {
+    const status = calculateBudgetStatus(budget({ rollover: true }), transactions, categorizations, now);
+    expect(status).toMatchObject({ carriedIn: 150, available: 350, spent: 80, remaining: 270, percentUsed: 23 });
+  });
+
+  it('starts fresh each month without rollover', () => {
+    const status = calculateBudgetStatus(budget(), transactions, categorizations, now);
+    expect(status).toMatchObject({ carriedIn: 0, available: 200, spent: 80, remaining: 120, percentUsed: 40 });
+  });
+
+  it('goes negative when this month is overspent', () => {
+    const over = [...transactions, txn('splurge', 300, new Date(2026, 9, 12))];
+    const status = calculateBudgetStatus(budget(), over, new Map([...categorizations, red('splurge')]), now);
+    expect(status.remaining).toBe(-180);
+    expect(getDailyAllowance(status, now)).toBe(0);
+  });
+});
+
+describe('getDailyAllowance', () => {
+  it('spreads what is left over the days remaining, today included', () => {
+    expect(getDailyAllowance({ remaining: 170 }, new Date(2026, 9, 15))).toBe(10);
+  });
+});
+
+describe('formatCategory', () => {
+  it('turns Plaid categories into sentence case and leaves readable ones alone', () => {
+    expect(formatCategory('FOOD_AND_DRINK')).toBe('Food and drink');
+    expect(formatCategory('Coffee Shops')).toBe('Coffee Shops');
+  });
+});
@@ -0,0 +1,138 @@
+// Budget Calculator Service
+// Monthly envelope math: what a zone or category budget has spent, what rolls forward,
+// and what's left to spend. Shared by the budgets API, the alert evaluator and the client.
+
+import type { Budget, BudgetStatus, TransactionKind } from '@/types';
+import { getZoneSlices, type ZoneCategorization } from '@/lib/services/zone-allocation';
+import { ZONE_CONFIG } from '@/constants/traffic-light';
+
+export interface BudgetTransaction {
+  id: string;
+  amount: number;
+  date: Date;
+  kind?: TransactionKind | null;
+  defaultCategory: string | null;
+}
+
+type BudgetTarget = Pick<Budget, 'zone' | 'category'>;
+
+/**
+ * Midnight on the first of the month containing a date
+ */
+export function getMonthStart(date: Date = new Date()): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/**
+ * The first of the month a number of months after (or before) a month start
+ */
+export function addMonths(monthStart: Date, months: number): Date {
+  return new Date(monthStart.getFullYear(), monthStart.getMonth() + months, 1);
+}
+
+/**
+ * Spending that counts against a budget between two dates (end exclusive).
+ * Zone budgets count filed slices in their zone; category budgets count every
+ * slice in the category, filed or not. Split parts keep their own category and
+ * refunds net out.
+ */
+export function sumBudgetSpending(
+  budget: BudgetTarget,
+  transactions: BudgetTransaction[],
+  categorizations: Map<string, ZoneCategorization>,
+  from: Date,
+  to?: Date
+): number {
+  let spent = 0;
+
+  for (const txn of transactions) {
+    if (txn.date < from || (to && txn.date >= to)) continue;
+    for (const slice of getZoneSlices(txn.amount, categorizations.get(txn.id), txn.kind)) {
+      const matches = budget.zone
+        ? slice.zone === budget.zone
+        : (slice.category ?? txn.defaultCategory) === budget.category;
+      if (matches) spent += slice.amount;
+    }
+  }
+
+  return Math.round(spent * 100) / 100;
+}
+
+/**
+ * Money carried into the current month: each closed month adds what was left
+ * of its allotment. Overspending empties the envelope but doesn't go negative.
+ */
+export function calculateCarryover(amount: number, monthlySpending: number[], startingCarryover: number = 0): number {
+  const carried = monthlySpending.reduce(
+    (carry, spent) => Math.max(0, carry + amount - spent),
+    startingCarryover
+  );
+  return Math.round(carried * 100) / 100;
+}
+
+/**
+ * Where a budget stands this month. Months from startMonth up to the current
+ * one are replayed for rollover, so the transactions must reach back that far.
+ */
+export function calculateBudgetStatus(
+  budget: Budget,
+  transactions: BudgetTransaction[],
+  categorizations: Map<string, ZoneCategorization>,
+  now: Date = new Date()
+): BudgetStatus {
+  const currentMonth = getMonthStart(now);
+
+  let carriedIn = 0;
+  if (budget.rollover) {
+    const closedMonths: number[] = [];
+    for (let month = getMonthStart(budget.startMonth); month < currentMonth; month = addMonths(month, 1)) {
+      closedMonths.push(sumBudgetSpending(budget, transactions, categorizations, month, addMonths(month, 1)));
+    }
+    carriedIn = calculateCarryover(budget.amount, closedMonths, budget.carryover);
+  }
+
+  const spent = sumBudgetSpending(budget, transactions, categorizations, currentMonth, addMonths(currentMonth, 1));
+  return withSpending({ ...budget, carriedIn }, spent);
+}
+
+/**
+ * Recompute a status's remaining-to-spend for a new spending total - used to keep
+ * the client live as transactions are categorized
+ */
+export function withSpending(budget: Budget & { carriedIn: number }, spent: number): BudgetStatus {
+  const available = Math.round((budget.amount + budget.carriedIn) * 100) / 100;
+  return {
+    ...budget,
+    available,
+    spent,
+    remaining: Math.round((available - spent) * 100) / 100,
+    percentUsed: available > 0 ? Math.round((spent / available) * 100) : spent > 0 ? 100 : 0,
+  };
+}
+
+/**
+ * What's left to spend per day for the rest of the month
+ */
+export function getDailyAllowance(status: Pick<BudgetStatus, 'remaining'>, now: Date = new Date()): number {
+  if (status.remaining <= 0) return 0;
+  const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
+  const daysLeft = daysInMonth - now.getDate() + 1;
+  return Math.floor((status.remaining / daysLeft) * 100) / 100;
+}
+
+/**
+ * Display name for a budget: the zone's label, or the category in sentence case
+ */
+export function getBudgetLabel(budget: BudgetTarget): string {
+  if (budget.zone) return ZONE_CONFIG[budget.zone].label;
+  return formatCategory(budget.category ?? '');
+}
+
+/**
+ * "FOOD_AND_DRINK" -> "Food and drink"; categories that are already readable are left alone
+ */
+export function formatCategory(category: string): string {
+  if (category !== category.toUpperCase()) return category;
+  const words = category.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
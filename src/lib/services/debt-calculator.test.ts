@@ -0,0 +1,215 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateConsolidationPlan,
+  calculateDebtPayoffPlan,
+  calculateLoanPayment,
+  compareStrategies,
+  foldTransferFee,
+  getCashFlowIndex,
+  getInterestRateAt,
+  getMinimumPayment,
+  getPendingTransferFee,
+  sortDebtsByStrategy,
+} from './debt-calculator';
+
+const card = {
+  id: 'card',
+  name: 'Card',
+  balance: 1000,
+  interestRate: 0.24,
+  minimumPayment: 50,
+};
+
+describe('getInterestRateAt', () => {
+  it('uses the promo rate until it ends', () => {
+    const debt = { interestRate: 0.24, promoRate: 0, promoEndDate: new Date('2027-01-01') };
+    expect(getInterestRateAt(debt, new Date('2026-12-31'))).toBe(0);
+    expect(getInterestRateAt(debt, new Date('2027-01-01'))).toBe(0.24);
+  });
+});
+
+describe('getMinimumPayment', () => {
+  it('takes a percent of the balance with the fixed minimum as the floor', () => {
+    const debt = { minimumPayment: 25, minimumPaymentPercent: 0.02 };
+    expect(getMinimumPayment(debt, 5000)).toBe(100);
+    expect(getMinimumPayment(debt, 500)).toBe(25);
+  });
+});
+
+describe('transfer fees', () => {
+  it('counts a fee only until it is folded into the balance', () => {
+    expect(getPendingTransferFee({ transferFee: 30 })).toBe(30);
+    expect(getPendingTransferFee({ transferFee: 30, transferFeeAppliedAt: new Date() })).toBe(0);
+  });
+
+  it('folds a new fee into the balance once', () => {
+    const now = new Date('2026-10-01');
+    expect(foldTransferFee({ balance: 1000 }, { transferFee: 30 }, now)).toEqual({ balance: 1030, transferFeeAppliedAt: now });
+  });
+
+  it('leaves an applied fee alone when it is saved again', () => {
+    const debt = { balance: 1030, transferFee: 30, transferFeeAppliedAt: new Date('2026-10-01') };
+    expect(foldTransferFee(debt, { balance: 1030, transferFee: 30 })).toEqual({});
+    expect(foldTransferFee(debt, { balance: 900 })).toEqual({});
+  });
+
+  it('applies only the change when a fee is edited or removed', () => {
+    const debt = { balance: 1030, transferFee: 30, transferFeeAppliedAt: new Date('2026-10-01') };
+    expect(foldTransferFee(debt, { transferFee: 50 }).balance).toBe(1050);
+    expect(foldTransferFee(debt, { transferFee: null })).toEqual({ balance: 1000, transferFeeAppliedAt: null });
+  });
+
+  it('does not add a folded fee to the payoff plan again', () => {
+    const folded = { ...card, balance: 1030, transferFee: 30, transferFeeAppliedAt: new Date() };
+    const pending = { ...card, transferFee: 30 };
+    expect(calculateDebtPayoffPlan([folded]).totalDebt).toBe(1030);
+    expect(calculateDebtPayoffPlan([pending]).totalDebt).toBe(1030);
+  });
+});
+
+describe('calculateDebtPayoffPlan', () => {
+  it('returns an empty plan with no debts', () => {
+    const plan = calculateDebtPayoffPlan([]);
+    expect(plan.monthsToDebtFree).toBe(0);
+    expect(plan.totalDebt).toBe(0);
+  });
+
+  it('pays a debt off from its minimum, longer once interest is charged', () => {
+    const plan = calculateDebtPayoffPlan([{ ...card, interestRate: 0 }]);
+    expect(plan.monthsToDebtFree).toBe(20);
+    expect(plan.totalInterest).toBe(0);
+
+    const withInterest = calculateDebtPayoffPlan([card]);
+    expect(withInterest.monthsToDebtFree).toBeGreaterThan(20);
+    expect(withInterest.totalInterest).toBeGreaterThan(0);
+  });
+
+  it('charges nothing during a 0% promo', () => {
+    const promo = { ...card, promoRate: 0, promoEndDate: new Date(Date.now() + 5 * 365 * 24 * 60 * 60 * 1000) };
+    expect(calculateDebtPayoffPlan([promo]).totalInterest).toBe(0);
+  });
+
+  it('gets debt-free sooner with an extra payment', () => {
+    expect(calculateDebtPayoffPlan([card], 100).monthsToDebtFree)
+      .toBeLessThan(calculateDebtPayoffPlan([card]).monthsToDebtFree);
+  });
+});
+
+describe('sortDebtsByStrategy', () => {
+  const debts = [
+    { id: 'big-high', name: 'A', balance: 8000, interestRate: 0.29, minimumPayment: 200, priority: 2 },
+    { id: 'small-low', name: 'B', balance: 600, interestRate: 0.05, minimumPayment: 25, priority: 0 },
+    { id: 'mid-mid', name: 'C', balance: 3000, interestRate: 0.15, minimumPayment: 300, priority: 1 },
+  ];
+  const order = (strategy: Parameters<typeof sortDebtsByStrategy>[1]) =>
+    sortDebtsByStrategy(debts, strategy).map((d) => d.id);
+
+  it('orders snowball by balance', () => {
+    expect(order('SNOWBALL')).toEqual(['small-low', 'mid-mid', 'big-high']);
+  });
+
+  it('orders avalanche by rate', () => {
+    expect(order('AVALANCHE')).toEqual(['big-high', 'mid-mid', 'small-low']);
+  });
+
+  it('orders cash-flow index by balance over minimum', () => {
+    // 10, 24 and 40
+    expect(order('CASH_FLOW_INDEX')).toEqual(['mid-mid', 'small-low', 'big-high']);
+  });
+
+  it('clears small balances first under hybrid, then goes by rate', () => {
+    expect(order('HYBRID')).toEqual(['small-low', 'big-high', 'mid-mid']);
+  });
+
+  it('follows the user priority under custom', () => {
+    expect(order('CUSTOM')).toEqual(['small-low', 'mid-mid', 'big-high']);
+  });
+
+  it('ranks a card in a 0% promo below its standard rate', () => {
+    const promo = { ...debts[0], promoRate: 0, promoEndDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000) };
+    expect(sortDebtsByStrategy([promo, debts[1]], 'AVALANCHE').map((d) => d.id)).toEqual(['small-low', 'big-high']);
+  });
+});
+
+describe('getCashFlowIndex', () => {
+  it('is infinite with no minimum payment', () => {
+    expect(getCashFlowIndex({ balance: 100, minimumPayment: 0 })).toBe(Infinity);
+  });
+});
+
+describe('debt cascade', () => {
+  it("rolls a paid-off debt's minimum on to the next debt", () => {
+    const plan = calculateDebtPayoffPlan(
+      [
+        { id: 'small', name: 'Small', balance: 100, interestRate: 0, minimumPayment: 50 },
+        { id: 'large', name: 'Large', balance: 1000, interestRate: 0, minimumPayment: 50 },
+      ],
+      0,
+      'SNOWBALL'
+    );
+    // Minimums clear the small debt in two months, then the whole $100 goes to the large one
+    expect(plan.debts.map((d) => d.monthsToPayoff)).toEqual([2, 11]);
+    expect(plan.debts[1].monthlyPayments[1].payment).toBe(50);
+    expect(plan.debts[1].monthlyPayments[2].payment).toBe(100);
+  });
+
+  it('keeps the extra payment on top of a percent-of-balance minimum', () => {
+    const percentCard = { ...card, balance: 10000, minimumPayment: 25, minimumPaymentPercent: 0.03 };
+    const base = calculateDebtPayoffPlan([percentCard], 0);
+    const withExtra = calculateDebtPayoffPlan([percentCard], 100);
+    expect(base.debts[0].monthlyPayments[0].payment).toBe(300);
+    expect(withExtra.debts[0].monthlyPayments[0].payment).toBe(400);
+    expect(withExtra.monthsToDebtFree).toBeLessThan(base.monthsToDebtFree);
+  });
+
+  it('sizes the budget on a pending transfer fee too', () => {
+    const transfer = { ...card, balance: 1000, minimumPayment: 0, minimumPaymentPercent: 0.1, transferFee: 100 };
+    expect(calculateDebtPayoffPlan([transfer]).debts[0].monthlyPayments[0].payment).toBe(110);
+  });
+});
+
+describe('compareStrategies', () => {
+  const debts = [
+    { id: 'high', name: 'High APR', balance: 5000, interestRate: 0.29, minimumPayment: 150 },
+    { id: 'low', name: 'Low APR', balance: 1000, interestRate: 0.05, minimumPayment: 50 },
+  ];
+
+  it('finds avalanche no more expensive than snowball', () => {
+    const comparison = compareStrategies(debts, 200);
+    expect(comparison.avalanche.totalInterest).toBeLessThanOrEqual(comparison.snowball.totalInterest);
+    expect(comparison.interestSaved).toBeGreaterThanOrEqual(0);
+  });
+
+  it('measures every scenario against the current strategy', () => {
+    const comparison = compareStrategies(debts, 200, { current: 'SNOWBALL' });
+    const snowball = comparison.outcomes.find((o) => o.scenario === 'SNOWBALL');
+    expect(snowball?.interestDifference).toBe(0);
+    expect(snowball?.monthsDifference).toBe(0);
+  });
+
+  it('includes a consolidation offer and can pick it as best', () => {
+    const comparison = compareStrategies(debts, 200, {
+      consolidation: { interestRate: 0.01, termMonths: 36, fee: 0 },
+    });
+    expect(comparison.outcomes.map((o) => o.scenario)).toContain('CONSOLIDATION');
+    expect(comparison.best).toBe('CONSOLIDATION');
+  });
+});
+
+describe('calculateConsolidationPlan', () => {
+  it('rolls every balance and the fee into one loan', () => {
+    const plan = calculateConsolidationPlan(
+      [{ ...card }, { ...card, id: 'other', balance: 500 }],
+      { interestRate: 0.1, termMonths: 24, fee: 45 }
+    );
+    expect(plan.debts).toHaveLength(1);
+    expect(plan.totalDebt).toBe(1545);
+  });
+});
+
+describe('calculateLoanPayment', () => {
+  it('amortizes over the term', () => {
+    expect(calculateLoanPayment(1200, 0, 12)).toBe(100);
+    expect(calculateLoanPayment(10000, 0.06, 60)).toBeCloseTo(193.33, 2);
+  });
+});
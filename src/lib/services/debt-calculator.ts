@@ -1,22 +1,37 @@
 // Debt Payoff Calculator Service
-// Implements Snowball and Avalanche debt payoff strategies
+// Implements Snowball, Avalanche, Cash-Flow Index and Hybrid payoff strategies and a
+// consolidation-loan what-if, including promotional APRs, balance-transfer fees and
+// percent-of-balance minimum payments
 
 import type {
+  ConsolidationOffer,
   Debt,
   DebtPayoffStrategy,
   DebtPayoffPlan,
   DebtPayoffSchedule,
   DebtMonthlyPayment,
   DebtComparison,
+  DebtScenarioOutcome,
 } from '@/types';
 
+// Hybrid clears balances at or under this first, then goes avalanche
+const HYBRID_QUICK_WIN_BALANCE = 1000;
+
+// Every ordering strategy, in the order they're compared
+const ALL_STRATEGIES: DebtPayoffStrategy[] = ['AVALANCHE', 'SNOWBALL', 'CASH_FLOW_INDEX', 'HYBRID', 'CUSTOM'];
+
 interface DebtInput {
   id: string;
   name: string;
   balance: number;
-  interestRate: number; // Annual rate as decimal (0.1999 = 19.99%)
-  minimumPayment: number;
+  interestRate: number; // Annual rate as decimal (0.1999 = 19.99%); applies after any promo
+  minimumPayment: number; // Fixed minimum, or the floor when minimumPaymentPercent is set
   priority?: number;
+  promoRate?: number | null; // Promotional rate until promoEndDate
+  promoEndDate?: Date | null;
+  transferFee?: number | null; // One-time fee added to the balance in the first month
+  transferFeeAppliedAt?: Date | null; // Set once the fee is part of the balance
+  minimumPaymentPercent?: number | null; // Minimum as a share of the balance (0.02 = 2%)
 }
 
 /**
@@ -27,20 +42,93 @@ function calculateMonthlyInterest(balance: number, annualRate: number): number {
   return balance * monthlyRate;
 }
 
+/**
+ * The APR in effect on a date: the promo rate until it ends, then the standard rate
+ */
+export function getInterestRateAt(
+  debt: Pick<DebtInput, 'interestRate' | 'promoRate' | 'promoEndDate'>,
+  date: Date
+): number {
+  if (debt.promoRate != null && debt.promoEndDate && date < debt.promoEndDate) {
+    return debt.promoRate;
+  }
+  return debt.interestRate;
+}
+
+/**
+ * The part of a transfer fee not yet on the balance: all of it until it's been folded in, then nothing
+ */
+export function getPendingTransferFee(debt: Pick<DebtInput, 'transferFee' | 'transferFeeAppliedAt'>): number {
+  return debt.transferFeeAppliedAt ? 0 : debt.transferFee ?? 0;
+}
+
+/**
+ * Fold a new or changed transfer fee into a debt's balance once. Returns the
+ * balance and applied date to save, or an empty object when the fee hasn't changed.
+ * `changes.balance` is the balance being saved alongside the fee, if any.
+ */
+export function foldTransferFee(
+  debt: Pick<DebtInput, 'balance' | 'transferFee' | 'transferFeeAppliedAt'>,
+  changes: { balance?: number; transferFee?: number | null },
+  now: Date = new Date()
+): { balance?: number; transferFeeAppliedAt?: Date | null } {
+  if (changes.transferFee === undefined) return {};
+
+  const applied = debt.transferFeeAppliedAt ? debt.transferFee ?? 0 : 0;
+  const fee = changes.transferFee ?? 0;
+  if (fee === applied) return {};
+
+  return {
+    balance: Math.round(((changes.balance ?? debt.balance) + fee - applied) * 100) / 100,
+    transferFeeAppliedAt: fee > 0 ? now : null,
+  };
+}
+
+/**
+ * Minimum payment due on a balance: a percent of it, with the fixed minimum as the floor
+ */
+export function getMinimumPayment(
+  debt: Pick<DebtInput, 'minimumPayment' | 'minimumPaymentPercent'>,
+  balance: number
+): number {
+  const percentMinimum = debt.minimumPaymentPercent ? balance * debt.minimumPaymentPercent : 0;
+  return Math.max(debt.minimumPayment, percentMinimum);
+}
+
+/**
+ * Balance divided by minimum payment. The lower it is, the more monthly cash flow
+ * paying the debt off frees up per dollar.
+ */
+export function getCashFlowIndex(debt: Pick<DebtInput, 'balance' | 'minimumPayment' | 'minimumPaymentPercent'>): number {
+  const minimum = getMinimumPayment(debt, debt.balance);
+  return minimum > 0 ? debt.balance / minimum : Infinity;
+}
+
 /**
  * Sort debts by strategy
  * - SNOWBALL: Smallest balance first (psychological wins)
  * - AVALANCHE: Highest interest rate first (mathematically optimal)
+ * - CASH_FLOW_INDEX: Lowest balance-to-minimum ratio first (frees up monthly cash fastest)
+ * - HYBRID: Balances under $1,000 smallest first, then highest interest rate
  * - CUSTOM: User-defined priority order
  */
-function sortDebtsByStrategy(debts: DebtInput[], strategy: DebtPayoffStrategy): DebtInput[] {
+export function sortDebtsByStrategy<T extends DebtInput>(debts: T[], strategy: DebtPayoffStrategy): T[] {
   const sorted = [...debts];
+  // Ranked by today's rate, so a card at 0% waits until its promo ends
+  const byRate = (a: T, b: T) => getInterestRateAt(b, new Date()) - getInterestRateAt(a, new Date());
 
   switch (strategy) {
     case 'SNOWBALL':
       return sorted.sort((a, b) => a.balance - b.balance);
     case 'AVALANCHE':
-      return sorted.sort((a, b) => b.interestRate - a.interestRate);
+      return sorted.sort(byRate);
+    case 'CASH_FLOW_INDEX':
+      return sorted.sort((a, b) => getCashFlowIndex(a) - getCashFlowIndex(b));
+    case 'HYBRID': {
+      const quickWins = sorted.filter(d => d.balance <= HYBRID_QUICK_WIN_BALANCE).sort((a, b) => a.balance - b.balance);
+      const rest = sorted.filter(d => d.balance > HYBRID_QUICK_WIN_BALANCE).sort(byRate);
+      return [...quickWins, ...rest];
+    }
     case 'CUSTOM':
       return sorted.sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
     default:
@@ -49,59 +137,82 @@ function sortDebtsByStrategy(debts: DebtInput[], strategy: DebtPayoffStrategy):
 }
 
 /**
- * Calculate payoff schedule for a single debt
+ * Simulate paying debts down together, month by month. Every month each open debt
+ * gets its minimum (on the current balance, at the rate in effect that month), and
+ * what's left of the monthly budget goes to the debts in order. The budget is every
+ * debt's minimum on its starting balance plus `extraPayment`, held fixed so a
+ * shrinking or paid-off debt's minimum rolls on to the next one.
  */
-function calculateDebtSchedule(
-  debt: DebtInput,
-  monthlyPayment: number,
-  startMonth: number = 0,
+function simulatePayoff(
+  sortedDebts: DebtInput[],
+  extraPayment: number,
   startDate: Date = new Date()
-): DebtPayoffSchedule {
-  const payments: DebtMonthlyPayment[] = [];
-  let remainingBalance = debt.balance;
-  let totalInterestPaid = 0;
-  let totalAmountPaid = 0;
-  let month = startMonth;
+): DebtPayoffSchedule[] {
+  const states = sortedDebts.map((debt) => ({
+    debt,
+    // A transfer fee not yet folded in lands on the balance once, at the start
+    balance: debt.balance + getPendingTransferFee(debt),
+    payments: [] as DebtMonthlyPayment[],
+    totalInterestPaid: 0,
+    totalAmountPaid: 0,
+  }));
+  const budget = states.reduce((sum, s) => sum + getMinimumPayment(s.debt, s.balance), 0) + extraPayment;
 
   // Safety limit to prevent infinite loops
   const maxMonths = 600; // 50 years max
 
-  while (remainingBalance > 0.01 && month - startMonth < maxMonths) {
-    const monthlyInterest = calculateMonthlyInterest(remainingBalance, debt.interestRate);
-    const actualPayment = Math.min(monthlyPayment, remainingBalance + monthlyInterest);
-    const principal = actualPayment - monthlyInterest;
-
-    remainingBalance = Math.max(0, remainingBalance - principal);
-    totalInterestPaid += monthlyInterest;
-    totalAmountPaid += actualPayment;
+  for (let month = 0; month < maxMonths; month++) {
+    const open = states.filter((s) => s.balance > 0.01);
+    if (open.length === 0) break;
 
     const paymentDate = new Date(startDate);
     paymentDate.setMonth(paymentDate.getMonth() + month);
 
-    payments.push({
-      month,
-      date: paymentDate,
-      payment: Math.round(actualPayment * 100) / 100,
-      principal: Math.round(principal * 100) / 100,
-      interest: Math.round(monthlyInterest * 100) / 100,
-      remainingBalance: Math.round(remainingBalance * 100) / 100,
+    // Interest first, then every minimum
+    const dues = open.map((s) => {
+      const interest = calculateMonthlyInterest(s.balance, getInterestRateAt(s.debt, paymentDate));
+      const owed = s.balance + interest;
+      return { state: s, interest, owed, payment: Math.min(getMinimumPayment(s.debt, s.balance), owed) };
     });
 
-    month++;
+    // Then whatever is left, in payoff order
+    let remaining = budget - dues.reduce((sum, d) => sum + d.payment, 0);
+    for (const due of dues) {
+      if (remaining <= 0) break;
+      const extra = Math.min(remaining, due.owed - due.payment);
+      due.payment += extra;
+      remaining -= extra;
+    }
+
+    for (const { state, interest, owed, payment } of dues) {
+      state.balance = Math.max(0, owed - payment);
+      state.totalInterestPaid += interest;
+      state.totalAmountPaid += payment;
+      state.payments.push({
+        month,
+        date: paymentDate,
+        payment: Math.round(payment * 100) / 100,
+        principal: Math.round((payment - interest) * 100) / 100,
+        interest: Math.round(interest * 100) / 100,
+        remainingBalance: Math.round(state.balance * 100) / 100,
+      });
+    }
   }
 
-  const payoffDate = new Date(startDate);
-  payoffDate.setMonth(payoffDate.getMonth() + month - 1);
+  return states.map((s) => {
+    const payoffDate = new Date(startDate);
+    payoffDate.setMonth(payoffDate.getMonth() + s.payments.length - 1);
 
-  return {
-    debtId: debt.id,
-    debtName: debt.name,
-    payoffDate,
-    monthsToPayoff: month - startMonth,
-    totalInterestPaid: Math.round(totalInterestPaid * 100) / 100,
-    totalAmountPaid: Math.round(totalAmountPaid * 100) / 100,
-    monthlyPayments: payments,
-  };
+    return {
+      debtId: s.debt.id,
+      debtName: s.debt.name,
+      payoffDate,
+      monthsToPayoff: s.payments.length,
+      totalInterestPaid: Math.round(s.totalInterestPaid * 100) / 100,
+      totalAmountPaid: Math.round(s.totalAmountPaid * 100) / 100,
+      monthlyPayments: s.payments,
+    };
+  });
 }
 
 /**
@@ -127,37 +238,16 @@ export function calculateDebtPayoffPlan(
 
   const sortedDebts = sortDebtsByStrategy(debts, strategy);
   const startDate = new Date();
-  const debtSchedules: DebtPayoffSchedule[] = [];
-
-  // Track remaining balances and available extra payment
-  const balances = new Map<string, number>();
-  sortedDebts.forEach(d => balances.set(d.id, d.balance));
-
-  let currentExtraPayment = extraMonthlyPayment;
-  let totalInterest = 0;
-  let maxMonth = 0;
-
-  // Process each debt in order
-  for (const debt of sortedDebts) {
-    // Calculate total payment for this debt (minimum + any cascaded extra)
-    const totalPayment = debt.minimumPayment + currentExtraPayment;
+  const debtSchedules = simulatePayoff(sortedDebts, extraMonthlyPayment, startDate);
 
-    // Calculate schedule for this debt
-    const schedule = calculateDebtSchedule(debt, totalPayment, 0, startDate);
-    debtSchedules.push(schedule);
-
-    totalInterest += schedule.totalInterestPaid;
-    maxMonth = Math.max(maxMonth, schedule.monthsToPayoff);
-
-    // When this debt is paid off, add its minimum payment to extra for next debt
-    currentExtraPayment += debt.minimumPayment;
-  }
+  const totalInterest = debtSchedules.reduce((sum, s) => sum + s.totalInterestPaid, 0);
+  const maxMonth = Math.max(...debtSchedules.map((s) => s.monthsToPayoff));
 
   // Find the actual debt-free date (when all debts are paid)
   const debtFreeDate = new Date(startDate);
   debtFreeDate.setMonth(debtFreeDate.getMonth() + maxMonth);
 
-  const totalDebt = debts.reduce((sum, d) => sum + d.balance, 0);
+  const totalDebt = debts.reduce((sum, d) => sum + d.balance + getPendingTransferFee(d), 0);
 
   return {
     strategy,
@@ -171,20 +261,82 @@ export function calculateDebtPayoffPlan(
 }
 
 /**
- * Compare snowball vs avalanche strategies
+ * Monthly payment that pays off a loan over its term
  */
-export function compareStrategies(
+export function calculateLoanPayment(principal: number, annualRate: number, termMonths: number): number {
+  if (termMonths <= 0) return principal;
+  const monthlyRate = annualRate / 12;
+  if (monthlyRate === 0) return principal / termMonths;
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -termMonths));
+}
+
+/**
+ * What-if: roll every debt into one consolidation loan. The fee is added to the
+ * loan, the loan's payment replaces the debts' minimums, and the same extra
+ * payment goes on top so the result is comparable with the other strategies.
+ */
+export function calculateConsolidationPlan(
   debts: DebtInput[],
+  offer: ConsolidationOffer,
   extraMonthlyPayment: number = 0
+): DebtPayoffPlan {
+  const total = debts.reduce((sum, d) => sum + d.balance, 0);
+  const loan: DebtInput = {
+    id: 'consolidation',
+    name: 'Consolidation loan',
+    balance: total,
+    interestRate: offer.interestRate,
+    minimumPayment: Math.round(calculateLoanPayment(total + offer.fee, offer.interestRate, offer.termMonths) * 100) / 100,
+    transferFee: offer.fee,
+  };
+  return calculateDebtPayoffPlan(total > 0 ? [loan] : [], extraMonthlyPayment, 'CUSTOM');
+}
+
+/**
+ * Compare every strategy (and a consolidation offer, if there is one) against the
+ * strategy in use. Avalanche vs snowball is kept as its own summary.
+ */
+export function compareStrategies(
+  debts: DebtInput[],
+  extraMonthlyPayment: number = 0,
+  options: { current?: DebtPayoffStrategy; consolidation?: ConsolidationOffer | null } = {}
 ): DebtComparison {
-  const snowball = calculateDebtPayoffPlan(debts, extraMonthlyPayment, 'SNOWBALL');
-  const avalanche = calculateDebtPayoffPlan(debts, extraMonthlyPayment, 'AVALANCHE');
+  const current = options.current ?? 'AVALANCHE';
+  const plans = new Map(
+    ALL_STRATEGIES.map(strategy => [strategy, calculateDebtPayoffPlan(debts, extraMonthlyPayment, strategy)])
+  );
+  const snowball = plans.get('SNOWBALL')!;
+  const avalanche = plans.get('AVALANCHE')!;
+  const currentPlan = plans.get(current)!;
+
+  const outcome = (scenario: DebtScenarioOutcome['scenario'], plan: DebtPayoffPlan): DebtScenarioOutcome => ({
+    scenario,
+    plan,
+    interestDifference: Math.round((plan.totalInterest - currentPlan.totalInterest) * 100) / 100,
+    monthsDifference: plan.monthsToDebtFree - currentPlan.monthsToDebtFree,
+  });
+
+  const outcomes = ALL_STRATEGIES.map(strategy => outcome(strategy, plans.get(strategy)!));
+  if (options.consolidation && debts.length > 0) {
+    outcomes.push(outcome('CONSOLIDATION', calculateConsolidationPlan(debts, options.consolidation, extraMonthlyPayment)));
+  }
+
+  // Cheapest overall; ties go to whichever gets debt-free sooner
+  const best = outcomes.reduce((a, b) =>
+    b.plan.totalInterest < a.plan.totalInterest ||
+    (b.plan.totalInterest === a.plan.totalInterest && b.plan.monthsToDebtFree < a.plan.monthsToDebtFree)
+      ? b
+      : a
+  );
 
   return {
     snowball,
     avalanche,
     interestSaved: Math.round((snowball.totalInterest - avalanche.totalInterest) * 100) / 100,
     timeDifference: snowball.monthsToDebtFree - avalanche.monthsToDebtFree,
+    current,
+    outcomes,
+    best: best.scenario,
   };
 }
 
@@ -218,7 +370,7 @@ export function calculateExtraPaymentImpact(
  * (sum of all minimum payments)
  */
 export function calculateMinimumMonthlyTotal(debts: DebtInput[]): number {
-  return debts.reduce((sum, d) => sum + d.minimumPayment, 0);
+  return debts.reduce((sum, d) => sum + getMinimumPayment(d, d.balance), 0);
 }
 
 /**
@@ -279,6 +431,11 @@ export function debtToInput(debt: Debt): DebtInput {
     interestRate: debt.interestRate,
     minimumPayment: debt.minimumPayment,
     priority: debt.priority,
+    promoRate: debt.promoRate,
+    promoEndDate: debt.promoEndDate,
+    transferFee: debt.transferFee,
+    transferFeeAppliedAt: debt.transferFeeAppliedAt,
+    minimumPaymentPercent: debt.minimumPaymentPercent,
   };
 }
 
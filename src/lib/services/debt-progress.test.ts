@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { Debt, DebtPayment } from '@/types';
+import { calculatePlanVsActual, splitPayment } from './debt-progress';
+
+function debt(overrides: Partial<Debt> = {}): Debt {
+  return {
+    id: 'debt-1',
+    userId: 'user-1',
+    name: 'Card',
+    balance: 600,
+    interestRate: 0,
+    minimumPayment: 50,
+    dueDate: null,
+    priority: 0,
+    isPaidOff: false,
+    paidOffDate: null,
+    originalBalance: 1000,
+    createdAt: new Date(2026, 6, 1),
+    updatedAt: new Date(2026, 6, 1),
+    ...overrides,
+  };
+}
+
+function payment(date: Date, amount: number, balanceAfter: number): DebtPayment {
+  return {
+    id: `payment-${date.getMonth()}`,
+    debtId: 'debt-1',
+    transactionId: null,
+    amount,
+    principal: amount,
+    interest: 0,
+    balanceAfter,
+    date,
+    source: 'MANUAL',
+    note: null,
+    createdAt: date,
+  };
+}
+
+describe('splitPayment', () => {
+  it("covers the month's interest with the first payment", () => {
+    expect(splitPayment(1200, 0.24, 100, true)).toEqual({ principal: 76, interest: 24 });
+  });
+
+  it('puts later payments in the month all toward principal', () => {
+    expect(splitPayment(1200, 0.24, 100, false)).toEqual({ principal: 100, interest: 0 });
+  });
+
+  it('never charges more interest than the payment', () => {
+    expect(splitPayment(1200, 0.24, 10, true)).toEqual({ principal: 0, interest: 10 });
+  });
+});
+
+describe('calculatePlanVsActual', () => {
+  const payments = [
+    payment(new Date(2026, 7, 10), 100, 900),
+    payment(new Date(2026, 8, 10), 150, 750),
+    payment(new Date(2026, 9, 10), 150, 600),
+  ];
+
+  it('replays the plan from the balance before the first payment', () => {
+    const result = calculatePlanVsActual(debt(), payments, 100, new Date(2026, 9, 15));
+    expect(result).toMatchObject({
+      monthsTracked: 3,
+      plannedBalance: 700,
+      actualBalance: 600,
+      balanceDifference: 100,
+      plannedPaid: 300,
+      actualPaid: 400,
+      status: 'AHEAD',
+    });
+  });
+
+  it('calls small differences on track and shortfalls behind', () => {
+    expect(calculatePlanVsActual(debt({ balance: 705 }), payments, 100, new Date(2026, 9, 15))?.status).toBe('ON_TRACK');
+    expect(calculatePlanVsActual(debt({ balance: 800 }), payments, 100, new Date(2026, 9, 15))?.status).toBe('BEHIND');
+  });
+
+  it('is null without payments', () => {
+    expect(calculatePlanVsActual(debt(), [], 100)).toBeNull();
+  });
+});
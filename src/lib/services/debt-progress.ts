@@ -0,0 +1,78 @@
+// Debt Progress Service
+// Splits recorded payments into principal and interest, and compares them with the payoff plan
+
+import { getInterestRateAt } from '@/lib/services/debt-calculator';
+import type { Debt, DebtPayment, DebtPlanVsActual } from '@/types';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Split a payment the way the payoff planner models it: the first payment in a
+ * month covers that month's interest (balance × the APR in effect / 12), the rest
+ * goes to principal. Later payments in the same month are all principal.
+ */
+export function splitPayment(
+  balance: number,
+  annualRate: number,
+  amount: number,
+  firstPaymentThisMonth: boolean
+): { principal: number; interest: number } {
+  const interestDue = firstPaymentThisMonth ? round((balance * annualRate) / 12) : 0;
+  const interest = Math.min(amount, interestDue);
+  return { principal: round(amount - interest), interest };
+}
+
+/**
+ * Compare a debt's recorded payments with the plan. The plan is replayed from the
+ * balance before the first recorded payment, paying `plannedMonthlyPayment` each
+ * month; the result is how far the real balance is ahead of or behind that.
+ * Returns null when no payments have been recorded.
+ */
+export function calculatePlanVsActual(
+  debt: Debt,
+  payments: DebtPayment[],
+  plannedMonthlyPayment: number,
+  asOf: Date = new Date()
+): DebtPlanVsActual | null {
+  if (payments.length === 0) return null;
+
+  const first = payments.reduce((a, b) => (b.date < a.date ? b : a));
+  const startBalance = first.balanceAfter + first.principal;
+  const since = new Date(first.date.getFullYear(), first.date.getMonth(), 1);
+  const monthsTracked = Math.max(
+    1,
+    (asOf.getFullYear() - since.getFullYear()) * 12 + asOf.getMonth() - since.getMonth() + 1
+  );
+
+  let plannedBalance = startBalance;
+  let plannedPaid = 0;
+  let plannedInterest = 0;
+  for (let month = 0; month < monthsTracked && plannedBalance > 0.01; month++) {
+    const rate = getInterestRateAt(debt, new Date(since.getFullYear(), since.getMonth() + month, 1));
+    const interest = (plannedBalance * rate) / 12;
+    const payment = Math.min(plannedMonthlyPayment, plannedBalance + interest);
+    plannedBalance = Math.max(0, plannedBalance + interest - payment);
+    plannedPaid += payment;
+    plannedInterest += interest;
+  }
+
+  const actualBalance = debt.balance;
+  const balanceDifference = round(plannedBalance - actualBalance);
+
+  // Within a percent of the starting balance (or $10) counts as on track
+  const tolerance = Math.max(10, startBalance * 0.01);
+
+  return {
+    debtId: debt.id,
+    since,
+    monthsTracked,
+    plannedBalance: round(plannedBalance),
+    actualBalance: round(actualBalance),
+    balanceDifference,
+    plannedPaid: round(plannedPaid),
+    actualPaid: round(payments.reduce((sum, p) => sum + p.amount, 0)),
+    plannedInterest: round(plannedInterest),
+    interestPaid: round(payments.reduce((sum, p) => sum + p.interest, 0)),
+    status: balanceDifference > tolerance ? 'AHEAD' : balanceDifference < -tolerance ? 'BEHIND' : 'ON_TRACK',
+  };
+}
@@ -0,0 +1,76 @@
+// Income Detection
+// Finds recurring payroll deposits so income sources can be filled in automatically
+
+import { normalizeMerchant } from '@/lib/services/auto-categorize';
+import { isPayrollDeposit } from '@/lib/transactions/direction';
+import type { DetectedIncomeSource, IncomeFrequency, TransactionKind } from '@/types';
+
+interface DepositTransaction {
+  amount: number;
+  description: string;
+  merchantName: string | null;
+  defaultCategory: string | null;
+  date: Date;
+  kind: TransactionKind;
+}
+
+// Paychecks smaller than this are more likely interest or cashback
+const MIN_PAYCHECK = 100;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Map the typical gap between deposits to a pay frequency
+ */
+function frequencyFromGap(days: number): IncomeFrequency | null {
+  if (days >= 5 && days <= 9) return 'weekly';
+  if (days >= 12 && days <= 17) return 'bi-weekly';
+  if (days >= 26 && days <= 35) return 'monthly';
+  return null;
+}
+
+/**
+ * Group payroll deposits by employer and keep the ones arriving on a regular schedule
+ */
+export function detectPayrollSources(transactions: DepositTransaction[]): DetectedIncomeSource[] {
+  const byEmployer = new Map<string, { name: string; deposits: DepositTransaction[] }>();
+
+  for (const txn of transactions) {
+    if (txn.kind !== 'CREDIT' || txn.amount < MIN_PAYCHECK) continue;
+    if (!isPayrollDeposit(txn.description, txn.defaultCategory) && txn.defaultCategory !== 'INCOME') continue;
+
+    const name = txn.merchantName || txn.description;
+    const key = normalizeMerchant(name);
+    if (!key) continue;
+
+    const group = byEmployer.get(key) ?? { name, deposits: [] };
+    group.deposits.push(txn);
+    byEmployer.set(key, group);
+  }
+
+  const sources: DetectedIncomeSource[] = [];
+
+  for (const [key, { name, deposits }] of byEmployer) {
+    if (deposits.length < 2) continue;
+
+    const sorted = [...deposits].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const gaps = sorted.slice(1).map((d, i) => (d.date.getTime() - sorted[i].date.getTime()) / 86_400_000);
+    const frequency = frequencyFromGap(median(gaps));
+    if (!frequency) continue;
+
+    sources.push({
+      key,
+      name,
+      amount: Math.round(median(sorted.map((d) => d.amount)) * 100) / 100,
+      frequency,
+      occurrences: sorted.length,
+      lastDepositAt: sorted[sorted.length - 1].date,
+    });
+  }
+
+  return sources.sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { NetWorthSnapshot } from '@/types';
+import { calculateMonthOverMonth, calculateNetWorth } from './net-worth-calculator';
+
+function snapshot(date: Date, netWorth: number): NetWorthSnapshot {
+  return {
+    date,
+    totalAssets: netWorth,
+    totalLiabilities: 0,
+    netWorth,
+    breakdown: { cash: netWorth, investments: 0, manualAssets: 0, savingsGoals: 0, creditCards: 0, loans: 0, debts: 0 },
+  };
+}
+
+describe('calculateNetWorth', () => {
+  it('counts credit and loan balances as owed and everything else as assets', () => {
+    const totals = calculateNetWorth({
+      accounts: [
+        { type: 'depository', currentBalance: 2500 },
+        { type: 'investment', currentBalance: 10000 },
+        { type: 'credit', currentBalance: 800 },
+        { type: 'loan', currentBalance: 12000 },
+        { type: 'depository', currentBalance: null },
+      ],
+      manualAssets: [{ value: 15000 }],
+      debts: [{ balance: 3000, isPaidOff: false }],
+      savingsGoals: [{ currentAmount: 1200, isCompleted: false }],
+    });
+
+    expect(totals.breakdown).toEqual({
+      cash: 2500,
+      investments: 10000,
+      manualAssets: 15000,
+      savingsGoals: 1200,
+      creditCards: 800,
+      loans: 12000,
+      debts: 3000,
+    });
+    expect(totals).toMatchObject({ totalAssets: 28700, totalLiabilities: 15800, netWorth: 12900 });
+  });
+
+  it('leaves out paid-off debts and completed goals', () => {
+    const totals = calculateNetWorth({
+      accounts: [],
+      manualAssets: [],
+      debts: [{ balance: 500, isPaidOff: true }],
+      savingsGoals: [{ currentAmount: 4000, isCompleted: true }],
+    });
+    expect(totals.netWorth).toBe(0);
+  });
+});
+
+describe('calculateMonthOverMonth', () => {
+  it('compares against the newest snapshot at least a month old', () => {
+    const history = [
+      snapshot(new Date('2026-08-01T00:00:00Z'), 1000),
+      snapshot(new Date('2026-09-10T00:00:00Z'), 1500),
+      snapshot(new Date('2026-09-25T00:00:00Z'), 1800),
+      snapshot(new Date('2026-10-15T00:00:00Z'), 2000),
+    ];
+    expect(calculateMonthOverMonth(history)).toBe(500);
+  });
+
+  it('is null until history reaches back a month', () => {
+    expect(calculateMonthOverMonth([])).toBeNull();
+    expect(calculateMonthOverMonth([
+      snapshot(new Date('2026-10-01T00:00:00Z'), 1000),
+      snapshot(new Date('2026-10-15T00:00:00Z'), 1200),
+    ])).toBeNull();
+  });
+});
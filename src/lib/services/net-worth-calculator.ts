@@ -0,0 +1,72 @@
+// Net Worth Calculator Service
+// Adds up assets and liabilities from linked accounts, manual assets, debts and savings goals
+
+import type { NetWorthBreakdown, NetWorthSnapshot } from '@/types';
+
+interface NetWorthInputs {
+  // Plaid account type (depository, credit, loan, investment...) and current balance
+  accounts: Array<{ type: string; currentBalance: number | null }>;
+  manualAssets: Array<{ value: number }>;
+  // Only debts and goals not already counted through a linked account's balance
+  debts: Array<{ balance: number; isPaidOff: boolean }>;
+  savingsGoals: Array<{ currentAmount: number; isCompleted: boolean }>;
+}
+
+interface NetWorthTotals {
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+  breakdown: NetWorthBreakdown;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Split linked accounts, manual assets, debts and savings goals into assets and
+ * liabilities. Credit and loan balances from Plaid are amounts owed.
+ */
+export function calculateNetWorth(inputs: NetWorthInputs): NetWorthTotals {
+  const balanceOf = (types: string[]) =>
+    sum(inputs.accounts.filter((a) => types.includes(a.type)).map((a) => a.currentBalance ?? 0));
+
+  const breakdown: NetWorthBreakdown = {
+    cash: round(balanceOf(['depository', 'other'])),
+    investments: round(balanceOf(['investment', 'brokerage'])),
+    manualAssets: round(sum(inputs.manualAssets.map((a) => a.value))),
+    // Completed goals have usually been spent on what they were saved for
+    savingsGoals: round(sum(inputs.savingsGoals.filter((g) => !g.isCompleted).map((g) => g.currentAmount))),
+    creditCards: round(balanceOf(['credit'])),
+    loans: round(balanceOf(['loan'])),
+    debts: round(sum(inputs.debts.filter((d) => !d.isPaidOff).map((d) => d.balance))),
+  };
+
+  const totalAssets = round(breakdown.cash + breakdown.investments + breakdown.manualAssets + breakdown.savingsGoals);
+  const totalLiabilities = round(breakdown.creditCards + breakdown.loans + breakdown.debts);
+
+  return {
+    totalAssets,
+    totalLiabilities,
+    netWorth: round(totalAssets - totalLiabilities),
+    breakdown,
+  };
+}
+
+/**
+ * Change in net worth since a month before the latest snapshot. Compares against
+ * the newest snapshot at least a month old; null when history doesn't go back that far.
+ */
+export function calculateMonthOverMonth(history: NetWorthSnapshot[]): number | null {
+  if (history.length === 0) return null;
+
+  const latest = history.reduce((a, b) => (b.date > a.date ? b : a));
+  const monthAgo = new Date(latest.date);
+  monthAgo.setMonth(monthAgo.getMonth() - 1);
+
+  const baseline = history
+    .filter((s) => s.date <= monthAgo)
+    .reduce<NetWorthSnapshot | null>((a, b) => (!a || b.date > a.date ? b : a), null);
+
+  return baseline ? round(latest.netWorth - baseline.netWorth) : null;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { addCadence, detectRecurringCharges, isStreamingService } from './recurring-detection';
+
+let nextId = 0;
+
+function charge(merchantName: string, amount: number, date: Date, overrides: { isRecurring?: boolean; kind?: 'DEBIT' | 'REFUND' } = {}) {
+  return {
+    id: `txn-${nextId++}`,
+    amount,
+    description: merchantName.toUpperCase(),
+    merchantName,
+    defaultCategory: null,
+    date,
+    isRecurring: false,
+    ...overrides,
+  };
+}
+
+const now = new Date(2026, 9, 15);
+
+describe('detectRecurringCharges', () => {
+  it('finds a monthly subscription across merchant name variants', () => {
+    const [netflix] = detectRecurringCharges([
+      charge('Netflix', 15.49, new Date(2026, 6, 5)),
+      charge('NETFLIX #1234', 15.49, new Date(2026, 7, 5)),
+      charge('Netflix', 15.49, new Date(2026, 8, 5)),
+      charge('Netflix', 15.49, new Date(2026, 9, 5)),
+    ], now);
+
+    expect(netflix).toMatchObject({
+      cadence: 'monthly',
+      amount: 15.49,
+      monthlyCost: 15.49,
+      occurrences: 4,
+      status: 'active',
+      priceIncrease: null,
+      nextChargeAt: new Date(2026, 10, 5),
+    });
+  });
+
+  it('flags a recent price increase on a steady price', () => {
+    const [spotify] = detectRecurringCharges([
+      charge('Spotify', 10.99, new Date(2026, 5, 1)),
+      charge('Spotify', 10.99, new Date(2026, 6, 1)),
+      charge('Spotify', 10.99, new Date(2026, 7, 1)),
+      charge('Spotify', 11.99, new Date(2026, 8, 1)),
+      charge('Spotify', 11.99, new Date(2026, 9, 1)),
+    ], now);
+
+    expect(spotify).toMatchObject({ amount: 11.99, previousAmount: 10.99, priceIncrease: 1 });
+  });
+
+  it('needs enough charges unless the bank already flags them as recurring', () => {
+    const twice = [charge('Gym', 40, new Date(2026, 7, 10)), charge('Gym', 40, new Date(2026, 8, 10))];
+    expect(detectRecurringCharges(twice, now)).toEqual([]);
+    expect(detectRecurringCharges(twice.map((c) => ({ ...c, isRecurring: true })), now)).toHaveLength(1);
+  });
+
+  it('marks a charge missed after its grace period, and stopped a cycle later', () => {
+    const gym = [
+      charge('Gym', 40, new Date(2026, 5, 10)),
+      charge('Gym', 40, new Date(2026, 6, 10)),
+      charge('Gym', 40, new Date(2026, 7, 10)),
+    ];
+    expect(detectRecurringCharges(gym, new Date(2026, 9, 1))[0].status).toBe('missed');
+    expect(detectRecurringCharges(gym, new Date(2026, 9, 20))[0].status).toBe('stopped');
+  });
+
+  it('leaves out irregular charges and refunds', () => {
+    expect(detectRecurringCharges([
+      charge('Corner Deli', 12, new Date(2026, 6, 2)),
+      charge('Corner Deli', 12, new Date(2026, 6, 20)),
+      charge('Corner Deli', 12, new Date(2026, 8, 1)),
+      charge('Corner Deli', 12, new Date(2026, 8, 3)),
+    ], now)).toEqual([]);
+
+    expect(detectRecurringCharges([
+      charge('Hulu', 7.99, new Date(2026, 7, 3), { kind: 'REFUND' }),
+      charge('Hulu', 7.99, new Date(2026, 8, 3), { kind: 'REFUND' }),
+      charge('Hulu', 7.99, new Date(2026, 9, 3), { kind: 'REFUND' }),
+    ], now)).toEqual([]);
+  });
+});
+
+describe('addCadence', () => {
+  it('keeps the day of the month, falling back to the last day', () => {
+    expect(addCadence(new Date(2026, 0, 31), 'monthly')).toEqual(new Date(2026, 1, 28));
+    expect(addCadence(new Date(2026, 2, 15), 'annual')).toEqual(new Date(2027, 2, 15));
+  });
+});
+
+describe('isStreamingService', () => {
+  it('recognizes streaming by name or category', () => {
+    expect(isStreamingService({ name: 'Netflix', defaultCategory: null })).toBe(true);
+    expect(isStreamingService({ name: 'Acme', defaultCategory: 'ENTERTAINMENT_TV_AND_MOVIES' })).toBe(true);
+    expect(isStreamingService({ name: 'Gym', defaultCategory: null })).toBe(false);
+  });
+});
@@ -0,0 +1,219 @@
+// Recurring Charge Detection
+// Finds subscriptions and other repeating bills: charges from the same merchant at a
+// steady amount on a weekly, monthly or annual cadence
+
+import { normalizeMerchant } from '@/lib/services/auto-categorize';
+import type { RecurringCadence, RecurringCharge, RecurringChargeStatus, TransactionKind } from '@/types';
+
+interface ChargeTransaction {
+  id: string;
+  amount: number;
+  description: string;
+  merchantName: string | null;
+  defaultCategory: string | null;
+  date: Date;
+  kind?: TransactionKind;
+  // Plaid's own subscription flag
+  isRecurring: boolean;
+}
+
+interface CadenceRule {
+  // Gaps between charges (days) that fit the cadence
+  minGap: number;
+  maxGap: number;
+  // Charges needed before a series counts; Plaid-flagged series need fewer
+  minOccurrences: number;
+  // Days past the expected date before a charge counts as missed
+  graceDays: number;
+  perMonth: number;
+}
+
+const CADENCE_RULES: Record<RecurringCadence, CadenceRule> = {
+  weekly: { minGap: 5, maxGap: 9, minOccurrences: 4, graceDays: 3, perMonth: 52 / 12 },
+  monthly: { minGap: 26, maxGap: 35, minOccurrences: 3, graceDays: 5, perMonth: 1 },
+  annual: { minGap: 350, maxGap: 380, minOccurrences: 2, graceDays: 14, perMonth: 1 / 12 },
+};
+
+// Charges within this share (or this many dollars) of a series' last amount belong to it
+const AMOUNT_TOLERANCE = 0.2;
+const MIN_AMOUNT_TOLERANCE = 1;
+
+// A price counts as steady while charges stay within 2%; a rise of at least 2% and 50 cents is an increase
+const STEADY_PRICE_TOLERANCE = 0.02;
+const MIN_PRICE_INCREASE = 0.5;
+
+// An increase stays flagged this long after the new price first shows up
+const PRICE_INCREASE_WINDOW_DAYS = 60;
+
+const STREAMING_PATTERN = /streaming|music|tv and movies|netflix|spotify|hulu|disney|hbo|paramount|peacock|youtube|apple tv/i;
+
+const DAY_MS = 86_400_000;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Map the typical gap between charges to a cadence
+ */
+function cadenceFromGap(days: number): RecurringCadence | null {
+  for (const cadence of Object.keys(CADENCE_RULES) as RecurringCadence[]) {
+    const rule = CADENCE_RULES[cadence];
+    if (days >= rule.minGap && days <= rule.maxGap) return cadence;
+  }
+  return null;
+}
+
+/**
+ * The date one cadence step after a charge. Monthly and annual charges keep
+ * their day of the month, falling back to the month's last day.
+ */
+export function addCadence(date: Date, cadence: RecurringCadence): Date {
+  if (cadence === 'weekly') return new Date(date.getTime() + 7 * DAY_MS);
+
+  const months = cadence === 'monthly' ? 1 : 12;
+  const next = new Date(date);
+  next.setDate(1);
+  next.setMonth(next.getMonth() + months);
+  const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+  next.setDate(Math.min(date.getDate(), lastDay));
+  return next;
+}
+
+/**
+ * Split one merchant's charges into series of similar amounts. Each charge joins
+ * the series whose last amount is closest, so a gradual price change stays in one
+ * series while two plans from the same merchant stay apart.
+ */
+function splitByAmount(charges: ChargeTransaction[]): ChargeTransaction[][] {
+  const series: ChargeTransaction[][] = [];
+
+  for (const charge of charges) {
+    let best: ChargeTransaction[] | null = null;
+    let bestDiff = Infinity;
+    for (const s of series) {
+      const last = s[s.length - 1].amount;
+      const diff = Math.abs(charge.amount - last);
+      if (diff <= Math.max(last * AMOUNT_TOLERANCE, MIN_AMOUNT_TOLERANCE) && diff < bestDiff) {
+        best = s;
+        bestDiff = diff;
+      }
+    }
+    if (best) best.push(charge);
+    else series.push([charge]);
+  }
+
+  return series;
+}
+
+/**
+ * The price before the latest change, and how much it went up when the old price
+ * was steady and the new one started within the last couple of months. Bills that
+ * vary month to month (utilities) never report an increase.
+ */
+function getPriceChange(
+  series: ChargeTransaction[],
+  now: Date
+): { previousAmount: number | null; priceIncrease: number | null } {
+  const amounts = series.map((c) => c.amount);
+  const latest = amounts[amounts.length - 1];
+
+  // First charge at the current price
+  let start = amounts.length - 1;
+  while (start > 0 && Math.abs(amounts[start - 1] - latest) <= latest * STEADY_PRICE_TOLERANCE) start--;
+  if (start === 0) return { previousAmount: null, priceIncrease: null };
+
+  const previousAmount = amounts[start - 1];
+  const steady = amounts.slice(0, start).every((a) => Math.abs(a - previousAmount) <= previousAmount * STEADY_PRICE_TOLERANCE);
+  const recent = now.getTime() - series[start].date.getTime() <= PRICE_INCREASE_WINDOW_DAYS * DAY_MS;
+  const increase = latest - previousAmount;
+
+  if (!steady || !recent || increase < MIN_PRICE_INCREASE || increase < previousAmount * STEADY_PRICE_TOLERANCE) {
+    return { previousAmount, priceIncrease: null };
+  }
+  return { previousAmount, priceIncrease: roundCents(increase) };
+}
+
+function getStatus(nextChargeAt: Date, cadence: RecurringCadence, now: Date): RecurringChargeStatus {
+  const grace = CADENCE_RULES[cadence].graceDays * DAY_MS;
+  if (now.getTime() > addCadence(nextChargeAt, cadence).getTime() + grace) return 'stopped';
+  if (now.getTime() > nextChargeAt.getTime() + grace) return 'missed';
+  return 'active';
+}
+
+/**
+ * Find recurring charges among a user's spending. Charges are grouped by merchant,
+ * split into series of similar amounts, and kept when every gap between them fits
+ * one cadence. Results are ordered by monthly cost, most expensive first.
+ */
+export function detectRecurringCharges(
+  transactions: ChargeTransaction[],
+  now: Date = new Date()
+): RecurringCharge[] {
+  const byMerchant = new Map<string, { name: string; charges: ChargeTransaction[] }>();
+
+  for (const txn of transactions) {
+    if ((txn.kind ?? 'DEBIT') !== 'DEBIT' || txn.amount <= 0) continue;
+
+    const name = txn.merchantName || txn.description;
+    const key = normalizeMerchant(name);
+    if (!key) continue;
+
+    const group = byMerchant.get(key) ?? { name, charges: [] };
+    group.charges.push(txn);
+    byMerchant.set(key, group);
+  }
+
+  const charges: RecurringCharge[] = [];
+
+  for (const [merchantKey, { name, charges: merchantCharges }] of byMerchant) {
+    const sorted = [...merchantCharges].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    for (const series of splitByAmount(sorted)) {
+      if (series.length < 2) continue;
+
+      const gaps = series.slice(1).map((c, i) => (c.date.getTime() - series[i].date.getTime()) / DAY_MS);
+      const cadence = cadenceFromGap(median(gaps));
+      if (!cadence) continue;
+
+      const rule = CADENCE_RULES[cadence];
+      if (!gaps.every((g) => g >= rule.minGap && g <= rule.maxGap)) continue;
+      if (series.length < rule.minOccurrences && !series.some((c) => c.isRecurring)) continue;
+
+      const amounts = series.map((c) => c.amount);
+      const latest = series[series.length - 1];
+      const nextChargeAt = addCadence(latest.date, cadence);
+
+      charges.push({
+        key: `${merchantKey}:${cadence}:${Math.round(median(amounts))}`,
+        name,
+        cadence,
+        amount: latest.amount,
+        ...getPriceChange(series, now),
+        monthlyCost: roundCents(latest.amount * rule.perMonth),
+        occurrences: series.length,
+        lastChargedAt: latest.date,
+        nextChargeAt,
+        status: getStatus(nextChargeAt, cadence, now),
+        defaultCategory: latest.defaultCategory,
+        transactionIds: series.map((c) => c.id),
+      });
+    }
+  }
+
+  return charges.sort((a, b) => b.monthlyCost - a.monthlyCost);
+}
+
+/**
+ * Whether a recurring charge looks like a video or music streaming service
+ */
+export function isStreamingService(charge: Pick<RecurringCharge, 'name' | 'defaultCategory'>): boolean {
+  const category = (charge.defaultCategory ?? '').replace(/_/g, ' ');
+  return STREAMING_PATTERN.test(charge.name) || STREAMING_PATTERN.test(category);
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateMonthlyNeeded,
+  calculateMonthsToGoal,
+  calculateSavingsProjection,
+  getMonthlyGrowthRate,
+  projectBalance,
+  simulateOutcomeBand,
+  type SavingsGrowth,
+} from './savings-calculator';
+
+const twelvePercent: SavingsGrowth = { annualReturn: 0.12, compounding: 'MONTHLY', inflationRate: null };
+
+// A date the given number of whole months from now
+function monthsFromNow(months: number): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth() + months, 15);
+}
+
+describe('getMonthlyGrowthRate', () => {
+  it('spreads the annual return over the compounding periods', () => {
+    expect(getMonthlyGrowthRate(twelvePercent)).toBeCloseTo(0.01, 10);
+    expect(getMonthlyGrowthRate({ ...twelvePercent, compounding: 'ANNUALLY' })).toBeCloseTo(Math.pow(1.12, 1 / 12) - 1, 10);
+  });
+
+  it('takes inflation off when the target is in today\'s dollars', () => {
+    const real = { annualReturn: 0.03, compounding: 'ANNUALLY' as const, inflationRate: 0.03 };
+    expect(getMonthlyGrowthRate(real)).toBeCloseTo(0, 10);
+    expect(getMonthlyGrowthRate({ ...real, annualReturn: 0 })).toBeLessThan(0);
+  });
+});
+
+describe('projectBalance', () => {
+  it('adds contributions with no growth', () => {
+    expect(projectBalance(1000, 100, 12)).toBe(2200);
+  });
+
+  it('compounds the balance and each contribution', () => {
+    expect(projectBalance(1000, 100, 12, twelvePercent)).toBeCloseTo(1000 * 1.01 ** 12 + 100 * ((1.01 ** 12 - 1) / 0.01), 6);
+  });
+});
+
+describe('calculateMonthsToGoal', () => {
+  it('is zero once the target is met and infinite with nothing going in', () => {
+    expect(calculateMonthsToGoal(1000, 1000, 0)).toBe(0);
+    expect(calculateMonthsToGoal(0, 1000, 0)).toBe(Infinity);
+  });
+
+  it('gets there sooner with a return', () => {
+    expect(calculateMonthsToGoal(0, 10000, 100)).toBe(100);
+    // 1.01^n >= 2 first holds at n = 70
+    expect(calculateMonthsToGoal(0, 10000, 100, twelvePercent)).toBe(70);
+  });
+
+  it('gives up when inflation outpaces the contributions', () => {
+    const shrinking = { annualReturn: 0, compounding: 'MONTHLY' as const, inflationRate: 0.5 };
+    expect(calculateMonthsToGoal(0, 1_000_000, 10, shrinking)).toBe(Infinity);
+  });
+});
+
+describe('calculateMonthlyNeeded', () => {
+  it('splits what is left over the months remaining', () => {
+    expect(calculateMonthlyNeeded(0, 1000, monthsFromNow(10))).toBe(100);
+  });
+
+  it('needs less when savings grow', () => {
+    expect(calculateMonthlyNeeded(0, 1000, monthsFromNow(10), twelvePercent)).toBeLessThan(100);
+  });
+
+  it('needs nothing when the current balance grows to the target on its own', () => {
+    expect(calculateMonthlyNeeded(9500, 10000, monthsFromNow(12), twelvePercent)).toBe(0);
+  });
+});
+
+describe('simulateOutcomeBand', () => {
+  const goal = { id: 'retirement', targetAmount: 50000, currentAmount: 10000, monthlyContribution: 300 };
+  const growth = { annualReturn: 0.07, compounding: 'ANNUALLY' as const, inflationRate: null };
+
+  it('returns the same band for the same goal', () => {
+    expect(simulateOutcomeBand(goal, growth, 120)).toEqual(simulateOutcomeBand(goal, growth, 120));
+  });
+
+  it('orders the percentiles around the expected balance', () => {
+    const band = simulateOutcomeBand(goal, growth, 120);
+    expect(band.p10).toBeLessThan(band.p50);
+    expect(band.p50).toBeLessThan(band.p90);
+    expect(band.chanceOfReachingTarget).toBeGreaterThan(0);
+    expect(band.chanceOfReachingTarget).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('calculateSavingsProjection', () => {
+  const goal = {
+    id: 'goal-1',
+    name: 'Nest egg',
+    targetAmount: 10000,
+    currentAmount: 0,
+    monthlyContribution: 100,
+    targetDate: null,
+    expectedReturn: 0.12,
+  };
+
+  it('reports the growth earned on the way to the target', () => {
+    const projection = calculateSavingsProjection(goal);
+    expect(projection.monthsToGoal).toBe(70);
+    expect(projection.projectedGrowth).toBeGreaterThan(0);
+    expect(projection.outcomeBand).toBeNull();
+  });
+
+  it('adds an outcome band only for invested retirement goals', () => {
+    expect(calculateSavingsProjection({ ...goal, type: 'RETIREMENT' }).outcomeBand).not.toBeNull();
+    expect(calculateSavingsProjection({ ...goal, type: 'RETIREMENT', expectedReturn: 0 }).outcomeBand).toBeNull();
+  });
+
+  it('checks the target date against the projection', () => {
+    expect(calculateSavingsProjection({ ...goal, targetDate: monthsFromNow(24) }).onTrack).toBe(false);
+    expect(calculateSavingsProjection({ ...goal, targetDate: monthsFromNow(120) }).onTrack).toBe(true);
+  });
+});
@@ -1,9 +1,11 @@
 // Savings Goal Calculator Service
-// Calculates projections and tracks progress toward savings goals
+// Calculates projections (with investment growth and inflation) and tracks progress toward savings goals
 
 import type {
+  CompoundingFrequency,
   SavingsGoal,
   SavingsGoalType,
+  SavingsOutcomeBand,
   SavingsProjection,
   SavingsContribution,
 } from '@/types';
@@ -11,10 +13,75 @@ import type {
 interface SavingsInput {
   id: string;
   name: string;
+  type?: SavingsGoalType;
   targetAmount: number;
   currentAmount: number;
   monthlyContribution: number;
   targetDate: Date | null;
+  expectedReturn?: number | null;
+  compounding?: CompoundingFrequency;
+  inflationRate?: number | null;
+}
+
+export interface SavingsGrowth {
+  annualReturn: number; // Nominal annual rate as decimal (0.045 = 4.5%)
+  compounding: CompoundingFrequency;
+  inflationRate: number | null; // When set, amounts are in today's dollars
+}
+
+const NO_GROWTH: SavingsGrowth = { annualReturn: 0, compounding: 'MONTHLY', inflationRate: null };
+
+const COMPOUNDING_PERIODS: Record<CompoundingFrequency, number> = {
+  DAILY: 365,
+  MONTHLY: 12,
+  QUARTERLY: 4,
+  ANNUALLY: 1,
+};
+
+// Projections stop here; a goal not reached by then is out of reach
+const MAX_PROJECTION_MONTHS = 1200;
+
+// Monte Carlo settings for retirement goals: a stock-heavy portfolio's annual volatility
+const RETIREMENT_VOLATILITY = 0.15;
+const SIMULATION_RUNS = 500;
+
+/**
+ * Effective monthly growth rate: the annual return compounded at the goal's
+ * frequency, less inflation when the target is in today's dollars (which
+ * assumes contributions rise with inflation too)
+ */
+export function getMonthlyGrowthRate(growth: SavingsGrowth): number {
+  const periods = COMPOUNDING_PERIODS[growth.compounding];
+  const nominal = Math.pow(1 + growth.annualReturn / periods, periods / 12) - 1;
+  if (!growth.inflationRate) return nominal;
+
+  const monthlyInflation = Math.pow(1 + growth.inflationRate, 1 / 12) - 1;
+  return (1 + nominal) / (1 + monthlyInflation) - 1;
+}
+
+/**
+ * Balance after a number of months of growth and contributions
+ */
+export function projectBalance(
+  currentAmount: number,
+  monthlyContribution: number,
+  months: number,
+  growth: SavingsGrowth = NO_GROWTH
+): number {
+  const rate = getMonthlyGrowthRate(growth);
+  if (rate === 0) return currentAmount + monthlyContribution * months;
+
+  const factor = Math.pow(1 + rate, months);
+  return currentAmount * factor + monthlyContribution * ((factor - 1) / rate);
+}
+
+// Whole months from now until a date, at least one
+function monthsUntil(date: Date): number {
+  const now = new Date();
+  return Math.max(
+    1,
+    (date.getFullYear() - now.getFullYear()) * 12 + (date.getMonth() - now.getMonth())
+  );
 }
 
 /**
@@ -23,21 +90,18 @@ interface SavingsInput {
 export function calculateProjectedCompletionDate(
   currentAmount: number,
   targetAmount: number,
-  monthlyContribution: number
+  monthlyContribution: number,
+  growth: SavingsGrowth = NO_GROWTH
 ): Date {
-  if (monthlyContribution <= 0) {
-    // If no monthly contribution, return far future date
+  const monthsToGoal = calculateMonthsToGoal(currentAmount, targetAmount, monthlyContribution, growth);
+
+  if (monthsToGoal === Infinity) {
+    // Never reached at this rate, return far future date
     const farFuture = new Date();
     farFuture.setFullYear(farFuture.getFullYear() + 100);
     return farFuture;
   }
 
-  const remaining = targetAmount - currentAmount;
-  if (remaining <= 0) {
-    return new Date(); // Already reached goal
-  }
-
-  const monthsToGoal = Math.ceil(remaining / monthlyContribution);
   const completionDate = new Date();
   completionDate.setMonth(completionDate.getMonth() + monthsToGoal);
 
@@ -45,19 +109,28 @@ export function calculateProjectedCompletionDate(
 }
 
 /**
- * Calculate months needed to reach goal
+ * Calculate months needed to reach goal, compounding any expected return monthly
  */
 export function calculateMonthsToGoal(
   currentAmount: number,
   targetAmount: number,
-  monthlyContribution: number
+  monthlyContribution: number,
+  growth: SavingsGrowth = NO_GROWTH
 ): number {
-  if (monthlyContribution <= 0) return Infinity;
-
   const remaining = targetAmount - currentAmount;
   if (remaining <= 0) return 0;
 
-  return Math.ceil(remaining / monthlyContribution);
+  const rate = getMonthlyGrowthRate(growth);
+  if (rate === 0) {
+    return monthlyContribution > 0 ? Math.ceil(remaining / monthlyContribution) : Infinity;
+  }
+
+  let balance = currentAmount;
+  for (let month = 1; month <= MAX_PROJECTION_MONTHS; month++) {
+    balance = balance * (1 + rate) + monthlyContribution;
+    if (balance >= targetAmount) return month;
+  }
+  return Infinity;
 }
 
 /**
@@ -66,19 +139,20 @@ export function calculateMonthsToGoal(
 export function calculateMonthlyNeeded(
   currentAmount: number,
   targetAmount: number,
-  targetDate: Date
+  targetDate: Date,
+  growth: SavingsGrowth = NO_GROWTH
 ): number {
   const remaining = targetAmount - currentAmount;
   if (remaining <= 0) return 0;
 
-  const now = new Date();
-  const monthsRemaining = Math.max(
-    1,
-    (targetDate.getFullYear() - now.getFullYear()) * 12 +
-      (targetDate.getMonth() - now.getMonth())
-  );
+  const monthsRemaining = monthsUntil(targetDate);
+  const rate = getMonthlyGrowthRate(growth);
+  if (rate === 0) return Math.ceil(remaining / monthsRemaining);
 
-  return Math.ceil(remaining / monthsRemaining);
+  // What's already saved grows on its own; contributions cover the rest as an annuity
+  const factor = Math.pow(1 + rate, monthsRemaining);
+  const shortfall = targetAmount - currentAmount * factor;
+  return Math.max(0, Math.ceil((shortfall * rate) / (factor - 1)));
 }
 
 /**
@@ -88,30 +162,103 @@ export function isOnTrack(
   currentAmount: number,
   targetAmount: number,
   monthlyContribution: number,
-  targetDate: Date
+  targetDate: Date,
+  growth: SavingsGrowth = NO_GROWTH
 ): boolean {
   const projectedDate = calculateProjectedCompletionDate(
     currentAmount,
     targetAmount,
-    monthlyContribution
+    monthlyContribution,
+    growth
   );
 
   return projectedDate <= targetDate;
 }
 
+// Deterministic PRNG (mulberry32) so a goal's band doesn't jump between renders
+function createRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal sample (Box-Muller)
+function sampleNormal(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Monte Carlo spread of balances at a horizon, with monthly returns drawn
+ * around the expected return at a fixed volatility
+ */
+export function simulateOutcomeBand(
+  goal: Pick<SavingsInput, 'id' | 'targetAmount' | 'currentAmount' | 'monthlyContribution'>,
+  growth: SavingsGrowth,
+  horizonMonths: number,
+  volatility: number = RETIREMENT_VOLATILITY
+): SavingsOutcomeBand {
+  const random = createRandom(goal.id);
+  const meanRate = getMonthlyGrowthRate(growth);
+  const monthlyVolatility = volatility / Math.sqrt(12);
+
+  const outcomes: number[] = [];
+  for (let run = 0; run < SIMULATION_RUNS; run++) {
+    let balance = goal.currentAmount;
+    for (let month = 0; month < horizonMonths; month++) {
+      const monthReturn = meanRate + monthlyVolatility * sampleNormal(random);
+      balance = Math.max(0, balance * (1 + monthReturn) + goal.monthlyContribution);
+    }
+    outcomes.push(balance);
+  }
+  outcomes.sort((a, b) => a - b);
+
+  const percentile = (p: number) => Math.round(outcomes[Math.floor(p * (outcomes.length - 1))]);
+  const reached = outcomes.filter(b => b >= goal.targetAmount).length;
+
+  return {
+    horizonMonths,
+    p10: percentile(0.1),
+    p50: percentile(0.5),
+    p90: percentile(0.9),
+    chanceOfReachingTarget: reached / outcomes.length,
+  };
+}
+
+/**
+ * The growth assumptions saved on a goal
+ */
+export function getSavingsGrowth(goal: SavingsInput): SavingsGrowth {
+  return {
+    annualReturn: goal.expectedReturn ?? 0,
+    compounding: goal.compounding ?? 'MONTHLY',
+    inflationRate: goal.inflationRate ?? null,
+  };
+}
+
 /**
  * Calculate full projection for a savings goal
  */
 export function calculateSavingsProjection(goal: SavingsInput): SavingsProjection {
   const { id, name, targetAmount, currentAmount, monthlyContribution, targetDate } = goal;
+  const growth = getSavingsGrowth(goal);
 
   const projectedCompletionDate = calculateProjectedCompletionDate(
     currentAmount,
     targetAmount,
-    monthlyContribution
+    monthlyContribution,
+    growth
   );
 
-  const monthsToGoal = calculateMonthsToGoal(currentAmount, targetAmount, monthlyContribution);
+  const monthsToGoal = calculateMonthsToGoal(currentAmount, targetAmount, monthlyContribution, growth);
 
   const progressPercent = targetAmount > 0
     ? Math.min(100, Math.round((currentAmount / targetAmount) * 100 * 10) / 10)
@@ -121,10 +268,23 @@ export function calculateSavingsProjection(goal: SavingsInput): SavingsProjectio
   let monthlyNeededForTarget: number | null = null;
 
   if (targetDate) {
-    onTrack = isOnTrack(currentAmount, targetAmount, monthlyContribution, targetDate);
-    monthlyNeededForTarget = calculateMonthlyNeeded(currentAmount, targetAmount, targetDate);
+    onTrack = isOnTrack(currentAmount, targetAmount, monthlyContribution, targetDate, growth);
+    monthlyNeededForTarget = calculateMonthlyNeeded(currentAmount, targetAmount, targetDate, growth);
   }
 
+  const projectedGrowth = monthsToGoal === Infinity || growth.annualReturn === 0
+    ? 0
+    : Math.max(0, Math.round(
+        projectBalance(currentAmount, monthlyContribution, monthsToGoal, growth) -
+        currentAmount - monthlyContribution * monthsToGoal
+      ));
+
+  // Retirement money is invested, so show how far markets could swing the outcome
+  const horizonMonths = targetDate ? monthsUntil(targetDate) : monthsToGoal;
+  const outcomeBand = goal.type === 'RETIREMENT' && growth.annualReturn > 0 && horizonMonths !== Infinity && horizonMonths > 0
+    ? simulateOutcomeBand(goal, growth, horizonMonths)
+    : null;
+
   return {
     goalId: id,
     goalName: name,
@@ -137,6 +297,11 @@ export function calculateSavingsProjection(goal: SavingsInput): SavingsProjectio
     onTrack,
     monthlyNeededForTarget,
     progressPercent,
+    expectedReturn: growth.annualReturn,
+    compounding: growth.compounding,
+    inflationRate: growth.inflationRate,
+    projectedGrowth,
+    outcomeBand,
   };
 }
 
@@ -292,24 +457,30 @@ export function savingsGoalToInput(goal: SavingsGoal): SavingsInput {
   return {
     id: goal.id,
     name: goal.name,
+    type: goal.type,
     targetAmount: goal.targetAmount,
     currentAmount: goal.currentAmount,
     monthlyContribution: goal.monthlyContribution ?? 0,
     targetDate: goal.targetDate,
+    expectedReturn: goal.expectedReturn ?? null,
+    compounding: goal.compounding ?? 'MONTHLY',
+    inflationRate: goal.inflationRate ?? null,
   };
 }
 
+export interface ContributionTrend {
+  averageMonthly: number;
+  trend: 'increasing' | 'decreasing' | 'stable';
+  lastContributionDate: Date | null;
+}
+
 /**
  * Calculate contribution trends from history
  */
 export function analyzeContributionTrend(
   contributions: SavingsContribution[],
   monthsToAnalyze: number = 3
-): {
-  averageMonthly: number;
-  trend: 'increasing' | 'decreasing' | 'stable';
-  lastContributionDate: Date | null;
-} {
+): ContributionTrend {
   if (contributions.length === 0) {
     return {
       averageMonthly: 0,
@@ -2,6 +2,9 @@
 // Generates personalized, actionable spending advice
 
 import type { TrafficLightZone } from '@/constants/traffic-light';
+import { getZoneSlices, isCategorized, type ZoneCategorization } from '@/lib/services/zone-allocation';
+import { isSpendingKind, spendingSign } from '@/lib/transactions/direction';
+import type { TransactionKind } from '@/types';
 
 interface Transaction {
   id: string;
@@ -10,12 +13,10 @@ interface Transaction {
   description: string;
   date: Date | string;
   defaultCategory: string | null;
+  kind?: TransactionKind;
 }
 
-interface Categorization {
-  transactionId: string;
-  zone: TrafficLightZone;
-}
+type Categorization = ZoneCategorization;
 
 interface SpendingInsight {
   type: 'warning' | 'tip' | 'win' | 'action';
@@ -41,11 +42,11 @@ export function generateInsights(
   monthlyIncome?: number
 ): SpendingInsight[] {
   const insights: SpendingInsight[] = [];
-  const categorizationMap = new Map(categorizations.map(c => [c.transactionId, c.zone]));
+  const categorizationMap = new Map(categorizations.map(c => [c.transactionId, c]));
 
   // Calculate totals by zone
   let greenTotal = 0, yellowTotal = 0, redTotal = 0;
-  let greenCount = 0, yellowCount = 0, redCount = 0;
+  let categorizedCount = 0;
 
   // Track spending by category
   const categorySpending = new Map<string, CategorySpending>();
@@ -54,43 +55,48 @@ export function generateInsights(
   const merchantSpending = new Map<string, { total: number; count: number; zone: TrafficLightZone | null }>();
 
   transactions.forEach(txn => {
-    const zone = categorizationMap.get(txn.id);
+    // Income and transfers aren't spending
+    if (!isSpendingKind(txn.kind)) return;
+
+    const categorization = categorizationMap.get(txn.id);
+    const zone = categorization && isCategorized(categorization) ? categorization.zone : undefined;
     const amount = Number(txn.amount);
     const merchant = txn.merchantName?.toLowerCase() || txn.description.toLowerCase();
-    const category = txn.defaultCategory || 'Uncategorized';
 
-    // Update merchant tracking
+    // Update merchant tracking - merchants are counted whole, under their headline zone, net of refunds
     const existing = merchantSpending.get(merchant) || { total: 0, count: 0, zone: null };
     merchantSpending.set(merchant, {
-      total: existing.total + amount,
-      count: existing.count + 1,
+      total: existing.total + spendingSign(txn.kind) * Math.abs(amount),
+      count: existing.count + (txn.kind === 'REFUND' ? 0 : 1),
       zone: zone || existing.zone,
     });
 
-    // Update category tracking
-    if (zone) {
-      const catExisting = categorySpending.get(category) || { category, total: 0, count: 0, zone };
+    if (!zone) return;
+    categorizedCount++;
+
+    // Zone and category totals follow split parts
+    getZoneSlices(amount, categorization, txn.kind).forEach(slice => {
+      if (slice.zone === 'UNCATEGORIZED') return;
+      const category = slice.category || txn.defaultCategory || 'Uncategorized';
+      const catExisting = categorySpending.get(category) || { category, total: 0, count: 0, zone: slice.zone };
       categorySpending.set(category, {
         ...catExisting,
-        total: catExisting.total + amount,
+        total: catExisting.total + slice.amount,
         count: catExisting.count + 1,
       });
-    }
 
-    if (zone === 'GREEN') {
-      greenTotal += amount;
-      greenCount++;
-    } else if (zone === 'YELLOW') {
-      yellowTotal += amount;
-      yellowCount++;
-    } else if (zone === 'RED') {
-      redTotal += amount;
-      redCount++;
-    }
+      if (slice.zone === 'GREEN') {
+        greenTotal += slice.amount;
+      } else if (slice.zone === 'YELLOW') {
+        yellowTotal += slice.amount;
+      } else if (slice.zone === 'RED') {
+        redTotal += slice.amount;
+      }
+    });
   });
 
   const totalSpending = greenTotal + yellowTotal + redTotal;
-  const totalCategorized = greenCount + yellowCount + redCount;
+  const totalCategorized = categorizedCount;
 
   // === CRITICAL WARNINGS ===
 
@@ -265,7 +271,7 @@ export function generateInsights(
 
   // === UNCATEGORIZED WARNING ===
 
-  const uncategorizedCount = transactions.length - totalCategorized;
+  const uncategorizedCount = transactions.filter(t => isSpendingKind(t.kind)).length - totalCategorized;
   if (uncategorizedCount > 5) {
     insights.push({
       type: 'action',
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { dominantZone, getZoneSlices, isCategorized, sumZoneTotals, validateSplitParts } from './zone-allocation';
+
+describe('validateSplitParts', () => {
+  it('accepts parts that add up to the transaction amount', () => {
+    expect(validateSplitParts(100, [
+      { amount: 60, zone: 'GREEN' },
+      { amount: 40, zone: 'RED' },
+    ])).toBeNull();
+  });
+
+  it('compares in cents, so floating point sums still balance', () => {
+    expect(validateSplitParts(0.3, [
+      { amount: 0.1, zone: 'GREEN' },
+      { amount: 0.2, zone: 'YELLOW' },
+    ])).toBeNull();
+  });
+
+  it('ignores the sign of the transaction amount', () => {
+    expect(validateSplitParts(-50, [
+      { amount: 25, zone: 'GREEN' },
+      { amount: 25, zone: 'YELLOW' },
+    ])).toBeNull();
+  });
+
+  it('needs at least two parts', () => {
+    expect(validateSplitParts(100, [{ amount: 100, zone: 'GREEN' }])).toBe('A split needs at least two parts');
+  });
+
+  it('needs positive amounts and a zone on every part', () => {
+    expect(validateSplitParts(100, [
+      { amount: 100, zone: 'GREEN' },
+      { amount: 0, zone: 'RED' },
+    ])).toBe('Every part needs a positive amount');
+    expect(validateSplitParts(100, [
+      { amount: 50, zone: 'GREEN' },
+      { amount: 50, zone: 'UNCATEGORIZED' },
+    ])).toBe('Every part needs a zone');
+  });
+
+  it('reports how far the parts are off', () => {
+    expect(validateSplitParts(100, [
+      { amount: 60, zone: 'GREEN' },
+      { amount: 30, zone: 'RED' },
+    ])).toBe('Parts are $10.00 short of the transaction amount');
+    expect(validateSplitParts(100, [
+      { amount: 60, zone: 'GREEN' },
+      { amount: 40.5, zone: 'RED' },
+    ])).toBe('Parts exceed the transaction amount by $0.50');
+  });
+});
+
+describe('getZoneSlices', () => {
+  it('returns one slice per split part', () => {
+    const slices = getZoneSlices(100, {
+      transactionId: 't1',
+      zone: 'GREEN',
+      splits: [
+        { amount: 70, zone: 'GREEN', category: 'Groceries' },
+        { amount: 30, zone: 'RED' },
+      ],
+    });
+    expect(slices).toEqual([
+      { zone: 'GREEN', amount: 70, category: 'Groceries' },
+      { zone: 'RED', amount: 30, category: null },
+    ]);
+  });
+
+  it('puts an unfiled transaction in UNCATEGORIZED', () => {
+    expect(getZoneSlices(20, null)).toEqual([{ zone: 'UNCATEGORIZED', amount: 20, category: null }]);
+  });
+
+  it('makes refunds negative and leaves out income and transfers', () => {
+    const categorization = { transactionId: 't1', zone: 'YELLOW' as const };
+    expect(getZoneSlices(15, categorization, 'REFUND')).toEqual([{ zone: 'YELLOW', amount: -15, category: null }]);
+    expect(getZoneSlices(1500, categorization, 'CREDIT')).toEqual([]);
+    expect(getZoneSlices(200, categorization, 'TRANSFER')).toEqual([]);
+  });
+});
+
+describe('sumZoneTotals', () => {
+  it('adds split parts to their zones and nets refunds', () => {
+    const totals = sumZoneTotals(
+      [
+        { id: 'split', amount: 100 },
+        { id: 'coffee', amount: 5 },
+        { id: 'refund', amount: 20, kind: 'REFUND' },
+        { id: 'unfiled', amount: 50 },
+        { id: 'paycheck', amount: 2000, kind: 'CREDIT' },
+      ],
+      new Map([
+        ['split', { transactionId: 'split', zone: 'GREEN' as const, splits: [{ amount: 80, zone: 'GREEN' as const }, { amount: 20, zone: 'YELLOW' as const }] }],
+        ['coffee', { transactionId: 'coffee', zone: 'RED' as const }],
+        ['refund', { transactionId: 'refund', zone: 'YELLOW' as const }],
+        ['paycheck', { transactionId: 'paycheck', zone: 'GREEN' as const }],
+      ])
+    );
+    expect(totals).toEqual({ GREEN: 80, YELLOW: 0, RED: 5, total: 85 });
+  });
+});
+
+describe('isCategorized', () => {
+  it('counts a split as filed even when its headline zone is not', () => {
+    expect(isCategorized({ transactionId: 't1', zone: 'UNCATEGORIZED', splits: [{ amount: 1, zone: 'RED' }] })).toBe(true);
+    expect(isCategorized({ transactionId: 't1', zone: 'UNCATEGORIZED' })).toBe(false);
+    expect(isCategorized(undefined)).toBe(false);
+  });
+});
+
+describe('dominantZone', () => {
+  it('picks the zone with the largest part', () => {
+    expect(dominantZone([
+      { amount: 30, zone: 'GREEN' },
+      { amount: 70, zone: 'RED' },
+    ])).toBe('RED');
+  });
+});
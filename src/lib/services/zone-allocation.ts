@@ -0,0 +1,116 @@
+// Zone allocation
+// Resolves how much of each transaction counts toward each zone, honoring split transactions
+// and netting refunds against the zone they were filed in
+
+import type { TrafficLightZone } from '@/constants/traffic-light';
+import type { TransactionKind, TransactionSplitPart } from '@/types';
+import { spendingSign } from '@/lib/transactions/direction';
+
+export interface ZoneCategorization {
+  transactionId: string;
+  zone: TrafficLightZone;
+  splits?: Array<Pick<TransactionSplitPart, 'amount' | 'zone'> & Partial<TransactionSplitPart>>;
+}
+
+export interface ZoneSlice {
+  zone: TrafficLightZone;
+  amount: number;
+  category: string | null;
+}
+
+export interface ZoneTotals {
+  GREEN: number;
+  YELLOW: number;
+  RED: number;
+  total: number;
+}
+
+/**
+ * The zone portions of a transaction: one slice per split part, or the
+ * whole amount in its single zone (UNCATEGORIZED when not yet filed).
+ * Refund slices are negative; income and transfers have no slices.
+ */
+export function getZoneSlices(
+  amount: number,
+  categorization?: ZoneCategorization | null,
+  kind?: TransactionKind | null
+): ZoneSlice[] {
+  const sign = spendingSign(kind);
+  if (sign === 0) return [];
+
+  if (categorization?.splits && categorization.splits.length > 0) {
+    return categorization.splits.map((part) => ({
+      zone: part.zone,
+      amount: sign * Math.abs(Number(part.amount)),
+      category: part.category ?? null,
+    }));
+  }
+
+  return [{
+    zone: categorization?.zone ?? 'UNCATEGORIZED',
+    amount: sign * Math.abs(Number(amount)),
+    category: null,
+  }];
+}
+
+/**
+ * Whether a transaction has been filed - fully or through splits
+ */
+export function isCategorized(categorization?: ZoneCategorization | null): boolean {
+  if (!categorization) return false;
+  if (categorization.splits && categorization.splits.length > 0) return true;
+  return categorization.zone !== 'UNCATEGORIZED';
+}
+
+/**
+ * Sum GREEN/YELLOW/RED spending across transactions, counting split parts separately
+ * and subtracting refunds
+ */
+export function sumZoneTotals(
+  transactions: Array<{ id: string; amount: number; kind?: TransactionKind | null }>,
+  categorizations: Map<string, ZoneCategorization>
+): ZoneTotals {
+  const totals: ZoneTotals = { GREEN: 0, YELLOW: 0, RED: 0, total: 0 };
+
+  for (const txn of transactions) {
+    for (const slice of getZoneSlices(txn.amount, categorizations.get(txn.id), txn.kind)) {
+      if (slice.zone === 'UNCATEGORIZED') continue;
+      totals[slice.zone] += slice.amount;
+      totals.total += slice.amount;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Validate split parts against the transaction amount.
+ * Returns an error message, or null when the parts are valid.
+ */
+export function validateSplitParts(
+  transactionAmount: number,
+  parts: Array<{ amount: number; zone: TrafficLightZone }>
+): string | null {
+  if (parts.length < 2) return 'A split needs at least two parts';
+  if (parts.some((p) => p.amount <= 0)) return 'Every part needs a positive amount';
+  if (parts.some((p) => p.zone === 'UNCATEGORIZED')) return 'Every part needs a zone';
+
+  // Compare in cents to avoid floating point drift
+  const totalCents = Math.round(Math.abs(transactionAmount) * 100);
+  const partCents = parts.reduce((sum, p) => sum + Math.round(p.amount * 100), 0);
+  if (partCents !== totalCents) {
+    const diff = (totalCents - partCents) / 100;
+    return diff > 0
+      ? `Parts are $${diff.toFixed(2)} short of the transaction amount`
+      : `Parts exceed the transaction amount by $${Math.abs(diff).toFixed(2)}`;
+  }
+
+  return null;
+}
+
+/**
+ * The zone holding the largest share of a split - used as the headline zone
+ */
+export function dominantZone(parts: Array<{ amount: number; zone: TrafficLightZone }>): TrafficLightZone {
+  return parts.reduce((best, part) => (part.amount > best.amount ? part : best), parts[0]).zone;
+}
@@ -0,0 +1,39 @@
+// Server-side subscription helpers
+// Looks up a user's tier so API routes can gate paid features
+
+import { prisma } from '@/lib/db/prisma';
+import {
+  canAccessFeature,
+  type SubscriptionTier,
+  TIER_CONFIG,
+} from '@/constants/subscription-tiers';
+
+type TierFeature = keyof typeof TIER_CONFIG.FREE.limits;
+
+/**
+ * The tier a user is currently entitled to. Canceled and incomplete
+ * subscriptions fall back to FREE; past-due ones keep access while Stripe retries.
+ */
+export async function getUserTier(userId: string): Promise<SubscriptionTier> {
+  const subscription = await prisma.subscription.findUnique({
+    where: { userId },
+    select: { tier: true, status: true },
+  });
+
+  if (!subscription || subscription.status === 'CANCELED' || subscription.status === 'INCOMPLETE') {
+    return 'FREE';
+  }
+  return subscription.tier;
+}
+
+/**
+ * Whether the user's tier includes a feature (or has room under a usage limit)
+ */
+export async function hasFeatureAccess(
+  userId: string,
+  feature: TierFeature,
+  currentUsage?: number
+): Promise<boolean> {
+  const tier = await getUserTier(userId);
+  return canAccessFeature(tier, feature, currentUsage);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { findRefundedPurchase, spendingSign } from './direction';
+
+const purchases = [
+  { id: 'latest', merchantName: "SQ *JOE'S MARKET #042", description: 'SQ *JOES MARKET 042' },
+  { id: 'older', merchantName: "Joe's Market", description: "JOE'S MARKET" },
+  { id: 'other', merchantName: 'Target', description: 'TARGET T-1234' },
+];
+
+describe('findRefundedPurchase', () => {
+  it('matches merchant names written differently', () => {
+    expect(findRefundedPurchase({ merchantName: "Joe's Market", description: 'Refund' }, purchases)?.id).toBe('latest');
+  });
+
+  it('falls back to the description when the refund has no merchant name', () => {
+    expect(findRefundedPurchase({ merchantName: null, description: 'TARGET T-1234' }, purchases)?.id).toBe('other');
+  });
+
+  it('finds nothing for an unknown merchant', () => {
+    expect(findRefundedPurchase({ merchantName: null, description: 'Best Buy' }, purchases)).toBeNull();
+    expect(findRefundedPurchase({ merchantName: null, description: '#123' }, purchases)).toBeNull();
+  });
+});
+
+describe('spendingSign', () => {
+  it('adds debits, subtracts refunds and skips income and transfers', () => {
+    expect(spendingSign('DEBIT')).toBe(1);
+    expect(spendingSign(undefined)).toBe(1);
+    expect(spendingSign('REFUND')).toBe(-1);
+    expect(spendingSign('CREDIT')).toBe(0);
+    expect(spendingSign('TRANSFER')).toBe(0);
+  });
+});
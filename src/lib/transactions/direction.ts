@@ -0,0 +1,123 @@
+// Transaction direction
+// Classifies money in and out from Plaid and CSV sign conventions, and decides how each kind counts toward spending
+
+import { normalizeMerchant } from '@/lib/services/auto-categorize';
+import type { TransactionKind } from '@/types';
+
+export type CsvSignConvention = 'negative-is-debit' | 'negative-is-credit';
+
+const TRANSFER_PATTERN = /\b(transfer|xfer)\b|online banking payment/i;
+const CARD_PAYMENT_PATTERN =
+  /payment\s*-?\s*thank you|credit card payment|\b(crd|card)\s*(autopay|pmt|payment|epay)|\bepayment\b|autopay pymt|online pmt|\bpayment to (chase|amex|citi|discover|capital one)/i;
+const REFUND_PATTERN = /\b(refund|return|reversal|credit adj(ustment)?)\b/i;
+const PAYROLL_PATTERN = /\b(payroll|direct dep(osit)?|dir dep|salary|paycheck|wages)\b/i;
+
+/**
+ * Classify a Plaid transaction. Plaid reports money leaving the account as a
+ * positive amount and money coming in as negative.
+ */
+export function classifyPlaidTransaction(
+  amount: number,
+  category?: { primary?: string | null; detailed?: string | null } | null,
+  description?: string
+): TransactionKind {
+  const primary = category?.primary ?? null;
+  const detailed = category?.detailed ?? null;
+
+  if (primary === 'TRANSFER_IN' || primary === 'TRANSFER_OUT') return 'TRANSFER';
+  if (detailed === 'LOAN_PAYMENTS_CREDIT_CARD_PAYMENT') return 'TRANSFER';
+  if (description && isCardPayment(description)) return 'TRANSFER';
+
+  if (amount >= 0) return 'DEBIT';
+
+  // Money in under a spending category is the merchant giving money back
+  if (primary && primary !== 'INCOME') return 'REFUND';
+  return 'CREDIT';
+}
+
+/**
+ * Whether a description looks like paying off a credit card
+ */
+export function isCardPayment(description: string): boolean {
+  return CARD_PAYMENT_PATTERN.test(description);
+}
+
+/**
+ * Whether a description looks like money moving between the user's own accounts
+ */
+export function looksLikeTransfer(description: string): boolean {
+  return TRANSFER_PATTERN.test(description) || isCardPayment(description);
+}
+
+/**
+ * Whether a signed CSV amount is money coming into the account
+ */
+export function isCsvInflow(amount: number, convention: CsvSignConvention = 'negative-is-debit'): boolean {
+  return convention === 'negative-is-debit' ? amount > 0 : amount < 0;
+}
+
+/**
+ * Classify a CSV row from its signed amount and description
+ */
+export function classifyCsvTransaction(
+  amount: number,
+  description: string,
+  convention: CsvSignConvention = 'negative-is-debit'
+): TransactionKind {
+  if (looksLikeTransfer(description)) return 'TRANSFER';
+  if (!isCsvInflow(amount, convention)) return 'DEBIT';
+
+  return REFUND_PATTERN.test(description) ? 'REFUND' : 'CREDIT';
+}
+
+/**
+ * Whether a deposit looks like a paycheck
+ */
+export function isPayrollDeposit(description: string, category?: string | null): boolean {
+  return category === 'INCOME_WAGES' || PAYROLL_PATTERN.test(description);
+}
+
+/**
+ * How a transaction counts toward spending: debits add, refunds subtract,
+ * income and transfers don't count at all
+ */
+export function spendingSign(kind?: TransactionKind | null): 1 | -1 | 0 {
+  switch (kind ?? 'DEBIT') {
+    case 'DEBIT':
+      return 1;
+    case 'REFUND':
+      return -1;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Whether a transaction belongs on the categorization canvas
+ */
+export function isSpendingKind(kind?: TransactionKind | null): boolean {
+  return spendingSign(kind) !== 0;
+}
+
+// A transaction's merchant keys: its normalized merchant name and description
+function merchantKeys(txn: { merchantName: string | null; description: string }): string[] {
+  return [txn.merchantName, txn.description].flatMap((name) => {
+    const key = name ? normalizeMerchant(name) : '';
+    return key ? [key] : [];
+  });
+}
+
+/**
+ * The purchase a refund gives money back for: the first of `purchases` (newest
+ * first) from the same merchant. Names are compared normalized, and a missing
+ * merchant name falls back to the description, so "SQ *JOE'S MARKET #042" and
+ * "Joe's Market" line up.
+ */
+export function findRefundedPurchase<T extends { merchantName: string | null; description: string }>(
+  refund: { merchantName: string | null; description: string },
+  purchases: T[]
+): T | null {
+  const keys = new Set(merchantKeys(refund));
+  if (keys.size === 0) return null;
+  return purchases.find((p) => merchantKeys(p).some((key) => keys.has(key))) ?? null;
+}
@@ -0,0 +1,411 @@
+// Transaction ingest pipeline
+// Shared by CSV import and Plaid sync: saves transactions and files each new one
+// into a zone when the suggestion is confident enough, otherwise into the canvas inbox
+
+import type { Prisma, TrafficLightZone, TransferPairStatus } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { autoCategorize, type AutoCategorizeResult, type CategorizeContext } from '@/lib/services/auto-categorize';
+import { loadUserCategorizationRules } from '@/lib/categorization-rules/server';
+import { loadLearnedMerchants } from '@/lib/categorization-learning/server';
+import { findRefundedPurchase, isSpendingKind } from '@/lib/transactions/direction';
+import { matchTransfersForUser } from '@/lib/transactions/transfers';
+import { matchDebtPayments } from '@/lib/debts/payments';
+import { matchSavingsContributions, reverseTransactionContributions } from '@/lib/savings-goals/contributions';
+import { markRecurringCharges } from '@/lib/recurring/server';
+import type { TransactionKind } from '@/types';
+
+// Matches the UserPreferences.autoFileThreshold column default
+export const DEFAULT_AUTO_FILE_THRESHOLD = 0.9;
+
+// Rows written per database transaction; a Plaid sync page is up to 500
+const INGEST_BATCH_SIZE = 100;
+const INGEST_BATCH_TIMEOUT_MS = 30_000;
+
+// Recent filed purchases compared by name when a refund's merchant doesn't match one exactly
+const REFUND_MATCH_PURCHASES = 200;
+
+export interface IngestTransactionInput {
+  externalId: string;
+  // Positive magnitude; direction is carried by kind
+  amount: number;
+  kind: TransactionKind;
+  // Money came into the account (needed to tell the two legs of a transfer apart)
+  inflow: boolean;
+  description: string;
+  merchantName: string | null;
+  date: Date;
+  source: 'PLAID' | 'MANUAL';
+  defaultCategory: string | null;
+  pending: boolean;
+  // For a posted transaction, the externalId of the pending version it replaces
+  pendingExternalId?: string | null;
+  isRecurring: boolean;
+  plaidConnectionId?: string | null;
+  // Plaid account id of the source account, used for rule and transfer matching
+  accountId?: string | null;
+}
+
+// An input as written to the database: the Plaid account id is kept as plaidAccountId,
+// and accountId points at the stored FinancialAccount
+type TransactionData = Omit<IngestTransactionInput, 'accountId'> & {
+  plaidAccountId: string | null;
+  accountId: string | null;
+};
+
+export interface IngestContext {
+  rules: NonNullable<CategorizeContext['rules']>;
+  learned: NonNullable<CategorizeContext['learned']>;
+  autoFileThreshold: number;
+  suggestionsEnabled: boolean;
+}
+
+export interface IngestResult {
+  created: number;
+  updated: number;
+  autoFiled: number;
+  inboxed: number;
+  // Posted transactions that took over their pending version's categorization
+  reconciled: number;
+  // Income and transfers - saved but never filed into a zone
+  notSpending: number;
+}
+
+/**
+ * Load everything needed to categorize a user's incoming transactions
+ */
+export async function loadIngestContext(userId: string): Promise<IngestContext> {
+  const [rules, learned, preferences] = await Promise.all([
+    loadUserCategorizationRules(userId),
+    loadLearnedMerchants(userId),
+    prisma.userPreferences.findUnique({
+      where: { userId },
+      select: { autoFileThreshold: true, aiSuggestionsEnabled: true },
+    }),
+  ]);
+
+  return {
+    rules,
+    learned,
+    autoFileThreshold: preferences?.autoFileThreshold ?? DEFAULT_AUTO_FILE_THRESHOLD,
+    suggestionsEnabled: preferences?.aiSuggestionsEnabled ?? true,
+  };
+}
+
+/**
+ * Save transactions, keyed by externalId. New transactions get a categorization
+ * carrying the suggestion; existing ones are updated and keep their categorization.
+ */
+export async function ingestTransactions(
+  userId: string,
+  inputs: IngestTransactionInput[],
+  context?: IngestContext
+): Promise<IngestResult> {
+  const result: IngestResult = {
+    created: 0,
+    updated: 0,
+    autoFiled: 0,
+    inboxed: 0,
+    reconciled: 0,
+    notSpending: 0,
+  };
+  if (inputs.length === 0) return result;
+
+  const ctx = context ?? (await loadIngestContext(userId));
+
+  // Each batch commits atomically, so a failure never leaves half-written rows behind
+  for (let start = 0; start < inputs.length; start += INGEST_BATCH_SIZE) {
+    const batch = inputs.slice(start, start + INGEST_BATCH_SIZE);
+    await prisma.$transaction((tx) => ingestBatch(tx, userId, batch, ctx, result), {
+      timeout: INGEST_BATCH_TIMEOUT_MS,
+    });
+  }
+
+  // New rows may complete a transfer whose other leg arrived earlier, pay down a debt,
+  // fund a savings goal or continue a recurring charge
+  if (result.created > 0) {
+    await matchTransfersForUser(userId);
+    await matchDebtPayments(userId);
+    await matchSavingsContributions(userId);
+    await markRecurringCharges(userId);
+  }
+
+  return result;
+}
+
+/**
+ * Write one batch of inputs inside a database transaction, adding to `result`
+ */
+async function ingestBatch(
+  db: Prisma.TransactionClient,
+  userId: string,
+  inputs: IngestTransactionInput[],
+  ctx: IngestContext,
+  result: IngestResult
+): Promise<void> {
+  const existing = await db.transaction.findMany({
+    where: { userId, externalId: { in: inputs.map((t) => t.externalId) } },
+    select: {
+      id: true,
+      externalId: true,
+      amount: true,
+      transferOut: { select: { status: true } },
+      transferIn: { select: { status: true } },
+    },
+  });
+  const existingIds = new Set(existing.map((t) => t.externalId));
+  const existingByExternalId = new Map(existing.map((t) => [t.externalId, t]));
+  // Transactions the user (or the matcher) has paired as a transfer keep kind TRANSFER on re-sync
+  const pairedIds = new Set(existing.filter(isPaired).map((t) => t.externalId));
+
+  // Pending transactions whose posted version is already stored
+  const postedPending = await db.transaction.findMany({
+    where: { userId, pendingExternalId: { in: inputs.filter((t) => t.pending).map((t) => t.externalId) } },
+    select: { pendingExternalId: true },
+  });
+  const postedPendingIds = new Set(postedPending.map((t) => t.pendingExternalId));
+
+  // Stored accounts by Plaid account id; refreshed before each sync
+  const accounts = await db.financialAccount.findMany({
+    where: { userId, plaidAccountId: { in: inputs.flatMap((t) => (t.accountId ? [t.accountId] : [])) } },
+    select: { id: true, plaidAccountId: true },
+  });
+  const accountIds = new Map(accounts.map((a) => [a.plaidAccountId, a.id]));
+
+  for (const input of inputs) {
+    const { accountId, ...fields } = input;
+    const data: TransactionData = {
+      ...fields,
+      plaidAccountId: accountId ?? null,
+      accountId: (accountId && accountIds.get(accountId)) || null,
+    };
+
+    if (data.pending && postedPendingIds.has(input.externalId)) continue;
+
+    // The posted version of a pending transaction takes over its row, so the
+    // purchase is only ever categorized once
+    if (!existingIds.has(input.externalId) && data.pendingExternalId) {
+      if (await reconcilePending(db, userId, data)) {
+        existingIds.add(input.externalId);
+        result.reconciled++;
+        continue;
+      }
+    }
+
+    if (existingIds.has(input.externalId)) {
+      await db.transaction.update({
+        where: { externalId_userId: { externalId: input.externalId, userId } },
+        data: {
+          amount: data.amount,
+          ...(pairedIds.has(input.externalId) ? {} : { kind: data.kind }),
+          inflow: data.inflow,
+          description: data.description,
+          merchantName: data.merchantName,
+          date: data.date,
+          // A re-sync without a category keeps the one already stored
+          ...(data.defaultCategory ? { defaultCategory: data.defaultCategory } : {}),
+          pending: data.pending,
+          // Never cleared on re-sync: the recurring detector may have set it
+          ...(data.isRecurring ? { isRecurring: true } : {}),
+          ...(data.accountId ? { accountId: data.accountId } : {}),
+        },
+      });
+
+      // Plaid can revise a posted amount; split parts must still add up to it
+      const stored = existingByExternalId.get(input.externalId);
+      if (stored) {
+        await rebalanceSplits(db, stored.id, data.amount - stored.amount.toNumber());
+      }
+
+      result.updated++;
+      continue;
+    }
+
+    if (!isSpendingKind(data.kind)) {
+      await db.transaction.create({ data: { ...data, userId } });
+      existingIds.add(input.externalId);
+      result.created++;
+      result.notSpending++;
+      continue;
+    }
+
+    const suggestion = autoCategorize(data.merchantName || '', data.description, data.amount, {
+      rules: ctx.rules,
+      learned: ctx.learned,
+      date: data.date,
+      accountId,
+    });
+
+    // A refund goes back to wherever the user filed that merchant's purchases
+    const refundZone = data.kind === 'REFUND'
+      ? await findPurchaseZone(db, userId, data)
+      : null;
+    const autoFile = refundZone !== null || (ctx.suggestionsEnabled && suggestion.confidence >= ctx.autoFileThreshold);
+
+    // Transaction and categorization are written together so nothing is left unfiled
+    await db.transaction.create({
+      data: {
+        ...data,
+        userId,
+        defaultCategory: data.defaultCategory ?? suggestedCategory(suggestion, ctx.rules),
+        categorization: {
+          create: {
+            userId,
+            zone: refundZone ?? (autoFile ? suggestion.zone : 'UNCATEGORIZED'),
+            aiSuggestedZone: suggestion.zone,
+            aiConfidence: suggestion.confidence,
+            aiReasoning: suggestion.reasoning,
+            aiSource: suggestion.source,
+          },
+        },
+      },
+    });
+    existingIds.add(input.externalId);
+
+    result.created++;
+    if (autoFile) {
+      result.autoFiled++;
+    } else {
+      result.inboxed++;
+    }
+  }
+}
+
+/**
+ * The category a suggestion names, when it's a real one: a built-in rule's, or a
+ * user rule's if the rule sets one. Heuristic guesses and the "Custom Rule" and
+ * "Learned" placeholders are never saved.
+ */
+function suggestedCategory(suggestion: AutoCategorizeResult, rules: IngestContext['rules']): string | null {
+  if (suggestion.source.startsWith('builtin:')) return suggestion.category;
+  if (suggestion.source.startsWith('rule:')) {
+    const ruleId = suggestion.source.slice('rule:'.length);
+    return rules.find((r) => r.id === ruleId)?.category || null;
+  }
+  return null;
+}
+
+function isPaired(txn: {
+  transferOut: { status: TransferPairStatus } | null;
+  transferIn: { status: TransferPairStatus } | null;
+}): boolean {
+  return [txn.transferOut, txn.transferIn].some((p) => p !== null && p.status !== 'REJECTED');
+}
+
+/**
+ * Turn a stored pending transaction into its posted version in place, keeping
+ * its categorization, splits and transfer pair. If the posted amount differs
+ * (a tip, a hotel hold), the largest split part absorbs the difference, or the
+ * split is dropped when it can't. Returns false if the pending version was never stored.
+ */
+async function reconcilePending(
+  db: Prisma.TransactionClient,
+  userId: string,
+  data: TransactionData
+): Promise<boolean> {
+  const pending = await db.transaction.findFirst({
+    where: { userId, externalId: data.pendingExternalId, pending: true },
+    select: {
+      id: true,
+      amount: true,
+      transferOut: { select: { status: true } },
+      transferIn: { select: { status: true } },
+    },
+  });
+  if (!pending) return false;
+
+  const { kind, ...posted } = data;
+
+  await db.transaction.update({
+    where: { id: pending.id },
+    data: { ...posted, ...(isPaired(pending) ? {} : { kind }) },
+  });
+
+  await rebalanceSplits(db, pending.id, data.amount - pending.amount.toNumber());
+
+  return true;
+}
+
+/**
+ * Keep a split transaction's parts summing to its amount after the amount changes
+ * by `difference`: the largest part absorbs it, or the split is dropped when it can't.
+ */
+async function rebalanceSplits(
+  db: Prisma.TransactionClient,
+  transactionId: string,
+  difference: number
+): Promise<void> {
+  const rounded = Math.round(difference * 100) / 100;
+  if (rounded === 0) return;
+
+  const largestSplit = await db.transactionSplit.findFirst({
+    where: { transactionId },
+    orderBy: { amount: 'desc' },
+    select: { id: true, amount: true },
+  });
+  if (!largestSplit) return;
+
+  const adjusted = largestSplit.amount.toNumber() + rounded;
+  if (adjusted > 0) {
+    await db.transactionSplit.update({ where: { id: largestSplit.id }, data: { amount: adjusted } });
+  } else {
+    await db.transactionSplit.deleteMany({ where: { transactionId } });
+  }
+}
+
+/**
+ * Zone of the most recent filed purchase from a merchant, used to net refunds.
+ * An exact merchant name is looked up directly; otherwise recent purchases are
+ * compared by normalized name.
+ */
+async function findPurchaseZone(
+  db: Prisma.TransactionClient,
+  userId: string,
+  refund: { merchantName: string | null; description: string }
+): Promise<TrafficLightZone | null> {
+  const filedPurchase = {
+    userId,
+    kind: 'DEBIT',
+    categorization: { zone: { not: 'UNCATEGORIZED' } },
+  } satisfies Prisma.TransactionWhereInput;
+
+  if (refund.merchantName) {
+    const purchase = await db.transaction.findFirst({
+      where: { ...filedPurchase, merchantName: { equals: refund.merchantName, mode: 'insensitive' } },
+      orderBy: { date: 'desc' },
+      select: { categorization: { select: { zone: true } } },
+    });
+    if (purchase?.categorization) return purchase.categorization.zone;
+  }
+
+  const recent = await db.transaction.findMany({
+    where: filedPurchase,
+    orderBy: { date: 'desc' },
+    take: REFUND_MATCH_PURCHASES,
+    select: { merchantName: true, description: true, categorization: { select: { zone: true } } },
+  });
+
+  return findRefundedPurchase(refund, recent)?.categorization?.zone ?? null;
+}
+
+/**
+ * Delete transactions by externalId (e.g. removed upstream by the bank), taking
+ * any savings contributions they made back off their goals
+ */
+export async function removeTransactionsByExternalId(
+  userId: string,
+  externalIds: string[]
+): Promise<number> {
+  if (externalIds.length === 0) return 0;
+
+  // Savings goals funded by these transactions give the money back first
+  const removed = await prisma.transaction.findMany({
+    where: { userId, externalId: { in: externalIds } },
+    select: { id: true },
+  });
+  await reverseTransactionContributions(userId, removed.map((t) => t.id));
+
+  const result = await prisma.transaction.deleteMany({
+    where: { userId, externalId: { in: externalIds } },
+  });
+  return result.count;
+}
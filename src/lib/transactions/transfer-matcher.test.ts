@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { matchTransfers, type TransferCandidate } from './transfer-matcher';
+
+function leg(overrides: Partial<TransferCandidate> & Pick<TransferCandidate, 'id'>): TransferCandidate {
+  return {
+    amount: 500,
+    kind: 'TRANSFER',
+    inflow: false,
+    date: new Date('2026-10-01T00:00:00Z'),
+    description: 'Online transfer',
+    accountId: null,
+    ...overrides,
+  };
+}
+
+const pairs = (candidates: TransferCandidate[]) =>
+  matchTransfers(candidates).map((m) => [m.outflow.id, m.inflow.id, m.matchedBy]);
+
+describe('matchTransfers', () => {
+  it('pairs legs of the same amount on different accounts', () => {
+    expect(pairs([
+      leg({ id: 'out', accountId: 'checking', description: 'ACH DEBIT' }),
+      leg({ id: 'in', accountId: 'savings', inflow: true, kind: 'CREDIT', description: 'ACH CREDIT' }),
+    ])).toEqual([['out', 'in', 'amount']]);
+  });
+
+  it('never pairs two legs on the same account', () => {
+    expect(pairs([
+      leg({ id: 'out', accountId: 'checking' }),
+      leg({ id: 'in', accountId: 'checking', inflow: true }),
+    ])).toEqual([]);
+  });
+
+  it('needs a transfer-like description when an account is unknown', () => {
+    expect(pairs([
+      leg({ id: 'purchase', kind: 'DEBIT', description: 'BEST BUY' }),
+      leg({ id: 'deposit', inflow: true, kind: 'CREDIT', description: 'MOBILE DEPOSIT' }),
+    ])).toEqual([]);
+  });
+
+  it('labels credit card payments', () => {
+    expect(pairs([
+      leg({ id: 'out', description: 'CHASE CREDIT CRD AUTOPAY' }),
+      leg({ id: 'in', inflow: true, description: 'Payment Thank You' }),
+    ])).toEqual([['out', 'in', 'card-payment']]);
+  });
+
+  it('ignores legs more than four days apart or of different amounts', () => {
+    expect(pairs([
+      leg({ id: 'out' }),
+      leg({ id: 'late', inflow: true, date: new Date('2026-10-06T00:00:00Z') }),
+      leg({ id: 'other', inflow: true, amount: 500.01 }),
+    ])).toEqual([]);
+  });
+
+  it('uses each leg once, closest dates first', () => {
+    expect(pairs([
+      leg({ id: 'out-1', date: new Date('2026-10-01T00:00:00Z') }),
+      leg({ id: 'out-2', date: new Date('2026-10-03T00:00:00Z') }),
+      leg({ id: 'in-1', inflow: true, date: new Date('2026-10-01T00:00:00Z') }),
+      leg({ id: 'in-2', inflow: true, date: new Date('2026-10-03T00:00:00Z') }),
+    ])).toEqual([
+      ['out-1', 'in-1', 'amount'],
+      ['out-2', 'in-2', 'amount'],
+    ]);
+  });
+
+  it('never treats a refund as the receiving leg', () => {
+    expect(pairs([
+      leg({ id: 'out' }),
+      leg({ id: 'refund', inflow: true, kind: 'REFUND' }),
+    ])).toEqual([]);
+  });
+});
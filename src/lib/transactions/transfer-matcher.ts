@@ -0,0 +1,78 @@
+// Transfer matcher
+// Pairs money leaving one of the user's accounts with the same amount arriving in another
+
+import { isCardPayment, looksLikeTransfer } from '@/lib/transactions/direction';
+import type { TransactionKind } from '@/types';
+
+// Banks can take a few business days to post the receiving leg
+export const TRANSFER_WINDOW_DAYS = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TransferCandidate {
+  id: string;
+  amount: number;
+  kind: TransactionKind;
+  inflow: boolean;
+  date: Date;
+  description: string;
+  accountId: string | null;
+}
+
+export interface TransferMatch {
+  outflow: TransferCandidate;
+  inflow: TransferCandidate;
+  matchedBy: 'card-payment' | 'amount';
+}
+
+const toCents = (amount: number) => Math.round(Math.abs(amount) * 100);
+
+/**
+ * Whether two legs could be the same money moving between the user's accounts.
+ * Legs on different known accounts always qualify; otherwise one side has to
+ * read like a transfer, so a purchase and an unrelated deposit of the same
+ * amount aren't paired.
+ */
+function isPlausiblePair(outflow: TransferCandidate, inflow: TransferCandidate): boolean {
+  if (outflow.accountId && inflow.accountId) {
+    return outflow.accountId !== inflow.accountId;
+  }
+  return looksLikeTransfer(outflow.description) || looksLikeTransfer(inflow.description);
+}
+
+/**
+ * Pair outflows with inflows of the same amount within TRANSFER_WINDOW_DAYS.
+ * Each transaction is used at most once; the closest dates win.
+ */
+export function matchTransfers(candidates: TransferCandidate[]): TransferMatch[] {
+  const outflows = candidates.filter((t) => !t.inflow && (t.kind === 'DEBIT' || t.kind === 'TRANSFER'));
+  const inflows = candidates.filter((t) => t.inflow && (t.kind === 'CREDIT' || t.kind === 'TRANSFER'));
+
+  const options: Array<{ outflow: TransferCandidate; inflow: TransferCandidate; gap: number }> = [];
+  for (const outflow of outflows) {
+    for (const inflow of inflows) {
+      if (toCents(outflow.amount) !== toCents(inflow.amount)) continue;
+      const gap = Math.abs(outflow.date.getTime() - inflow.date.getTime());
+      if (gap > TRANSFER_WINDOW_DAYS * DAY_MS) continue;
+      if (!isPlausiblePair(outflow, inflow)) continue;
+      options.push({ outflow, inflow, gap });
+    }
+  }
+
+  options.sort((a, b) => a.gap - b.gap);
+
+  const used = new Set<string>();
+  const matches: TransferMatch[] = [];
+  for (const { outflow, inflow } of options) {
+    if (used.has(outflow.id) || used.has(inflow.id)) continue;
+    used.add(outflow.id);
+    used.add(inflow.id);
+    matches.push({
+      outflow,
+      inflow,
+      matchedBy: isCardPayment(outflow.description) || isCardPayment(inflow.description) ? 'card-payment' : 'amount',
+    });
+  }
+
+  return matches;
+}
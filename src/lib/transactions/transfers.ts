@@ -0,0 +1,157 @@
+// Server-side helpers for internal transfer pairs
+// Runs the matcher over recent transactions and applies the user's review decisions
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { matchTransfers, type TransferCandidate } from '@/lib/transactions/transfer-matcher';
+import type { TransferLeg, TransferPair } from '@/types';
+
+// Only recent transactions are considered so a re-run stays cheap
+const MATCH_LOOKBACK_DAYS = 60;
+
+const legSelect = {
+  id: true,
+  amount: true,
+  description: true,
+  merchantName: true,
+  date: true,
+  plaidAccountId: true,
+} satisfies Prisma.TransactionSelect;
+
+const pairInclude = {
+  outflow: { select: legSelect },
+  inflow: { select: legSelect },
+} satisfies Prisma.TransferPairInclude;
+
+type PairWithLegs = Prisma.TransferPairGetPayload<{ include: typeof pairInclude }>;
+type LegRecord = PairWithLegs['outflow'];
+
+const serializeLeg = (leg: LegRecord): TransferLeg => ({
+  id: leg.id,
+  amount: Number(leg.amount),
+  description: leg.description,
+  merchantName: leg.merchantName,
+  date: leg.date,
+  accountId: leg.plaidAccountId,
+});
+
+export function serializeTransferPair(pair: PairWithLegs): TransferPair {
+  return {
+    id: pair.id,
+    status: pair.status,
+    matchedBy: pair.matchedBy,
+    outflow: serializeLeg(pair.outflow),
+    inflow: serializeLeg(pair.inflow),
+    createdAt: pair.createdAt,
+  };
+}
+
+/**
+ * List a user's transfer pairs (newest first), optionally filtered by status
+ */
+export async function listTransferPairs(
+  userId: string,
+  status?: TransferPair['status']
+): Promise<TransferPair[]> {
+  const pairs = await prisma.transferPair.findMany({
+    where: { userId, ...(status ? { status } : {}) },
+    include: pairInclude,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return pairs.map(serializeTransferPair);
+}
+
+/**
+ * Find new transfer pairs among a user's recent, unpaired transactions.
+ * Both legs become kind TRANSFER so they drop out of zone totals; the kinds
+ * they had before are kept on the pair so unlinking can restore them.
+ * Returns the number of pairs created.
+ */
+export async function matchTransfersForUser(userId: string): Promise<number> {
+  const since = new Date(Date.now() - MATCH_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  // Anything already in a pair - including rejected ones - is never re-matched
+  const rows = await prisma.transaction.findMany({
+    where: {
+      userId,
+      date: { gte: since },
+      kind: { not: 'REFUND' },
+      transferOut: { is: null },
+      transferIn: { is: null },
+    },
+    select: { id: true, amount: true, kind: true, inflow: true, date: true, description: true, plaidAccountId: true },
+  });
+
+  const candidates: TransferCandidate[] = rows.map((row) => ({
+    id: row.id,
+    amount: Number(row.amount),
+    kind: row.kind,
+    inflow: row.inflow,
+    date: row.date,
+    description: row.description,
+    accountId: row.plaidAccountId,
+  }));
+
+  const matches = matchTransfers(candidates);
+  if (matches.length === 0) return 0;
+
+  await prisma.$transaction(
+    matches.flatMap(({ outflow, inflow, matchedBy }) => [
+      prisma.transferPair.create({
+        data: {
+          userId,
+          outflowId: outflow.id,
+          inflowId: inflow.id,
+          matchedBy,
+          outflowKind: outflow.kind,
+          inflowKind: inflow.kind,
+        },
+      }),
+      prisma.transaction.updateMany({
+        where: { id: { in: [outflow.id, inflow.id] }, userId },
+        data: { kind: 'TRANSFER' },
+      }),
+    ])
+  );
+
+  return matches.length;
+}
+
+/**
+ * Mark a pair as reviewed by the user. Returns null if the pair isn't theirs.
+ */
+export async function confirmTransferPair(userId: string, pairId: string): Promise<TransferPair | null> {
+  const pair = await prisma.transferPair.findFirst({ where: { id: pairId, userId } });
+  if (!pair) return null;
+
+  const updated = await prisma.transferPair.update({
+    where: { id: pair.id },
+    data: { status: 'CONFIRMED' },
+    include: pairInclude,
+  });
+
+  return serializeTransferPair(updated);
+}
+
+/**
+ * Undo a pair: both transactions get their original kinds back and count as
+ * spending or income again. The pair is kept as REJECTED so the matcher
+ * doesn't suggest it again. Returns null if the pair isn't theirs.
+ */
+export async function unlinkTransferPair(userId: string, pairId: string): Promise<TransferPair | null> {
+  const pair = await prisma.transferPair.findFirst({ where: { id: pairId, userId } });
+  if (!pair) return null;
+
+  const [, , updated] = await prisma.$transaction([
+    prisma.transaction.update({ where: { id: pair.outflowId }, data: { kind: pair.outflowKind } }),
+    prisma.transaction.update({ where: { id: pair.inflowId }, data: { kind: pair.inflowKind } }),
+    prisma.transferPair.update({
+      where: { id: pair.id },
+      data: { status: 'REJECTED' },
+      include: pairInclude,
+    }),
+  ]);
+
+  return serializeTransferPair(updated);
+}
@@ -9,6 +9,9 @@ export type { TrafficLightZone, SubscriptionTier, SubscriptionStatus };
 // Transaction source
 export type TransactionSource = 'DEMO' | 'PLAID' | 'MANUAL';
 
+// Direction of a transaction; amounts are always stored as positive magnitudes
+export type TransactionKind = 'DEBIT' | 'CREDIT' | 'REFUND' | 'TRANSFER';
+
 // User types
 export interface User {
   id: string;
@@ -49,6 +52,10 @@ export interface Transaction {
   merchantName: string | null;
   date: Date;
   source: TransactionSource;
+  // Absent on demo data, which is all spending
+  kind?: TransactionKind;
+  // FinancialAccount the transaction came from (Plaid only)
+  accountId?: string | null;
   externalId: string | null;
   defaultCategory: string | null;
   pending: boolean;
@@ -71,13 +78,85 @@ export interface UserCategorization {
   aiSuggestedZone: TrafficLightZone | null;
   aiConfidence: number | null;
   aiReasoning: string | null;
+  aiSource: string | null;
   userOverrodeAI: boolean;
   note: string | null;
   sortOrder: number;
+  // Present when the transaction is divided across zones
+  splits?: TransactionSplitPart[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// One part of a split transaction; parts always sum to the transaction amount
+export interface TransactionSplitPart {
+  amount: number;
+  zone: TrafficLightZone;
+  category: string | null;
+  note: string | null;
+}
+
+// Two of the user's own transactions that are the same money moving between accounts
+export type TransferPairStatus = 'SUGGESTED' | 'CONFIRMED' | 'REJECTED';
+
+export interface TransferLeg {
+  id: string;
+  amount: number;
+  description: string;
+  merchantName: string | null;
+  date: Date;
+  accountId: string | null;
+}
+
+export interface TransferPair {
+  id: string;
+  status: TransferPairStatus;
+  matchedBy: string;
+  outflow: TransferLeg;
+  inflow: TransferLeg;
+  createdAt: Date;
+}
+
+// User-defined categorization rules (evaluated before built-in rules)
+export interface CategorizationRule {
+  id: string;
+  userId: string;
+  name: string;
+  priority: number;
+  isEnabled: boolean;
+  merchantContains: string | null;
+  merchantRegex: string | null;
+  minAmount: number | null;
+  maxAmount: number | null;
+  daysOfWeek: number[];
+  accountIds: string[];
+  zone: TrafficLightZone;
+  category: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Zone learned from the user's own choices for a normalized merchant
+export interface LearnedMerchantZone {
+  merchantKey: string;
+  zone: TrafficLightZone;
+  timesConfirmed: number;
+  totalChoices: number;
+  lastChosenAt: Date;
+}
+
+export interface SuggestionAccuracy {
+  total: number;
+  overridden: number;
+  overrideRate: number;
+}
+
+export interface CategorizationAccuracy {
+  overall: SuggestionAccuracy;
+  byZone: Array<SuggestionAccuracy & { zone: TrafficLightZone }>;
+  bySource: Array<SuggestionAccuracy & { source: string; label: string }>;
+}
+
 // Goal types
 export type GoalType = 'SPENDING_LIMIT' | 'ZONE_RATIO' | 'STREAK' | 'SAVINGS_TARGET';
 export type GoalStatus = 'ACTIVE' | 'COMPLETED' | 'FAILED' | 'PAUSED';
@@ -100,6 +179,8 @@ export interface Goal {
 
 export interface GoalTargetConfig {
   zone?: TrafficLightZone;
+  // SPENDING_LIMIT goals can follow a budget: its spending against what's available this month
+  budgetId?: string;
   amount?: number;
   period?: 'daily' | 'weekly' | 'monthly';
   minPercent?: number;
@@ -108,6 +189,31 @@ export interface GoalTargetConfig {
   targetDate?: string;
 }
 
+// Budget types
+// A monthly envelope for one zone or one defaultCategory. With rollover, money left at
+// the end of a month carries into the next; carryover is what had built up by startMonth.
+export interface Budget {
+  id: string;
+  userId: string;
+  zone: TrafficLightZone | null;
+  category: string | null;
+  amount: number;
+  rollover: boolean;
+  carryover: number;
+  startMonth: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Where a budget stands this month
+export interface BudgetStatus extends Budget {
+  carriedIn: number;
+  available: number; // amount + carriedIn
+  spent: number;
+  remaining: number; // Negative when overspent
+  percentUsed: number;
+}
+
 // Alert types
 export type AlertType =
   | 'SPENDING_THRESHOLD'
@@ -133,6 +239,8 @@ export interface Alert {
 
 export interface AlertConfig {
   zone?: TrafficLightZone;
+  // SPENDING_THRESHOLD alerts on a budget compare against what's available this month
+  budgetId?: string;
   amount?: number;
   period?: 'daily' | 'weekly' | 'monthly';
   threshold?: number;
@@ -175,6 +283,23 @@ export interface PlaidAccount {
   mask: string | null;
 }
 
+// A linked bank, card or loan account with its latest balances
+export interface FinancialAccount {
+  id: string;
+  plaidConnectionId: string;
+  institutionName: string | null;
+  name: string;
+  officialName: string | null;
+  mask: string | null;
+  type: string;
+  subtype: string | null;
+  currentBalance: number | null;
+  availableBalance: number | null;
+  creditLimit: number | null;
+  isoCurrencyCode: string | null;
+  balanceUpdatedAt: Date | null;
+}
+
 // Monthly report types
 export interface MonthlyReport {
   id: string;
@@ -264,13 +389,50 @@ export interface IncomeSource {
   amount: number;
   frequency: IncomeFrequency;
   isActive: boolean;
+  // Set when the source was added from detected payroll deposits
+  detectedKey?: string;
 }
 
 export interface IncomeSettings {
   sources: IncomeSource[];
+  // Detected payroll sources the user removed - never re-added automatically
+  dismissedDetectedKeys?: string[];
   updatedAt: Date;
 }
 
+// Recurring payroll deposits found in the user's transactions
+export interface DetectedIncomeSource {
+  key: string;
+  name: string;
+  amount: number;
+  frequency: IncomeFrequency;
+  occurrences: number;
+  lastDepositAt: Date;
+}
+
+// Recurring charge types
+export type RecurringCadence = 'weekly' | 'monthly' | 'annual';
+
+// missed: the expected charge is overdue; stopped: two or more in a row are, so it was likely cancelled
+export type RecurringChargeStatus = 'active' | 'missed' | 'stopped';
+
+// A series of charges from one merchant at a steady amount and cadence
+export interface RecurringCharge {
+  key: string;
+  name: string;
+  cadence: RecurringCadence;
+  amount: number; // Latest charge
+  previousAmount: number | null; // Price before the latest change, if it has changed
+  priceIncrease: number | null; // Set for a couple of months after a steady price goes up
+  monthlyCost: number;
+  occurrences: number;
+  lastChargedAt: Date;
+  nextChargeAt: Date;
+  status: RecurringChargeStatus;
+  defaultCategory: string | null;
+  transactionIds: string[];
+}
+
 // Calculated income values
 export interface IncomeCalculations {
   monthlyIncome: number;
@@ -283,7 +445,7 @@ export interface IncomeCalculations {
 // ADVISOR TIER - DEBT PAYOFF
 // ============================================
 
-export type DebtPayoffStrategy = 'SNOWBALL' | 'AVALANCHE' | 'CUSTOM';
+export type DebtPayoffStrategy = 'SNOWBALL' | 'AVALANCHE' | 'CASH_FLOW_INDEX' | 'HYBRID' | 'CUSTOM';
 
 export interface Debt {
   id: string;
@@ -297,6 +459,16 @@ export interface Debt {
   isPaidOff: boolean;
   paidOffDate: Date | null;
   originalBalance: number | null;
+  // Promotional APR (0% intro, balance transfer) until promoEndDate, then interestRate
+  promoRate?: number | null;
+  promoEndDate?: Date | null;
+  transferFee?: number | null; // One-time balance transfer fee
+  transferFeeAppliedAt?: Date | null; // When the fee was folded into the balance
+  minimumPaymentPercent?: number | null; // Minimum as a share of balance; minimumPayment is the floor
+  // Linked credit card or loan account; balance, APR, minimum and due date sync from Plaid
+  accountId?: string | null;
+  liabilityType?: 'credit' | 'student' | null;
+  syncedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -330,11 +502,64 @@ export interface DebtPayoffPlan {
   extraMonthlyPayment: number;
 }
 
+export type DebtPaymentSource = 'MANUAL' | 'TRANSACTION';
+
+// A payment actually made against a debt, entered by hand or matched from a transaction
+export interface DebtPayment {
+  id: string;
+  debtId: string;
+  transactionId: string | null;
+  amount: number;
+  principal: number;
+  interest: number; // Part of the payment that went to that month's interest
+  balanceAfter: number;
+  date: Date;
+  source: DebtPaymentSource;
+  note: string | null;
+  createdAt: Date;
+}
+
+export type DebtProgressStatus = 'AHEAD' | 'ON_TRACK' | 'BEHIND';
+
+// Where a debt stands against its payoff plan since its first recorded payment
+export interface DebtPlanVsActual {
+  debtId: string;
+  since: Date;
+  monthsTracked: number;
+  plannedBalance: number;
+  actualBalance: number;
+  balanceDifference: number; // Planned minus actual (positive = ahead)
+  plannedPaid: number;
+  actualPaid: number;
+  plannedInterest: number;
+  interestPaid: number;
+  status: DebtProgressStatus;
+}
+
+// A consolidation loan to weigh against paying the debts off as they are
+export interface ConsolidationOffer {
+  interestRate: number; // As decimal (0.0899 = 8.99%)
+  termMonths: number;
+  fee: number; // Origination fee, added to the loan
+}
+
+export type DebtScenario = DebtPayoffStrategy | 'CONSOLIDATION';
+
+export interface DebtScenarioOutcome {
+  scenario: DebtScenario;
+  plan: DebtPayoffPlan;
+  interestDifference: number; // vs the current strategy (negative = cheaper)
+  monthsDifference: number; // vs the current strategy (negative = sooner)
+}
+
 export interface DebtComparison {
   snowball: DebtPayoffPlan;
   avalanche: DebtPayoffPlan;
   interestSaved: number; // How much avalanche saves vs snowball
   timeDifference: number; // Months difference (positive = snowball faster)
+  current: DebtPayoffStrategy;
+  outcomes: DebtScenarioOutcome[]; // Every strategy, plus consolidation when there's an offer
+  best: DebtScenario; // Lowest total interest
 }
 
 // ============================================
@@ -362,16 +587,46 @@ export interface SavingsGoal {
   targetDate: Date | null;
   isCompleted: boolean;
   completedDate: Date | null;
+  // Transfers into this account, or whose description contains transferPattern,
+  // become contributions automatically from linkedAt onward
+  accountId?: string | null;
+  transferPattern?: string | null;
+  linkedAt?: Date | null;
+  // Annual return as decimal (0.045 = 4.5%), compounded at `compounding`; null earns nothing
+  expectedReturn?: number | null;
+  compounding?: CompoundingFrequency;
+  // Annual inflation as decimal; when set the target is in today's dollars
+  inflationRate?: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type CompoundingFrequency = 'DAILY' | 'MONTHLY' | 'QUARTERLY' | 'ANNUALLY';
+
+export type SavingsContributionSource = 'MANUAL' | 'TRANSACTION';
+
 export interface SavingsContribution {
   id: string;
   savingsGoalId: string;
-  amount: number;
+  amount: number; // Negative for a withdrawal from a linked account
   date: Date;
   note: string | null;
+  transactionId?: string | null;
+  source?: SavingsContributionSource;
+}
+
+export type SavingsMatchStatus = 'PENDING' | 'ACCEPTED' | 'DISMISSED';
+
+// A transaction that may belong to a savings goal, waiting for the user to pick one
+export interface SavingsMatch {
+  id: string;
+  transactionId: string;
+  goalIds: string[];
+  amount: number;
+  description: string;
+  date: Date;
+  status: SavingsMatchStatus;
+  createdAt: Date;
 }
 
 export interface SavingsGoalWithContributions extends SavingsGoal {
@@ -390,6 +645,62 @@ export interface SavingsProjection {
   onTrack: boolean; // If target date exists, are they on track?
   monthlyNeededForTarget: number | null; // If target date exists, how much/month needed?
   progressPercent: number;
+  expectedReturn: number;
+  compounding: CompoundingFrequency;
+  inflationRate: number | null;
+  projectedGrowth: number; // Return earned on the way to the goal
+  outcomeBand: SavingsOutcomeBand | null; // Retirement goals with an expected return
+}
+
+// Spread of simulated balances at the horizon (target date, or projected completion)
+export interface SavingsOutcomeBand {
+  horizonMonths: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  chanceOfReachingTarget: number; // 0-1
+}
+
+// ============================================
+// ADVISOR TIER - NET WORTH
+// ============================================
+
+export type AssetType = 'CASH' | 'PROPERTY' | 'VEHICLE' | 'INVESTMENT' | 'OTHER';
+
+// Something the user owns that isn't in a linked account (a house, a car)
+export interface ManualAsset {
+  id: string;
+  name: string;
+  type: AssetType;
+  value: number;
+  updatedAt: Date;
+}
+
+export interface NetWorthBreakdown {
+  // Assets
+  cash: number; // Linked checking and savings accounts
+  investments: number; // Linked brokerage and retirement accounts
+  manualAssets: number;
+  savingsGoals: number;
+  // Liabilities
+  creditCards: number; // Linked credit card balances
+  loans: number; // Linked loan balances
+  debts: number; // Planner debts that aren't linked to an account
+}
+
+export interface NetWorthSnapshot {
+  date: Date;
+  totalAssets: number;
+  totalLiabilities: number;
+  netWorth: number;
+  breakdown: NetWorthBreakdown;
+}
+
+export interface NetWorthSummary {
+  current: NetWorthSnapshot | null;
+  history: NetWorthSnapshot[]; // Oldest first
+  monthOverMonth: number | null; // Null until there's a snapshot from a month ago
+  assets: ManualAsset[];
 }
 
 // ============================================